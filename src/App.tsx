@@ -101,6 +101,14 @@ const App = () => (
                     </AuthWrapper>
                   }
                 />
+                <Route
+                  path="/journal/:entryId/edit"
+                  element={
+                    <AuthWrapper requireAuth>
+                      <Journal />
+                    </AuthWrapper>
+                  }
+                />
                 <Route
                   path="/journal-entries"
                   element={
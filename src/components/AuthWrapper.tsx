@@ -1,7 +1,10 @@
 
 import React from 'react';
 import { useAuth } from '../utils/auth';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { logout } from '../utils/firebase';
+import { getActiveSuspension } from '../utils/moderationService';
 
 interface AuthWrapperProps {
   children: React.ReactNode;
@@ -16,7 +19,8 @@ const AuthWrapper: React.FC<AuthWrapperProps> = ({
   requireAdmin = false,
   redirectTo = '/login'
 }) => {
-  const { currentUser, isAdmin, isLoading } = useAuth();
+  const { currentUser, userProfile, isAdmin, isLoading } = useAuth();
+  const location = useLocation();
 
   // Show loading state
   if (isLoading) {
@@ -37,6 +41,32 @@ const AuthWrapper: React.FC<AuthWrapperProps> = ({
     return <Navigate to={redirectTo} replace />;
   }
 
+  // Suspended and banned members only see why, until it ends
+  const suspension = requireAuth ? getActiveSuspension(userProfile) : null;
+  if (suspension) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <div className="max-w-md space-y-4 text-center">
+          <h1 className="text-2xl font-semibold">
+            {suspension.kind === 'banned' ? 'Your account has been banned' : 'Your account is suspended'}
+          </h1>
+          <p className="text-muted-foreground">{suspension.reason}</p>
+          {suspension.until && (
+            <p className="text-sm text-muted-foreground">
+              You can use PurePath again from {suspension.until.toDate().toLocaleString()}.
+            </p>
+          )}
+          <Button variant="outline" onClick={logout}>Log out</Button>
+        </div>
+      </div>
+    );
+  }
+
+  // A password reset forced by an admin comes before everything else
+  if (requireAuth && userProfile?.passwordResetRequired && location.pathname !== '/profile') {
+    return <Navigate to="/profile?tab=security" replace />;
+  }
+
   // Check admin role
   if (requireAdmin && !isAdmin) {
     return <Navigate to="/unauthorized" replace />;
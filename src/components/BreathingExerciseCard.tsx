@@ -14,8 +14,7 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useAuth } from '@/utils/auth';
-import { db } from '@/utils/firebase';
-import { doc, updateDoc, arrayUnion, arrayRemove, getDoc } from 'firebase/firestore';
+import { repository } from '@/utils/repository';
 import { Slider } from '@/components/ui/slider';
 import { toast } from 'sonner';
 
@@ -152,13 +151,8 @@ const BreathingExerciseCard: React.FC<BreathingExerciseCardProps> = ({
   useEffect(() => {
     const fetchFavoriteStatus = async () => {
       if (currentUser) {
-        const userDocRef = doc(db, 'users', currentUser.uid);
-        const userDocSnap = await getDoc(userDocRef);
-
-        if (userDocSnap.exists()) {
-          const userData = userDocSnap.data();
-          setIsFavorited(userData.meditations?.includes(id) || false);
-        }
+        const favoriteIds = await repository.favorites.list(currentUser.uid);
+        setIsFavorited(favoriteIds.includes(id));
       }
     };
 
@@ -292,18 +286,12 @@ const BreathingExerciseCard: React.FC<BreathingExerciseCardProps> = ({
       return;
     }
 
-    const userDocRef = doc(db, 'users', currentUser.uid);
-
     try {
       if (!isFavorited) {
-        await updateDoc(userDocRef, {
-          meditations: arrayUnion(id),
-        });
+        await repository.favorites.add(currentUser.uid, id);
         console.log('Added to favorites');
       } else {
-        await updateDoc(userDocRef, {
-          meditations: arrayRemove(id),
-        });
+        await repository.favorites.remove(currentUser.uid, id);
         console.log('Removed from favorites');
       }
 
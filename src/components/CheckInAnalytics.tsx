@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { format, parseISO, subDays } from 'date-fns';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useIsMobile } from '@/hooks/use-mobile';
+import {
+  buildCheckInHeatmap,
+  CheckInEvent,
+  countDailyActiveMembers,
+  getCheckInEvents,
+  WEEKDAY_NAMES
+} from '../utils/checkInAnalytics';
+
+// Preset ranges in days; anything else picked in the date inputs is 'custom'
+const RANGE_PRESETS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' }
+];
+
+const DEFAULT_RANGE_DAYS = 30;
+
+const toInputValue = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const getHourLabel = (hour: number) => {
+  const hourStr = hour % 12 || 12;
+  const ampm = hour < 12 ? 'AM' : 'PM';
+  return `${hourStr}${ampm}`;
+};
+
+// When members check in over a chosen range: a weekday by hour heatmap and daily active members
+const CheckInAnalytics: React.FC = () => {
+  const [preset, setPreset] = useState(String(DEFAULT_RANGE_DAYS));
+  const [from, setFrom] = useState(() => subDays(new Date(), DEFAULT_RANGE_DAYS - 1));
+  const [to, setTo] = useState(() => new Date());
+  const [events, setEvents] = useState<CheckInEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const isMobile = useIsMobile();
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setIsLoading(true);
+      setEvents(await getCheckInEvents(from, to));
+      setIsLoading(false);
+    };
+
+    fetchEvents();
+  }, [from, to]);
+
+  const handlePreset = (value: string) => {
+    setPreset(value);
+    setFrom(subDays(new Date(), Number(value) - 1));
+    setTo(new Date());
+  };
+
+  // Empty or reversed ranges from the date inputs are ignored
+  const handleDateInput = (value: string, edge: 'from' | 'to') => {
+    if (!value) return;
+    const date = parseISO(value);
+    if (edge === 'from' ? date > to : date < from) return;
+
+    setPreset('custom');
+    (edge === 'from' ? setFrom : setTo)(date);
+  };
+
+  const heatmap = buildCheckInHeatmap(events);
+  const busiest = Math.max(1, ...heatmap.flat());
+  const dailyActive = countDailyActiveMembers(events, from, to);
+  const memberCount = new Set(events.map(event => event.userId)).size;
+  const averageActive = dailyActive.length > 0
+    ? dailyActive.reduce((total, day) => total + day.members, 0) / dailyActive.length
+    : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>User Check-in Analysis</CardTitle>
+        <CardDescription>
+          Every daily check-in, timed on each member's own clock
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Range</Label>
+            <Select value={preset} onValueChange={handlePreset}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_PRESETS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+                <SelectItem value="custom" disabled>Custom</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="check-ins-from">From</Label>
+            <Input
+              id="check-ins-from"
+              type="date"
+              className="w-40"
+              value={toInputValue(from)}
+              max={toInputValue(to)}
+              onChange={(e) => handleDateInput(e.target.value, 'from')}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="check-ins-to">To</Label>
+            <Input
+              id="check-ins-to"
+              type="date"
+              className="w-40"
+              value={toInputValue(to)}
+              min={toInputValue(from)}
+              max={toInputValue(new Date())}
+              onChange={(e) => handleDateInput(e.target.value, 'to')}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="rounded-md border p-3">
+            <p className="text-2xl font-semibold">{events.length}</p>
+            <p className="text-xs text-muted-foreground">Check-ins</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-2xl font-semibold">{memberCount}</p>
+            <p className="text-xs text-muted-foreground">Members checking in</p>
+          </div>
+          <div className="rounded-md border p-3">
+            <p className="text-2xl font-semibold">{averageActive.toFixed(1)}</p>
+            <p className="text-xs text-muted-foreground">Active members per day</p>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <div className="animate-pulse-soft">
+              <svg className="animate-spin h-8 w-8 text-primary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+            </div>
+          </div>
+        ) : events.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>No check-ins in this range</p>
+            <p className="text-sm mt-2">Check-ins are recorded here from the day members make them</p>
+          </div>
+        ) : (
+          <>
+            <div>
+              <h4 className="font-medium mb-3">Check-ins by day and hour</h4>
+              <div className="overflow-x-auto">
+                <div
+                  className="grid min-w-[640px] gap-px text-xs"
+                  style={{ gridTemplateColumns: 'auto repeat(24, minmax(0, 1fr))' }}
+                >
+                  <div />
+                  {heatmap[0].map((_, hour) => (
+                    <div key={hour} className="text-center text-muted-foreground">
+                      {hour % 3 === 0 ? getHourLabel(hour) : ''}
+                    </div>
+                  ))}
+                  {heatmap.map((hours, weekday) => (
+                    <React.Fragment key={weekday}>
+                      <div className="pr-2 text-muted-foreground">{WEEKDAY_NAMES[weekday].slice(0, 3)}</div>
+                      {hours.map((count, hour) => (
+                        <div
+                          key={hour}
+                          className="h-6 rounded-sm bg-muted"
+                          title={`${WEEKDAY_NAMES[weekday]} ${getHourLabel(hour)}: ${count} check-in${count === 1 ? '' : 's'}`}
+                          style={count > 0 ? { backgroundColor: `hsl(var(--primary) / ${0.15 + 0.85 * count / busiest})` } : undefined}
+                        />
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-3">Members checking in each day</h4>
+              <div className="h-[300px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={dailyActive} margin={{ top: 10, right: 10, left: isMobile ? -20 : 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} className="stroke-muted/40" />
+                    <XAxis
+                      dataKey="day"
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fontSize: 12 }}
+                      tickFormatter={(day) => format(parseISO(day), 'MMM d')}
+                      minTickGap={16}
+                      className="text-xs text-muted-foreground"
+                    />
+                    <YAxis
+                      axisLine={false}
+                      tickLine={false}
+                      tick={{ fontSize: 12 }}
+                      allowDecimals={false}
+                      className="text-xs text-muted-foreground"
+                    />
+                    <Tooltip
+                      content={({ active, payload }) => {
+                        if (active && payload && payload.length) {
+                          const data = payload[0].payload;
+                          return (
+                            <div className="bg-background border border-border shadow-lg rounded-md p-3 text-sm">
+                              <p className="font-medium">{format(parseISO(data.day), 'EEEE, MMM d')}</p>
+                              <p>{data.members} member{data.members === 1 ? '' : 's'}</p>
+                            </div>
+                          );
+                        }
+                        return null;
+                      }}
+                    />
+                    <Bar dataKey="members" name="Members" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CheckInAnalytics;
@@ -0,0 +1,182 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useAuth } from '../utils/auth';
+import { updateUserProfile } from '../utils/firebase';
+import {
+  ALIAS_MAX_LENGTH,
+  AVATAR_COLORS,
+  AVATAR_EMOJIS,
+  CommunityAvatar,
+  getDefaultAvatar,
+  getIdentityDisplay,
+  getPublicName,
+  getUserIdentity,
+  IDENTITY_DISPLAY_LABELS,
+  IDENTITY_SURFACES,
+  IdentityDisplay,
+  IdentitySurface,
+  updateUserIdentity,
+  validateAlias
+} from '../utils/identity';
+import MemberAvatar from './MemberAvatar';
+import { toast } from 'sonner';
+
+// The alias, avatar and per-place visibility other members see, and the legal name only admins see
+const CommunityIdentitySettings: React.FC = () => {
+  const { currentUser, userProfile, refreshProfile } = useAuth();
+  const [alias, setAlias] = useState('');
+  const [avatar, setAvatar] = useState<CommunityAvatar | null>(null);
+  const [display, setDisplay] = useState<Record<IdentitySurface, IdentityDisplay> | null>(null);
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [savedName, setSavedName] = useState({ firstName: '', lastName: '' });
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!userProfile) return;
+    setAlias(userProfile.alias || '');
+    setAvatar(userProfile.avatar || getDefaultAvatar(userProfile.id));
+    setDisplay(Object.fromEntries(IDENTITY_SURFACES.map(({ id }) => [id, getIdentityDisplay(userProfile, id)])) as Record<IdentitySurface, IdentityDisplay>);
+  }, [userProfile]);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const fetchIdentity = async () => {
+      const identity = await getUserIdentity(currentUser.uid);
+      const name = { firstName: identity?.firstName || '', lastName: identity?.lastName || '' };
+      setSavedName(name);
+      setFirstName(name.firstName);
+      setLastName(name.lastName);
+    };
+
+    fetchIdentity();
+  }, [currentUser]);
+
+  if (!currentUser || !userProfile || !avatar || !display) return null;
+
+  // How the profile will look to others once saved
+  const preview = { ...userProfile, alias: alias.trim(), avatar, identityDisplay: display };
+
+  const handleSave = async () => {
+    const problem = alias.trim() ? validateAlias(alias) : null;
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await updateUserProfile(currentUser.uid, {
+      alias: alias.trim(),
+      avatar,
+      identityDisplay: display
+    });
+
+    const nameChanged = firstName.trim() !== savedName.firstName || lastName.trim() !== savedName.lastName;
+    if (saved && nameChanged && await updateUserIdentity(currentUser.uid, { firstName: firstName.trim(), lastName: lastName.trim() })) {
+      setSavedName({ firstName: firstName.trim(), lastName: lastName.trim() });
+    }
+
+    if (saved) {
+      await refreshProfile();
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="alias">Community alias</Label>
+        <Input
+          id="alias"
+          placeholder={userProfile.username || 'Choose an alias'}
+          value={alias}
+          maxLength={ALIAS_MAX_LENGTH}
+          onChange={(e) => setAlias(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground">
+          Without an alias, places set to show it use your username instead
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Avatar</Label>
+        <div className="flex flex-wrap gap-1">
+          {AVATAR_EMOJIS.map(emoji => (
+            <button
+              key={emoji}
+              type="button"
+              aria-pressed={avatar.emoji === emoji}
+              className={`flex h-9 w-9 items-center justify-center rounded-md text-lg hover:bg-muted ${avatar.emoji === emoji ? 'ring-2 ring-primary' : ''}`}
+              onClick={() => setAvatar({ ...avatar, emoji })}
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {Object.entries(AVATAR_COLORS).map(([color, className]) => (
+            <button
+              key={color}
+              type="button"
+              aria-label={color}
+              aria-pressed={avatar.color === color}
+              className={`h-6 w-6 rounded-full ${className} ${avatar.color === color ? 'ring-2 ring-primary ring-offset-2' : ''}`}
+              onClick={() => setAvatar({ ...avatar, color })}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>What other members see</Label>
+        {IDENTITY_SURFACES.map(surface => (
+          <div key={surface.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+            <div className="flex min-w-0 items-center gap-3">
+              <MemberAvatar profile={preview} surface={surface.id} />
+              <div className="min-w-0">
+                <p className="text-sm font-medium">{surface.label}</p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {surface.description}. Shown as {getPublicName(preview, surface.id)}
+                </p>
+              </div>
+            </div>
+            <Select
+              value={display[surface.id]}
+              onValueChange={(value) => setDisplay({ ...display, [surface.id]: value as IdentityDisplay })}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(IDENTITY_DISPLAY_LABELS) as IdentityDisplay[]).map(option => (
+                  <SelectItem key={option} value={option}>{IDENTITY_DISPLAY_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Legal name</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Input placeholder="First name" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
+          <Input placeholder="Last name" value={lastName} onChange={(e) => setLastName(e.target.value)} />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Only you and the administrators can see this. It is never shown to other members.
+        </p>
+      </div>
+
+      <Button onClick={handleSave} disabled={saving} className="w-full">
+        {saving ? 'Saving...' : 'Save identity settings'}
+      </Button>
+    </div>
+  );
+};
+
+export default CommunityIdentitySettings;
@@ -1,164 +1,75 @@
-
 import React, { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
+import { MapContainer, TileLayer, Circle, Popup } from 'react-leaflet';
 import 'leaflet/dist/leaflet.css';
-import L from 'leaflet';
-import { getCommunityLocations } from '../utils/firebase';
+import { getCommunityLocations, MIN_REGION_MEMBERS } from '../utils/communityMap';
+import { getRegionCenter, getRegionName, getRegionRadiusKm } from '@/utils/geoData';
 import { cn } from '@/lib/utils';
-import { countries, usStates } from '@/utils/locationData';
-
-// Custom marker icon
-const customIcon = new L.Icon({
-  iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
-  iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
-  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-  shadowSize: [41, 41]
-});
 
 interface CommunityMapProps {
   className?: string;
 }
 
-// Approximate country center coordinates
-const countryCoordinates: Record<string, [number, number]> = {
-  'us': [37.0902, -95.7129], // USA
-  'ca': [56.1304, -106.3468], // Canada
-  'gb': [55.3781, -3.4360], // UK
-  'au': [-25.2744, 133.7751], // Australia
-  'de': [51.1657, 10.4515], // Germany
-  'fr': [46.2276, 2.2137], // France
-  'jp': [36.2048, 138.2529], // Japan
-  'cn': [35.8617, 104.1954], // China
-  'in': [20.5937, 78.9629], // India
-  'br': [-14.2350, -51.9253], // Brazil
-  'mx': [23.6345, -102.5528], // Mexico
-  // Default for other countries - don't display these
-};
+interface RegionShape {
+  id: string;
+  count: number;
+  center: [number, number];
+  radiusKm: number;
+  displayName: string;
+}
 
-// Updated and corrected US states approximate coordinates
-const stateCoordinates: Record<string, [number, number]> = {
-  'AL': [32.7794, -86.8287],
-  'AK': [64.0685, -152.2782],
-  'AZ': [34.2744, -111.6602],
-  'AR': [34.8938, -92.4426],
-  'CA': [36.7783, -119.4179],
-  'CO': [39.5501, -105.7821],
-  'CT': [41.6032, -73.0877],
-  'DE': [38.9896, -75.5050],
-  'FL': [27.9944, -81.7603],
-  'GA': [32.6415, -83.4426],
-  'HI': [19.8968, -155.5828],
-  'ID': [44.0682, -114.7420],
-  'IL': [40.0417, -89.1965],
-  'IN': [39.8942, -86.2816],
-  'IA': [42.0751, -93.4960],
-  'KS': [38.5111, -96.8005],
-  'KY': [37.6690, -84.6514],
-  'LA': [31.1801, -91.8749],
-  'ME': [45.2538, -69.4455],
-  'MD': [39.0458, -76.6413],
-  'MA': [42.4072, -71.3824],
-  'MI': [44.3148, -85.6024],
-  'MN': [46.7296, -94.6859],
-  'MS': [32.7416, -89.6787],
-  'MO': [38.4561, -92.2884],
-  'MT': [46.9219, -110.4544],
-  'NE': [41.4925, -99.9018],
-  'NV': [38.8026, -116.4194],
-  'NH': [43.1939, -71.5724],
-  'NJ': [40.0583, -74.4057],
-  'NM': [34.5199, -105.8701],
-  'NY': [42.1657, -74.9481],
-  'NC': [35.6301, -79.8064],
-  'ND': [47.5515, -101.0020],
-  'OH': [40.4173, -82.9071],
-  'OK': [35.5653, -96.9289],
-  'OR': [44.5720, -122.0709],
-  'PA': [40.5908, -77.2098],
-  'RI': [41.6809, -71.5118],
-  'SC': [33.8569, -80.9450],
-  'SD': [44.2998, -99.4388],
-  'TN': [35.7478, -86.6923],
-  'TX': [31.0545, -97.5635],
-  'UT': [39.3210, -111.0937],
-  'VT': [44.5588, -72.5778],
-  'VA': [37.7693, -78.1700],
-  'WA': [47.4009, -121.4905],
-  'WV': [38.5976, -80.4549],
-  'WI': [43.7844, -88.7879],
-  'WY': [43.0759, -107.2903],
-  'DC': [38.9072, -77.0369]
-};
+// Shading classes, lightest first; each starts at its `from` member count
+const SHADES = [
+  { from: MIN_REGION_MEMBERS, color: '#c7e9c0' },
+  { from: 10, color: '#a1d99b' },
+  { from: 25, color: '#74c476' },
+  { from: 50, color: '#31a354' },
+  { from: 100, color: '#006d2c' }
+];
+
+const shadeFor = (count: number) =>
+  [...SHADES].reverse().find(shade => count >= shade.from)?.color || SHADES[0].color;
 
 const CommunityMap: React.FC<CommunityMapProps> = ({ className }) => {
-  const [locations, setLocations] = useState<Array<{ id: string; coordinates: [number, number]; displayName: string }>>([]);
+  const [regions, setRegions] = useState<RegionShape[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
-    const fetchLocations = async () => {
+    const fetchRegions = async () => {
       try {
         setIsLoading(true);
-        const communityLocations = await getCommunityLocations();
-        
-        // Transform country/state data to map coordinates
-        const formattedLocations = communityLocations
-          .filter(item => {
-            // Filter out "other" country selections
-            return item.location.country !== 'other';
-          })
-          .map(item => {
-            const countryCode = item.location.country;
-            const stateCode = item.location.state;
-            
-            // Skip if country is not in our coordinates list
-            if (!countryCoordinates[countryCode]) {
+        const communityRegions = await getCommunityLocations();
+
+        // Place each region from the bundled dataset, skipping any it doesn't know
+        const shapes = communityRegions
+          .map(region => {
+            const center = getRegionCenter(region.country, region.state);
+            if (!center) {
               return null;
             }
-            
-            // Get the country name for display
-            const countryObj = countries.find(c => c.value === countryCode);
-            let displayName = countryObj?.label || 'Unknown Country';
-            
-            // If it's US and has a state, use state coordinates and add state to display name
-            let coordinates: [number, number] = countryCoordinates[countryCode];
-            
-            if (countryCode === 'us' && stateCode && stateCoordinates[stateCode]) {
-              coordinates = stateCoordinates[stateCode];
-              const stateObj = usStates.find(s => s.value === stateCode);
-              if (stateObj) {
-                displayName = `${displayName}, ${stateObj.label}`;
-              }
-            }
-            
-            // Add a small random offset for privacy and to prevent markers from overlapping
-            const randomOffset = () => (Math.random() - 0.5) * 1.5;
-            coordinates = [
-              coordinates[0] + randomOffset(), 
-              coordinates[1] + randomOffset()
-            ];
-            
+
             return {
-              id: item.id,
-              coordinates,
-              displayName
+              id: region.id,
+              count: region.count,
+              center,
+              radiusKm: getRegionRadiusKm(region.country, region.state),
+              displayName: getRegionName(region.country, region.state)
             };
           })
-          .filter(item => item !== null) as Array<{ id: string; coordinates: [number, number]; displayName: string }>;
-        
-        setLocations(formattedLocations);
+          .filter(item => item !== null) as RegionShape[];
+
+        // Whole countries first, so their subdivisions are drawn on top
+        shapes.sort((a, b) => b.radiusKm - a.radiusKm);
+        setRegions(shapes);
       } catch (error) {
         console.error('Error fetching community locations:', error);
       } finally {
         setIsLoading(false);
       }
     };
-    
-    fetchLocations();
+
+    fetchRegions();
   }, []);
-  
+
   if (isLoading) {
     return (
       <div className={cn("flex items-center justify-center h-96 bg-secondary/30 rounded-lg", className)}>
@@ -171,12 +82,12 @@ const CommunityMap: React.FC<CommunityMapProps> = ({ className }) => {
       </div>
     );
   }
-  
+
   return (
-    <div className={cn("h-96 rounded-lg overflow-hidden shadow-sm border border-border", className)}>
-      <MapContainer 
-        center={[20, 0]} 
-        zoom={2} 
+    <div className={cn("relative h-96 rounded-lg overflow-hidden shadow-sm border border-border", className)}>
+      <MapContainer
+        center={[20, 0]}
+        zoom={2}
         style={{ height: '100%', width: '100%' }}
         attributionControl={false}
       >
@@ -184,19 +95,32 @@ const CommunityMap: React.FC<CommunityMapProps> = ({ className }) => {
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
         />
-        
-        {locations.map((item) => (
-          <Marker 
-            key={item.id}
-            position={item.coordinates} 
-            icon={customIcon}
+
+        {regions.map((region) => (
+          <Circle
+            key={region.id}
+            center={region.center}
+            radius={region.radiusKm * 1000}
+            pathOptions={{ color: '#ffffff', weight: 1, fillColor: shadeFor(region.count), fillOpacity: 0.7 }}
           >
             <Popup>
-              A community member from {item.displayName}
+              {region.count} members in {region.displayName}
             </Popup>
-          </Marker>
+          </Circle>
         ))}
       </MapContainer>
+
+      <div className="absolute bottom-3 left-3 z-[1000] rounded-md border bg-background/90 p-2 text-xs shadow-sm">
+        <p className="mb-1 font-medium">Members</p>
+        {SHADES.map((shade, index) => (
+          <div key={shade.from} className="flex items-center gap-2">
+            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: shade.color }} />
+            <span>
+              {SHADES[index + 1] ? `${shade.from}–${SHADES[index + 1].from - 1}` : `${shade.from}+`}
+            </span>
+          </div>
+        ))}
+      </div>
     </div>
   );
 };
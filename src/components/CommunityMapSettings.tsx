@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useAuth } from '../utils/auth';
+import { getUserIdentity, updateUserIdentity, UserIdentity } from '../utils/identity';
+import { MIN_REGION_MEMBERS, setMapSharing, syncMapRegion } from '../utils/communityMap';
+import { getRegionName, getSubdivisionLabel, getSubdivisions } from '@/utils/geoData';
+import LocationPicker from './LocationPicker';
+import { toast } from 'sonner';
+
+// Where the member would be counted, as they picked it
+const describeLocation = (location: UserIdentity['location']) =>
+  location?.country && location.country !== 'other' ? getRegionName(location.country, location.state) : null;
+
+// The member's location, which only they and admins see, and the opt-in to being counted on the community map
+const CommunityMapSettings: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [identity, setIdentity] = useState<UserIdentity | null>(null);
+  const [country, setCountry] = useState('');
+  const [subdivision, setSubdivision] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!currentUser) return;
+
+    const fetchIdentity = async () => {
+      const stored = await getUserIdentity(currentUser.uid);
+      setIdentity(stored);
+      setCountry(stored?.location?.country || '');
+      setSubdivision(stored?.location?.state || '');
+      setIsLoading(false);
+    };
+
+    fetchIdentity();
+  }, [currentUser]);
+
+  if (!currentUser || isLoading) return null;
+
+  const place = describeLocation(identity?.location);
+  const locationChanged = country !== (identity?.location?.country || '')
+    || subdivision !== (identity?.location?.state || '');
+
+  const handleToggle = async (share: boolean) => {
+    setSaving(true);
+    if (await setMapSharing(currentUser.uid, share)) {
+      setIdentity({ ...identity, shareLocationOnMap: share });
+    }
+    setSaving(false);
+  };
+
+  const handleSaveLocation = async () => {
+    if (getSubdivisions(country).length > 0 && !subdivision) {
+      toast.error(`Please select your ${getSubdivisionLabel(country).toLowerCase()}`);
+      return;
+    }
+
+    setSaving(true);
+    const location = { country, state: subdivision || null };
+    if (await updateUserIdentity(currentUser.uid, { location })) {
+      setIdentity({ ...identity, location });
+      // Members already on the map move with their location
+      await syncMapRegion(currentUser.uid);
+    }
+    setSaving(false);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <LocationPicker
+          country={country}
+          subdivision={subdivision}
+          onChange={(nextCountry, nextSubdivision) => {
+            setCountry(nextCountry);
+            setSubdivision(nextSubdivision);
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          Only you and the administrators can see your location.
+        </p>
+        <Button onClick={handleSaveLocation} disabled={saving || !country || !locationChanged} className="w-full">
+          {saving ? 'Saving...' : 'Save location'}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label htmlFor="share-on-map" className="text-base">Count me on the community map</Label>
+            <p className="text-sm text-muted-foreground">
+              {place ? `You would be counted in ${place}` : 'Pick your country above to join the map'}
+            </p>
+          </div>
+          <Switch
+            id="share-on-map"
+            checked={!!identity?.shareLocationOnMap}
+            disabled={saving || (!place && !identity?.shareLocationOnMap)}
+            onCheckedChange={handleToggle}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The map only shows how many members are in each region, never who they are. A state counts you
+          in your country too, and each is left out while it has fewer than {MIN_REGION_MEMBERS} members.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CommunityMapSettings;
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { useAuth } from '../utils/auth';
+import { ContentFilterAction, ContentFilterKind, ContentFilterRule } from '../utils/repository';
+import {
+  CONTENT_FILTER_ACTION_LABELS,
+  CONTENT_FILTER_KINDS,
+  CONTENT_FILTER_LABELS,
+  DEFAULT_CONTENT_FILTER
+} from '../utils/contentFilter';
+import { ContentFilterSettings, getContentFilter, saveContentFilter } from '../utils/moderationService';
+
+// Rules that match a list of words the admin maintains
+const WORD_LIST_KINDS: ContentFilterKind[] = ['blockedWords', 'explicitContent'];
+
+const ContentFilterEditor: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [settings, setSettings] = useState<ContentFilterSettings>(DEFAULT_CONTENT_FILTER);
+  // Word lists are edited as free text and split on save
+  const [wordLists, setWordLists] = useState<Partial<Record<ContentFilterKind, string>>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      const saved = await getContentFilter();
+      setSettings(saved);
+      setWordLists(Object.fromEntries(WORD_LIST_KINDS.map(kind => [kind, (saved.rules[kind].words || []).join('\n')])));
+      setIsLoading(false);
+    };
+
+    loadSettings();
+  }, []);
+
+  const updateRule = (kind: ContentFilterKind, changes: Partial<ContentFilterRule>) => {
+    setSettings(current => ({
+      ...current,
+      rules: { ...current.rules, [kind]: { ...current.rules[kind], ...changes } }
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!currentUser) return;
+
+    const rules = { ...settings.rules };
+    WORD_LIST_KINDS.forEach(kind => {
+      const words = (wordLists[kind] || '').split(/[\n,]/).map(word => word.trim()).filter(Boolean);
+      rules[kind] = { ...rules[kind], words: Array.from(new Set(words)) };
+    });
+
+    setIsSaving(true);
+    await saveContentFilter({ ...settings, rules }, currentUser.uid);
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading content filter...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-muted-foreground">
+        The filter runs in the members' app before a message is sent. It stops honest mistakes,
+        but a modified app can skip it, so member reports are still needed.
+      </p>
+      {CONTENT_FILTER_KINDS.map(kind => {
+        const rule = settings.rules[kind];
+
+        return (
+          <div key={kind} className="space-y-3 rounded-md border p-4">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor={`filter-${kind}`} className="text-base">{CONTENT_FILTER_LABELS[kind].title}</Label>
+                <p className="text-sm text-muted-foreground">{CONTENT_FILTER_LABELS[kind].description}</p>
+              </div>
+              <Switch
+                id={`filter-${kind}`}
+                checked={rule.enabled}
+                onCheckedChange={enabled => updateRule(kind, { enabled })}
+              />
+            </div>
+
+            {rule.enabled && (
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="space-y-1">
+                  <Label>Action</Label>
+                  <Select
+                    value={rule.action}
+                    onValueChange={action => updateRule(kind, { action: action as ContentFilterAction })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CONTENT_FILTER_ACTION_LABELS).map(([action, label]) => (
+                        <SelectItem key={action} value={action}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {kind === 'newAccountLinks' && (
+                  <div className="space-y-1">
+                    <Label htmlFor="filter-min-age">Minimum account age (days)</Label>
+                    <Input
+                      id="filter-min-age"
+                      type="number"
+                      min={0}
+                      value={rule.minAccountAgeDays ?? 0}
+                      onChange={e => updateRule(kind, { minAccountAgeDays: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </div>
+                )}
+
+                {WORD_LIST_KINDS.includes(kind) && (
+                  <div className="space-y-1 sm:col-span-2">
+                    <Label htmlFor={`filter-${kind}-words`}>Words and phrases, one per line</Label>
+                    <Textarea
+                      id={`filter-${kind}-words`}
+                      rows={4}
+                      value={wordLists[kind] || ''}
+                      onChange={e => setWordLists(lists => ({ ...lists, [kind]: e.target.value }))}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          {settings.updatedAt
+            ? `Last saved ${settings.updatedAt.toDate().toLocaleString()}`
+            : 'Using the default rules'}
+        </p>
+        <Button onClick={handleSave} disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save Filter'}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ContentFilterEditor;
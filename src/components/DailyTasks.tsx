@@ -6,8 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle, Circle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '../utils/auth';
-import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
-import { db } from '../utils/firebase';
+import { repository } from '../utils/repository';
+import { getDayBoundary, isSameUserDay } from '../utils/dayBoundary';
 import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 
@@ -54,29 +54,25 @@ const defaultTasks: Task[] = [
 const DailyTasks: React.FC<DailyTasksProps> = ({ className }) => {
   const [tasks, setTasks] = useState<Task[]>(defaultTasks);
   const [progress, setProgress] = useState(0);
-  const { currentUser } = useAuth();
+  const { currentUser, userProfile } = useAuth();
 
   useEffect(() => {
     const fetchTasks = async () => {
       if (!currentUser) return;
       
       try {
-        const userTasksRef = doc(db, 'users', currentUser.uid, 'userData', 'dailyTasks');
-        const userTasksSnap = await getDoc(userTasksRef);
+        const userTasks = await repository.tasks.get(currentUser.uid);
         
-        if (userTasksSnap.exists()) {
-          // Check if we need to reset tasks (new day)
-          const lastUpdated = userTasksSnap.data().lastUpdated?.toDate();
-          const today = new Date();
+        if (userTasks) {
+          // Check if we need to reset tasks (new day in the user's own timezone)
+          const lastUpdated = userTasks.lastUpdated;
           const isNewDay = !lastUpdated || 
-            lastUpdated.getDate() !== today.getDate() ||
-            lastUpdated.getMonth() !== today.getMonth() ||
-            lastUpdated.getFullYear() !== today.getFullYear();
+            !isSameUserDay(lastUpdated, new Date(), getDayBoundary(userProfile));
           
           if (isNewDay) {
             // Reset tasks for new day
             const resetTasks = defaultTasks.map(task => ({...task, completed: false}));
-            await setDoc(userTasksRef, {
+            await repository.tasks.save(currentUser.uid, {
               tasks: resetTasks,
               lastUpdated: new Date()
             });
@@ -84,7 +80,7 @@ const DailyTasks: React.FC<DailyTasksProps> = ({ className }) => {
             setProgress(0);
           } else {
             // Use existing tasks for today
-            const fetchedTasks = userTasksSnap.data().tasks;
+            const fetchedTasks = userTasks.tasks;
             setTasks(fetchedTasks);
             
             // Calculate progress
@@ -93,7 +89,7 @@ const DailyTasks: React.FC<DailyTasksProps> = ({ className }) => {
           }
         } else {
           // First time setup
-          await setDoc(userTasksRef, {
+          await repository.tasks.save(currentUser.uid, {
             tasks: defaultTasks,
             lastUpdated: new Date()
           });
@@ -104,7 +100,7 @@ const DailyTasks: React.FC<DailyTasksProps> = ({ className }) => {
     };
     
     fetchTasks();
-  }, [currentUser]);
+  }, [currentUser, userProfile]);
   
   const toggleTask = async (taskId: string) => {
     if (!currentUser) return;
@@ -122,9 +118,8 @@ const DailyTasks: React.FC<DailyTasksProps> = ({ className }) => {
       const newProgress = (completedCount / updatedTasks.length) * 100;
       setProgress(newProgress);
       
-      // Update in Firestore
-      const userTasksRef = doc(db, 'users', currentUser.uid, 'userData', 'dailyTasks');
-      await updateDoc(userTasksRef, {
+      // Persist the new state
+      await repository.tasks.save(currentUser.uid, {
         tasks: updatedTasks,
         lastUpdated: new Date()
       });
@@ -0,0 +1,43 @@
+import React from 'react';
+import { format } from 'date-fns';
+import DatePicker from '@/components/ui/date-picker';
+import { Input } from '@/components/ui/input';
+
+interface DateTimePickerProps {
+  value: Date;
+  onChange: (date: Date) => void;
+  id?: string;
+}
+
+// Calendar for the day plus a time input, combined into a single local Date
+const DateTimePicker: React.FC<DateTimePickerProps> = ({ value, onChange, id }) => {
+  const handleDateChange = (date: Date) => {
+    const combined = new Date(date);
+    combined.setHours(value.getHours(), value.getMinutes(), 0, 0);
+    onChange(combined);
+  };
+
+  const handleTimeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const [hours, minutes] = e.target.value.split(':').map(Number);
+    if (isNaN(hours) || isNaN(minutes)) return;
+
+    const combined = new Date(value);
+    combined.setHours(hours, minutes, 0, 0);
+    onChange(combined);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <DatePicker preselectedDate={value} onDateChange={handleDateChange} />
+      <Input
+        id={id}
+        type="time"
+        value={format(value, 'HH:mm')}
+        onChange={handleTimeChange}
+        className="w-32"
+      />
+    </div>
+  );
+};
+
+export default DateTimePicker;
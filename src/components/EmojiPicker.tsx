@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { EMOJI_CATEGORIES, getRecentEmoji, rememberEmoji, searchEmoji } from '../utils/emoji';
+
+interface EmojiPickerProps {
+  onSelect: (emoji: string) => void;
+  quick?: string[]; // Shown above the full list for one-tap picks
+  align?: 'start' | 'center' | 'end';
+  children: React.ReactNode; // The trigger
+}
+
+// Searchable emoji grid with the user's recent picks first
+const EmojiPicker: React.FC<EmojiPickerProps> = ({ onSelect, quick, align = 'center', children }) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [recent, setRecent] = useState<string[]>([]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (next) {
+      setQuery('');
+      setRecent(getRecentEmoji());
+    }
+  };
+
+  const pick = (emoji: string) => {
+    setRecent(rememberEmoji(emoji));
+    onSelect(emoji);
+    setOpen(false);
+  };
+
+  const renderGrid = (emojis: string[]) => (
+    <div className="grid grid-cols-8 gap-0.5">
+      {emojis.map(emoji => (
+        <button
+          key={emoji}
+          type="button"
+          className="flex h-8 w-8 items-center justify-center rounded text-lg hover:bg-muted"
+          onClick={() => pick(emoji)}
+        >
+          {emoji}
+        </button>
+      ))}
+    </div>
+  );
+
+  const results = query.trim() ? searchEmoji(query) : null;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent align={align} className="w-auto p-2">
+        <Input
+          placeholder="Search emoji"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="mb-2 h-8"
+          autoFocus
+        />
+        <div className="max-h-64 w-[17rem] space-y-2 overflow-y-auto">
+          {results ? (
+            results.length > 0 ? renderGrid(results) : (
+              <p className="py-6 text-center text-sm text-muted-foreground">No emoji found</p>
+            )
+          ) : (
+            <>
+              {quick && quick.length > 0 && renderGrid(quick)}
+              {recent.length > 0 && (
+                <section>
+                  <h4 className="px-1 pb-1 text-xs font-medium text-muted-foreground">Recent</h4>
+                  {renderGrid(recent)}
+                </section>
+              )}
+              {EMOJI_CATEGORIES.map(category => (
+                <section key={category.id}>
+                  <h4 className="px-1 pb-1 text-xs font-medium text-muted-foreground">{category.label}</h4>
+                  {renderGrid(category.emojis.map(([emoji]) => emoji))}
+                </section>
+              ))}
+            </>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default EmojiPicker;
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { MoreVertical } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '../utils/auth';
+import { UserProfile } from '../utils/repository';
+import {
+  ChatRoom,
+  GROUP_DESCRIPTION_MAX_LENGTH,
+  GROUP_INACTIVE_DAYS,
+  GROUP_NAME_MAX_LENGTH,
+  archiveGroup,
+  canModerateGroup,
+  canRemoveFromGroup,
+  getGroupRole,
+  inviteToGroup,
+  isArchived,
+  isGroupInactive,
+  leaveGroup,
+  removeGroupInvitation,
+  removeUserFromChat,
+  setGroupModerator,
+  transferGroupOwnership,
+  updateGroupDetails,
+  updateGroupSettings
+} from '../utils/chatService';
+import MemberPicker from './MemberPicker';
+
+interface GroupSettingsDialogProps {
+  room: ChatRoom;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: UserProfile[];
+  getUserDisplayName: (userId: string) => string;
+  onLeft: () => void;
+}
+
+// Details, members, invitations and settings of a group, limited to what the user's role allows
+const GroupSettingsDialog: React.FC<GroupSettingsDialogProps> = ({
+  room,
+  open,
+  onOpenChange,
+  members,
+  getUserDisplayName,
+  onLeft
+}) => {
+  const { currentUser } = useAuth();
+  const [name, setName] = useState(room.name);
+  const [description, setDescription] = useState(room.description || '');
+  const [invitees, setInvitees] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(room.name);
+    setDescription(room.description || '');
+    setInvitees([]);
+  }, [open, room.id, room.name, room.description]);
+
+  if (!currentUser) return null;
+
+  const role = getGroupRole(room, currentUser.uid);
+  const canModerate = canModerateGroup(room, currentUser.uid);
+  const isOwner = role === 'owner';
+  const archived = isArchived(room);
+  const detailsChanged = name.trim() !== room.name || description.trim() !== (room.description || '');
+
+  const handleSaveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateGroupDetails(room, { name, description });
+  };
+
+  const handleInvite = async () => {
+    for (const inviteeId of invitees) {
+      await inviteToGroup(room, inviteeId, currentUser.uid);
+    }
+    setInvitees([]);
+  };
+
+  const handleLeave = async () => {
+    if (await leaveGroup(room, currentUser.uid)) {
+      onOpenChange(false);
+      onLeft();
+    }
+  };
+
+  const roleLabel = (memberId: string) => {
+    const memberRole = getGroupRole(room, memberId);
+    if (memberRole === 'owner') return <Badge>Owner</Badge>;
+    if (memberRole === 'moderator') return <Badge variant="secondary">Moderator</Badge>;
+    return null;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{room.name}</DialogTitle>
+          <DialogDescription>
+            {archived
+              ? 'This group is archived. Its messages stay readable, but nobody can post.'
+              : room.discoverable
+                ? 'Anyone in the community can find and join this group.'
+                : 'Only invited members can join this group.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {canModerate ? (
+            <form onSubmit={handleSaveDetails} className="space-y-2">
+              <Label htmlFor="group-name">Name</Label>
+              <Input
+                id="group-name"
+                value={name}
+                maxLength={GROUP_NAME_MAX_LENGTH}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Label htmlFor="group-description">Description</Label>
+              <Textarea
+                id="group-description"
+                value={description}
+                maxLength={GROUP_DESCRIPTION_MAX_LENGTH}
+                placeholder="What is this group about?"
+                onChange={(e) => setDescription(e.target.value)}
+              />
+              <Button type="submit" size="sm" disabled={!detailsChanged || !name.trim()}>
+                Save details
+              </Button>
+            </form>
+          ) : room.description && (
+            <p className="text-sm">{room.description}</p>
+          )}
+
+          <div className="space-y-2">
+            <h3 className="font-medium">Members ({room.participants.length})</h3>
+            <ul className="divide-y rounded-md border">
+              {room.participants.map(memberId => {
+                const memberRole = getGroupRole(room, memberId);
+                const canRemove = canRemoveFromGroup(room, currentUser.uid, memberId);
+                const canChangeRole = isOwner && memberId !== currentUser.uid;
+
+                return (
+                  <li key={memberId} className="flex items-center justify-between gap-2 px-3 py-2">
+                    <span className="flex items-center gap-2 truncate">
+                      {getUserDisplayName(memberId)}
+                      {memberId === currentUser.uid && <span className="text-xs text-muted-foreground">(you)</span>}
+                      {roleLabel(memberId)}
+                    </span>
+                    {(canRemove || canChangeRole) && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Member actions">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {canChangeRole && (
+                            <DropdownMenuItem onClick={() => setGroupModerator(room, memberId, memberRole !== 'moderator')}>
+                              {memberRole === 'moderator' ? 'Remove moderator' : 'Make moderator'}
+                            </DropdownMenuItem>
+                          )}
+                          {canChangeRole && (
+                            <DropdownMenuItem onClick={() => transferGroupOwnership(room, memberId)}>
+                              Make owner
+                            </DropdownMenuItem>
+                          )}
+                          {canRemove && (
+                            <DropdownMenuItem
+                              className="text-destructive"
+                              onClick={() => removeUserFromChat(room.id, memberId)}
+                            >
+                              Remove from group
+                            </DropdownMenuItem>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {canModerate && !archived && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Invite members</h3>
+              <MemberPicker
+                members={members}
+                selected={invitees}
+                onChange={setInvitees}
+                excludeIds={[...room.participants, ...(room.invited || [])]}
+              />
+              <Button size="sm" onClick={handleInvite} disabled={invitees.length === 0}>
+                Send {invitees.length > 1 ? `${invitees.length} invitations` : 'invitation'}
+              </Button>
+
+              {room.invited && room.invited.length > 0 && (
+                <ul className="divide-y rounded-md border">
+                  {room.invited.map(inviteeId => (
+                    <li key={inviteeId} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span>{getUserDisplayName(inviteeId)} <span className="text-muted-foreground">invited</span></span>
+                      <Button variant="outline" size="sm" onClick={() => removeGroupInvitation(room, inviteeId)}>
+                        Withdraw
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {isOwner && (
+            <div className="space-y-4">
+              <h3 className="font-medium">Settings</h3>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="group-discoverable">Discoverable</Label>
+                  <p className="text-sm text-muted-foreground">List this group so anyone can join it</p>
+                </div>
+                <Switch
+                  id="group-discoverable"
+                  checked={!!room.discoverable}
+                  onCheckedChange={(discoverable) => updateGroupSettings(room, { discoverable })}
+                />
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">{archived ? 'Archived' : 'Archive group'}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {archived
+                      ? 'Unarchive to let members post again'
+                      : isGroupInactive(room)
+                        ? `Nobody has posted in over ${GROUP_INACTIVE_DAYS} days`
+                        : 'Keep the history but stop new messages'}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => archiveGroup(room, !archived)}>
+                  {archived ? 'Unarchive' : 'Archive'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {role && (
+            <div className="flex items-center justify-between gap-4 border-t pt-4">
+              <p className="text-sm text-muted-foreground">
+                {isOwner ? 'Make someone else the owner before leaving.' : 'You can be invited back later.'}
+              </p>
+              <Button variant="destructive" size="sm" onClick={handleLeave} disabled={isOwner}>
+                Leave group
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GroupSettingsDialog;
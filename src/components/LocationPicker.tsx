@@ -0,0 +1,57 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { countries } from '@/utils/locationData';
+import { getSubdivisionLabel, getSubdivisions } from '@/utils/geoData';
+
+interface LocationPickerProps {
+  country: string;
+  subdivision: string;
+  onChange: (country: string, subdivision: string) => void;
+}
+
+// Country, then its state, province or region when it has them
+const LocationPicker: React.FC<LocationPickerProps> = ({ country, subdivision, onChange }) => {
+  const subdivisions = getSubdivisions(country);
+  const subdivisionLabel = getSubdivisionLabel(country);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="country">Country</Label>
+        <Select value={country} onValueChange={(value) => onChange(value, '')}>
+          <SelectTrigger id="country" className="w-full">
+            <SelectValue placeholder="Select your country" />
+          </SelectTrigger>
+          <SelectContent className="max-h-[200px]">
+            {countries.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {subdivisions.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="subdivision">{subdivisionLabel}</Label>
+          <Select value={subdivision} onValueChange={(value) => onChange(country, value)}>
+            <SelectTrigger id="subdivision" className="w-full">
+              <SelectValue placeholder={`Select your ${subdivisionLabel.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent className="max-h-[200px]">
+              {subdivisions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default LocationPicker;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { User } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { UserProfile } from '../utils/repository';
+import { AVATAR_COLORS, getPublicAvatar, IdentitySurface } from '../utils/identity';
+
+interface MemberAvatarProps {
+  profile: UserProfile | null | undefined;
+  surface: IdentitySurface;
+  className?: string;
+}
+
+// A member's community avatar as shown in the given place
+const MemberAvatar: React.FC<MemberAvatarProps> = ({ profile, surface, className = 'h-8 w-8' }) => {
+  const avatar = getPublicAvatar(profile, surface);
+
+  return (
+    <Avatar className={className}>
+      {avatar ? (
+        <AvatarFallback className={`${AVATAR_COLORS[avatar.color] || AVATAR_COLORS.slate} text-white`}>
+          <span aria-hidden="true">{avatar.emoji}</span>
+        </AvatarFallback>
+      ) : (
+        <AvatarFallback>
+          <User className="h-1/2 w-1/2 text-muted-foreground" />
+        </AvatarFallback>
+      )}
+    </Avatar>
+  );
+};
+
+export default MemberAvatar;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Command,
+  CommandEmpty,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { UserProfile } from '../utils/repository';
+import { getPublicName } from '../utils/identity';
+
+interface MemberPickerProps {
+  members: UserProfile[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  excludeIds?: string[]; // Members who cannot be picked, such as those already in the group
+}
+
+const getMemberName = (member: UserProfile) => getPublicName(member, 'members');
+
+// Searchable list of community members to pick several from
+const MemberPicker: React.FC<MemberPickerProps> = ({ members, selected, onChange, excludeIds = [] }) => {
+  const available = members.filter(member => !excludeIds.includes(member.id));
+  const selectedMembers = members.filter(member => selected.includes(member.id));
+
+  const toggle = (memberId: string) => {
+    onChange(selected.includes(memberId)
+      ? selected.filter(id => id !== memberId)
+      : [...selected, memberId]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {selectedMembers.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {selectedMembers.map(member => (
+            <Badge key={member.id} variant="secondary" className="gap-1">
+              {getMemberName(member)}
+              <button
+                type="button"
+                aria-label={`Remove ${getMemberName(member)}`}
+                onClick={() => toggle(member.id)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <Command className="rounded-md border">
+        <CommandInput placeholder="Search members..." />
+        <CommandList className="max-h-48">
+          <CommandEmpty>No members found</CommandEmpty>
+          {available.map(member => (
+            <CommandItem
+              key={member.id}
+              value={`${getMemberName(member)} ${member.username || ''} ${member.id}`}
+              onSelect={() => toggle(member.id)}
+              className="gap-2"
+            >
+              <Checkbox checked={selected.includes(member.id)} className="pointer-events-none" />
+              <span>{getMemberName(member)}</span>
+              {member.username && getMemberName(member) !== member.username && (
+                <span className="text-xs text-muted-foreground">@{member.username}</span>
+              )}
+            </CommandItem>
+          ))}
+        </CommandList>
+      </Command>
+    </div>
+  );
+};
+
+export default MemberPicker;
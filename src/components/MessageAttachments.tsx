@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { EyeOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { ChatMessage } from '../utils/chatService';
+
+interface MessageAttachmentsProps {
+  message: ChatMessage;
+}
+
+// Images are shown no wider than this; their height follows the stored aspect ratio
+const IMAGE_MAX_WIDTH = 320;
+
+// Stored URLs are only put in links and images when they are web addresses, or
+// inline images as the local backend keeps them
+const isWebUrl = (url: string | undefined) => /^https?:\/\//i.test(url || '');
+const isImageUrl = (url: string | undefined) =>
+  isWebUrl(url) || /^data:image\/(jpeg|png|gif|webp);base64,/.test(url || '');
+
+// The image and link preview a message carries, if any
+const MessageAttachments: React.FC<MessageAttachmentsProps> = ({ message }) => {
+  const [revealed, setRevealed] = useState(false);
+  const image = isImageUrl(message.image?.url) ? message.image : null;
+  const linkPreview = isWebUrl(message.linkPreview?.url) ? message.linkPreview : null;
+
+  if (!image && !linkPreview) return null;
+
+  const masked = image?.masked && !revealed;
+
+  return (
+    <div className="space-y-2">
+      {image && (
+        // Space is reserved from the stored size so the list doesn't jump when the image loads
+        <div
+          className="relative overflow-hidden rounded-md bg-muted"
+          style={{ width: Math.min(image.width || IMAGE_MAX_WIDTH, IMAGE_MAX_WIDTH), maxWidth: '100%', aspectRatio: `${image.width || 4} / ${image.height || 3}` }}
+        >
+          <a href={masked ? undefined : image.url} target="_blank" rel="noopener noreferrer">
+            <img
+              src={image.url}
+              alt="Attached image"
+              loading="lazy"
+              className={`h-full w-full object-cover ${masked ? 'scale-110 blur-xl' : ''}`}
+            />
+          </a>
+          {masked && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-background/40 text-foreground">
+              <EyeOff className="h-5 w-5" />
+              <Button variant="secondary" size="sm" onClick={() => setRevealed(true)}>
+                Show image
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {linkPreview && (
+        <a
+          href={linkPreview.url}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="flex max-w-xs overflow-hidden rounded-md border bg-background text-foreground hover:bg-muted"
+        >
+          <div className="min-w-0 p-2">
+            <p className="truncate text-xs text-muted-foreground">{linkPreview.siteName}</p>
+            {linkPreview.title && <p className="line-clamp-2 text-sm font-medium">{linkPreview.title}</p>}
+            {linkPreview.description && (
+              <p className="line-clamp-2 text-xs text-muted-foreground">{linkPreview.description}</p>
+            )}
+          </div>
+        </a>
+      )}
+    </div>
+  );
+};
+
+export default MessageAttachments;
@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { MarkdownInline, parseMarkdown } from '../utils/markdown';
+
+interface MessageContentProps {
+  text: string;
+  className?: string;
+}
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode[] => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'bold':
+      return <strong key={index}>{renderInline(node.children)}</strong>;
+    case 'italic':
+      return <em key={index}>{renderInline(node.children)}</em>;
+    case 'code':
+      return <code key={index} className="rounded bg-black/10 px-1 font-mono text-[0.85em] dark:bg-white/10">{node.text}</code>;
+    case 'link':
+      return (
+        <a
+          key={index}
+          href={node.href}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="underline underline-offset-2 break-all"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {renderInline(node.children)}
+        </a>
+      );
+    default:
+      return <React.Fragment key={index}>{node.text}</React.Fragment>;
+  }
+});
+
+// A chat message's text with its markdown formatting; everything renders as React elements, never raw HTML
+const MessageContent: React.FC<MessageContentProps> = ({ text, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  return (
+    <div className={`space-y-1 break-words ${className}`}>
+      {blocks.map((block, index) => {
+        if (block.type === 'code') {
+          return (
+            <pre key={index} className="overflow-x-auto rounded bg-black/10 p-2 font-mono text-xs dark:bg-white/10">
+              <code>{block.text}</code>
+            </pre>
+          );
+        }
+
+        if (block.type === 'list') {
+          const List = block.ordered ? 'ol' : 'ul';
+          return (
+            <List key={index} className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>{renderInline(item)}</li>
+              ))}
+            </List>
+          );
+        }
+
+        return (
+          <p key={index}>
+            {block.lines.map((line, lineIndex) => (
+              <React.Fragment key={lineIndex}>
+                {lineIndex > 0 && <br />}
+                {renderInline(line)}
+              </React.Fragment>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MessageContent;
@@ -5,8 +5,6 @@ import { useAuth } from "../utils/auth";
 import { logout } from "../utils/firebase";
 import { Button } from "@/components/ui/button";
 import { Moon, Sun, ShieldCheck } from "lucide-react";
-import { db } from "../utils/firebase";
-import { collection, where, query, getDocs } from "firebase/firestore";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,11 +13,12 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
+import PartnerAlertsMenu from "./PartnerAlertsMenu";
+import MemberAvatar from "./MemberAvatar";
+import UnreadMessagesLink from "./UnreadMessagesLink";
 
 const Navbar: React.FC = () => {
-  const [userInitials, setUserInitials] = useState("U");
-  const { currentUser, isAdmin } = useAuth();
+  const { currentUser, userProfile, isAdmin } = useAuth();
   const navigate = useNavigate();
 
   const handleLogout = async () => {
@@ -41,42 +40,6 @@ const Navbar: React.FC = () => {
     }
   }, []);
 
-  
-  useEffect(() => {
-    const fetchUserInitials = async () => {
-      if (currentUser && currentUser.email) {
-        try {
-          const usersRef = collection(db, "users");
-          const q = query(usersRef, where("email", "==", currentUser.email));
-          const querySnapshot = await getDocs(q);
-          // console.log(q);
-          if (!querySnapshot.empty) {
-            // Assuming only one document matches the email.
-            const userDoc = querySnapshot.docs[0].data();
-            const firstname = userDoc.firstName || "";
-            const lastname = userDoc.lastName || "";
-
-            if (firstname || lastname) {
-              const initials =
-                (firstname.charAt(0).toUpperCase() || "") +
-                (lastname.charAt(0).toUpperCase() || "");
-              setUserInitials(initials);
-            } else {
-              setUserInitials("U");
-            }
-          } else {
-            setUserInitials("U"); // No document found for this email.
-          }
-        } catch (error) {
-          console.error("Error fetching user initials:", error);
-          setUserInitials("U"); // Fallback in case of an error.
-        }
-      }
-    };
-
-    fetchUserInitials();
-  }, [currentUser]);
-
 
   return (<div className="bg-background border-b">
     <div className="container flex h-16 items-center justify-between py-4">
@@ -98,6 +61,12 @@ const Navbar: React.FC = () => {
           </Link>
         )}
         
+        {/* Unread chat messages */}
+        {currentUser && <UnreadMessagesLink />}
+
+        {/* Alerts from accountability partners */}
+        {currentUser && <PartnerAlertsMenu />}
+
         {/* Dark Mode Button */}
         <Button
           variant="ghost"
@@ -122,9 +91,8 @@ const Navbar: React.FC = () => {
                 size="icon"
                 className="relative h-8 w-8 rounded-full ml-4"
               >
-                <Avatar>
-                    <AvatarFallback>{userInitials}</AvatarFallback>
-                  </Avatar>
+                {/* The avatar other members see in chat */}
+                <MemberAvatar profile={userProfile} surface="chat" />
               </Button>
             </DropdownMenuTrigger>
             {/* Dropdown Menu Content */}
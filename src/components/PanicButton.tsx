@@ -12,20 +12,28 @@ import {
   CardTitle,
 } from '@/components/ui/card';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useAuth } from '../utils/auth';
+import { alertPartners } from '../utils/partnerService';
 
 interface PanicButtonProps {
   className?: string;
 }
 
 const PanicButton: React.FC<PanicButtonProps> = ({ className }) => {
+  const { currentUser } = useAuth();
   const [isActivated, setIsActivated] = useState(false);
+  const [partnersAlerted, setPartnersAlerted] = useState(0);
   
-  const handleActivate = () => {
+  const handleActivate = async () => {
     setIsActivated(true);
+    if (currentUser) {
+      setPartnersAlerted(await alertPartners(currentUser.uid, 'panic'));
+    }
   };
   
   const handleDeactivate = () => {
     setIsActivated(false);
+    setPartnersAlerted(0);
   };
   
   const emergencyTips = [
@@ -80,6 +88,13 @@ const PanicButton: React.FC<PanicButtonProps> = ({ className }) => {
                 </CardDescription>
               </CardHeader>
               <CardContent className="pt-6">
+                {partnersAlerted > 0 && (
+                  <p className="mb-4 text-sm text-muted-foreground">
+                    {partnersAlerted === 1
+                      ? 'Your accountability partner has been notified.'
+                      : `Your ${partnersAlerted} accountability partners have been notified.`}
+                  </p>
+                )}
                 <h3 className="font-medium mb-3">Do these right now:</h3>
                 <ul className="space-y-3">
                   {emergencyTips.map((tip, index) => (
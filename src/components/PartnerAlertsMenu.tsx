@@ -0,0 +1,121 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useAuth } from '../utils/auth';
+import { repository, UserProfile } from '../utils/repository';
+import { getPublicName } from '../utils/identity';
+import {
+  PARTNER_ALERT_TEXT,
+  PartnerAlert,
+  markPartnerAlertsRead,
+  subscribeToPartnerAlerts
+} from '../utils/partnerService';
+
+const getSenderName = (senders: Record<string, UserProfile>, userId: string) => {
+  const sender = senders[userId];
+  return sender ? getPublicName(sender, 'members') : 'Your partner';
+};
+
+// Bell in the navbar with the alerts partners sent the user
+const PartnerAlertsMenu: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [alerts, setAlerts] = useState<PartnerAlert[]>([]);
+  const [senders, setSenders] = useState<Record<string, UserProfile>>({});
+  // Alerts already on screen; anything else arrived live and gets a toast
+  const seenAlertIds = useRef<Set<string> | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    seenAlertIds.current = null;
+    return subscribeToPartnerAlerts(currentUser.uid, (latest) => {
+      if (!seenAlertIds.current) {
+        seenAlertIds.current = new Set(latest.map(alert => alert.id));
+      }
+      setAlerts(latest);
+    });
+  }, [currentUser]);
+
+  const senderIds = Array.from(new Set(alerts.map(alert => alert.fromId))).sort().join(',');
+
+  useEffect(() => {
+    if (!senderIds) return;
+
+    const fetchSenders = async () => {
+      try {
+        const profiles = await Promise.all(senderIds.split(',').map(id => repository.users.get(id)));
+        setSenders(Object.fromEntries(profiles.filter(Boolean).map(profile => [profile.id, profile])));
+      } catch (error) {
+        console.error('Error loading alert senders:', error);
+      }
+    };
+
+    fetchSenders();
+  }, [senderIds]);
+
+  useEffect(() => {
+    if (!seenAlertIds.current) return;
+
+    alerts
+      .filter(alert => !alert.read && !seenAlertIds.current.has(alert.id))
+      .forEach(alert => {
+        toast(`${getSenderName(senders, alert.fromId)} ${PARTNER_ALERT_TEXT[alert.type]}`, {
+          description: 'A message from their partner could make all the difference right now.'
+        });
+      });
+    alerts.forEach(alert => seenAlertIds.current.add(alert.id));
+  }, [alerts, senders]);
+
+  if (!currentUser) return null;
+
+  const unreadCount = alerts.filter(alert => !alert.read).length;
+
+  return (
+    <DropdownMenu onOpenChange={(open) => !open && markPartnerAlertsRead(alerts)}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Partner alerts">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs text-destructive-foreground">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-72">
+        <DropdownMenuLabel>Partner Alerts</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {alerts.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-muted-foreground">No alerts from your partners</p>
+        ) : (
+          alerts.map(alert => (
+            <DropdownMenuItem key={alert.id} className="flex flex-col items-start gap-0.5">
+              <span className={alert.read ? undefined : 'font-medium'}>
+                {getSenderName(senders, alert.fromId)} {PARTNER_ALERT_TEXT[alert.type]}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {formatDistanceToNow(alert.createdAt.toDate(), { addSuffix: true })}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/profile?tab=partners">Manage partners</Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default PartnerAlertsMenu;
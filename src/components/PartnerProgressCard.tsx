@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { Users } from 'lucide-react';
+import { useAuth } from '../utils/auth';
+import { repository, UserProfile } from '../utils/repository';
+import { Partnership, getPartnerId, subscribeToPartnerships } from '../utils/partnerService';
+import { getPublicName } from '../utils/identity';
+
+// What each active partner currently shares, as shown on the dashboard
+const PartnerProgressCard: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [partnerships, setPartnerships] = useState<Partnership[]>([]);
+  const [partners, setPartners] = useState<Record<string, UserProfile>>({});
+
+  useEffect(() => {
+    if (!currentUser) return;
+    return subscribeToPartnerships(currentUser.uid, setPartnerships);
+  }, [currentUser]);
+
+  const active = partnerships.filter(partnership => partnership.status === 'active');
+  const invitations = partnerships.filter(partnership =>
+    partnership.status === 'pending' && partnership.members[1] === currentUser?.uid
+  );
+  const partnerIds = active.map(partnership => getPartnerId(partnership, currentUser?.uid || '')).join(',');
+
+  useEffect(() => {
+    if (!partnerIds) return;
+
+    const fetchPartners = async () => {
+      try {
+        const profiles = await Promise.all(partnerIds.split(',').map(id => repository.users.get(id)));
+        setPartners(Object.fromEntries(profiles.filter(Boolean).map(profile => [profile.id, profile])));
+      } catch (error) {
+        console.error('Error loading partners:', error);
+      }
+    };
+
+    fetchPartners();
+  }, [partnerIds]);
+
+  if (!currentUser) return null;
+
+  const getPartnerName = (partnerId: string) => {
+    const partner = partners[partnerId];
+    if (!partner) return 'Your partner';
+    return getPublicName(partner, 'members');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Accountability Partners
+        </CardTitle>
+        <CardDescription>
+          {invitations.length > 0
+            ? `You have ${invitations.length} partner invitation${invitations.length === 1 ? '' : 's'} waiting`
+            : 'Progress your partners share with you'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {active.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Recovery is easier together. Invite a member from the community to
+            follow each other's progress.
+          </p>
+        )}
+
+        {active.map(partnership => {
+          const partnerId = getPartnerId(partnership, currentUser.uid);
+          const progress = partnership.progress?.[partnerId];
+          const sharesAnything = progress && (
+            progress.currentStreak !== undefined || progress.lastCheckIn !== undefined || progress.relapses
+          );
+
+          return (
+            <div key={partnership.id} className="space-y-2 rounded-md border p-4">
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium">{getPartnerName(partnerId)}</span>
+                {progress?.updatedAt && (
+                  <span className="text-xs text-muted-foreground">
+                    Updated {formatDistanceToNow(progress.updatedAt.toDate(), { addSuffix: true })}
+                  </span>
+                )}
+              </div>
+
+              {!sharesAnything && (
+                <p className="text-sm text-muted-foreground">Nothing shared with you yet</p>
+              )}
+
+              {progress?.currentStreak !== undefined && (
+                <p className="text-sm">
+                  <span className="text-2xl font-bold">{progress.currentStreak}</span> day streak
+                  <span className="text-muted-foreground"> · best {progress.longestStreak ?? progress.currentStreak}</span>
+                </p>
+              )}
+
+              {progress?.lastCheckIn !== undefined && (
+                <p className="text-sm text-muted-foreground">
+                  {progress.lastCheckIn
+                    ? `Last checked in ${formatDistanceToNow(progress.lastCheckIn.toDate(), { addSuffix: true })}`
+                    : 'Has not checked in yet'}
+                </p>
+              )}
+
+              {progress?.relapses && (
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">
+                    {progress.relapses.cleanDays} clean days, {progress.relapses.relapseDays} relapse days
+                  </p>
+                  <TooltipProvider>
+                    <div className="flex gap-1">
+                      {progress.relapses.streakData.map(day => (
+                        <Tooltip key={day.date}>
+                          <TooltipTrigger asChild>
+                            <span
+                              className={cn(
+                                'h-3 w-3 rounded-full',
+                                day.streak > 0 ? 'bg-green-500' : 'bg-muted-foreground/40'
+                              )}
+                            />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            {day.date}: day {day.streak}
+                          </TooltipContent>
+                        </Tooltip>
+                      ))}
+                    </div>
+                  </TooltipProvider>
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <Button variant="outline" size="sm" asChild>
+          <Link to="/profile?tab=partners">Manage partners</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PartnerProgressCard;
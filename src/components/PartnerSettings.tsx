@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { useAuth } from '../utils/auth';
+import { repository, PartnerShareKey, UserProfile } from '../utils/repository';
+import { getPublicName } from '../utils/identity';
+import {
+  PARTNER_SHARE_KEYS,
+  PARTNER_SHARE_LABELS,
+  Partnership,
+  acceptPartnership,
+  endPartnership,
+  getPartnerId,
+  getPartnerSharing,
+  subscribeToPartnerships,
+  updatePartnerSharing
+} from '../utils/partnerService';
+
+// Invitations and partners, with what the user shares with each partner
+const PartnerSettings: React.FC = () => {
+  const { currentUser } = useAuth();
+  const [partnerships, setPartnerships] = useState<Partnership[]>([]);
+  const [partners, setPartners] = useState<Record<string, UserProfile>>({});
+  const [partnershipToEnd, setPartnershipToEnd] = useState<Partnership | null>(null);
+
+  useEffect(() => {
+    if (!currentUser) return;
+    return subscribeToPartnerships(currentUser.uid, setPartnerships);
+  }, [currentUser]);
+
+  // Load the names of everyone the user is paired or being paired with
+  useEffect(() => {
+    if (!currentUser) return;
+    const ids = partnerships.map(partnership => getPartnerId(partnership, currentUser.uid));
+
+    const fetchPartners = async () => {
+      try {
+        const profiles = await Promise.all(ids.map(id => repository.users.get(id)));
+        setPartners(Object.fromEntries(profiles.filter(Boolean).map(profile => [profile.id, profile])));
+      } catch (error) {
+        console.error('Error loading partners:', error);
+      }
+    };
+
+    fetchPartners();
+  }, [currentUser, partnerships]);
+
+  if (!currentUser) return null;
+
+  const getPartnerName = (partnership: Partnership) => {
+    const partner = partners[getPartnerId(partnership, currentUser.uid)];
+    return getPublicName(partner, 'members');
+  };
+
+  const handleShareToggle = (partnership: Partnership, key: PartnerShareKey, enabled: boolean) => {
+    updatePartnerSharing(partnership, currentUser.uid, {
+      ...getPartnerSharing(partnership, currentUser.uid),
+      [key]: enabled
+    });
+  };
+
+  const handleDecline = async (partnership: Partnership) => {
+    if (await endPartnership(partnership)) {
+      toast('Invitation declined');
+    }
+  };
+
+  const handleWithdraw = async (partnership: Partnership) => {
+    if (await endPartnership(partnership)) {
+      toast('Invitation withdrawn');
+    }
+  };
+
+  const handleEnd = async () => {
+    if (partnershipToEnd && await endPartnership(partnershipToEnd)) {
+      toast(`You and ${getPartnerName(partnershipToEnd)} are no longer partners`);
+    }
+    setPartnershipToEnd(null);
+  };
+
+  const pending = partnerships.filter(partnership => partnership.status === 'pending');
+  const received = pending.filter(partnership => partnership.members[1] === currentUser.uid);
+  const sent = pending.filter(partnership => partnership.members[0] === currentUser.uid);
+  const active = partnerships.filter(partnership => partnership.status === 'active');
+
+  return (
+    <div className="space-y-6">
+      {received.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-medium">Invitations</h3>
+          <ul className="divide-y rounded-md border">
+            {received.map(partnership => (
+              <li key={partnership.id} className="flex items-center justify-between gap-2 px-4 py-2">
+                <span>{getPartnerName(partnership)} wants to be your accountability partner</span>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => acceptPartnership(partnership, currentUser.uid)}>
+                    Accept
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleDecline(partnership)}>
+                    Decline
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {sent.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-medium">Waiting for an answer</h3>
+          <ul className="divide-y rounded-md border">
+            {sent.map(partnership => (
+              <li key={partnership.id} className="flex items-center justify-between px-4 py-2">
+                <span>{getPartnerName(partnership)}</span>
+                <Button variant="outline" size="sm" onClick={() => handleWithdraw(partnership)}>
+                  Withdraw
+                </Button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {active.length > 0 ? (
+        active.map(partnership => {
+          const sharing = getPartnerSharing(partnership, currentUser.uid);
+
+          return (
+            <div key={partnership.id} className="space-y-4 rounded-md border p-4">
+              <div className="flex items-center justify-between gap-4">
+                <h3 className="font-medium">What {getPartnerName(partnership)} can see</h3>
+                <Button variant="outline" size="sm" onClick={() => setPartnershipToEnd(partnership)}>
+                  End partnership
+                </Button>
+              </div>
+              {PARTNER_SHARE_KEYS.map(key => (
+                <div key={key} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`share-${partnership.id}-${key}`}>{PARTNER_SHARE_LABELS[key].title}</Label>
+                    <p className="text-sm text-muted-foreground">{PARTNER_SHARE_LABELS[key].description}</p>
+                  </div>
+                  <Switch
+                    id={`share-${partnership.id}-${key}`}
+                    checked={sharing[key]}
+                    onCheckedChange={enabled => handleShareToggle(partnership, key, enabled)}
+                  />
+                </div>
+              ))}
+            </div>
+          );
+        })
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          You don't have an accountability partner yet. Invite someone from the
+          members list in the <Link to="/community" className="underline">community</Link>.
+        </p>
+      )}
+
+      <AlertDialog open={!!partnershipToEnd} onOpenChange={(open) => !open && setPartnershipToEnd(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>End partnership?</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will both stop seeing each other's progress and alerts. Either of
+              you can send a new invitation later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleEnd}>End partnership</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default PartnerSettings;
@@ -1,31 +1,47 @@
 
 import React, { useState, useEffect } from 'react';
 import { Calendar } from '@/components/ui/calendar';
-import { getRelapseCalendarData, getRelapseData } from '../utils/firebase';
+import { getRelapseCalendarData, getRelapseData, updateRelapse, deleteRelapse, Relapse } from '../utils/firebase';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Card } from '@/components/ui/card';
-import { isSameDay, differenceInDays } from 'date-fns';
-import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { isSameDay, format } from 'date-fns';
 import { DayContentProps } from 'react-day-picker';
+import { Pencil, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import RelapseDialog from './RelapseDialog';
+import { syncPartnerProgress } from '../utils/partnerService';
 
 interface RelapseCalendarProps {
   userId?: string;
+  // Called after a relapse is edited or deleted so the parent can refresh its figures
+  onRelapsesChanged?: () => void;
 }
 
 interface DayInfo {
   date: Date;
   hadRelapse: boolean;
-  relapseInfo: {
-    triggers: string;
-    notes: string;
-  } | null;
+  relapses: Relapse[];
 }
 
-const RelapseCalendar: React.FC<RelapseCalendarProps> = ({ userId }) => {
+const RelapseCalendar: React.FC<RelapseCalendarProps> = ({ userId, onRelapsesChanged }) => {
   const [calendarData, setCalendarData] = useState<DayInfo[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [month, setMonth] = useState<Date>(new Date());
   const [stats, setStats] = useState({ cleanDays: 0, relapseDays: 0, netGrowth: 0 });
+  const [relapseToEdit, setRelapseToEdit] = useState<Relapse | null>(null);
+  const [relapseToDelete, setRelapseToDelete] = useState<Relapse | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -55,7 +71,39 @@ const RelapseCalendar: React.FC<RelapseCalendarProps> = ({ userId }) => {
     };
 
     fetchData();
-  }, [userId]);
+  }, [userId, refreshKey]);
+
+  const handleRelapsesChanged = () => {
+    setRefreshKey(key => key + 1);
+    syncPartnerProgress(userId);
+    onRelapsesChanged?.();
+  };
+
+  const handleSaveRelapse = async (changes: { triggers: string; notes: string; occurredAt: Date }) => {
+    if (!userId || !relapseToEdit?.id) return;
+
+    const result = await updateRelapse(userId, relapseToEdit.id, changes);
+    if (result.success) {
+      toast.success("Relapse updated");
+      setRelapseToEdit(null);
+      handleRelapsesChanged();
+    } else {
+      toast.error("Failed to update relapse", { description: result.message });
+    }
+  };
+
+  const handleDeleteRelapse = async () => {
+    if (!userId || !relapseToDelete?.id) return;
+
+    const result = await deleteRelapse(userId, relapseToDelete.id);
+    if (result.success) {
+      toast.success("Relapse deleted");
+      handleRelapsesChanged();
+    } else {
+      toast.error("Failed to delete relapse", { description: result.message });
+    }
+    setRelapseToDelete(null);
+  };
 
   // Custom day rendering with dots for relapse status
   const renderDay = (props: DayContentProps) => {
@@ -82,12 +130,40 @@ const RelapseCalendar: React.FC<RelapseCalendarProps> = ({ userId }) => {
           <div className="p-2">
             <p className="font-bold">{new Intl.DateTimeFormat('en-US', { month: 'long', day: 'numeric', year: 'numeric' }).format(day)}</p>
             {dayData.hadRelapse ? (
-              <div>
+              <div className="space-y-2">
                 <p className="text-red-500">Relapse reported</p>
-                <p className="text-sm">Trigger: {dayData.relapseInfo?.triggers}</p>
-                {dayData.relapseInfo?.notes && (
-                  <p className="text-sm italic">{dayData.relapseInfo.notes}</p>
-                )}
+                {dayData.relapses.map((relapse, index) => (
+                  <div key={relapse.id || index} className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="text-sm">
+                        {format(relapse.timestamp.toDate(), 'h:mm a')} · Trigger: {relapse.triggers}
+                      </p>
+                      {relapse.notes && (
+                        <p className="text-sm italic">{relapse.notes}</p>
+                      )}
+                    </div>
+                    {relapse.id && (
+                      <div className="flex gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setRelapseToEdit(relapse)}
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6 text-destructive"
+                          onClick={() => setRelapseToDelete(relapse)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
               </div>
             ) : (
               <p className="text-green-500">Clean day</p>
@@ -182,6 +258,27 @@ const RelapseCalendar: React.FC<RelapseCalendarProps> = ({ userId }) => {
           </Card>
         )}
       </div>
+
+      <RelapseDialog
+        relapse={relapseToEdit}
+        onOpenChange={(open) => !open && setRelapseToEdit(null)}
+        onSave={handleSaveRelapse}
+      />
+
+      <AlertDialog open={!!relapseToDelete} onOpenChange={(open) => !open && setRelapseToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this relapse?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your streak and statistics will be recalculated without it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteRelapse}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </TooltipProvider>
   );
 };
@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import DateTimePicker from './DateTimePicker';
+import { Relapse } from '../utils/firebase';
+import { RELAPSE_TRIGGERS } from '../utils/relapseTriggers';
+
+interface RelapseDialogProps {
+  relapse: Relapse | null;
+  onOpenChange: (open: boolean) => void;
+  onSave: (changes: { triggers: string; notes: string; occurredAt: Date }) => Promise<void>;
+}
+
+const RelapseDialog: React.FC<RelapseDialogProps> = ({ relapse, onOpenChange, onSave }) => {
+  const [triggers, setTriggers] = useState('');
+  const [notes, setNotes] = useState('');
+  const [occurredAt, setOccurredAt] = useState(new Date());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (relapse) {
+      setTriggers(relapse.triggers);
+      setNotes(relapse.notes || '');
+      setOccurredAt(relapse.timestamp.toDate());
+    }
+  }, [relapse]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ triggers, notes, occurredAt });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!relapse} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Relapse</DialogTitle>
+          <DialogDescription>
+            Correct when this happened or what triggered it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-trigger">Trigger</Label>
+            <Select value={triggers} onValueChange={setTriggers}>
+              <SelectTrigger id="edit-trigger">
+                <SelectValue placeholder="Select a trigger" />
+              </SelectTrigger>
+              <SelectContent>
+                {RELAPSE_TRIGGERS.map(trigger => (
+                  <SelectItem key={trigger.value} value={trigger.value}>
+                    {trigger.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-occurred-at">When did it happen?</Label>
+            {/* Remount per relapse so the calendar opens on its date */}
+            <DateTimePicker key={relapse?.id} id="edit-occurred-at" value={occurredAt} onChange={setOccurredAt} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-notes">Notes (optional)</Label>
+            <Textarea
+              id="edit-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !triggers}>
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RelapseDialog;
@@ -1,7 +1,9 @@
 import React, { useState } from "react";
 import { FaDiscord, FaInstagram, FaLinkedin, FaLink } from "react-icons/fa";
-import { db } from "@/utils/firebase";
-import { doc, setDoc, updateDoc, getDoc } from "firebase/firestore";
+import { repository, UserProfile } from "@/utils/repository";
+
+// This component stores "other" as a plain link, unlike the profile form
+const toProfileLinks = (links: object) => links as unknown as UserProfile["socialMedia"];
 
 const SocialMediaLinks = ({ userId }) => {
   const [socialMedia, setSocialMedia] = useState({
@@ -11,14 +13,13 @@ const SocialMediaLinks = ({ userId }) => {
     other: "",
   });
 
-  // Fetch initial data from Firestore
+  // Fetch initial data from the user's profile
   React.useEffect(() => {
     const fetchSocialMedia = async () => {
-      const docRef = doc(db, "users", userId);
-      const docSnap = await getDoc(docRef);
+      const profile = await repository.users.get(userId);
 
-      if (docSnap.exists()) {
-        setSocialMedia(docSnap.data().socialMedia || {});
+      if (profile) {
+        setSocialMedia((profile.socialMedia || {}) as unknown as typeof socialMedia);
       }
     };
 
@@ -29,18 +30,16 @@ const SocialMediaLinks = ({ userId }) => {
     const updatedLinks = { ...socialMedia, [platform]: value };
     setSocialMedia(updatedLinks);
 
-    // Write to Firebase
-    const userRef = doc(db, "users", userId);
-    await setDoc(userRef, { socialMedia: updatedLinks }, { merge: true });
+    // Write to the user's profile
+    await repository.users.update(userId, { socialMedia: toProfileLinks(updatedLinks) });
   };
 
   const handleDelete = async (platform) => {
     const updatedLinks = { ...socialMedia, [platform]: "" };
     setSocialMedia(updatedLinks);
 
-    // Write updated data to Firebase
-    const userRef = doc(db, "users", userId);
-    await updateDoc(userRef, { [`socialMedia.${platform}`]: "" });
+    // Write updated data to the user's profile
+    await repository.users.update(userId, { socialMedia: toProfileLinks(updatedLinks) });
   };
 
   const platforms = [
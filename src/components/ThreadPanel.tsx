@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import { useAuth } from '../utils/auth';
+import { REMOVED_MESSAGE_TEXT } from '../utils/moderationService';
+import MessageContent from './MessageContent';
+import MessageAttachments from './MessageAttachments';
+import {
+  ChatMessage,
+  DELETED_MESSAGE_TEXT,
+  isHiddenSender,
+  sendMessage,
+  subscribeToThread
+} from '../utils/chatService';
+
+interface ThreadPanelProps {
+  roomId: string;
+  threadId: string | null; // Id of the message that started the thread; the panel is open while set
+  onClose: () => void;
+  canReply: boolean;
+  getUserDisplayName: (userId: string) => string;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+// A message and the replies to it, with a composer for replying in the thread
+const ThreadPanel: React.FC<ThreadPanelProps> = ({
+  roomId,
+  threadId,
+  onClose,
+  canReply,
+  getUserDisplayName,
+  onJumpToMessage
+}) => {
+  const { currentUser, userProfile } = useAuth();
+  const [parent, setParent] = useState<ChatMessage | null>(null);
+  const [replies, setReplies] = useState<ChatMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setParent(null);
+    setReplies([]);
+    setReply('');
+    if (!threadId) return;
+
+    setLoading(true);
+    return subscribeToThread(roomId, threadId, (latestParent, latestReplies) => {
+      setParent(latestParent);
+      setReplies(latestReplies);
+      setLoading(false);
+    });
+  }, [roomId, threadId]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [replies.length]);
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reply.trim() || !currentUser || !threadId || sending) return;
+
+    setSending(true);
+    if (await sendMessage(roomId, reply, currentUser.uid, { replyTo: threadId })) {
+      setReply('');
+    }
+    setSending(false);
+  };
+
+  // Why a message's content isn't shown, or null when it is
+  const getPlaceholder = (message: ChatMessage) => {
+    if (message.removedAt) return REMOVED_MESSAGE_TEXT;
+    if (message.deletedAt) return DELETED_MESSAGE_TEXT;
+    if (isHiddenSender(userProfile, message.senderId)) return 'Hidden message';
+    return null;
+  };
+
+  const renderMessage = (message: ChatMessage) => (
+    <div className="space-y-1">
+      <div className="flex items-baseline gap-2">
+        <span className="text-sm font-medium">{getUserDisplayName(message.senderId)}</span>
+        <span className="text-xs text-muted-foreground">
+          {message.timestamp ? formatDistanceToNow(message.timestamp.toDate(), { addSuffix: true }) : 'Just now'}
+          {message.editedAt && ' (edited)'}
+        </span>
+      </div>
+      {getPlaceholder(message) ? (
+        <p className="text-sm italic text-muted-foreground">{getPlaceholder(message)}</p>
+      ) : (
+        <>
+          <MessageAttachments message={message} />
+          {message.text && <MessageContent text={message.text} className="text-sm" />}
+        </>
+      )}
+    </div>
+  );
+
+  return (
+    <Sheet open={!!threadId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="flex flex-col gap-4 sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle>Thread</SheetTitle>
+          <SheetDescription>
+            {replies.length === 0 ? 'No replies yet' : `${replies.length} ${replies.length === 1 ? 'reply' : 'replies'}`}
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin h-6 w-6 border-2 border-primary rounded-full border-t-transparent"></div>
+          </div>
+        ) : (
+          <>
+            <div className="rounded-md border bg-muted/30 p-3">
+              {parent ? (
+                <>
+                  {renderMessage(parent)}
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => onJumpToMessage(parent.id)}>
+                    Show in conversation
+                  </Button>
+                </>
+              ) : (
+                <p className="text-sm italic text-muted-foreground">Original message unavailable</p>
+              )}
+            </div>
+
+            <div className="flex-1 space-y-4 overflow-y-auto pl-3 border-l-2 border-primary/40">
+              {replies.map(message => (
+                <div key={message.id}>{renderMessage(message)}</div>
+              ))}
+              <div ref={endRef} />
+            </div>
+          </>
+        )}
+
+        {canReply ? (
+          <form onSubmit={handleReply} className="flex gap-2">
+            <Textarea
+              placeholder="Reply in thread..."
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              className="min-h-[40px] flex-1 resize-none"
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleReply(e);
+                }
+              }}
+            />
+            <Button type="submit" size="icon" disabled={sending || !parent} aria-label="Send reply">
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        ) : (
+          <p className="text-center text-sm text-muted-foreground">Replies are closed in archived groups</p>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default ThreadPanel;
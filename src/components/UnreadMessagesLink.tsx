@@ -0,0 +1,38 @@
+import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { MessageCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '../utils/auth';
+import { formatUnreadCount, getHiddenSenderIds, subscribeToUnreadCounts } from '../utils/chatService';
+
+// Link to the community with the number of unread messages across all rooms
+const UnreadMessagesLink: React.FC = () => {
+  const { currentUser, userProfile } = useAuth();
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const hiddenSenderKey = getHiddenSenderIds(userProfile).join(',');
+
+  useEffect(() => {
+    if (!currentUser) return;
+    const hiddenSenderIds = hiddenSenderKey ? hiddenSenderKey.split(',') : [];
+    return subscribeToUnreadCounts(currentUser.uid, userProfile?.gender, hiddenSenderIds, setUnreadCounts);
+  }, [currentUser, userProfile?.gender, hiddenSenderKey]);
+
+  if (!currentUser) return null;
+
+  const unread = Object.values(unreadCounts).reduce((total, count) => total + count, 0);
+
+  return (
+    <Button variant="ghost" size="icon" className="relative" asChild>
+      <Link to="/community" aria-label={unread > 0 ? `Community, ${unread} unread messages` : 'Community'}>
+        <MessageCircle className="h-5 w-5" />
+        {unread > 0 && (
+          <span className="absolute -right-1 -top-1 flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1 text-xs text-primary-foreground">
+            {formatUnreadCount(unread)}
+          </span>
+        )}
+      </Link>
+    </Button>
+  );
+};
+
+export default UnreadMessagesLink;
@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { addDays } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useAuth } from '../utils/auth';
+import {
+  getActiveSuspension,
+  getUserModerationHistory,
+  MODERATION_ACTION_LABELS,
+  ModerationLogEntry,
+  reinstateUser,
+  requirePasswordReset,
+  setUserRole,
+  Suspension,
+  suspendUser
+} from '../utils/moderationService';
+import DateTimePicker from './DateTimePicker';
+
+// The member as the Admin users table knows them
+export interface ManagedUser {
+  id: string;
+  name?: string;
+  email?: string;
+  role?: string;
+  suspension?: Suspension | null;
+  passwordResetRequired?: boolean;
+}
+
+interface UserManagementDialogProps {
+  user: ManagedUser | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+  getUserName: (userId: string) => string;
+}
+
+const DEFAULT_SUSPENSION_DAYS = 7;
+
+// Role, suspensions and bans, forced password resets and past decisions for one member
+const UserManagementDialog: React.FC<UserManagementDialogProps> = ({
+  user,
+  open,
+  onOpenChange,
+  onChanged,
+  getUserName
+}) => {
+  const { currentUser } = useAuth();
+  const [history, setHistory] = useState<ModerationLogEntry[]>([]);
+  const [kind, setKind] = useState<Suspension['kind']>('suspended');
+  const [reason, setReason] = useState('');
+  const [until, setUntil] = useState(() => addDays(new Date(), DEFAULT_SUSPENSION_DAYS));
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    setKind('suspended');
+    setReason('');
+    setUntil(addDays(new Date(), DEFAULT_SUSPENSION_DAYS));
+    getUserModerationHistory(user.id).then(setHistory);
+  }, [open, user]);
+
+  if (!user || !currentUser) return null;
+
+  const suspension = getActiveSuspension(user);
+  const isSelf = user.id === currentUser.uid;
+
+  // Run an action, then reload the history and let the table refresh
+  const run = async (action: () => Promise<boolean>) => {
+    setBusy(true);
+    if (await action()) {
+      onChanged();
+      setHistory(await getUserModerationHistory(user.id));
+      setReason('');
+    }
+    setBusy(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{user.name}</DialogTitle>
+          <DialogDescription>{user.email}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select
+              value={user.role || 'member'}
+              disabled={busy || isSelf}
+              onValueChange={(role) => run(() => setUserRole(user.id, role as 'admin' | 'member', currentUser.uid))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="member">Member</SelectItem>
+                <SelectItem value="admin">Admin</SelectItem>
+              </SelectContent>
+            </Select>
+            {isSelf && (
+              <p className="text-xs text-muted-foreground">You can't change your own role</p>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <Label>Account status</Label>
+            {suspension ? (
+              <div className="space-y-3 rounded-md border p-3 text-sm">
+                <p>
+                  <Badge variant="destructive" className="mr-2">{suspension.kind}</Badge>
+                  {suspension.until ? `until ${suspension.until.toDate().toLocaleString()}` : 'with no end'}
+                </p>
+                <p className="text-muted-foreground">
+                  {suspension.reason} · by {getUserName(suspension.by)}
+                </p>
+                <Textarea
+                  placeholder="Note (optional)"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                />
+                <Button
+                  variant="outline"
+                  disabled={busy}
+                  onClick={() => run(() => reinstateUser(user.id, currentUser.uid, reason))}
+                >
+                  Reinstate
+                </Button>
+              </div>
+            ) : isSelf ? (
+              <p className="text-sm text-muted-foreground">Active</p>
+            ) : (
+              <div className="space-y-3 rounded-md border p-3">
+                <Select value={kind} onValueChange={(value) => setKind(value as Suspension['kind'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="suspended">Suspend until a date</SelectItem>
+                    <SelectItem value="banned">Ban until lifted</SelectItem>
+                  </SelectContent>
+                </Select>
+                {kind === 'suspended' && (
+                  <div className="space-y-2">
+                    <Label htmlFor="suspended-until">Suspended until</Label>
+                    <DateTimePicker id="suspended-until" value={until} onChange={setUntil} />
+                  </div>
+                )}
+                <Textarea
+                  placeholder="Reason, shown to the member"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                />
+                <Button
+                  variant="destructive"
+                  disabled={busy || !reason.trim()}
+                  onClick={() => run(() => suspendUser(
+                    user.id,
+                    { kind, reason, until: kind === 'suspended' ? Timestamp.fromDate(until) : null },
+                    currentUser.uid
+                  ))}
+                >
+                  {kind === 'banned' ? 'Ban member' : 'Suspend member'}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Password</Label>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                {user.passwordResetRequired
+                  ? 'Waiting for the member to change their password'
+                  : 'Emails a reset link and makes them change it before using the app'}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={busy || isSelf || user.passwordResetRequired}
+                onClick={() => run(() => requirePasswordReset(user.id, user.email || '', currentUser.uid))}
+              >
+                Force reset
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Moderation history</Label>
+            {history.length > 0 ? (
+              <ul className="space-y-2 text-sm">
+                {history.map(entry => (
+                  <li key={entry.id} className="rounded-md border p-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <Badge variant="secondary">{MODERATION_ACTION_LABELS[entry.action]}</Badge>
+                      <span className="text-xs text-muted-foreground">{entry.timestamp.toDate().toLocaleString()}</span>
+                    </div>
+                    <p className="mt-1 text-xs text-muted-foreground">by {getUserName(entry.moderatorId)}</p>
+                    {entry.messageText && <p className="mt-1 truncate">{entry.messageText}</p>}
+                    {entry.note && <p className="mt-1">{entry.note}</p>}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No moderation decisions about this member</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserManagementDialog;
@@ -21,111 +21,87 @@ import {
   Clock
 } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { db } from '../utils/firebase';
-import { collection, getDocs, query, where, Timestamp } from 'firebase/firestore';
-import { 
-  BarChart, 
-  Bar, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
-  Tooltip, 
-  Legend, 
-  ResponsiveContainer,
-  Cell
-} from 'recharts';
-import { useIsMobile } from '@/hooks/use-mobile';
+import { toast } from 'sonner';
+import { repository } from '../utils/repository';
+import { migrateLegacyRooms } from '../utils/chatService';
+import { getAllIdentities, getPublicName, getRealName, migrateLegacyIdentities } from '../utils/identity';
+import {
+  getActiveSuspension,
+  getModerationLog,
+  getModerationQueue,
+  moderateMessage,
+  MODERATION_ACTION_LABELS,
+  ModerationAction,
+  ModerationLogEntry,
+  ReportedMessage,
+  Suspension
+} from '../utils/moderationService';
+import { useAuth } from '../utils/auth';
+import CheckInAnalytics from '../components/CheckInAnalytics';
+import ContentFilterEditor from '../components/ContentFilterEditor';
+import UserManagementDialog from '../components/UserManagementDialog';
+import { Timestamp } from 'firebase/firestore';
 
 // Type for user data
 interface User {
   id: string;
   name?: string;
-  firstName?: string;
-  lastName?: string;
+  alias?: string; // The name other members see
   email?: string;
   role?: string;
   status?: string;
   streakDays?: number;
   joinedAt?: Timestamp;
   lastCheckIn?: Timestamp;
+  suspension?: Suspension | null;
+  passwordResetRequired?: boolean;
 }
 
-// Type for check-in time data
-interface CheckInTime {
-  day: string;
-  hour: number;
-  count: number;
-}
-
-// Type for flagged content
-interface FlaggedContent {
-  id: string;
-  user: string;
-  content: string;
-  date: string;
-  status: 'pending' | 'reviewed';
-}
-
-// Mock data for flagged content
-const MOCK_FLAGGED_CONTENT: FlaggedContent[] = [
-  {
-    id: '1',
-    user: 'John Doe',
-    content: 'This message contains potentially inappropriate content that has been flagged by our system.',
-    date: '2023-06-15T10:30:00',
-    status: 'pending'
-  },
-  {
-    id: '2',
-    user: 'Jane Smith',
-    content: 'Another message that was reported by community members for review.',
-    date: '2023-06-14T15:45:00',
-    status: 'reviewed'
-  },
-  {
-    id: '3',
-    user: 'Alex Johnson',
-    content: 'This comment was flagged for containing potential misinformation.',
-    date: '2023-06-13T09:15:00',
-    status: 'pending'
-  }
-];
-
 const Admin: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [checkInTimes, setCheckInTimes] = useState<CheckInTime[]>([]);
-  const isMobile = useIsMobile();
+  const [moderationQueue, setModerationQueue] = useState<ReportedMessage[]>([]);
+  const [moderationLog, setModerationLog] = useState<ModerationLogEntry[]>([]);
+  const [roomNames, setRoomNames] = useState<Record<string, string>>({});
+  const [moderationNotes, setModerationNotes] = useState<Record<string, string>>({});
+  const [moderatingId, setModeratingId] = useState<string | null>(null);
+  const [managedUserId, setManagedUserId] = useState<string | null>(null);
+  const [usersVersion, setUsersVersion] = useState(0); // Bumped after an account action so the table reloads
+  const { currentUser } = useAuth();
   
   useEffect(() => {
     const fetchUsers = async () => {
       try {
-        setIsLoading(true);
-        const usersRef = collection(db, 'users');
-        const usersSnapshot = await getDocs(usersRef);
+        // Names still on public profiles are moved before they are read back
+        const migrated = await migrateLegacyIdentities();
+        if (migrated > 0) {
+          toast.success(`Moved ${migrated} member${migrated === 1 ? "'s" : "s'"} real name off their public profile`);
+        }
+        
+        const [profiles, identities] = await Promise.all([repository.users.list(), getAllIdentities()]);
         
         const usersData: User[] = [];
         
-        usersSnapshot.forEach((doc) => {
-          const userData = doc.data() as User;
-          
+        profiles.forEach((userData) => {
+          const identity = identities[userData.id];
+          const suspension = getActiveSuspension(userData);
           usersData.push({
-            id: doc.id,
-            name: userData.firstName && userData.lastName 
-              ? `${userData.firstName} ${userData.lastName}` 
-              : 'Unknown User',
-            email: userData.email || 'No email',
+            id: userData.id,
+            name: getRealName(identity) || 'Unknown User',
+            alias: getPublicName(userData, 'members'),
+            email: identity?.email,
             role: userData.role || 'member',
-            status: userData.lastCheckIn && isWithinLastWeek(userData.lastCheckIn) ? 'active' : 'inactive',
+            status: suspension?.kind || (userData.lastCheckIn && isWithinLastWeek(userData.lastCheckIn) ? 'active' : 'inactive'),
             streakDays: userData.streakDays || 0,
             joinedAt: userData.joinedAt,
-            lastCheckIn: userData.lastCheckIn
+            lastCheckIn: userData.lastCheckIn,
+            suspension,
+            passwordResetRequired: !!userData.passwordResetRequired
           });
         });
         
         setUsers(usersData);
-        processCheckInTimes(usersData);
       } catch (error) {
         console.error('Error fetching users:', error);
       } finally {
@@ -134,77 +110,68 @@ const Admin: React.FC = () => {
     };
     
     fetchUsers();
-  }, []);
+  }, [usersVersion]);
   
-  const isWithinLastWeek = (timestamp: Timestamp) => {
-    const lastWeek = new Date();
-    lastWeek.setDate(lastWeek.getDate() - 7);
+  // Rooms saved before eligibility lived on the room stay hidden from members until migrated
+  useEffect(() => {
+    const migrateRooms = async () => {
+      const migrated = await migrateLegacyRooms();
+      if (migrated > 0) {
+        toast.success(`Updated access settings on ${migrated} chat room${migrated === 1 ? '' : 's'}`);
+      }
+    };
     
-    return timestamp.toDate() > lastWeek;
+    migrateRooms();
+  }, []);
+  
+  const loadModeration = async () => {
+    const [queue, log] = await Promise.all([getModerationQueue(), getModerationLog()]);
+    setModerationQueue(queue);
+    setModerationLog(log);
   };
   
-  const processCheckInTimes = (userData: User[]) => {
-    const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const checkInData: Record<string, Record<number, number>> = {};
-    
-    dayNames.forEach(day => {
-      checkInData[day] = {};
-      for (let hour = 0; hour < 24; hour++) {
-        checkInData[day][hour] = 0;
+  useEffect(() => {
+    const fetchRoomNames = async () => {
+      try {
+        const rooms = await repository.rooms.list();
+        setRoomNames(Object.fromEntries(rooms.map(room => [room.id, room.name])));
+      } catch (error) {
+        console.error('Error fetching rooms:', error);
       }
-    });
+    };
     
-    userData.forEach(user => {
-      if (user.lastCheckIn) {
-        const checkInDate = user.lastCheckIn.toDate();
-        const day = dayNames[checkInDate.getDay()];
-        const hour = checkInDate.getHours();
-        
-        checkInData[day][hour] = (checkInData[day][hour] || 0) + 1;
-      }
-    });
+    fetchRoomNames();
+    loadModeration();
+  }, []);
+  
+  const getUserName = (userId: string) =>
+    users.find(user => user.id === userId)?.name || 'Unknown User';
+  
+  const handleModeration = async (item: ReportedMessage, action: ModerationAction) => {
+    if (!currentUser) return;
     
-    const chartData: CheckInTime[] = [];
-    Object.entries(checkInData).forEach(([day, hours]) => {
-      Object.entries(hours).forEach(([hour, count]) => {
-        if (count > 0) {
-          chartData.push({
-            day,
-            hour: parseInt(hour),
-            count
-          });
-        }
-      });
-    });
+    setModeratingId(item.messageId);
+    const success = await moderateMessage(item, action, currentUser.uid, moderationNotes[item.messageId]);
+    if (success) {
+      toast.success(`${MODERATION_ACTION_LABELS[action]}: ${getUserName(item.senderId)}'s message`);
+      await loadModeration();
+    }
+    setModeratingId(null);
+  };
+  
+  const isWithinLastWeek = (timestamp: Timestamp) => {
+    const lastWeek = new Date();
+    lastWeek.setDate(lastWeek.getDate() - 7);
     
-    setCheckInTimes(chartData);
+    return timestamp.toDate() > lastWeek;
   };
   
   const filteredUsers = users.filter(user => 
     (user.name?.toLowerCase().includes(searchTerm.toLowerCase()) || false) ||
+    (user.alias?.toLowerCase().includes(searchTerm.toLowerCase()) || false) ||
     (user.email?.toLowerCase().includes(searchTerm.toLowerCase()) || false)
   );
   
-  const getHourLabel = (hour: number) => {
-    const hourStr = hour % 12 || 12;
-    const ampm = hour < 12 ? 'AM' : 'PM';
-    return `${hourStr}${ampm}`;
-  };
-  
-  const getDayColor = (day: string) => {
-    const colors = {
-      'Monday': '#7dd3fc',
-      'Tuesday': '#a5b4fc',
-      'Wednesday': '#c4b5fd',
-      'Thursday': '#f0abfc',
-      'Friday': '#fda4af',
-      'Saturday': '#fda4af',
-      'Sunday': '#fb923c'
-    };
-    
-    return colors[day as keyof typeof colors] || '#a1a1aa';
-  };
-  
   return (
     <motion.div 
       className="container max-w-6xl py-8 pb-16"
@@ -309,24 +276,30 @@ const Admin: React.FC = () => {
                         <tbody>
                           {filteredUsers.map(user => (
                             <tr key={user.id} className="border-b hover:bg-muted/50">
-                              <td className="py-3 px-4">{user.name}</td>
-                              <td className="py-3 px-4">{user.email}</td>
+                              <td className="py-3 px-4">
+                                {user.name}
+                                <div className="text-xs text-muted-foreground">Shown as {user.alias}</div>
+                              </td>
+                              <td className="py-3 px-4">{user.email || 'No email'}</td>
                               <td className="py-3 px-4">
                                 <Badge variant={user.role === 'admin' ? 'default' : 'outline'}>
                                   {user.role}
                                 </Badge>
                               </td>
                               <td className="py-3 px-4">
-                                <CustomBadge variant={user.status === 'active' ? 'success' : 'secondary'}>
-                                  {user.status}
-                                </CustomBadge>
+                                {user.suspension ? (
+                                  <Badge variant="destructive">{user.status}</Badge>
+                                ) : (
+                                  <CustomBadge variant={user.status === 'active' ? 'success' : 'secondary'}>
+                                    {user.status}
+                                  </CustomBadge>
+                                )}
                               </td>
                               <td className="py-3 px-4">{user.streakDays} days</td>
                               <td className="py-3 px-4">
-                                <div className="flex gap-2">
-                                  <Button variant="ghost" size="sm">Edit</Button>
-                                  <Button variant="ghost" size="sm" className="text-destructive">Suspend</Button>
-                                </div>
+                                <Button variant="ghost" size="sm" onClick={() => setManagedUserId(user.id)}>
+                                  Manage
+                                </Button>
                               </td>
                             </tr>
                           ))}
@@ -341,6 +314,17 @@ const Admin: React.FC = () => {
                 )}
               </CardContent>
             </Card>
+            
+            <UserManagementDialog
+              user={users.find(user => user.id === managedUserId) || null}
+              open={!!managedUserId}
+              onOpenChange={(open) => !open && setManagedUserId(null)}
+              onChanged={() => {
+                setUsersVersion(version => version + 1);
+                loadModeration();
+              }}
+              getUserName={getUserName}
+            />
           </motion.div>
         </TabsContent>
 
@@ -350,103 +334,7 @@ const Admin: React.FC = () => {
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.4 }}
           >
-            <Card>
-              <CardHeader>
-                <CardTitle>User Check-in Analysis</CardTitle>
-                <CardDescription>
-                  Visualize when users are most active throughout the week
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="h-[500px]">
-                  {checkInTimes.length > 0 ? (
-                    <ResponsiveContainer width="100%" height="100%">
-                      <BarChart
-                        data={checkInTimes}
-                        margin={{
-                          top: 20,
-                          right: 30,
-                          left: isMobile ? 0 : 20,
-                          bottom: 100
-                        }}
-                      >
-                        <CartesianGrid strokeDasharray="3 3" vertical={false} className="stroke-muted/40" />
-                        <XAxis 
-                          dataKey="day" 
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fontSize: 12 }}
-                          tickMargin={10}
-                          className="text-xs text-muted-foreground"
-                          angle={-45}
-                          textAnchor="end"
-                        />
-                        <YAxis 
-                          axisLine={false}
-                          tickLine={false}
-                          tick={{ fontSize: 12 }}
-                          tickMargin={10}
-                          className="text-xs text-muted-foreground"
-                          allowDecimals={false}
-                          label={{ value: 'Number of Check-ins', angle: -90, position: 'insideLeft', className: 'text-xs text-muted-foreground', dy: 50 }}
-                        />
-                        <Tooltip 
-                          content={({ active, payload, label }) => {
-                            if (active && payload && payload.length) {
-                              const data = payload[0].payload;
-                              return (
-                                <div className="bg-background border border-border shadow-lg rounded-md p-3 text-sm">
-                                  <p className="font-medium">{data.day}</p>
-                                  <p>
-                                    <span className="font-medium">{getHourLabel(data.hour)}</span>
-                                    <span className="ml-2">{data.count} check-ins</span>
-                                  </p>
-                                </div>
-                              );
-                            }
-                            return null;
-                          }}
-                        />
-                        <Bar 
-                          dataKey="count" 
-                          name="Check-ins"
-                          label={{ 
-                            position: 'top', 
-                            fill: 'var(--foreground)', 
-                            fontSize: 12,
-                            formatter: (value: number) => value > 0 ? value : '',
-                          }}
-                        >
-                          {checkInTimes.map((entry, index) => (
-                            <Cell key={`cell-${index}`} fill={getDayColor(entry.day)} />
-                          ))}
-                        </Bar>
-                        <Legend 
-                          formatter={(value) => <span className="text-xs text-muted-foreground">{value}</span>}
-                          verticalAlign="bottom"
-                          height={36}
-                        />
-                      </BarChart>
-                    </ResponsiveContainer>
-                  ) : (
-                    <div className="flex items-center justify-center h-full">
-                      <div className="text-center text-muted-foreground">
-                        <p>No check-in data available</p>
-                        <p className="text-sm mt-2">Users need to check in for data to appear here</p>
-                      </div>
-                    </div>
-                  )}
-                </div>
-                <div className="mt-4 p-4 bg-muted/20 rounded-md text-sm">
-                  <h4 className="font-medium mb-2">About this chart</h4>
-                  <p className="text-muted-foreground">
-                    This visualization shows when users most frequently check in to the app throughout the week.
-                    Each bar represents the number of users checking in at that specific day and hour.
-                    This data can help you identify optimal times for sending notifications or scheduling maintenance.
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+            <CheckInAnalytics />
           </motion.div>
         </TabsContent>
         
@@ -592,49 +480,147 @@ const Admin: React.FC = () => {
               <CardContent>
                 <div className="space-y-6">
                   <div>
-                    <h3 className="text-lg font-medium mb-4">Flagged Content</h3>
+                    <h3 className="text-lg font-medium mb-4">Reported Messages</h3>
                     
                     <div className="space-y-4">
-                      {MOCK_FLAGGED_CONTENT.map(item => (
-                        <Card key={item.id}>
+                      {moderationQueue.length === 0 && (
+                        <div className="text-center py-8 text-muted-foreground">
+                          No reports waiting for review
+                        </div>
+                      )}
+                      {moderationQueue.map(item => (
+                        <Card key={`${item.roomId}/${item.messageId}`}>
                           <CardHeader className="pb-2">
                             <div className="flex justify-between items-start">
                               <div>
-                                <CardTitle className="text-base">{item.user}</CardTitle>
-                                <CardDescription>{new Date(item.date).toLocaleDateString()}</CardDescription>
+                                <CardTitle className="text-base">{getUserName(item.senderId)}</CardTitle>
+                                <CardDescription>
+                                  In {roomNames[item.roomId] || item.roomId} · last reported{' '}
+                                  {item.reports[0].createdAt.toDate().toLocaleString()}
+                                </CardDescription>
                               </div>
-                              <Badge variant={item.status === 'pending' ? 'outline' : 'secondary'}>
-                                {item.status}
+                              <Badge variant="outline">
+                                {item.reports.length} {item.reports.length === 1 ? 'report' : 'reports'}
                               </Badge>
                             </div>
                           </CardHeader>
-                          <CardContent className="pb-2">
-                            <p className="text-sm">{item.content}</p>
+                          <CardContent className="pb-2 space-y-3">
+                            {item.messageText && (
+                              <p className="text-sm rounded-md bg-muted/50 p-3 whitespace-pre-wrap">{item.messageText}</p>
+                            )}
+                            {item.imageUrl && (
+                              <a href={item.imageUrl} target="_blank" rel="noopener noreferrer">
+                                <img
+                                  src={item.imageUrl}
+                                  alt="Reported attachment"
+                                  className="max-h-48 rounded-md border object-contain"
+                                />
+                              </a>
+                            )}
+                            <ul className="space-y-1 text-sm">
+                              {item.reports.map(report => (
+                                <li key={report.id}>
+                                  <Badge variant="secondary" className="mr-2">{report.reason}</Badge>
+                                  <span className="text-muted-foreground">
+                                    {report.source === 'filter' ? 'Automatic filter' : getUserName(report.reporterId)}
+                                    {report.details && `: ${report.details}`}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                            <Input
+                              placeholder="Note for the audit trail (optional)"
+                              value={moderationNotes[item.messageId] || ''}
+                              onChange={e => setModerationNotes(notes => ({ ...notes, [item.messageId]: e.target.value }))}
+                            />
                           </CardContent>
                           <CardContent className="flex gap-2 pt-0">
-                            <Button variant="outline" size="sm">Allow</Button>
-                            <Button variant="destructive" size="sm">Remove</Button>
-                            <Button variant="ghost" size="sm">Contact User</Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={moderatingId === item.messageId}
+                              onClick={() => handleModeration(item, 'approve')}
+                            >
+                              Approve
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              disabled={moderatingId === item.messageId}
+                              onClick={() => handleModeration(item, 'remove')}
+                            >
+                              Remove
+                            </Button>
+                            <Button
+                              variant="secondary"
+                              size="sm"
+                              disabled={moderatingId === item.messageId}
+                              onClick={() => handleModeration(item, 'warn')}
+                            >
+                              Warn Sender
+                            </Button>
                           </CardContent>
                         </Card>
                       ))}
                     </div>
                   </div>
                   
+                  <div>
+                    <h3 className="text-lg font-medium mb-4">Audit Trail</h3>
+                    
+                    {moderationLog.length > 0 ? (
+                      <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="border-b">
+                              <th className="text-left py-3 px-4 font-medium">When</th>
+                              <th className="text-left py-3 px-4 font-medium">Moderator</th>
+                              <th className="text-left py-3 px-4 font-medium">Decision</th>
+                              <th className="text-left py-3 px-4 font-medium">Member</th>
+                              <th className="text-left py-3 px-4 font-medium">Details</th>
+                              <th className="text-left py-3 px-4 font-medium">Note</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {moderationLog.map(entry => (
+                              <tr key={entry.id} className="border-b hover:bg-muted/50">
+                                <td className="py-3 px-4 whitespace-nowrap">{entry.timestamp.toDate().toLocaleString()}</td>
+                                <td className="py-3 px-4">{getUserName(entry.moderatorId)}</td>
+                                <td className="py-3 px-4">
+                                  <Badge variant={entry.action === 'approve' ? 'outline' : 'secondary'}>
+                                    {MODERATION_ACTION_LABELS[entry.action]}
+                                  </Badge>
+                                </td>
+                                <td className="py-3 px-4">{getUserName(entry.senderId)}</td>
+                                <td className="py-3 px-4 max-w-xs truncate">
+                                  {entry.messageText ?? (entry.until ? `Until ${entry.until.toDate().toLocaleString()}` : '')}
+                                </td>
+                                <td className="py-3 px-4">{entry.note}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : (
+                      <div className="text-center py-8 text-muted-foreground">
+                        No moderation decisions yet
+                      </div>
+                    )}
+                  </div>
+                  
+                  <div>
+                    <h3 className="text-lg font-medium mb-1">Content Filter</h3>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Checked on every outgoing chat message before it is posted
+                    </p>
+                    
+                    <ContentFilterEditor />
+                  </div>
+                  
                   <div>
                     <h3 className="text-lg font-medium mb-4">Moderation Settings</h3>
                     
                     <div className="space-y-4">
-                      <div className="flex items-center justify-between">
-                        <div>
-                          <Label className="text-base">Auto-flag sensitive words</Label>
-                          <p className="text-sm text-muted-foreground">
-                            Automatically flag messages containing sensitive content
-                          </p>
-                        </div>
-                        <Switch />
-                      </div>
-                      
                       <div className="flex items-center justify-between">
                         <div>
                           <Label className="text-base">Require message approval</Label>
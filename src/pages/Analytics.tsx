@@ -20,7 +20,7 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import ProgressChart from "@/components/ProgressChart";
-import { logRelapse, getUserProfile, getRelapseData, calculateLongestStreak } from "../utils/firebase";
+import { logRelapse, getUserProfile, getRelapseData, getRelapses } from "../utils/firebase";
 import { useAuth } from "../utils/auth";
 import { motion } from "framer-motion";
 import {
@@ -31,15 +31,20 @@ import {
   Check,
 } from "lucide-react";
 import { toast } from "sonner";
-import { db } from "../utils/firebase";
-import { collection, doc, getDoc } from "firebase/firestore";
 import RelapseCalendar from "@/components/RelapseCalendar";
+import DateTimePicker from "@/components/DateTimePicker";
+import { RELAPSE_TRIGGERS } from "../utils/relapseTriggers";
+import { alertPartners, syncPartnerProgress } from "../utils/partnerService";
 
 const Analytics: React.FC = () => {
   const { currentUser, userProfile } = useAuth();
   const navigate = useNavigate();
   const [notes, setNotes] = useState("");
   const [selectedTrigger, setSelectedTrigger] = useState("");
+  const [occurredAt, setOccurredAt] = useState(new Date());
+  // Bumped whenever relapses change so every figure below is refetched
+  const [relapseVersion, setRelapseVersion] = useState(0);
+  const [currentStreak, setCurrentStreak] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [triggers, setTriggers] = useState<{ name: string; count: number }[]>(
     []
@@ -54,42 +59,37 @@ const Analytics: React.FC = () => {
     netGrowth: 0,
   });
 
-  const useTriggers = (uid: string | undefined) => {
+  const useTriggers = (uid: string | undefined, version: number) => {
     useEffect(() => {
       if (!uid) return;
 
       const fetchTriggers = async () => {
         try {
-          const userDocRef = doc(collection(db, "users"), uid);
-          const userDoc = await getDoc(userDocRef);
-
-          if (userDoc.exists()) {
-            const relapses = userDoc.data().relapses || [];
-            const triggerCounts: Record<string, number> = {};
-
-            relapses.forEach((relapse: { triggers: string }) => {
-              const trigger = relapse.triggers;
-              if (trigger) {
-                triggerCounts[trigger] = (triggerCounts[trigger] || 0) + 1;
-              }
-            });
-
-            const formattedTriggers = Object.entries(triggerCounts).map(
-              ([name, count]) => ({
-                name,
-                count,
-              })
-            );
-
-            setTriggers(formattedTriggers);
-          }
+          const relapses = await getRelapses(uid);
+          const triggerCounts: Record<string, number> = {};
+
+          relapses.forEach((relapse) => {
+            const trigger = relapse.triggers;
+            if (trigger) {
+              triggerCounts[trigger] = (triggerCounts[trigger] || 0) + 1;
+            }
+          });
+
+          const formattedTriggers = Object.entries(triggerCounts).map(
+            ([name, count]) => ({
+              name,
+              count,
+            })
+          );
+
+          setTriggers(formattedTriggers);
         } catch (error) {
           console.error("Error fetching triggers:", error);
         }
       };
 
       fetchTriggers();
-    }, [uid]);
+    }, [uid, version]);
 
     return triggers;
   };
@@ -102,11 +102,12 @@ const Analytics: React.FC = () => {
         const data = await getRelapseData(currentUser.uid, chartTimeframe);
         setStreakData(data.streakData);
         setMoodData(data.moodData);
+        setCurrentStreak(data.currentStreak);
         setLongestStreak(data.longestStreak);
         setRelapseStats({
           cleanDays: data.cleanDays,
           relapseDays: data.relapseDays,
-          netGrowth: data.netGrowth || data.cleanDays - data.relapseDays,
+          netGrowth: data.netGrowth,
         });
       } catch (error) {
         console.error("Error fetching relapse data:", error);
@@ -114,7 +115,8 @@ const Analytics: React.FC = () => {
     };
 
     fetchData();
-  }, [currentUser, chartTimeframe]);
+  }, [currentUser, chartTimeframe, relapseVersion]);
+
 
   const handleRelapseSubmit = async () => {
     if (!currentUser) return;
@@ -122,15 +124,19 @@ const Analytics: React.FC = () => {
     setIsSubmitting(true);
 
     try {
-      const result = await logRelapse(currentUser.uid, selectedTrigger, notes);
+      const result = await logRelapse(currentUser.uid, selectedTrigger, notes, occurredAt);
       if (result.success) {
         toast.success("Relapse reported", {
           description:
             "Remember that every moment is a new opportunity to begin again.",
         });
+        syncPartnerProgress(currentUser.uid);
+        alertPartners(currentUser.uid, "relapse");
 
         setNotes("");
         setSelectedTrigger("");
+        setOccurredAt(new Date());
+        setRelapseVersion((version) => version + 1);
 
         navigate("/journal");
       } else {
@@ -148,12 +154,11 @@ const Analytics: React.FC = () => {
     }
   };
 
-  const currentStreak = userProfile?.streakDays || 0;
   const lastCheckIn = userProfile?.lastCheckIn
     ? userProfile.lastCheckIn.toDate()
     : new Date();
 
-  const Triggers = useTriggers(currentUser?.uid);
+  const Triggers = useTriggers(currentUser?.uid, relapseVersion);
   const hasNoTriggerData = Triggers.length === 0;
 
   function capitalize(val: string) {
@@ -305,7 +310,10 @@ const Analytics: React.FC = () => {
               </CardHeader>
               <CardContent>
                 <div className="space-y-6">
-                  <RelapseCalendar userId={currentUser?.uid} />
+                  <RelapseCalendar
+                    userId={currentUser?.uid}
+                    onRelapsesChanged={() => setRelapseVersion((version) => version + 1)}
+                  />
 
                   <div className="grid grid-cols-3 gap-4 mt-6">
                     <div className="bg-green-50 dark:bg-green-900/20 p-4 rounded-lg text-center">
@@ -453,16 +461,24 @@ const Analytics: React.FC = () => {
                       <SelectValue placeholder="Select a trigger" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="stress">Stress</SelectItem>
-                      <SelectItem value="boredom">Boredom</SelectItem>
-                      <SelectItem value="loneliness">Loneliness</SelectItem>
-                      <SelectItem value="fatigue">Fatigue</SelectItem>
-                      <SelectItem value="social-media">Social Media</SelectItem>
-                      <SelectItem value="other">Other</SelectItem>
+                      {RELAPSE_TRIGGERS.map((trigger) => (
+                        <SelectItem key={trigger.value} value={trigger.value}>
+                          {trigger.label}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="occurred-at">When did it happen?</Label>
+                  <DateTimePicker
+                    id="occurred-at"
+                    value={occurredAt}
+                    onChange={setOccurredAt}
+                  />
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="notes">Notes (optional)</Label>
                   <Textarea
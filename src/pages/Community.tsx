@@ -1,11 +1,14 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { 
   Dialog,
   DialogContent,
@@ -19,28 +22,128 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { motion } from 'framer-motion';
-import { Send, Users, MessageCircle, Plus, Smile, Reply, Check } from 'lucide-react';
-import { collection, getDocs, Timestamp, onSnapshot } from 'firebase/firestore';
-import { db, UserProfile } from '../utils/firebase';
+import { Timestamp } from 'firebase/firestore';
+import { Send, Users, MessageCircle, Plus, Smile, Reply, Flag, AlertTriangle, MoreVertical, Pencil, Trash2, X, Settings, Compass, Archive, ImagePlus } from 'lucide-react';
+import { UserProfile } from '../utils/firebase';
+import { repository } from '../utils/repository';
 import { useAuth } from '../utils/auth';
 import { 
   ChatMessage, 
   ChatRoom, 
+  Presence,
   getAvailableRooms, 
-  fetchRoomMessages,
+  getRoomMessages,
+  fetchOlderMessages,
+  mergeMessageWindow,
+  MESSAGE_WINDOW_SIZE,
   sendMessage, 
+  ImageAttachment,
+  IMAGE_TYPES,
+  validateImage,
   addReaction, 
   removeReaction,
-  createGroupChat
+  createGroupChat,
+  subscribeToPresence,
+  updatePresence,
+  isOnline,
+  getRoomOnlineUserIds,
+  getTypingUserIds,
+  sharesPresence,
+  TYPING_TIMEOUT_MS,
+  hasBlocked,
+  isHiddenSender,
+  getHiddenSenderIds,
+  blockUser,
+  unblockUser,
+  muteUser,
+  unmuteUser,
+  editMessage,
+  deleteMessage,
+  canEditMessage,
+  canDeleteMessage,
+  getReplyPreview,
+  getThreadId,
+  DELETED_MESSAGE_TEXT,
+  DirectRequest,
+  subscribeToRooms,
+  subscribeToDirectRequests,
+  requestDirectMessage,
+  withdrawDirectRequest,
+  acceptDirectRequest,
+  declineDirectRequest,
+  directRoomId,
+  getDirectPartnerId,
+  markRoomRead,
+  subscribeToUnreadCounts,
+  getFirstUnreadIndex,
+  formatUnreadCount,
+  GROUP_DESCRIPTION_MAX_LENGTH,
+  GROUP_NAME_MAX_LENGTH,
+  getGroupRole,
+  isArchived,
+  joinGroup,
+  removeGroupInvitation,
+  subscribeToOpenGroups
 } from '../utils/chatService';
+import { REMOVED_MESSAGE_TEXT, REPORT_REASONS, reportMessage } from '../utils/moderationService';
+import {
+  Partnership,
+  acceptPartnership,
+  partnershipId,
+  requestPartnership,
+  subscribeToPartnerships
+} from '../utils/partnerService';
 import { toast } from 'sonner';
+import GroupSettingsDialog from '../components/GroupSettingsDialog';
+import MemberPicker from '../components/MemberPicker';
+import ThreadPanel from '../components/ThreadPanel';
+import MessageContent from '../components/MessageContent';
+import MessageAttachments from '../components/MessageAttachments';
+import EmojiPicker from '../components/EmojiPicker';
+import { toPreviewText } from '../utils/markdown';
+import MemberAvatar from '../components/MemberAvatar';
+import { getPublicName } from '../utils/identity';
 
 // Common emoji reactions
 const COMMON_EMOJIS = ['👍', '❤️', '😊', '🙏', '✨', '💪', '🔥'];
 
+// Moderator warnings stay on screen this long
+const WARNING_NOTICE_DAYS = 30;
+
+// How often online and typing states are re-evaluated against the clock
+const PRESENCE_TICK_MS = 5 * 1000;
+
+// What was unread in the open room when the user opened it
+interface ReadSince {
+  roomId: string;
+  lastReadAt: Timestamp | null;
+  unread: number;
+  jumped?: boolean;
+}
+
+const getReadSince = (
+  roomId: string,
+  unread: { counts: Record<string, number>; readMarkers: Record<string, Timestamp> }
+): ReadSince => ({
+  roomId,
+  lastReadAt: unread.readMarkers[roomId] || null,
+  unread: unread.counts[roomId] || 0
+});
+
 const Community: React.FC = () => {
   const [message, setMessage] = useState('');
   const [chatRooms, setChatRooms] = useState<ChatRoom[]>([]);
@@ -49,11 +152,53 @@ const Community: React.FC = () => {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [loading, setLoading] = useState(true);
   const [messagesLoading, setMessagesLoading] = useState(false);
-  const [replyingTo, setReplyingTo] = useState<ChatMessage | null>(null);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  // The thread open beside the conversation, by the id of the message that started it
+  const [openThreadId, setOpenThreadId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<ChatMessage | null>(null);
+  const [deletingMessage, setDeletingMessage] = useState<ChatMessage | null>(null);
+  // Messages that replies point at but that are outside the loaded window
+  const [replyTargets, setReplyTargets] = useState<Record<string, ChatMessage>>({});
   const [newRoomName, setNewRoomName] = useState('');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const messageListenerRef = useRef<() => void>(() => {});
-  const { currentUser, userProfile } = useAuth();
+  const [newRoomDescription, setNewRoomDescription] = useState('');
+  const [newRoomDiscoverable, setNewRoomDiscoverable] = useState(false);
+  const [newRoomInvitees, setNewRoomInvitees] = useState<string[]>([]);
+  const [createRoomOpen, setCreateRoomOpen] = useState(false);
+  // Discoverable groups and group invitations the user has not joined yet
+  const [openGroups, setOpenGroups] = useState<ChatRoom[]>([]);
+  const [discoverOpen, setDiscoverOpen] = useState(false);
+  const [groupSettingsOpen, setGroupSettingsOpen] = useState(false);
+  const [presence, setPresence] = useState<Presence[]>([]);
+  const [reportingMessage, setReportingMessage] = useState<ChatMessage | null>(null);
+  const [reportReason, setReportReason] = useState('');
+  const [reportDetails, setReportDetails] = useState('');
+  const [now, setNow] = useState(Date.now());
+  const [activeTab, setActiveTab] = useState('chat');
+  const [directRequests, setDirectRequests] = useState<DirectRequest[]>([]);
+  const [partnerships, setPartnerships] = useState<Partnership[]>([]);
+  // Unread messages per room
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
+  const [readSince, setReadSince] = useState<ReadSince | null>(null);
+  // Messages from blocked or muted members the user chose to see anyway
+  const [revealedMessageIds, setRevealedMessageIds] = useState<Set<string>>(new Set());
+  // Image picked in the composer, with a local URL for previewing it before sending
+  const [pendingImage, setPendingImage] = useState<(ImageAttachment & { previewUrl: string }) | null>(null);
+  const messageListRef = useRef<HTMLDivElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const activeRoomRef = useRef<string | undefined>();
+  const loadingOlderRef = useRef(false);
+  const prependedCountRef = useRef(0);
+  const scrollToIndexRef = useRef<{ index: number; align: 'start' | 'center' } | null>(null);
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  // Latest unread counts and read markers, for capturing them when a room opens
+  const unreadRef = useRef<{ counts: Record<string, number>; readMarkers: Record<string, Timestamp> } | null>(null);
+  const stickToBottomRef = useRef(true);
+  const typingSentAtRef = useRef(0);
+  const typingTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const { currentUser, userProfile, refreshProfile } = useAuth();
   
   // Initialize default chat rooms and fetch available rooms
   useEffect(() => {
@@ -82,21 +227,59 @@ const Community: React.FC = () => {
     setupChatRooms();
   }, [currentUser, userProfile?.gender]);
   
+  // Keep the room list and the open room current as messages arrive
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    return subscribeToRooms(currentUser.uid, userProfile?.gender, (rooms) => {
+      setChatRooms(rooms);
+      setSelectedRoom(current => {
+        if (!current) return current;
+        const updated = rooms.find(room => room.id === current.id);
+        if (updated) return updated;
+        // No longer in the group after leaving or being removed
+        return current.type === 'group' ? rooms.find(room => room.id === 'main') || null : current;
+      });
+    });
+  }, [currentUser, userProfile?.gender]);
+  
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    return subscribeToOpenGroups(currentUser.uid, setOpenGroups);
+  }, [currentUser]);
+  
+  // Resubscribe only when the hidden senders actually change, not on every profile update
+  const hiddenSenderKey = getHiddenSenderIds(userProfile).join(',');
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    const hiddenSenderIds = hiddenSenderKey ? hiddenSenderKey.split(',') : [];
+    return subscribeToUnreadCounts(currentUser.uid, userProfile?.gender, hiddenSenderIds, (counts, readMarkers) => {
+      unreadRef.current = { counts, readMarkers };
+      setUnreadCounts(counts);
+      // The room was opened before the first read markers arrived
+      setReadSince(current => current || (activeRoomRef.current ? getReadSince(activeRoomRef.current, unreadRef.current) : null));
+    });
+  }, [currentUser, userProfile?.gender, hiddenSenderKey]);
+  
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    return subscribeToDirectRequests(currentUser.uid, setDirectRequests);
+  }, [currentUser]);
+  
+  useEffect(() => {
+    if (!currentUser) return;
+    
+    return subscribeToPartnerships(currentUser.uid, setPartnerships);
+  }, [currentUser]);
+  
   // Fetch users for displaying names and avatars
   useEffect(() => {
     const fetchUsers = async () => {
       try {
-        const usersCollection = collection(db, 'users');
-        const userSnapshot = await getDocs(usersCollection);
-        const usersList: UserProfile[] = [];
-        
-        userSnapshot.forEach((doc) => {
-          usersList.push({ 
-            id: doc.id, 
-            ...doc.data() as Omit<UserProfile, 'id'> 
-          });
-        });
-        
+        const usersList = await repository.users.list();
         setUsers(usersList);
       } catch (error) {
         console.error('Error fetching users:', error);
@@ -106,94 +289,257 @@ const Community: React.FC = () => {
     fetchUsers();
   }, []);
   
-  // Set up real-time message listener when room changes
+  // Track who is around; records go stale without a change, so re-check on a timer
   useEffect(() => {
-    // Clean up previous listener if it exists
-    if (messageListenerRef.current) {
-      messageListenerRef.current();
-      messageListenerRef.current = () => {};
-    }
+    const unsubscribe = subscribeToPresence(setPresence);
+    const interval = setInterval(() => setNow(Date.now()), PRESENCE_TICK_MS);
     
-    if (!selectedRoom) return;
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+  
+  // Tell others which room this user has open, unless it is a group or direct chat
+  const selectedRoomId = selectedRoom?.id;
+  const selectedRoomShared = !!selectedRoom && sharesPresence(selectedRoom);
+  const userId = currentUser?.uid;
+  useEffect(() => {
+    if (!userId || !selectedRoomId || !selectedRoomShared) return;
     
-    setMessagesLoading(true);
+    updatePresence(userId, { roomId: selectedRoomId, typingIn: null });
     
-    // Initial fetch of messages
-    const fetchInitialMessages = async () => {
-      try {
-        const initialMessages = await fetchRoomMessages(selectedRoom.id);
-        setMessages(initialMessages);
-        setMessagesLoading(false);
-      } catch (error) {
-        console.error(`Error fetching initial messages for room ${selectedRoom.id}:`, error);
-        setMessagesLoading(false);
-      }
+    return () => {
+      clearTimeout(typingTimerRef.current);
+      typingSentAtRef.current = 0;
+      updatePresence(userId, { roomId: null, typingIn: null });
     };
+  }, [userId, selectedRoomId, selectedRoomShared]);
+  
+  // Listen to the latest messages when the room changes; older ones are paged in on demand
+  useEffect(() => {
+    activeRoomRef.current = selectedRoomId;
+    setReadSince(selectedRoomId && unreadRef.current ? getReadSince(selectedRoomId, unreadRef.current) : null);
+    setMessages([]);
+    setReplyTargets({});
+    setEditingMessage(null);
+    setOpenThreadId(null);
+    setPendingImage(null);
+    setHasOlderMessages(false);
+    stickToBottomRef.current = true;
     
-    fetchInitialMessages();
+    if (!selectedRoomId) return;
     
-    // Set up real-time listener for messages
-    const unsubscribe = messageListenerRef.current;
+    setMessagesLoading(true);
+    let firstSnapshot = true;
     
-    // Add a custom listener to the messages collection
-    const messagesQuery = collection(db, 'rooms', selectedRoom.id, 'messages');
-    const realTimeListener = onSnapshot(messagesQuery, (snapshot) => {
-      const updatedMessages: ChatMessage[] = [];
-      
-      snapshot.forEach((doc) => {
-        const messageData = doc.data() as Omit<ChatMessage, 'id'>;
-        updatedMessages.push({
-          id: doc.id,
-          ...messageData,
-          timestamp: messageData.timestamp as Timestamp
-        });
-      });
-      
-      // Sort messages by timestamp
-      updatedMessages.sort((a, b) => {
-        const aTime = a.timestamp instanceof Timestamp ? a.timestamp.toMillis() : 0;
-        const bTime = b.timestamp instanceof Timestamp ? b.timestamp.toMillis() : 0;
-        return aTime - bTime;
-      });
-      
-      setMessages(updatedMessages);
+    // Messages arrive already sorted oldest first
+    const unsubscribe = getRoomMessages(selectedRoomId, (latest) => {
+      if (firstSnapshot) {
+        firstSnapshot = false;
+        setMessages(latest);
+        setHasOlderMessages(latest.length === MESSAGE_WINDOW_SIZE);
+      } else {
+        setMessages(shown => mergeMessageWindow(shown, latest));
+      }
       setMessagesLoading(false);
     });
     
-    // Updated cleanup function
-    return () => {
-      if (messageListenerRef.current) {
-        messageListenerRef.current();
+    return unsubscribe;
+  }, [selectedRoomId]);
+  
+  // Load the originals of replies whose target is not loaded, so their quotes reflect edits and deletions
+  useEffect(() => {
+    if (!selectedRoomId) return;
+    
+    const loadedIds = new Set(messages.map(m => m.id));
+    const missingIds = Array.from(new Set(messages
+      .map(m => m.replyTo)
+      .filter(id => id && !loadedIds.has(id) && !(id in replyTargets))));
+    if (missingIds.length === 0) return;
+    
+    const fetchReplyTargets = async () => {
+      try {
+        const originals = await Promise.all(missingIds.map(id => repository.messages.get(selectedRoomId, id)));
+        if (activeRoomRef.current !== selectedRoomId) return;
+        setReplyTargets(targets => ({
+          ...targets,
+          ...Object.fromEntries(missingIds.map((id, i) => [id, originals[i]]))
+        }));
+      } catch (error) {
+        console.error('Error fetching replied-to messages:', error);
       }
-      realTimeListener();
     };
-  }, [selectedRoom]);
+    
+    fetchReplyTargets();
+  }, [messages, selectedRoomId, replyTargets]);
   
-  // Scroll to bottom when messages change
+  // Everything shown in the open room has been read, once the previous marker is known for the divider
+  const readSinceRoomId = readSince?.roomId;
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    if (!userId || !selectedRoomId || messages.length === 0 || readSinceRoomId !== selectedRoomId) return;
+    
+    markRoomRead(userId, selectedRoomId);
+  }, [userId, selectedRoomId, messages, readSinceRoomId]);
+  
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => messageListRef.current,
+    estimateSize: () => 80,
+    overscan: 10,
+    getItemKey: (index) => messages[index].id
+  });
+  
+  // Keep the view steady when older messages are prepended, and follow new
+  // messages only while the user is reading the end of the conversation
+  useLayoutEffect(() => {
+    if (scrollToIndexRef.current !== null) {
+      virtualizer.scrollToIndex(scrollToIndexRef.current.index, { align: scrollToIndexRef.current.align });
+      scrollToIndexRef.current = null;
+      prependedCountRef.current = 0;
+    } else if (prependedCountRef.current > 0) {
+      virtualizer.scrollToIndex(prependedCountRef.current, { align: 'start' });
+      prependedCountRef.current = 0;
+    } else if (stickToBottomRef.current && messages.length > 0) {
+      virtualizer.scrollToIndex(messages.length - 1, { align: 'end' });
+    }
+  }, [messages, virtualizer]);
+  
+  const loadOlderMessages = async () => {
+    if (!selectedRoomId || !hasOlderMessages || loadingOlderRef.current || messages.length === 0) return;
+    
+    const roomId = selectedRoomId;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    
+    const page = await fetchOlderMessages(roomId, messages[0]);
+    // Drop the page if the user switched rooms while it loaded
+    if (activeRoomRef.current === roomId) {
+      prependedCountRef.current = page.messages.length;
+      setMessages(shown => [...page.messages, ...shown]);
+      setHasOlderMessages(page.hasMore);
+    }
+    
+    loadingOlderRef.current = false;
+    setLoadingOlder(false);
+  };
+  
+  // Page back until findIndex locates a message, then bring it into view; resolves to its index or -1
+  const scrollToMessage = async (
+    findIndex: (loaded: ChatMessage[], hasMore: boolean) => number,
+    align: 'start' | 'center'
+  ) => {
+    if (!selectedRoomId || loadingOlderRef.current) return -1;
+    
+    const roomId = selectedRoomId;
+    let older: ChatMessage[] = [];
+    let hasMore = hasOlderMessages;
+    let index = findIndex(messages, hasMore);
+    stickToBottomRef.current = false;
+    
+    if (index !== -1 || !hasMore) {
+      if (index !== -1) {
+        virtualizer.scrollToIndex(index, { align });
+      }
+      return index;
+    }
+    
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    while (index === -1 && hasMore) {
+      const page = await fetchOlderMessages(roomId, older[0] || messages[0]);
+      older = [...page.messages, ...older];
+      hasMore = page.hasMore && page.messages.length > 0;
+      index = findIndex([...older, ...messages], hasMore);
+    }
+    
+    if (activeRoomRef.current === roomId) {
+      scrollToIndexRef.current = index === -1 ? null : { index, align };
+      setMessages(shown => [...older, ...shown]);
+      setHasOlderMessages(hasMore);
+    }
+    loadingOlderRef.current = false;
+    setLoadingOlder(false);
+    return index;
+  };
+  
+  const jumpToFirstUnread = () => {
+    if (!userId || !readSince) return;
+    
+    setReadSince(current => current && { ...current, jumped: true });
+    scrollToMessage((loaded, hasMore) => getFirstUnreadIndex(loaded, userId, readSince.lastReadAt, hasMore), 'start');
+  };
+  
+  const jumpToMessage = async (messageId: string) => {
+    setOpenThreadId(null);
+    const index = await scrollToMessage(loaded => loaded.findIndex(m => m.id === messageId), 'center');
+    if (index === -1) {
+      toast('That message is no longer in the conversation');
+      return;
+    }
+    
+    clearTimeout(highlightTimerRef.current);
+    setHighlightedMessageId(messageId);
+    highlightTimerRef.current = setTimeout(() => setHighlightedMessageId(null), 2000);
+  };
+  
+  const handleMessagesScroll = () => {
+    const list = messageListRef.current;
+    if (!list) return;
+    
+    stickToBottomRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < 80;
+    if (list.scrollTop < 200) {
+      loadOlderMessages();
+    }
+  };
+  
+  const stopTyping = () => {
+    clearTimeout(typingTimerRef.current);
+    if (typingSentAtRef.current && currentUser) {
+      typingSentAtRef.current = 0;
+      updatePresence(currentUser.uid, { typingIn: null });
+    }
+  };
+  
+  // Report typing at most every half timeout, and stop once the user pauses
+  const handleMessageChange = (text: string) => {
+    setMessage(text);
+    if (!currentUser || !selectedRoom || !sharesPresence(selectedRoom)) return;
+    
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+    
+    if (Date.now() - typingSentAtRef.current > TYPING_TIMEOUT_MS / 2) {
+      typingSentAtRef.current = Date.now();
+      updatePresence(currentUser.uid, { typingIn: selectedRoom.id });
+    }
+    clearTimeout(typingTimerRef.current);
+    typingTimerRef.current = setTimeout(stopTyping, TYPING_TIMEOUT_MS / 2);
+  };
   
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!message.trim() || !selectedRoom || !currentUser) return;
+    if ((!message.trim() && !pendingImage && !editingMessage?.image) || !selectedRoom || !currentUser) return;
+    
+    stopTyping();
+    stickToBottomRef.current = true;
     
     try {
-      const replyToId = replyingTo?.id;
-      const replyToText = replyingTo?.text;
+      if (editingMessage) {
+        if (message.trim() === editingMessage.text || await editMessage(selectedRoom.id, editingMessage, message, currentUser.uid)) {
+          cancelEditing();
+        }
+        return;
+      }
       
-      const success = await sendMessage(
-        selectedRoom.id, 
-        message, 
-        currentUser.uid,
-        replyToId,
-        replyToText
-      );
+      const success = await sendMessage(selectedRoom.id, message, currentUser.uid, { image: pendingImage ?? undefined });
       
       if (success) {
         setMessage('');
-        setReplyingTo(null);
+        setPendingImage(null);
       }
     } catch (error) {
       console.error("Error sending message:", error);
@@ -201,14 +547,116 @@ const Community: React.FC = () => {
     }
   };
   
+  // Read the picked image's size so its message can reserve space before it loads
+  const handleImagePicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    
+    const problem = validateImage(file);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    
+    const previewUrl = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => setPendingImage({ file, width: img.naturalWidth, height: img.naturalHeight, previewUrl });
+    img.onerror = () => {
+      URL.revokeObjectURL(previewUrl);
+      toast.error("That image couldn't be opened");
+    };
+    img.src = previewUrl;
+  };
+  
+  // Free the preview URL once the image is sent or dropped
+  useEffect(() => {
+    if (!pendingImage) return;
+    return () => URL.revokeObjectURL(pendingImage.previewUrl);
+  }, [pendingImage]);
+  
+  // Put the emoji where the cursor is, or at the end if the composer hasn't been focused
+  const insertEmoji = (emoji: string) => {
+    const input = composerRef.current;
+    const start = input?.selectionStart ?? message.length;
+    const end = input?.selectionEnd ?? message.length;
+    handleMessageChange(message.slice(0, start) + emoji + message.slice(end));
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + emoji.length, start + emoji.length);
+    });
+  };
+  
+  const startEditing = (msg: ChatMessage) => {
+    setPendingImage(null);
+    setEditingMessage(msg);
+    setMessage(msg.text);
+  };
+  
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setMessage('');
+  };
+  
+  const handleDeleteMessage = async () => {
+    if (!deletingMessage || !selectedRoom || !currentUser) return;
+    
+    if (await deleteMessage(selectedRoom.id, deletingMessage, currentUser.uid)) {
+      if (editingMessage?.id === deletingMessage.id) {
+        cancelEditing();
+      }
+    }
+    setDeletingMessage(null);
+  };
+  
+  const openRoom = (room: ChatRoom) => {
+    setSelectedRoom(room);
+    setActiveTab('chat');
+  };
+  
+  const handleMessageMember = async (memberId: string) => {
+    if (!currentUser) return;
+    
+    const existingRoom = chatRooms.find(room => room.id === directRoomId(currentUser.uid, memberId));
+    if (existingRoom) {
+      openRoom(existingRoom);
+      return;
+    }
+    
+    const incoming = directRequests.find(request => request.fromId === memberId && request.status === 'pending');
+    if (incoming) {
+      await handleAcceptRequest(incoming);
+    } else {
+      await requestDirectMessage(currentUser.uid, memberId);
+    }
+  };
+  
+  const handleAcceptRequest = async (request: DirectRequest) => {
+    const roomId = await acceptDirectRequest(request, chatRooms);
+    if (roomId) {
+      const room = await repository.rooms.get(roomId);
+      if (room) {
+        openRoom(room);
+      }
+    }
+  };
+  
   const handleCreateRoom = async () => {
     if (!newRoomName.trim() || !currentUser) return;
     
     try {
-      const roomId = await createGroupChat(newRoomName, currentUser.uid);
+      const roomId = await createGroupChat(newRoomName, currentUser.uid, {
+        description: newRoomDescription,
+        discoverable: newRoomDiscoverable,
+        invitees: newRoomInvitees
+      });
       
       if (roomId) {
         setNewRoomName('');
+        setNewRoomDescription('');
+        setNewRoomDiscoverable(false);
+        setNewRoomInvitees([]);
+        setCreateRoomOpen(false);
         // Refresh room list
         const rooms = await getAvailableRooms(currentUser.uid, userProfile?.gender);
         setChatRooms(rooms);
@@ -225,6 +673,18 @@ const Community: React.FC = () => {
     }
   };
   
+  const handleJoinGroup = async (room: ChatRoom) => {
+    if (!currentUser) return;
+    
+    if (await joinGroup(room, currentUser.uid)) {
+      setDiscoverOpen(false);
+      const joined = await repository.rooms.get(room.id);
+      if (joined) {
+        openRoom(joined);
+      }
+    }
+  };
+  
   const handleReaction = async (message: ChatMessage, emoji: string) => {
     if (!currentUser || !selectedRoom) return;
     
@@ -242,6 +702,47 @@ const Community: React.FC = () => {
     }
   };
   
+  const openReportDialog = (message: ChatMessage) => {
+    setReportingMessage(message);
+    setReportReason('');
+    setReportDetails('');
+  };
+  
+  const handleReportMessage = async () => {
+    if (!reportingMessage || !reportReason || !selectedRoom || !currentUser) return;
+    
+    const success = await reportMessage(selectedRoom.id, reportingMessage, currentUser.uid, reportReason, reportDetails);
+    if (success) {
+      setReportingMessage(null);
+    }
+  };
+  
+  const handleBlockToggle = async (userId: string) => {
+    if (!currentUser) return;
+    
+    const success = hasBlocked(userProfile, userId)
+      ? await unblockUser(currentUser.uid, userId)
+      : await blockUser(currentUser.uid, userId);
+    if (success) {
+      await refreshProfile();
+    }
+  };
+  
+  const handleMuteToggle = async (userId: string) => {
+    if (!currentUser) return;
+    
+    const success = userProfile?.mutedUsers?.includes(userId)
+      ? await unmuteUser(currentUser.uid, userId)
+      : await muteUser(currentUser.uid, userId);
+    if (success) {
+      await refreshProfile();
+    }
+  };
+  
+  const revealMessage = (messageId: string) => {
+    setRevealedMessageIds(ids => new Set(ids).add(messageId));
+  };
+  
   const formatTimeAgo = (date: Date) => {
     const now = new Date();
     const diffInSeconds = Math.floor((now.getTime() - date.getTime()) / 1000);
@@ -252,61 +753,104 @@ const Community: React.FC = () => {
     return `${Math.floor(diffInSeconds / 86400)}d ago`;
   };
   
-  // Function to get a user's display name
-  const getUserDisplayName = (userId: string) => {
-    const user = users.find(u => u.id === userId);
-    if (user && user.firstName && user.lastName) {
-      return `${user.firstName} ${user.lastName}`;
-    } else if (user && user.username) {
-      return user.username;
-    } else {
-      return 'Anonymous';
-    }
+  // The name a member goes by in chat, as they chose to be shown there
+  const getUserDisplayName = (userId: string) =>
+    getPublicName(users.find(u => u.id === userId), 'chat');
+  
+  // Number of users who currently have the room open
+  const getOnlineCount = (room: ChatRoom) => getRoomOnlineUserIds(presence, room.id, now).length;
+  
+  const getRoomTitle = (room: ChatRoom) =>
+    room.type === 'direct' ? getUserDisplayName(getDirectPartnerId(room, currentUser?.uid)) : room.name;
+  
+  // What the Message button on a member's card does right now
+  const getDirectStatus = (memberId: string) => {
+    if (chatRooms.some(room => room.id === directRoomId(currentUser?.uid, memberId))) return 'open';
+    const request = directRequests.find(r =>
+      (r.fromId === memberId && r.toId === currentUser?.uid) || (r.toId === memberId && r.fromId === currentUser?.uid));
+    if (!request || request.status === 'accepted') return 'none';
+    if (request.status === 'declined') return request.fromId === currentUser?.uid ? 'declined' : 'none';
+    return request.fromId === currentUser?.uid ? 'sent' : 'received';
   };
   
-  // Function to get user's initials for avatar
-  const getUserInitials = (userId: string) => {
-    const user = users.find(u => u.id === userId);
-    if (user && user.firstName && user.lastName) {
-      return `${user.firstName[0]}${user.lastName[0]}`;
-    } else if (user && user.username) {
-      return user.username[0];
-    } else {
-      return 'U';
-    }
+  // Where the user and a member stand as accountability partners
+  const getPartnerStatus = (memberId: string) => {
+    const partnership = partnerships.find(p => p.id === partnershipId(currentUser?.uid, memberId));
+    if (!partnership) return 'none';
+    if (partnership.status === 'active') return 'active';
+    return partnership.members[0] === currentUser?.uid ? 'sent' : 'received';
   };
   
-  // Function to get the correct participant count for gender-specific rooms
-  const getParticipantCount = (room: ChatRoom): number => {
-    if (room.type === 'men') {
-      return users.filter(user => user.gender === 'male').length;
-    } else if (room.type === 'women') {
-      return users.filter(user => user.gender === 'female').length;
+  const handlePartnerInvite = (memberId: string) => {
+    if (!currentUser) return;
+    
+    const partnership = partnerships.find(p => p.id === partnershipId(currentUser.uid, memberId));
+    if (partnership) {
+      acceptPartnership(partnership, currentUser.uid);
     } else {
-      return room.participants.length;
+      requestPartnership(currentUser.uid, memberId);
     }
   };
   
-  // Get online count (this is a placeholder - in a real app you'd implement presence tracking)
-  const getOnlineCount = (room: ChatRoom) => {
-    // For demonstration, calculate a reasonable number of online users
-    const participantCount = getParticipantCount(room);
-    const onlineCount = participantCount > 0 
-      ? Math.min(Math.ceil(participantCount * 0.3), 5) // About 30% of users are online, max 5
-      : 0;
-    
-    return onlineCount;
+  const getLastSeen = (userId: string) => {
+    const record = presence.find(p => p.userId === userId);
+    if (!record?.lastSeen) return null;
+    const online = isOnline(record, now);
+    return { online, label: online ? 'Online' : `Last seen ${formatTimeAgo(record.lastSeen.toDate())}` };
+  };
+  
+  const getTypingLabel = (room: ChatRoom) => {
+    const names = getTypingUserIds(presence, room.id, currentUser?.uid, now)
+      .filter(userId => !isHiddenSender(userProfile, userId))
+      .map(getUserDisplayName);
+    if (names.length === 0) return null;
+    if (names.length === 1) return `${names[0]} is typing...`;
+    if (names.length === 2) return `${names[0]} and ${names[1]} are typing...`;
+    return 'Several people are typing...';
   };
+  
+  const latestWarning = userProfile?.warnings?.[userProfile.warnings.length - 1];
+  const showWarning = !!latestWarning &&
+    Date.now() - latestWarning.at.toMillis() < WARNING_NOTICE_DAYS * 24 * 60 * 60 * 1000;
+  
+  const directRooms = chatRooms.filter(room => room.type === 'direct');
+  const incomingRequests = directRequests.filter(request =>
+    request.toId === currentUser?.uid &&
+    request.status === 'pending' &&
+    !hasBlocked(userProfile, request.fromId)
+  );
+  
+  const groupInvitations = openGroups.filter(room =>
+    room.invited?.includes(currentUser?.uid) && !hasBlocked(userProfile, room.createdBy)
+  );
+  const discoverableGroups = openGroups.filter(room => room.discoverable);
+  const sharedRooms = chatRooms.filter(room => room.type !== 'direct' && !isArchived(room));
+  const archivedRooms = chatRooms.filter(room => room.type === 'group' && isArchived(room));
+  const selectedArchived = !!selectedRoom && isArchived(selectedRoom);
+  
+  // The open room is being read, so it never shows as unread
+  const getUnreadCount = (room: ChatRoom) => room.id === selectedRoom?.id ? 0 : unreadCounts[room.id] || 0;
+  const hasNewMessages = !!readSince && readSince.roomId === selectedRoom?.id && readSince.unread > 0;
+  const firstUnreadIndex = hasNewMessages
+    ? getFirstUnreadIndex(messages, currentUser?.uid, readSince.lastReadAt, hasOlderMessages)
+    : -1;
+  
+  const roomOnlineNames = selectedRoom
+    ? getRoomOnlineUserIds(presence, selectedRoom.id, now).map(getUserDisplayName)
+    : [];
+  const typingLabel = selectedRoom ? getTypingLabel(selectedRoom) : null;
 
   // Render message reactions
   const renderReactions = (message: ChatMessage) => {
-    if (!message.reactions || Object.keys(message.reactions).length === 0) {
+    // Emoji whose last reaction was taken back stay behind with nobody under them
+    const reactions = Object.entries(message.reactions || {}).filter(([, userIds]) => userIds.length > 0);
+    if (reactions.length === 0) {
       return null;
     }
     
     return (
       <div className="flex flex-wrap gap-1 mt-1">
-        {Object.entries(message.reactions).map(([emoji, userIds]) => (
+        {reactions.map(([emoji, userIds]) => (
           <Badge 
             key={emoji} 
             variant={userIds.includes(currentUser?.uid || '') ? "default" : "outline"}
@@ -320,6 +864,173 @@ const Community: React.FC = () => {
     );
   };
   
+  // Render a single message with its reply reference, actions and reactions
+  const renderMessage = (msg: ChatMessage) => {
+    const isCurrentUser = msg.senderId === currentUser?.uid;
+    
+    // Removed and deleted messages keep their place in the conversation as a tombstone
+    if (msg.removedAt || msg.deletedAt) {
+      return (
+        <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}>
+          <div className="rounded-lg border border-dashed px-4 py-2 text-sm italic text-muted-foreground">
+            {msg.removedAt ? REMOVED_MESSAGE_TEXT : DELETED_MESSAGE_TEXT}
+            {msg.replyCount > 0 && (
+              <Button variant="link" size="sm" className="h-auto p-0 ml-2 not-italic" onClick={() => setOpenThreadId(msg.id)}>
+                {msg.replyCount} {msg.replyCount === 1 ? 'reply' : 'replies'}
+              </Button>
+            )}
+          </div>
+        </div>
+      );
+    }
+    
+    if (isHiddenSender(userProfile, msg.senderId) && !revealedMessageIds.has(msg.id)) {
+      return (
+        <div className="flex justify-start">
+          <div className="rounded-lg border border-dashed px-4 py-2 text-sm text-muted-foreground">
+            {hasBlocked(userProfile, msg.senderId) ? 'Message from a blocked member' : 'Message from a muted member'}
+            <Button variant="link" size="sm" className="h-auto p-0 ml-2" onClick={() => revealMessage(msg.id)}>
+              Show anyway
+            </Button>
+          </div>
+        </div>
+      );
+    }
+    
+    const repliedTo = msg.replyTo
+      ? messages.find(m => m.id === msg.replyTo) || replyTargets[msg.replyTo]
+      : undefined;
+    const replyPreview = repliedTo && isHiddenSender(userProfile, repliedTo.senderId) && !revealedMessageIds.has(repliedTo.id)
+      ? 'Hidden message'
+      : getReplyPreview(msg, repliedTo);
+    
+    return (
+      <div className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}>
+        <div className={`flex max-w-[80%] ${isCurrentUser ? 'flex-row-reverse' : 'flex-row'}`}>
+          <MemberAvatar
+            profile={users.find(u => u.id === msg.senderId)}
+            surface="chat"
+            className={`h-8 w-8 ${isCurrentUser ? 'ml-2' : 'mr-2'}`}
+          />
+    
+          <div className={`space-y-1 ${isCurrentUser ? 'items-end' : 'items-start'}`}>
+            <div className="flex items-baseline gap-2">
+              <span className="text-sm font-medium">{getUserDisplayName(msg.senderId)}</span>
+              <span className="text-xs text-muted-foreground">
+                {msg.timestamp && msg.timestamp.toDate ? formatTimeAgo(msg.timestamp.toDate()) : 'Just now'}
+                {msg.editedAt && ' (edited)'}
+              </span>
+            </div>
+    
+            {/* Reply reference; jumps to the original */}
+            {msg.replyTo && (
+              <button
+                type="button"
+                className={`block w-full text-left text-xs rounded px-3 py-1 border-l-2 border-primary hover:bg-muted ${
+                  isCurrentUser 
+                    ? 'bg-muted/50 text-foreground mr-auto' 
+                    : 'bg-muted/30 text-foreground ml-auto'
+                }`}
+                onClick={() => jumpToMessage(msg.replyTo)}
+              >
+                {repliedTo && (
+                  <span className="font-medium">
+                    {getUserDisplayName(repliedTo.senderId)}:
+                  </span>
+                )} {replyPreview}
+              </button>
+            )}
+    
+            <div className={`relative rounded-lg px-4 py-2 group ${
+              isCurrentUser 
+                ? 'bg-primary text-primary-foreground' 
+                : 'bg-secondary'
+            }`}>
+              <div className="space-y-2">
+                <MessageAttachments message={msg} />
+                {msg.text && <MessageContent text={msg.text} />}
+              </div>
+    
+              {/* Message actions */}
+              <div className={`absolute ${isCurrentUser ? 'left-0' : 'right-0'} -translate-y-1/2 top-1/2 opacity-0 group-hover:opacity-100 transition-opacity`}>
+                <div className={`${isCurrentUser ? '-translate-x-full mr-2' : 'translate-x-full ml-2'} flex items-center gap-1 bg-background shadow-sm rounded-full p-1`}>
+                  <EmojiPicker
+                    quick={COMMON_EMOJIS}
+                    align={isCurrentUser ? "start" : "end"}
+                    onSelect={(emoji) => handleReaction(msg, emoji)}
+                  >
+                    <Button variant="ghost" size="icon" className="h-7 w-7" aria-label="Add reaction">
+                      <Smile className="h-4 w-4" />
+                    </Button>
+                  </EmojiPicker>
+    
+                  <Button 
+                    variant="ghost" 
+                    size="icon" 
+                    className="h-7 w-7"
+                    aria-label="Reply in thread"
+                    onClick={() => setOpenThreadId(getThreadId(msg))}
+                  >
+                    <Reply className="h-4 w-4" />
+                  </Button>
+                  
+                  {canEditMessage(msg, currentUser?.uid, now) && (
+                    <Button 
+                      variant="ghost" 
+                      size="icon" 
+                      className="h-7 w-7"
+                      onClick={() => startEditing(msg)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  )}
+                  
+                  {canDeleteMessage(msg, currentUser?.uid) && (
+                    <Button 
+                      variant="ghost" 
+                      size="icon" 
+                      className="h-7 w-7"
+                      onClick={() => setDeletingMessage(msg)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                  
+                  {!isCurrentUser && (
+                    <Button 
+                      variant="ghost" 
+                      size="icon" 
+                      className="h-7 w-7"
+                      onClick={() => openReportDialog(msg)}
+                    >
+                      <Flag className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </div>
+    
+            {/* Reactions */}
+            {renderReactions(msg)}
+            
+            {(msg.replyTo || msg.replyCount > 0) && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0 text-xs"
+                onClick={() => setOpenThreadId(getThreadId(msg))}
+              >
+                {msg.replyTo
+                  ? 'View thread'
+                  : `${msg.replyCount} ${msg.replyCount === 1 ? 'reply' : 'replies'}`}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+  
   return (
     <motion.div 
       className="container max-w-6xl py-8 pb-16"
@@ -339,7 +1050,20 @@ const Community: React.FC = () => {
         </p>
       </motion.div>
       
-      <Tabs defaultValue="chat">
+      {showWarning && (
+        <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 mb-8 flex items-start gap-3">
+          <AlertTriangle className="h-5 w-5 text-yellow-600 dark:text-yellow-500 shrink-0 mt-0.5" />
+          <div>
+            <h3 className="font-medium text-yellow-800 dark:text-yellow-300">You received a warning</h3>
+            <p className="text-sm text-yellow-700 dark:text-yellow-400">
+              On {latestWarning.at.toDate().toLocaleDateString()} a moderator flagged one of your messages
+              for "{latestWarning.reason}". Please review the community guidelines below.
+            </p>
+          </div>
+        </div>
+      )}
+      
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList className="mb-6">
           <TabsTrigger value="chat" className="flex items-center">
             <MessageCircle className="mr-2 h-4 w-4" />
@@ -369,33 +1093,98 @@ const Community: React.FC = () => {
                       </CardDescription>
                     </div>
                     
-                    <Dialog>
-                      <DialogTrigger asChild>
-                        <Button variant="ghost" size="icon" className="h-8 w-8">
-                          <Plus className="h-4 w-4" />
-                        </Button>
-                      </DialogTrigger>
-                      <DialogContent>
-                        <DialogHeader>
-                          <DialogTitle>Create New Chat Room</DialogTitle>
-                          <DialogDescription>
-                            Create a new group chat with other community members.
-                          </DialogDescription>
-                        </DialogHeader>
-                        <div className="space-y-4 py-4">
-                          <div className="space-y-2">
-                            <Input
-                              placeholder="Chat room name"
-                              value={newRoomName}
-                              onChange={(e) => setNewRoomName(e.target.value)}
-                            />
+                    <div className="flex">
+                      <Dialog open={discoverOpen} onOpenChange={setDiscoverOpen}>
+                        <DialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Discover groups">
+                            <Compass className="h-4 w-4" />
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                          <DialogHeader>
+                            <DialogTitle>Discover Groups</DialogTitle>
+                            <DialogDescription>
+                              Groups anyone in the community can join.
+                            </DialogDescription>
+                          </DialogHeader>
+                          {discoverableGroups.length === 0 ? (
+                            <p className="py-4 text-sm text-muted-foreground">No open groups to join right now</p>
+                          ) : (
+                            <ul className="max-h-[50vh] divide-y overflow-y-auto rounded-md border">
+                              {discoverableGroups.map(room => (
+                                <li key={room.id} className="flex items-center justify-between gap-4 p-3">
+                                  <div className="min-w-0">
+                                    <div className="font-medium">{room.name}</div>
+                                    {room.description && (
+                                      <p className="text-sm text-muted-foreground line-clamp-2">{room.description}</p>
+                                    )}
+                                    <p className="text-xs text-muted-foreground">{room.participants.length} members</p>
+                                  </div>
+                                  <Button size="sm" onClick={() => handleJoinGroup(room)}>Join</Button>
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </DialogContent>
+                      </Dialog>
+                      
+                      <Dialog open={createRoomOpen} onOpenChange={setCreateRoomOpen}>
+                        <DialogTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Create group">
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        </DialogTrigger>
+                        <DialogContent className="max-h-[90vh] overflow-y-auto">
+                          <DialogHeader>
+                            <DialogTitle>Create New Chat Room</DialogTitle>
+                            <DialogDescription>
+                              Create a new group chat with other community members.
+                            </DialogDescription>
+                          </DialogHeader>
+                          <div className="space-y-4 py-4">
+                            <div className="space-y-2">
+                              <Input
+                                placeholder="Chat room name"
+                                value={newRoomName}
+                                maxLength={GROUP_NAME_MAX_LENGTH}
+                                onChange={(e) => setNewRoomName(e.target.value)}
+                              />
+                              <Textarea
+                                placeholder="What is this group about? (optional)"
+                                value={newRoomDescription}
+                                maxLength={GROUP_DESCRIPTION_MAX_LENGTH}
+                                onChange={(e) => setNewRoomDescription(e.target.value)}
+                              />
+                            </div>
+                            <div className="flex items-center justify-between gap-4">
+                              <div>
+                                <Label htmlFor="new-room-discoverable">Discoverable</Label>
+                                <p className="text-sm text-muted-foreground">
+                                  Anyone can find and join it, not just people you invite
+                                </p>
+                              </div>
+                              <Switch
+                                id="new-room-discoverable"
+                                checked={newRoomDiscoverable}
+                                onCheckedChange={setNewRoomDiscoverable}
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <Label>Invite members</Label>
+                              <MemberPicker
+                                members={users}
+                                selected={newRoomInvitees}
+                                onChange={setNewRoomInvitees}
+                                excludeIds={currentUser ? [currentUser.uid] : []}
+                              />
+                            </div>
                           </div>
-                        </div>
-                        <DialogFooter>
-                          <Button onClick={handleCreateRoom}>Create Room</Button>
-                        </DialogFooter>
-                      </DialogContent>
-                    </Dialog>
+                          <DialogFooter>
+                            <Button onClick={handleCreateRoom} disabled={!newRoomName.trim()}>Create Room</Button>
+                          </DialogFooter>
+                        </DialogContent>
+                      </Dialog>
+                    </div>
                   </CardHeader>
                   
                   <CardContent>
@@ -405,10 +1194,11 @@ const Community: React.FC = () => {
                       </div>
                     ) : (
                       <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-2">
-                        {chatRooms.map((room) => {
+                        {sharedRooms.map((room) => {
                           // Calculate participant and online count
-                          const participantCount = getParticipantCount(room);
+                          const participantCount = room.participants.length;
                           const onlineCount = getOnlineCount(room);
+                          const unread = getUnreadCount(room);
                           
                           return (
                             <div
@@ -421,10 +1211,11 @@ const Community: React.FC = () => {
                               onClick={() => setSelectedRoom(room)}
                             >
                               <div className="flex-1 truncate">
-                                <div className="font-medium">{room.name}</div>
+                                <div className={unread > 0 ? 'font-semibold' : 'font-medium'}>{room.name}</div>
                                 {room.lastMessage && (
                                   <div className="text-xs truncate opacity-80">
-                                    {getUserDisplayName(room.lastMessage.senderId)}: {room.lastMessage.text}
+                                    {getUserDisplayName(room.lastMessage.senderId)}:{' '}
+                                    {isHiddenSender(userProfile, room.lastMessage.senderId) ? 'Hidden message' : room.lastMessage.text}
                                   </div>
                                 )}
                                 <div className="text-xs mt-1">
@@ -441,9 +1232,110 @@ const Community: React.FC = () => {
                               </div>
                               {room.type === 'men' && <Badge variant="outline">👨 Men</Badge>}
                               {room.type === 'women' && <Badge variant="outline">👩 Women</Badge>}
+                              {unread > 0 && <Badge>{formatUnreadCount(unread)}</Badge>}
                             </div>
                           );
                         })}
+                        
+                        {groupInvitations.map((room) => (
+                          <div key={room.id} className="p-2 rounded-md border border-dashed">
+                            <div className="text-sm">
+                              You're invited to <span className="font-medium">{room.name}</span>
+                            </div>
+                            {room.description && (
+                              <div className="text-xs text-muted-foreground truncate">{room.description}</div>
+                            )}
+                            <div className="flex gap-2 mt-2">
+                              <Button size="sm" className="h-7" onClick={() => handleJoinGroup(room)}>
+                                Join
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="h-7"
+                                onClick={() => removeGroupInvitation(room, currentUser.uid)}
+                              >
+                                Decline
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                        
+                        {(directRooms.length > 0 || incomingRequests.length > 0) && (
+                          <div className="pt-4 text-xs font-medium uppercase text-muted-foreground">
+                            Direct Messages
+                          </div>
+                        )}
+                        
+                        {incomingRequests.map((request) => (
+                          <div key={request.id} className="p-2 rounded-md border border-dashed">
+                            <div className="text-sm">
+                              <span className="font-medium">{getUserDisplayName(request.fromId)}</span> wants to message you
+                            </div>
+                            <div className="flex gap-2 mt-2">
+                              <Button size="sm" className="h-7" onClick={() => handleAcceptRequest(request)}>
+                                Accept
+                              </Button>
+                              <Button size="sm" variant="outline" className="h-7" onClick={() => declineDirectRequest(request)}>
+                                Decline
+                              </Button>
+                            </div>
+                          </div>
+                        ))}
+                        
+                        {directRooms.map((room) => {
+                          const partnerId = getDirectPartnerId(room, currentUser?.uid);
+                          const partnerOnline = getLastSeen(partnerId)?.online;
+                          const unread = getUnreadCount(room);
+                          
+                          return (
+                            <div
+                              key={room.id}
+                              className={`flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors ${
+                                selectedRoom?.id === room.id 
+                                  ? 'bg-primary text-primary-foreground' 
+                                  : 'hover:bg-muted'
+                              }`}
+                              onClick={() => setSelectedRoom(room)}
+                            >
+                              <div className="flex-1 truncate">
+                                <div className={`flex items-center ${unread > 0 ? 'font-semibold' : 'font-medium'}`}>
+                                  {partnerOnline && (
+                                    <span className="inline-block h-2 w-2 rounded-full bg-green-500 mr-2"></span>
+                                  )}
+                                  {getUserDisplayName(partnerId)}
+                                </div>
+                                {room.lastMessage && (
+                                  <div className="text-xs truncate opacity-80">
+                                    {isHiddenSender(userProfile, room.lastMessage.senderId) ? 'Hidden message' : room.lastMessage.text}
+                                  </div>
+                                )}
+                              </div>
+                              {unread > 0 && <Badge>{formatUnreadCount(unread)}</Badge>}
+                            </div>
+                          );
+                        })}
+                        
+                        {archivedRooms.length > 0 && (
+                          <div className="pt-4 text-xs font-medium uppercase text-muted-foreground">
+                            Archived
+                          </div>
+                        )}
+                        
+                        {archivedRooms.map((room) => (
+                          <div
+                            key={room.id}
+                            className={`flex items-center gap-2 p-2 rounded-md cursor-pointer transition-colors ${
+                              selectedRoom?.id === room.id 
+                                ? 'bg-primary text-primary-foreground' 
+                                : 'text-muted-foreground hover:bg-muted'
+                            }`}
+                            onClick={() => setSelectedRoom(room)}
+                          >
+                            <Archive className="h-4 w-4 shrink-0" />
+                            <div className="flex-1 truncate">{room.name}</div>
+                          </div>
+                        ))}
                       </div>
                     )}
                   </CardContent>
@@ -456,18 +1348,39 @@ const Community: React.FC = () => {
                   <CardHeader className="pb-3">
                     <div className="flex justify-between items-center">
                       <div>
-                        <CardTitle>{selectedRoom?.name || 'Select a chat room'}</CardTitle>
+                        <CardTitle>{selectedRoom ? getRoomTitle(selectedRoom) : 'Select a chat room'}</CardTitle>
                         <CardDescription>
-                          A safe space to share experiences and support each other
+                          {selectedRoom?.type === 'direct'
+                            ? 'A private conversation between the two of you'
+                            : selectedRoom?.description || 'A safe space to share experiences and support each other'}
                         </CardDescription>
                       </div>
                       
                       {selectedRoom && (
-                        <div className="text-sm text-muted-foreground">
-                          <div className="flex items-center">
-                            <Users className="h-4 w-4 mr-1" />
-                            <span>{selectedRoom.participants.length} members</span>
+                        <div className="flex items-start gap-2">
+                          <div className="text-sm text-muted-foreground">
+                            <div className="flex items-center">
+                              <Users className="h-4 w-4 mr-1" />
+                              <span>{selectedRoom.participants.length} members</span>
+                            </div>
+                            {roomOnlineNames.length > 0 && (
+                              <div className="flex items-center mt-1" title={roomOnlineNames.join(', ')}>
+                                <span className="inline-block h-2 w-2 rounded-full bg-green-500 mr-2"></span>
+                                <span>{roomOnlineNames.length} online</span>
+                              </div>
+                            )}
                           </div>
+                          {getGroupRole(selectedRoom, currentUser?.uid) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              aria-label="Group settings"
+                              onClick={() => setGroupSettingsOpen(true)}
+                            >
+                              <Settings className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       )}
                     </div>
@@ -483,137 +1396,151 @@ const Community: React.FC = () => {
                         <div className="animate-spin h-6 w-6 border-2 border-primary rounded-full border-t-transparent"></div>
                       </div>
                     ) : (
-                      <div className="h-[60vh] overflow-y-auto space-y-4 p-2">
-                        {messages.length === 0 ? (
-                          <div className="text-center py-12">
-                            <p className="text-muted-foreground">No messages yet. Be the first to say hello!</p>
+                      <div className="space-y-2">
+                        {hasNewMessages && !readSince.jumped && (
+                          <div className="flex items-center justify-between rounded-md bg-primary/10 px-3 py-1 text-sm">
+                            <span>
+                              {formatUnreadCount(readSince.unread)} new message{readSince.unread === 1 ? '' : 's'} since you last visited
+                            </span>
+                            <Button variant="link" size="sm" className="h-auto p-0" onClick={jumpToFirstUnread} disabled={loadingOlder}>
+                              Jump to first unread
+                            </Button>
                           </div>
-                        ) : (
-                          messages.map((msg, index) => {
-                            const isCurrentUser = msg.senderId === currentUser?.uid;
-                            
-                            return (
-                              <motion.div
-                                key={msg.id}
-                                className={`flex ${isCurrentUser ? 'justify-end' : 'justify-start'}`}
-                                initial={{ opacity: 0, y: 10 }}
-                                animate={{ opacity: 1, y: 0 }}
-                                transition={{ duration: 0.3, delay: index * 0.05 }}
-                              >
-                                <div className={`flex max-w-[80%] ${isCurrentUser ? 'flex-row-reverse' : 'flex-row'}`}>
-                                  <Avatar className={`h-8 w-8 ${isCurrentUser ? 'ml-2' : 'mr-2'}`}>
-                                    <AvatarImage src="" />
-                                    <AvatarFallback>{getUserInitials(msg.senderId)}</AvatarFallback>
-                                  </Avatar>
-                                  
-                                  <div className={`space-y-1 ${isCurrentUser ? 'items-end' : 'items-start'}`}>
-                                    <div className="flex items-baseline gap-2">
-                                      <span className="text-sm font-medium">{getUserDisplayName(msg.senderId)}</span>
-                                      <span className="text-xs text-muted-foreground">
-                                        {msg.timestamp && msg.timestamp.toDate ? formatTimeAgo(msg.timestamp.toDate()) : 'Just now'}
-                                      </span>
-                                    </div>
-                                    
-                                    {/* Reply reference */}
-                                    {msg.replyTo && (
-                                      <div className={`text-xs rounded px-3 py-1 border-l-2 border-primary ${
-                                        isCurrentUser 
-                                          ? 'bg-muted/50 text-foreground mr-auto' 
-                                          : 'bg-muted/30 text-foreground ml-auto'
-                                      }`}>
-                                        <span className="font-medium">
-                                          {getUserDisplayName(messages.find(m => m.id === msg.replyTo)?.senderId || '')}:
-                                        </span> {msg.replyToText}
-                                      </div>
-                                    )}
-                                    
-                                    <div className={`relative rounded-lg px-4 py-2 group ${
-                                      isCurrentUser 
-                                        ? 'bg-primary text-primary-foreground' 
-                                        : 'bg-secondary'
-                                    }`}>
-                                      {msg.text}
-                                      
-                                      {/* Message actions */}
-                                      <div className={`absolute ${isCurrentUser ? 'left-0' : 'right-0'} -translate-y-1/2 top-1/2 opacity-0 group-hover:opacity-100 transition-opacity`}>
-                                        <div className={`${isCurrentUser ? '-translate-x-full mr-2' : 'translate-x-full ml-2'} flex items-center gap-1 bg-background shadow-sm rounded-full p-1`}>
-                                          <DropdownMenu>
-                                            <DropdownMenuTrigger asChild>
-                                              <Button variant="ghost" size="icon" className="h-7 w-7">
-                                                <Smile className="h-4 w-4" />
-                                              </Button>
-                                            </DropdownMenuTrigger>
-                                            <DropdownMenuContent align={isCurrentUser ? "start" : "end"}>
-                                              <div className="flex flex-wrap p-2 gap-2">
-                                                {COMMON_EMOJIS.map(emoji => (
-                                                  <div 
-                                                    key={emoji}
-                                                    className="cursor-pointer p-1 hover:bg-muted rounded"
-                                                    onClick={() => handleReaction(msg, emoji)}
-                                                  >
-                                                    {emoji}
-                                                  </div>
-                                                ))}
-                                              </div>
-                                            </DropdownMenuContent>
-                                          </DropdownMenu>
-                                          
-                                          <Button 
-                                            variant="ghost" 
-                                            size="icon" 
-                                            className="h-7 w-7"
-                                            onClick={() => setReplyingTo(msg)}
-                                          >
-                                            <Reply className="h-4 w-4" />
-                                          </Button>
-                                        </div>
-                                      </div>
+                        )}
+                        
+                        {(hasOlderMessages || loadingOlder) && (
+                          <div className="flex justify-center">
+                            <Button variant="ghost" size="sm" onClick={loadOlderMessages} disabled={loadingOlder}>
+                              {loadingOlder ? 'Loading...' : 'Load older messages'}
+                            </Button>
+                          </div>
+                        )}
+                        
+                        <div
+                          ref={messageListRef}
+                          className="h-[60vh] overflow-y-auto p-2"
+                          onScroll={handleMessagesScroll}
+                        >
+                          {messages.length === 0 ? (
+                            <div className="text-center py-12">
+                              <p className="text-muted-foreground">No messages yet. Be the first to say hello!</p>
+                            </div>
+                          ) : (
+                            <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+                              {virtualizer.getVirtualItems().map((item) => (
+                                <div
+                                  key={item.key}
+                                  data-index={item.index}
+                                  ref={virtualizer.measureElement}
+                                  className="absolute top-0 left-0 w-full pb-4"
+                                  style={{ transform: `translateY(${item.start}px)` }}
+                                >
+                                  {item.index === firstUnreadIndex && (
+                                    <div className="flex items-center gap-2 pb-4 text-xs font-medium text-primary">
+                                      <div className="h-px flex-1 bg-primary/40" />
+                                      New messages
+                                      <div className="h-px flex-1 bg-primary/40" />
                                     </div>
-                                    
-                                    {/* Reactions */}
-                                    {renderReactions(msg)}
+                                  )}
+                                  <div className={`rounded-lg transition-colors duration-500 ${
+                                    highlightedMessageId === messages[item.index].id ? 'bg-primary/10' : ''
+                                  }`}>
+                                    {renderMessage(messages[item.index])}
                                   </div>
                                 </div>
-                              </motion.div>
-                            );
-                          })
-                        )}
-                        <div ref={messagesEndRef} />
+                              ))}
+                            </div>
+                          )}
+                        </div>
                       </div>
                     )}
                   </CardContent>
                   
-                  {selectedRoom && (
+                  {selectedRoom && selectedArchived && (
                     <CardFooter>
-                      {replyingTo && (
+                      <p className="w-full text-center text-sm text-muted-foreground">
+                        This group is archived. You can read its history, but nobody can post.
+                      </p>
+                    </CardFooter>
+                  )}
+                  
+                  {selectedRoom && !selectedArchived && (
+                    <CardFooter className="flex-col items-stretch">
+                      {typingLabel && (
+                        <div className="text-xs text-muted-foreground italic mb-2">
+                          {typingLabel}
+                        </div>
+                      )}
+                      
+                      {editingMessage && (
                         <div className="w-full mb-2 flex items-center justify-between bg-muted/50 p-2 rounded-md">
                           <div className="flex-1 truncate">
-                            <span className="text-xs font-medium">
-                              Replying to {getUserDisplayName(replyingTo.senderId)}:
-                            </span>
-                            <p className="text-xs truncate">{replyingTo.text}</p>
+                            <span className="text-xs font-medium">Editing message</span>
+                            <p className="text-xs truncate">{toPreviewText(editingMessage.text, !!editingMessage.image)}</p>
                           </div>
                           <Button 
                             variant="ghost" 
                             size="icon" 
                             className="h-6 w-6"
-                            onClick={() => setReplyingTo(null)}
+                            onClick={cancelEditing}
                           >
-                            <Check className="h-3 w-3" />
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+                      
+                      {pendingImage && (
+                        <div className="mb-2 flex items-center gap-2 rounded-md bg-muted/50 p-2">
+                          <img src={pendingImage.previewUrl} alt="Image to send" className="h-14 w-14 rounded object-cover" />
+                          <span className="flex-1 truncate text-xs text-muted-foreground">{pendingImage.file.name}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            aria-label="Remove image"
+                            onClick={() => setPendingImage(null)}
+                          >
+                            <X className="h-3 w-3" />
                           </Button>
                         </div>
                       )}
                       
                       <form onSubmit={handleSendMessage} className="w-full flex gap-2">
+                        <input
+                          ref={imageInputRef}
+                          type="file"
+                          accept={IMAGE_TYPES.join(',')}
+                          className="hidden"
+                          onChange={handleImagePicked}
+                        />
+                        {!editingMessage && (
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Attach image"
+                            onClick={() => imageInputRef.current?.click()}
+                          >
+                            <ImagePlus className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <EmojiPicker align="start" onSelect={insertEmoji}>
+                          <Button type="button" variant="ghost" size="icon" aria-label="Insert emoji">
+                            <Smile className="h-4 w-4" />
+                          </Button>
+                        </EmojiPicker>
                         <Textarea
-                          placeholder="Type a message..."
+                          ref={composerRef}
+                          placeholder={pendingImage ? "Add a caption..." : "Type a message... **bold**, _italic_, `code`, - lists"}
                           value={message}
-                          onChange={(e) => setMessage(e.target.value)}
+                          onChange={(e) => handleMessageChange(e.target.value)}
                           className="min-h-[40px] flex-1 resize-none"
                           onKeyDown={(e) => {
                             if (e.key === 'Enter' && !e.shiftKey) {
                               e.preventDefault();
                               handleSendMessage(e);
+                            } else if (e.key === 'Escape' && editingMessage) {
+                              cancelEditing();
                             }
                           }}
                         />
@@ -631,7 +1558,7 @@ const Community: React.FC = () => {
                     <li>Be respectful and supportive of all members</li>
                     <li>Share your experiences but avoid graphic details</li>
                     <li>Respect everyone's privacy</li>
-                    <li>Report any inappropriate content to moderators</li>
+                    <li>Report inappropriate messages to moderators with the flag button</li>
                   </ul>
                 </div>
               </div>
@@ -649,48 +1576,193 @@ const Community: React.FC = () => {
               <div className="text-center py-8">Loading members...</div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {users.map((user, index) => (
-                  <motion.div
-                    key={user.id}
-                    initial={{ opacity: 0, scale: 0.9 }}
-                    animate={{ opacity: 1, scale: 1 }}
-                    transition={{ duration: 0.3, delay: index * 0.05 }}
-                  >
-                    <Card>
-                      <CardHeader className="pb-2">
-                        <div className="flex justify-between items-start">
-                          <div className="flex items-center gap-3">
-                            <Avatar>
-                              <AvatarImage src="" />
-                              <AvatarFallback>
-                                {user.firstName && user.lastName 
-                                  ? `${user.firstName[0]}${user.lastName[0]}`
-                                  : user.username ? user.username[0] : 'U'}
-                              </AvatarFallback>
-                            </Avatar>
-                            <div>
-                              <CardTitle className="text-base">
-                                {user.firstName && user.lastName 
-                                  ? `${user.firstName} ${user.lastName}`
-                                  : user.username || 'Anonymous'}
-                              </CardTitle>
-                              <CardDescription>
-                                <Badge variant="outline" className="mt-1">
-                                  {user.streakDays || 0} day streak
-                                </Badge>
-                              </CardDescription>
+                {users.map((user, index) => {
+                  const lastSeen = getLastSeen(user.id);
+                  const directStatus = getDirectStatus(user.id);
+                  const partnerStatus = getPartnerStatus(user.id);
+                  
+                  return (
+                    <motion.div
+                      key={user.id}
+                      initial={{ opacity: 0, scale: 0.9 }}
+                      animate={{ opacity: 1, scale: 1 }}
+                      transition={{ duration: 0.3, delay: index * 0.05 }}
+                    >
+                      <Card>
+                        <CardHeader className="pb-2">
+                          <div className="flex justify-between items-start">
+                            <div className="flex items-center gap-3">
+                              <MemberAvatar profile={user} surface="members" className="h-10 w-10" />
+                              <div>
+                                <CardTitle className="text-base">
+                                  {getPublicName(user, 'members')}
+                                </CardTitle>
+                                <CardDescription>
+                                  <Badge variant="outline" className="mt-1">
+                                    {user.streakDays || 0} day streak
+                                  </Badge>
+                                  {lastSeen && (
+                                    <span className="flex items-center text-xs mt-1">
+                                      {lastSeen.online && (
+                                        <span className="inline-block h-2 w-2 rounded-full bg-green-500 mr-1"></span>
+                                      )}
+                                      {lastSeen.label}
+                                    </span>
+                                  )}
+                                </CardDescription>
+                              </div>
                             </div>
+                            
+                            {user.id !== currentUser?.uid && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                                    <MoreVertical className="h-4 w-4" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  {!hasBlocked(userProfile, user.id) && (
+                                    <DropdownMenuItem
+                                      disabled={partnerStatus === 'sent' || partnerStatus === 'active'}
+                                      onClick={() => handlePartnerInvite(user.id)}
+                                    >
+                                      {partnerStatus === 'active' && 'Your accountability partner'}
+                                      {partnerStatus === 'sent' && 'Partner invitation sent'}
+                                      {partnerStatus === 'received' && 'Accept partner invitation'}
+                                      {partnerStatus === 'none' && 'Invite as accountability partner'}
+                                    </DropdownMenuItem>
+                                  )}
+                                  <DropdownMenuItem onClick={() => handleMuteToggle(user.id)}>
+                                    {userProfile?.mutedUsers?.includes(user.id) ? 'Unmute' : 'Mute'}
+                                  </DropdownMenuItem>
+                                  <DropdownMenuSeparator />
+                                  <DropdownMenuItem
+                                    className="text-destructive"
+                                    onClick={() => handleBlockToggle(user.id)}
+                                  >
+                                    {hasBlocked(userProfile, user.id) ? 'Unblock' : 'Block'}
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
                           </div>
-                        </div>
-                      </CardHeader>
-                    </Card>
-                  </motion.div>
-                ))}
+                        </CardHeader>
+                        
+                        {user.id !== currentUser?.uid && !hasBlocked(userProfile, user.id) && (
+                          <CardFooter className="pt-2">
+                            {directStatus === 'sent' ? (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="w-full"
+                                onClick={() => {
+                                  const request = directRequests.find(r => r.fromId === currentUser?.uid && r.toId === user.id);
+                                  if (request) withdrawDirectRequest(request);
+                                }}
+                              >
+                                Cancel Request
+                              </Button>
+                            ) : (
+                              <Button
+                                variant={directStatus === 'open' ? 'default' : 'outline'}
+                                size="sm"
+                                className="w-full"
+                                disabled={directStatus === 'declined'}
+                                onClick={() => handleMessageMember(user.id)}
+                              >
+                                <MessageCircle className="h-4 w-4 mr-2" />
+                                {directStatus === 'received' ? 'Accept Request' : directStatus === 'declined' ? 'Request Declined' : 'Message'}
+                              </Button>
+                            )}
+                          </CardFooter>
+                        )}
+                      </Card>
+                    </motion.div>
+                  );
+                })}
               </div>
             )}
           </motion.div>
         </TabsContent>
       </Tabs>
+      
+      {selectedRoom && (
+        <ThreadPanel
+          roomId={selectedRoom.id}
+          threadId={openThreadId}
+          onClose={() => setOpenThreadId(null)}
+          canReply={!selectedArchived}
+          getUserDisplayName={getUserDisplayName}
+          onJumpToMessage={jumpToMessage}
+        />
+      )}
+      
+      {selectedRoom?.type === 'group' && (
+        <GroupSettingsDialog
+          room={selectedRoom}
+          open={groupSettingsOpen}
+          onOpenChange={setGroupSettingsOpen}
+          members={users}
+          getUserDisplayName={getUserDisplayName}
+          onLeft={() => setSelectedRoom(chatRooms.find(room => room.id === 'main') || null)}
+        />
+      )}
+      
+      <AlertDialog open={!!deletingMessage} onOpenChange={(open) => !open && setDeletingMessage(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this message?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone in the room will see that a message was deleted. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteMessage}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      
+      <Dialog open={!!reportingMessage} onOpenChange={(open) => !open && setReportingMessage(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report Message</DialogTitle>
+            <DialogDescription>
+              Moderators will review this message. The sender is not told who reported it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            {reportingMessage && (
+              <p className="text-sm rounded-md bg-muted/50 p-3">{reportingMessage.text}</p>
+            )}
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reportReason} onValueChange={setReportReason}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_REASONS.map(reason => (
+                    <SelectItem key={reason} value={reason}>{reason}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Details (optional)</Label>
+              <Textarea
+                placeholder="Anything the moderators should know"
+                value={reportDetails}
+                onChange={(e) => setReportDetails(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReportingMessage(null)}>Cancel</Button>
+            <Button onClick={handleReportMessage} disabled={!reportReason}>Report</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </motion.div>
   );
 };
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../utils/auth';
-import { updateStreak, getUserProfile, updateStreakStart } from '../utils/firebase';
+import { updateStreak, updateStreakStart, getStreakSummary, confirmCleanDay } from '../utils/firebase';
+import { StreakDay, FREEZE_EARN_INTERVAL } from '../utils/streaks';
 import { cn } from '@/lib/utils';
 import { 
   ArrowRight, 
@@ -12,7 +13,8 @@ import {
   Map,
   HeartPulse,
   CheckIcon,
-  BookOpen
+  BookOpen,
+  Snowflake
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -24,6 +26,8 @@ import { motion } from 'framer-motion';
 import { toast } from 'sonner';
 import DatePicker from '@/components/ui/date-picker';
 import DailyTasks from '@/components/DailyTasks';
+import PartnerProgressCard from '@/components/PartnerProgressCard';
+import { syncPartnerProgress } from '../utils/partnerService';
 
 const formatDate = (date: Date) => {
   return new Intl.DateTimeFormat('en-US', { 
@@ -38,6 +42,8 @@ const Dashboard: React.FC = () => {
   const [streak, setStreak] = useState(0);
   const [lastCheckIn, setLastCheckIn] = useState<Date | null>(null);
   const [isCheckedInToday, setIsCheckedInToday] = useState(false);
+  const [freezeTokens, setFreezeTokens] = useState(0);
+  const [pendingDays, setPendingDays] = useState<StreakDay[]>([]);
   const [isCheckInSide, setIsCheckInSide] = useState(true);
   const [selectedDate, setSelectedDate] = useState<Date>(new Date());
   
@@ -62,21 +68,41 @@ const Dashboard: React.FC = () => {
     }
   ];
   
+  const loadStreak = async (userId: string) => {
+    const summary = await getStreakSummary(userId);
+    
+    if (summary) {
+      setStreak(summary.currentStreak);
+      setLastCheckIn(summary.lastCheckIn);
+      setIsCheckedInToday(summary.checkedInToday);
+      setFreezeTokens(summary.freezeTokens);
+      setPendingDays(summary.pendingDays);
+      // Every streak change on this page ends up here, so partners see it too
+      syncPartnerProgress(userId, summary);
+    }
+  };
+
+  const handleConfirmDay = async (day: StreakDay) => {
+    if (!currentUser) return;
+
+    const result = await confirmCleanDay(currentUser.uid, day.key);
+    if (result.success) {
+      await loadStreak(currentUser.uid);
+      toast.success("Thanks for confirming", {
+        description: `${formatDate(day.date)} now counts toward your streak.`,
+      });
+    } else {
+      toast.error("Couldn't confirm that day", {
+        description: result.message,
+      });
+    }
+  };
+  
   useEffect(() => {
     if (currentUser && userProfile) {
-      setStreak(userProfile.streakDays || 0);
-      
-      if (userProfile.lastCheckIn) {
-        const lastCheckInDate = userProfile.lastCheckIn.toDate();
-        setLastCheckIn(lastCheckInDate);
-        
-        const today = new Date();
-        setIsCheckedInToday(
-          lastCheckInDate.getDate() === today.getDate() &&
-          lastCheckInDate.getMonth() === today.getMonth() &&
-          lastCheckInDate.getFullYear() === today.getFullYear()
-        );
-      }
+      loadStreak(currentUser.uid).catch(error => {
+        console.error('Error loading streak:', error);
+      });
     }
   }, [currentUser, userProfile]);
   
@@ -88,13 +114,7 @@ const Dashboard: React.FC = () => {
       console.log(result)
       
       if (result.success) {
-        const updatedProfile = await getUserProfile(currentUser.uid);
-        
-        if (updatedProfile) {
-          setStreak(updatedProfile.streakDays || 0);
-          setLastCheckIn(updatedProfile.lastCheckIn?.toDate() || null);
-          setIsCheckedInToday(true);
-        }
+        await loadStreak(currentUser.uid);
         
         if (result.message === 'Already checked in today') {
           toast("You've already checked in today", {
@@ -121,11 +141,7 @@ const Dashboard: React.FC = () => {
       const result = await updateStreakStart(currentUser.uid, selectedDate);
       
       if (result.success) {
-        const updatedProfile = await getUserProfile(currentUser.uid);
-        
-        if (updatedProfile) {
-          setStreak(updatedProfile.streakDays || 0);
-        }
+        await loadStreak(currentUser.uid);
 
         if (result.message === 'Streak start updated successfully') {
           toast.success("Streak start updated!", {
@@ -215,6 +231,34 @@ const Dashboard: React.FC = () => {
                       </div>
                     </div>
                   </div>
+                  
+                  <div
+                    className="flex items-center justify-center gap-1 text-sm text-muted-foreground"
+                    title={`Earn a freeze every ${FREEZE_EARN_INTERVAL} streak days. Freezes cover a missed check-in automatically.`}
+                  >
+                    <Snowflake className="h-4 w-4 text-sky-500" />
+                    {freezeTokens} streak {freezeTokens === 1 ? 'freeze' : 'freezes'} available
+                  </div>
+                  
+                  {pendingDays.length > 0 && (
+                    <div className="mt-4 space-y-2 rounded-md border border-dashed p-3">
+                      <p className="text-sm font-medium">Missed a check-in?</p>
+                      <p className="text-xs text-muted-foreground">
+                        If you stayed clean, confirm it before the day expires.
+                      </p>
+                      {pendingDays.map(day => (
+                        <Button
+                          key={day.key}
+                          variant="outline"
+                          size="sm"
+                          className="w-full text-xs"
+                          onClick={() => handleConfirmDay(day)}
+                        >
+                          I was clean on {formatDate(day.date)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
                 <CardFooter className="flex flex-col items-center space-y-2">
                   <Button 
@@ -338,6 +382,15 @@ const Dashboard: React.FC = () => {
         </motion.div>
       </div>
       
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.4, delay: 0.25 }}
+        className="mb-8"
+      >
+        <PartnerProgressCard />
+      </motion.div>
+      
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
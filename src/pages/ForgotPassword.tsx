@@ -1,8 +1,7 @@
 
 import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { sendPasswordResetEmail } from 'firebase/auth';
-import { auth } from '../utils/firebase';
+import { repository } from '../utils/repository';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,7 +20,7 @@ const ForgotPassword: React.FC = () => {
     setIsLoading(true);
     
     try {
-      await sendPasswordResetEmail(auth, email);
+      await repository.auth.sendPasswordReset(email);
       setIsEmailSent(true);
       toast.success('Password reset email sent');
     } catch (error: any) {
@@ -55,11 +55,11 @@ const Index: React.FC = () => {
     <div className="min-h-screen">
       {!firebaseInitialized && (
         <div className="px-6 py-4">
-          <Alert variant="destructive">
+          <Alert>
             <AlertTriangle className="h-4 w-4" />
-            <AlertTitle>Firebase Initialization Error</AlertTitle>
+            <AlertTitle>Local Data Mode</AlertTitle>
             <AlertDescription>
-              Firebase could not be initialized. Please check your configuration and console for errors.
+              Firebase is not in use, so accounts and data are stored in this browser only. Check your configuration and console if this is unexpected.
             </AlertDescription>
           </Alert>
         </div>
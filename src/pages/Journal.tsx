@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { 
   ArrowLeft, 
@@ -15,7 +15,7 @@ import { Slider } from '@/components/ui/slider';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { useAuth } from '../utils/auth';
-import { addJournalEntry, getJournalEntries } from '../utils/firebase';
+import { addJournalEntry, getJournalEntry, updateJournalEntry } from '../utils/firebase';
 import { toast } from 'sonner';
 import { useTheme } from 'next-themes';
 
@@ -85,6 +85,9 @@ const getMoodColor = (score: number, theme: string): string => {
 
 const Journal: React.FC = () => {
   const navigate = useNavigate();
+  // Present when editing an existing entry through /journal/:entryId/edit
+  const { entryId } = useParams<{ entryId: string }>();
+  const isEditing = !!entryId;
   const { currentUser } = useAuth();
   const [step, setStep] = useState(1);
   const [moodScore, setMoodScore] = useState(5);
@@ -96,9 +99,31 @@ const Journal: React.FC = () => {
   const currentTheme = theme === 'system' ? (window.matchMedia('(prefers-color-scheme: dark)').matches ? 'dark' : 'light') : theme;
 
   useEffect(() => {
+    if (isEditing) return;
+    
     const randomIndex = Math.floor(Math.random() * DAILY_PROMPTS.length);
     setPrompt(DAILY_PROMPTS[randomIndex]);
-  }, []);
+  }, [isEditing]);
+
+  useEffect(() => {
+    const loadEntry = async () => {
+      if (!entryId || !currentUser) return;
+      
+      const entry = await getJournalEntry(currentUser.uid, entryId);
+      if (!entry) {
+        toast.error("Journal entry not found");
+        navigate('/journal-entries');
+        return;
+      }
+      
+      setPrompt(entry.question);
+      setMoodScore(entry.level);
+      setSelectedEmotions(entry.emotions || []);
+      setJournalText(entry.notes);
+    };
+
+    loadEntry();
+  }, [entryId, currentUser, navigate]);
 
   const relevantEmotions = moodScore <= 5 ? NEGATIVE_EMOTIONS : POSITIVE_EMOTIONS;
 
@@ -128,6 +153,22 @@ const Journal: React.FC = () => {
     setIsSubmitting(true);
 
     try {
+      if (isEditing) {
+        const success = await updateJournalEntry(currentUser.uid, entryId, {
+          notes: journalText,
+          level: moodScore,
+          emotions: selectedEmotions
+        });
+        
+        if (success) {
+          toast.success("Journal entry updated!");
+          navigate('/journal-entries');
+        } else {
+          toast.error("Failed to update journal entry");
+        }
+        return;
+      }
+
       await addJournalEntry({
         userId: currentUser.uid,
         timestamp: new Date(),
@@ -167,7 +208,7 @@ const Journal: React.FC = () => {
               if (step > 1) {
                 setStep(step - 1);
               } else {
-                navigate('/dashboard');
+                navigate(isEditing ? '/journal-entries' : '/dashboard');
               }
             }}
           >
@@ -304,7 +345,9 @@ const Journal: React.FC = () => {
           >
             <Card className={currentTheme === 'light' ? 'bg-white shadow-md border-slate-200' : 'bg-white/10 border-none'}>
               <CardContent className="p-4">
-                <h3 className={`text-xl font-medium mb-2 ${currentTheme === 'light' ? 'text-slate-800' : 'text-white'}`}>Today's Prompt</h3>
+                <h3 className={`text-xl font-medium mb-2 ${currentTheme === 'light' ? 'text-slate-800' : 'text-white'}`}>
+                  {isEditing ? 'Prompt' : "Today's Prompt"}
+                </h3>
                 <p className={currentTheme === 'light' ? 'text-slate-700 mb-4' : 'text-white/80 mb-4'}>{prompt}</p>
                 <Textarea
                   value={journalText}
@@ -10,10 +10,12 @@ import {
   SortDesc,
   SortAsc,
   Sun,
-  Moon
+  Moon,
+  Pencil,
+  Trash2
 } from 'lucide-react';
 import { useAuth } from '../utils/auth';
-import { getJournalEntries } from '../utils/firebase';
+import { getJournalPage, deleteJournalEntry, JournalCursor, JournalEntry } from '../utils/firebase';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
@@ -28,6 +30,17 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from "@/components/ui/pagination";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from 'sonner';
 import { useTheme } from 'next-themes';
 
 // Helper function to get color based on mood score
@@ -67,53 +80,49 @@ const formatEntryDate = (date: Date) => {
   }
 };
 
-interface JournalEntryData {
-  timestamp: Date;
-  question: string;
-  notes: string;
-  level: number;
-  emotions: string[];
-}
-
 const ENTRIES_PER_PAGE = 5;
 
 const JournalEntries = () => {
   const navigate = useNavigate();
   const { currentUser } = useAuth();
-  const [entries, setEntries] = useState<JournalEntryData[]>([]);
-  const [filteredEntries, setFilteredEntries] = useState<JournalEntryData[]>([]);
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [filteredEntries, setFilteredEntries] = useState<JournalEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [sortDirection, setSortDirection] = useState<'desc' | 'asc'>('desc');
+  // pageCursors[i] is where page i + 1 starts; the first page has no cursor
+  const [pageCursors, setPageCursors] = useState<(JournalCursor | null)[]>([null]);
   const [currentPage, setCurrentPage] = useState(1);
+  const [nextCursor, setNextCursor] = useState<JournalCursor | null>(null);
+  const [entryToDelete, setEntryToDelete] = useState<JournalEntry | null>(null);
   const { theme, setTheme } = useTheme();
 
-  // Calculate pagination
-  const totalPages = Math.ceil(filteredEntries.length / ENTRIES_PER_PAGE);
-  const currentEntries = filteredEntries.slice(
-    (currentPage - 1) * ENTRIES_PER_PAGE,
-    currentPage * ENTRIES_PER_PAGE
-  );
+  const hasPreviousPage = currentPage > 1;
+  const hasNextPage = nextCursor !== null;
+
+  useEffect(() => {
+    if (!currentUser) {
+      navigate('/login');
+    }
+  }, [currentUser, navigate]);
 
   useEffect(() => {
     const fetchEntries = async () => {
       if (!currentUser) {
-        navigate('/login');
         return;
       }
 
       try {
         setIsLoading(true);
-        const journalData = await getJournalEntries(currentUser.uid);
-        
-        // Convert Firebase timestamps to Date objects
-        const formattedData = journalData.map(entry => ({
-          ...entry,
-          timestamp: entry.timestamp instanceof Date ? entry.timestamp : new Date(entry.timestamp)
-        }));
+        const page = await getJournalPage(
+          currentUser.uid,
+          ENTRIES_PER_PAGE,
+          pageCursors[currentPage - 1],
+          sortDirection
+        );
         
-        setEntries(formattedData);
-        setFilteredEntries(formattedData);
+        setEntries(page.entries);
+        setNextCursor(page.nextCursor);
       } catch (error) {
         console.error("Error fetching journal entries:", error);
       } finally {
@@ -122,33 +131,48 @@ const JournalEntries = () => {
     };
 
     fetchEntries();
-  }, [currentUser, navigate]);
+  }, [currentUser, currentPage, pageCursors, sortDirection]);
 
-  // Filter and sort entries based on search term and sort direction
+  // Search only narrows the page that is loaded; ordering comes from the server
   useEffect(() => {
-    let filtered = [...entries];
-    
-    // Apply search filter if there is a search term
-    if (searchTerm) {
-      filtered = entries.filter(entry => 
-        entry.notes.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        entry.question.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        entry.emotions.some(emotion => 
-          emotion.toLowerCase().includes(searchTerm.toLowerCase())
-        )
-      );
+    if (!searchTerm) {
+      setFilteredEntries(entries);
+      return;
     }
     
-    // Apply sort direction
-    filtered.sort((a, b) => {
-      const dateA = new Date(a.timestamp).getTime();
-      const dateB = new Date(b.timestamp).getTime();
-      return sortDirection === 'desc' ? dateB - dateA : dateA - dateB;
-    });
+    const term = searchTerm.toLowerCase();
+    setFilteredEntries(entries.filter(entry => 
+      entry.notes.toLowerCase().includes(term) ||
+      entry.question.toLowerCase().includes(term) ||
+      entry.emotions.some(emotion => 
+        emotion.toLowerCase().includes(term)
+      )
+    ));
+  }, [entries, searchTerm]);
+
+  const handleDelete = async () => {
+    if (!currentUser || !entryToDelete?.id) return;
+    
+    const success = await deleteJournalEntry(currentUser.uid, entryToDelete.id);
+    if (success) {
+      setEntries(prev => prev.filter(entry => entry.id !== entryToDelete.id));
+      toast.success("Journal entry deleted");
+    } else {
+      toast.error("Failed to delete journal entry");
+    }
+    setEntryToDelete(null);
+  };
+
+  const goToNextPage = () => {
+    if (!nextCursor) return;
     
-    setFilteredEntries(filtered);
-    setCurrentPage(1); // Reset to first page when filters change
-  }, [entries, searchTerm, sortDirection]);
+    setPageCursors(prev => [...prev.slice(0, currentPage), nextCursor]);
+    setCurrentPage(p => p + 1);
+  };
+
+  const goToPreviousPage = () => {
+    setCurrentPage(p => Math.max(1, p - 1));
+  };
 
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchTerm(e.target.value);
@@ -160,6 +184,9 @@ const JournalEntries = () => {
 
   const toggleSortDirection = () => {
     setSortDirection(prev => prev === 'desc' ? 'asc' : 'desc');
+    // Cursors only make sense for the order they were read in
+    setPageCursors([null]);
+    setCurrentPage(1);
   };
 
   const toggleTheme = () => {
@@ -224,7 +251,9 @@ const JournalEntries = () => {
       
       <div className="mb-6 flex items-center justify-between">
         <div className="text-sm text-muted-foreground">
-          {filteredEntries.length} {filteredEntries.length === 1 ? 'entry' : 'entries'} found
+          {searchTerm
+            ? `${filteredEntries.length} ${filteredEntries.length === 1 ? 'entry' : 'entries'} on this page match`
+            : `Page ${currentPage}`}
         </div>
         
         <Button
@@ -251,13 +280,13 @@ const JournalEntries = () => {
         <div className="flex justify-center py-20">
           <div className="animate-spin h-8 w-8 border-2 border-primary border-t-transparent rounded-full"></div>
         </div>
-      ) : filteredEntries.length === 0 ? (
+      ) : filteredEntries.length === 0 && !hasPreviousPage && !hasNextPage ? (
         <Card>
           <CardContent className="flex flex-col items-center justify-center py-10">
             <div className="text-5xl mb-4">📝</div>
             <h3 className="text-xl font-medium mb-2">No journal entries found</h3>
             <p className="text-muted-foreground text-center mb-4">
-              {searchTerm 
+              {searchTerm && entries.length > 0
                 ? "No entries match your search. Try different keywords." 
                 : "Start journaling to track your feelings and progress."}
             </p>
@@ -268,9 +297,15 @@ const JournalEntries = () => {
         </Card>
       ) : (
         <div className="space-y-4">
-          {currentEntries.map((entry, index) => (
+          {filteredEntries.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No entries on this page match your search.
+            </p>
+          )}
+          
+          {filteredEntries.map((entry, index) => (
             <motion.div
-              key={index}
+              key={entry.id || index}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ duration: 0.3, delay: index * 0.1 }}
@@ -282,11 +317,36 @@ const JournalEntries = () => {
                       <h3 className="font-medium">{entry.question}</h3>
                       <p className="text-sm text-muted-foreground">
                         {formatEntryDate(entry.timestamp)}
+                        {entry.editedAt && (
+                          <span className="ml-2 italic">(edited {formatEntryDate(entry.editedAt)})</span>
+                        )}
                       </p>
                     </div>
-                    <Badge className={`${getMoodColor(entry.level)} font-medium`}>
-                      {getMoodLabel(entry.level)}
-                    </Badge>
+                    <div className="flex items-center gap-1">
+                      <Badge className={`${getMoodColor(entry.level)} font-medium`}>
+                        {getMoodLabel(entry.level)}
+                      </Badge>
+                      {entry.id && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => navigate(`/journal/${entry.id}/edit`)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => setEntryToDelete(entry)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
                   
                   <div className="mt-2">
@@ -308,61 +368,34 @@ const JournalEntries = () => {
           ))}
           
           {/* Pagination */}
-          {totalPages > 1 && (
+          {(hasPreviousPage || hasNextPage) && (
             <Pagination className="mt-8">
               <PaginationContent>
                 <PaginationItem>
                   <PaginationPrevious
-                    onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
-                    isDisabled={currentPage === 1}
-                    className={currentPage === 1 ? "pointer-events-none opacity-50" : ""}
+                    onClick={goToPreviousPage}
+                    isDisabled={!hasPreviousPage}
+                    className={!hasPreviousPage ? "pointer-events-none opacity-50" : ""}
                   />
                 </PaginationItem>
                 
-                {Array.from({ length: Math.min(5, totalPages) }).map((_, i) => {
-                  // Calculate page numbers for pagination based on current page
-                  let pageNum;
-                  if (totalPages <= 5) {
-                    pageNum = i + 1;
-                  } else if (currentPage <= 3) {
-                    pageNum = i + 1;
-                  } else if (currentPage >= totalPages - 2) {
-                    pageNum = totalPages - 4 + i;
-                  } else {
-                    pageNum = currentPage - 2 + i;
-                  }
-                  
-                  return (
-                    <PaginationItem key={i}>
-                      <PaginationLink
-                        onClick={() => setCurrentPage(pageNum)}
-                        isActive={pageNum === currentPage}
-                      >
-                        {pageNum}
-                      </PaginationLink>
-                    </PaginationItem>
-                  );
-                })}
+                <PaginationItem>
+                  <PaginationLink isActive>
+                    {currentPage}
+                  </PaginationLink>
+                </PaginationItem>
                 
-                {totalPages > 5 && currentPage < totalPages - 2 && (
+                {hasNextPage && (
                   <PaginationItem>
                     <PaginationEllipsis />
                   </PaginationItem>
                 )}
                 
-                {totalPages > 5 && currentPage < totalPages - 2 && (
-                  <PaginationItem>
-                    <PaginationLink onClick={() => setCurrentPage(totalPages)}>
-                      {totalPages}
-                    </PaginationLink>
-                  </PaginationItem>
-                )}
-                
                 <PaginationItem>
                   <PaginationNext
-                    onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
-                    isDisabled={currentPage === totalPages}
-                    className={currentPage === totalPages ? "pointer-events-none opacity-50" : ""}
+                    onClick={goToNextPage}
+                    isDisabled={!hasNextPage}
+                    className={!hasNextPage ? "pointer-events-none opacity-50" : ""}
                   />
                 </PaginationItem>
               </PaginationContent>
@@ -370,6 +403,21 @@ const JournalEntries = () => {
           )}
         </div>
       )}
+      
+      <AlertDialog open={!!entryToDelete} onOpenChange={(open) => !open && setEntryToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this entry?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This journal entry will be permanently removed. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -4,6 +4,7 @@ import CommunityMap from '@/components/CommunityMap';
 import { Button } from '@/components/ui/button';
 import { motion } from 'framer-motion';
 import { Info } from 'lucide-react';
+import { MIN_REGION_MEMBERS } from '@/utils/communityMap';
 
 const Map: React.FC = () => {
   return (
@@ -29,11 +30,11 @@ const Map: React.FC = () => {
         <Info className="h-5 w-5 text-muted-foreground shrink-0 mt-0.5" />
         <div className="text-sm text-muted-foreground">
           <p className="mb-1">
-            <strong>Privacy note:</strong> For privacy and security, only approximate locations are shown. 
-            No personal information is ever displayed on the map.
+            <strong>Privacy note:</strong> The map only counts members who chose to be on it, and shows how 
+            many live in each region, never who they are. Regions with fewer than {MIN_REGION_MEMBERS} members are not shown.
           </p>
           <p>
-            You can update your location preferences in your profile settings.
+            You can join or leave the map under Privacy in your profile settings.
           </p>
         </div>
       </div>
@@ -49,8 +50,8 @@ const Map: React.FC = () => {
       <div className="mt-8 bg-card border border-border rounded-lg p-6">
         <h3 className="text-xl font-medium mb-3">About Our Community</h3>
         <p className="text-muted-foreground mb-6">
-          PurePath's global community spans across 130+ countries. Each pin represents 
-          a member on their journey to freedom. Remember, you're never alone in this journey.
+          PurePath's global community spans across 130+ countries. Each shaded area is 
+          a group of members on their journey to freedom. Remember, you're never alone in this journey.
         </p>
         <div className="flex flex-wrap gap-3">
           <Button variant="outline">Join a Local Group</Button>
@@ -7,8 +7,7 @@ import BreathingExerciseCard from '@/components/BreathingExerciseCard';
 import { motion } from 'framer-motion';
 import { Search } from 'lucide-react';
 import { useAuth } from '@/utils/auth'; 
-import { db } from '@/utils/firebase'; 
-import { doc, getDoc } from 'firebase/firestore';
+import { repository } from '@/utils/repository';
 
 // Enhanced meditation data with better audio sources
 const MEDITATIONS_DATA = [
@@ -170,22 +169,14 @@ const Meditations: React.FC = () => {
   useEffect(() => {
     const fetchFavoriteMeditations = async () => {
       if (currentUser) {
-        const userDocRef = doc(db, 'users', currentUser.uid);
-        const userDocSnap = await getDoc(userDocRef);
+        const favoriteIds = await repository.favorites.list(currentUser.uid); // Get array of favorite IDs
 
-        if (userDocSnap.exists()) {
-          const userData = userDocSnap.data();
-          const favoriteIds = userData.meditations || []; // Get array of favorite IDs
+        // Fetch the full meditation objects based on IDs
+        const favoriteMeditationObjects = MEDITATIONS_DATA.filter(meditation =>
+          favoriteIds.includes(meditation.id)
+        );
 
-          // Fetch the full meditation objects based on IDs
-          const favoriteMeditationObjects = MEDITATIONS_DATA.filter(meditation =>
-            favoriteIds.includes(meditation.id)
-          );
-
-          setFavoriteMeditations(favoriteMeditationObjects);
-        } else {
-          setFavoriteMeditations([]); // Handle case where user doc doesn't exist
-        }
+        setFavoriteMeditations(favoriteMeditationObjects);
       } else {
         setFavoriteMeditations([]); // Handle case where user is not logged in
       }
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
-import { updateUserProfile, updateUserPassword } from "../utils/firebase";
-import {doc, deleteDoc, collection, getDocs, query, where} from "firebase/firestore";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { updateUserProfile, updateUserPassword, deleteAccount as deleteUserAccount, UserProfile } from "../utils/firebase";
+import { unblockUser, unmuteUser } from "../utils/chatService";
 import { useAuth } from "../utils/auth";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,7 +14,6 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Form,
   FormControl,
@@ -36,9 +35,24 @@ import { toast } from "sonner";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
-import { db } from "../utils/firebase";
+import { repository } from "../utils/repository";
 import { Trash2, User, Link as LinkIcon } from "lucide-react";
 import SocialMediaLinks from "@/components/SocialMedia";
+import PartnerSettings from "@/components/PartnerSettings";
+import CommunityIdentitySettings from "@/components/CommunityIdentitySettings";
+import CommunityMapSettings from "@/components/CommunityMapSettings";
+import MemberAvatar from "@/components/MemberAvatar";
+import { getPublicName, getRealName, getUserIdentity, UserIdentity } from "../utils/identity";
+import {
+  getBrowserTimeZone,
+  getSupportedTimeZones,
+  MAX_ROLLOVER_HOUR,
+} from "../utils/dayBoundary";
+
+const TIME_ZONES = getSupportedTimeZones();
+
+const formatRolloverHour = (hour: number) =>
+  hour === 0 ? "Midnight" : `${hour}:00 AM`;
 
 
 // Profile form schema
@@ -47,6 +61,8 @@ const profileFormSchema = z.object({
     .string()
     .min(3, { message: "Username must be at least 3 characters" }),
   gender: z.enum(["male", "female", "other", "prefer-not-to-say"]),
+  timeZone: z.string(),
+  dayRolloverHour: z.string(),
   socialMedia: z
     .object({
       discord: z.string().optional(),
@@ -86,11 +102,16 @@ type ProfileFormValues = z.infer<typeof profileFormSchema>;
 type PasswordFormValues = z.infer<typeof passwordFormSchema>;
 
 const Profile: React.FC = () => {
-  const [userInitials, setUserInitials] = useState("U");
-  const { currentUser, userProfile, isLoading } = useAuth();
+  // Legal name, which only the user and admins can read
+  const [identity, setIdentity] = useState<UserIdentity | null>(null);
+  const { currentUser, userProfile, isLoading, refreshProfile } = useAuth();
   const navigate = useNavigate();
+  // Other pages link straight to a tab with ?tab=
+  const [searchParams] = useSearchParams();
   const [updateLoading, setUpdateLoading] = useState(false);
   const [passwordLoading, setPasswordLoading] = useState(false);
+  // Profiles of blocked and muted members, for their names
+  const [hiddenMembers, setHiddenMembers] = useState<Record<string, UserProfile>>({});
 
   // Redirect if not logged in
   useEffect(() => {
@@ -105,6 +126,8 @@ const Profile: React.FC = () => {
     defaultValues: {
       username: userProfile?.username || "",
       gender: userProfile?.gender || "prefer-not-to-say",
+      timeZone: userProfile?.timeZone || getBrowserTimeZone(),
+      dayRolloverHour: String(userProfile?.dayRolloverHour ?? 0),
       socialMedia: {
         discord: userProfile?.socialMedia?.discord || "",
         instagram: userProfile?.socialMedia?.instagram || "",
@@ -116,42 +139,10 @@ const Profile: React.FC = () => {
     },
   });
 
-  // Get user initials
-  
   useEffect(() => {
-    const fetchUserInitials = async () => {
-      if (currentUser && currentUser.email) {
-        try {
-          const usersRef = collection(db, "users");
-          const q = query(usersRef, where("email", "==", currentUser.email));
-          const querySnapshot = await getDocs(q);
-          console.log(q);
-          if (!querySnapshot.empty) {
-            // Assuming only one document matches the email.
-            const userDoc = querySnapshot.docs[0].data();
-            const firstname = userDoc.firstName || "";
-            const lastname = userDoc.lastName || "";
-
-            if (firstname || lastname) {
-              const initials =
-                (firstname.charAt(0).toUpperCase() || "") +
-                (lastname.charAt(0).toUpperCase() || "");
-              setUserInitials(initials);
-            } else {
-              setUserInitials("U");
-            }
-          } else {
-            setUserInitials("U"); // No document found for this email.
-          }
-        } catch (error) {
-          console.error("Error fetching user initials:", error);
-          setUserInitials("U"); // Fallback in case of an error.
-        }
-      }
-    };
-
-    fetchUserInitials();
-  }, [currentUser]);
+    if (!currentUser) return;
+    getUserIdentity(currentUser.uid).then(setIdentity);
+  }, [currentUser, userProfile]);
 
 
   // Update form when userProfile changes
@@ -160,6 +151,8 @@ const Profile: React.FC = () => {
       profileForm.reset({
         username: userProfile.username || "",
         gender: userProfile.gender || "prefer-not-to-say",
+        timeZone: userProfile.timeZone || getBrowserTimeZone(),
+        dayRolloverHour: String(userProfile.dayRolloverHour ?? 0),
         socialMedia: {
           discord: userProfile.socialMedia?.discord || "",
           instagram: userProfile.socialMedia?.instagram || "",
@@ -172,6 +165,27 @@ const Profile: React.FC = () => {
     }
   }, [userProfile]);
 
+  // Load the names of blocked and muted members
+  useEffect(() => {
+    const ids = Array.from(new Set([
+      ...(userProfile?.blockedUsers || []),
+      ...(userProfile?.mutedUsers || []),
+    ]));
+
+    const fetchHiddenMembers = async () => {
+      try {
+        const profiles = await Promise.all(ids.map((id) => repository.users.get(id)));
+        setHiddenMembers(
+          Object.fromEntries(profiles.filter(Boolean).map((profile) => [profile.id, profile]))
+        );
+      } catch (error) {
+        console.error("Error fetching blocked and muted members:", error);
+      }
+    };
+
+    fetchHiddenMembers();
+  }, [userProfile?.blockedUsers, userProfile?.mutedUsers]);
+
   // Password form
   const passwordForm = useForm<PasswordFormValues>({
     resolver: zodResolver(passwordFormSchema),
@@ -190,6 +204,8 @@ const Profile: React.FC = () => {
       const success = await updateUserProfile(currentUser.uid, {
         username: data.username,
         gender: data.gender,
+        timeZone: data.timeZone,
+        dayRolloverHour: Number(data.dayRolloverHour),
         socialMedia: {
           discord: data.socialMedia?.discord,
           instagram: data.socialMedia?.instagram,
@@ -221,6 +237,9 @@ const Profile: React.FC = () => {
 
       if (success) {
         passwordForm.reset();
+        if (userProfile?.passwordResetRequired) {
+          await refreshProfile();
+        }
       }
     } catch (error) {
       toast.error("Failed to update password");
@@ -250,23 +269,51 @@ const Profile: React.FC = () => {
   }
 
 
+  const getMemberName = (userId: string) => {
+    return getPublicName(hiddenMembers[userId], "members");
+  };
+
+  const handleUnblock = async (userId: string) => {
+    if (await unblockUser(currentUser.uid, userId)) {
+      await refreshProfile();
+    }
+  };
+
+  const handleUnmute = async (userId: string) => {
+    if (await unmuteUser(currentUser.uid, userId)) {
+      await refreshProfile();
+    }
+  };
+
+  const renderMemberList = (
+    userIds: string[] | undefined,
+    emptyText: string,
+    actionLabel: string,
+    onAction: (userId: string) => void
+  ) =>
+    userIds?.length ? (
+      <ul className="divide-y rounded-md border">
+        {userIds.map((userId) => (
+          <li key={userId} className="flex items-center justify-between px-4 py-2">
+            <span>{getMemberName(userId)}</span>
+            <Button variant="outline" size="sm" onClick={() => onAction(userId)}>
+              {actionLabel}
+            </Button>
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="text-sm text-muted-foreground">{emptyText}</p>
+    );
+
   const deleteAccount = async (userId: string) => {
-    try {
-      // Delete user data from Firestore
-      const userRef = doc(db, 'users', userId);
-      await deleteDoc(userRef);
-
-      // Delete the user authentication account
-      const user = currentUser;
-      if (user) {
-        await user.delete();
-      }
-      
+    // Deletes the profile data and then the authentication account; failures are reported by deleteUserAccount
+    const success = await deleteUserAccount(userId);
+
+    if (success) {
       toast.success("Account deleted successfully");
-    } catch (error) {
-      console.error("Error deleting account:", error);
-      toast.error("Failed to delete account");
     }
+    return success;
   };
 
   return (
@@ -282,17 +329,16 @@ const Profile: React.FC = () => {
         <Card className="w-full md:w-1/3">
           <CardHeader>
             <div className="flex flex-col items-center">
-              <Avatar className="h-20 w-20 mb-4">
-                <AvatarFallback className="text-xl">
-                  {userInitials}
-                </AvatarFallback>
-              </Avatar>
+              <MemberAvatar profile={userProfile} surface="chat" className="h-20 w-20 mb-4 text-3xl" />
               <CardTitle className="text-center">
-                {userProfile.firstName + " "  + userProfile.lastName || "User"}
+                {getRealName(identity) || userProfile.username || "User"}
               </CardTitle>
               <CardDescription className="text-center mt-1">
                 {currentUser.email}
               </CardDescription>
+              <CardDescription className="text-center mt-1">
+                Other members see you as {getPublicName(userProfile, "chat")}
+              </CardDescription>
             </div>
           </CardHeader>
           <CardContent>
@@ -330,9 +376,11 @@ const Profile: React.FC = () => {
         </Card>
 
         <div className="w-full md:w-2/3">
-          <Tabs defaultValue="profile">
-            <TabsList className="grid w-full grid-cols-2 mb-4">
+          <Tabs defaultValue={searchParams.get("tab") || "profile"}>
+            <TabsList className="grid w-full grid-cols-4 mb-4">
               <TabsTrigger value="profile">Profile Settings</TabsTrigger>
+              <TabsTrigger value="partners">Partners</TabsTrigger>
+              <TabsTrigger value="privacy">Privacy</TabsTrigger>
               <TabsTrigger value="security">Security</TabsTrigger>
             </TabsList>
 
@@ -389,6 +437,68 @@ const Profile: React.FC = () => {
                         )}
                       />
 
+                      <FormField
+                        control={profileForm.control}
+                        name="timeZone"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Timezone</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select timezone" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {TIME_ZONES.map((zone) => (
+                                  <SelectItem key={zone} value={zone}>
+                                    {zone.replace(/_/g, " ")}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Check-ins and streaks count days in this timezone, even when you travel
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={profileForm.control}
+                        name="dayRolloverHour"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>New day starts at</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select hour" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {Array.from({ length: MAX_ROLLOVER_HOUR + 1 }).map((_, hour) => (
+                                  <SelectItem key={hour} value={String(hour)}>
+                                    {formatRolloverHour(hour)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Anything before this hour still counts as the previous day
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
                       <div className="space-y-4">
                         <SocialMediaLinks userId={currentUser.uid} />
                       </div>
@@ -408,6 +518,80 @@ const Profile: React.FC = () => {
               </Card>
             </TabsContent>
 
+            <TabsContent value="partners">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Accountability Partners</CardTitle>
+                  <CardDescription>
+                    Partners follow each other's progress. You decide what each
+                    partner sees and can change it at any time
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PartnerSettings />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="privacy">
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Community Identity</CardTitle>
+                  <CardDescription>
+                    Choose how you appear to other members. Your real name is
+                    only ever visible to administrators
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CommunityIdentitySettings />
+                </CardContent>
+              </Card>
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Location and Community Map</CardTitle>
+                  <CardDescription>
+                    Where you are, and whether you are counted on the map.
+                    Nobody is on the map unless they choose to be
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <CommunityMapSettings />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Blocked Members</CardTitle>
+                  <CardDescription>
+                    Their messages are hidden in the community and they cannot
+                    add you to group chats
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {renderMemberList(
+                    userProfile.blockedUsers,
+                    "You haven't blocked anyone",
+                    "Unblock",
+                    handleUnblock
+                  )}
+                </CardContent>
+                <CardHeader>
+                  <CardTitle>Muted Members</CardTitle>
+                  <CardDescription>
+                    Their messages are hidden in the community until you choose
+                    to show them
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {renderMemberList(
+                    userProfile.mutedUsers,
+                    "You haven't muted anyone",
+                    "Unmute",
+                    handleUnmute
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="security">
               <Card>
                 <CardHeader>
@@ -417,6 +601,11 @@ const Profile: React.FC = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
+                  {userProfile.passwordResetRequired && (
+                    <div className="mb-6 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                      An administrator has asked you to change your password before using the rest of the app.
+                    </div>
+                  )}
                   <Form {...passwordForm}>
                     <form
                       onSubmit={passwordForm.handleSubmit(onPasswordSubmit)}
@@ -518,14 +707,8 @@ const Profile: React.FC = () => {
                           return;
                         }
 
-                        try {
-                          // Call your delete account function here
-                          await deleteAccount(currentUser.uid);
-                          toast.success("Account deleted successfully.");
+                        if (await deleteAccount(currentUser.uid)) {
                           navigate("/goodbye");
-                        } catch (error) {
-                          toast.error("Failed to delete account.");
-                          console.error("Account deletion error:", error);
                         }
                       }}
                     >
@@ -16,13 +16,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { countries, usStates } from '@/utils/locationData';
+import { getSubdivisionLabel, getSubdivisions } from '@/utils/geoData';
+import LocationPicker from '@/components/LocationPicker';
+import { ALIAS_MAX_LENGTH, validateAlias } from '@/utils/identity';
 
 const Register: React.FC = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [username, setUsername] = useState('');
+  const [alias, setAlias] = useState('');
   const [firstName, setFirstName] = useState('');
   const [lastName, setLastName] = useState('');
   const [gender, setGender] = useState('prefer-not-to-say');
@@ -69,14 +72,20 @@ const Register: React.FC = () => {
       return;
     }
 
+    const aliasProblem = alias.trim() ? validateAlias(alias) : null;
+    if (aliasProblem) {
+      setError(aliasProblem);
+      return;
+    }
+
     if (!country) {
       setError('Please select your country');
       return;
     }
 
-    // If the country is US, state is required
-    if (country === 'us' && !state) {
-      setError('Please select your state');
+    // Countries with subdivisions need one picked
+    if (getSubdivisions(country).length > 0 && !state) {
+      setError(`Please select your ${getSubdivisionLabel(country).toLowerCase()}`);
       return;
     }
     
@@ -87,10 +96,10 @@ const Register: React.FC = () => {
       // Create location object with country and state (if applicable)
       const location = {
         country,
-        state: country === 'us' ? state : null
+        state: state || null
       };
       
-      const success = await register(email, password, username, firstName, lastName, gender, location);
+      const success = await register(email, password, username, firstName, lastName, gender, location, alias);
       if (success) {
         navigate('/dashboard');
       }
@@ -159,6 +168,22 @@ const Register: React.FC = () => {
                   />
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="alias">Community alias (optional)</Label>
+                  <Input
+                    id="alias"
+                    type="text"
+                    placeholder="The name other members will see"
+                    value={alias}
+                    onChange={(e) => setAlias(e.target.value)}
+                    maxLength={ALIAS_MAX_LENGTH}
+                    className="bg-background"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Your first and last name are never shown to other members, only to administrators.
+                  </p>
+                </div>
+                
                 <div className="space-y-2">
                   <Label htmlFor="email">Email</Label>
                   <Input
@@ -191,50 +216,14 @@ const Register: React.FC = () => {
                   </Select>
                 </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="country">Country</Label>
-                  <Select 
-                    value={country} 
-                    onValueChange={(value) => {
-                      setCountry(value);
-                      if (value !== 'us') {
-                        setState('');
-                      }
-                    }}
-                  >
-                    <SelectTrigger className="w-full">
-                      <SelectValue placeholder="Select your country" />
-                    </SelectTrigger>
-                    <SelectContent className="max-h-[200px]">
-                      {countries.map((country) => (
-                        <SelectItem key={country.value} value={country.value}>
-                          {country.label}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                </div>
-                
-                {country === 'us' && (
-                  <div className="space-y-2">
-                    <Label htmlFor="state">State</Label>
-                    <Select 
-                      value={state} 
-                      onValueChange={setState}
-                    >
-                      <SelectTrigger className="w-full">
-                        <SelectValue placeholder="Select your state" />
-                      </SelectTrigger>
-                      <SelectContent className="max-h-[200px]">
-                        {usStates.map((state) => (
-                          <SelectItem key={state.value} value={state.value}>
-                            {state.label}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                  </div>
-                )}
+                <LocationPicker
+                  country={country}
+                  subdivision={state}
+                  onChange={(nextCountry, nextState) => {
+                    setCountry(nextCountry);
+                    setState(nextState);
+                  }}
+                />
                 
                 <div className="space-y-2">
                   <Label htmlFor="password">Password</Label>
@@ -1,15 +1,19 @@
 
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
-import { User } from 'firebase/auth';
-import { auth, getUserProfile, UserProfile, isUserAdmin } from './firebase';
+import { getUserProfile, UserProfile, AuthUser, isUserAdmin } from './firebase';
+import { repository } from './repository';
+import { ensureBlockListMigrated, getBlockList, PRESENCE_HEARTBEAT_MS, setOffline, updatePresence } from './chatService';
+import { ensureIdentityMigrated } from './identity';
+import { syncMapRegion } from './communityMap';
 
 interface AuthContextType {
-  currentUser: User | null;
+  currentUser: AuthUser | null;
   userProfile: UserProfile | null;
   userRole: 'admin' | 'member' | null;
   isAdmin: boolean;
   isLoading: boolean;
   firebaseInitialized: boolean;
+  refreshProfile: () => Promise<void>;
 }
 
 export const AuthContext = createContext<AuthContextType>({
@@ -18,43 +22,46 @@ export const AuthContext = createContext<AuthContextType>({
   userRole: null,
   isAdmin: false,
   isLoading: true,
-  firebaseInitialized: false
+  firebaseInitialized: false,
+  refreshProfile: async () => {}
 });
 
 export const useAuth = () => useContext(AuthContext);
 
+// The member's own profile along with the block and mute lists only they can read
+const getOwnProfile = async (userId: string): Promise<UserProfile | null> => {
+  const [profile, blockList] = await Promise.all([getUserProfile(userId), getBlockList(userId)]);
+  return profile && { ...profile, ...blockList };
+};
+
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentUser, setCurrentUser] = useState<AuthUser | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [userRole, setUserRole] = useState<'admin' | 'member' | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [firebaseInitialized, setFirebaseInitialized] = useState(!!auth);
+  // The repository always resolves to a working backend, Firestore or local
+  const firebaseInitialized = repository.backend === 'firestore';
   const [isAdmin, setIsAdmin] = useState(false);
 
   useEffect(() => {
-    // Check if Firebase is initialized
-    if (!auth) {
-      console.error("Firebase auth not initialized in AuthProvider");
-      setIsLoading(false);
-      setFirebaseInitialized(false);
-      return () => {};
-    } else {
-      setFirebaseInitialized(true);
-    }
-    
     console.log("Setting up auth state listener");
-    const unsubscribe = auth.onAuthStateChanged(async (user) => {
+    const unsubscribe = repository.auth.onAuthStateChanged(async (user) => {
       console.log("Auth state changed:", user ? "User logged in" : "No user");
       setCurrentUser(user);
       
       if (user) {
         try {
-          const profile = await getUserProfile(user.uid);
+          // Older accounts still carry their legal name on the profile others can read
+          await ensureIdentityMigrated(user.uid);
+          await ensureBlockListMigrated(user.uid);
+          // Members counted before states were also counted in their country
+          await syncMapRegion(user.uid);
+          const profile = await getOwnProfile(user.uid);
           // console.log("User profile:", profile);
           setUserProfile(profile);
           
           // Check if user is admin
-          const adminStatus = await isUserAdmin(user.email || '');
+          const adminStatus = await isUserAdmin(user.uid);
           setIsAdmin(adminStatus);
           
           // Set role based on admin status or profile
@@ -84,13 +91,51 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return unsubscribe;
   }, []);
 
+  // Keep the signed-in user's presence fresh while the app is open and visible
+  const userId = currentUser?.uid;
+  useEffect(() => {
+    if (!userId) return;
+
+    const heartbeat = () => {
+      if (document.visibilityState === 'visible') {
+        updatePresence(userId);
+      }
+    };
+    const handleUnload = () => {
+      setOffline(userId);
+    };
+
+    heartbeat();
+    const interval = setInterval(heartbeat, PRESENCE_HEARTBEAT_MS);
+    document.addEventListener('visibilitychange', heartbeat);
+    window.addEventListener('beforeunload', handleUnload);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', heartbeat);
+      window.removeEventListener('beforeunload', handleUnload);
+      // logout() has already cleared presence while it still had a session
+    };
+  }, [userId]);
+
+  // Re-read the profile after the signed-in user changes it
+  const refreshProfile = async () => {
+    if (!userId) return;
+    try {
+      setUserProfile(await getOwnProfile(userId));
+    } catch (error) {
+      console.error('Error refreshing user profile:', error);
+    }
+  };
+
   const value = {
     currentUser,
     userProfile,
     userRole,
     isAdmin,
     isLoading,
-    firebaseInitialized
+    firebaseInitialized,
+    refreshProfile
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
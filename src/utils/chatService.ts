@@ -1,133 +1,92 @@
-import { db, auth } from './firebase';
-import { 
-  collection, 
-  doc, 
-  setDoc, 
-  getDoc, 
-  getDocs, 
-  addDoc, 
-  query, 
-  where, 
-  orderBy, 
-  onSnapshot, 
-  serverTimestamp, 
-  updateDoc, 
-  arrayUnion, 
-  arrayRemove, 
-  Timestamp
-} from 'firebase/firestore';
-import { UserProfile } from './firebase';
+import { Timestamp } from 'firebase/firestore';
+import { repository, BlockList, ChatImage, ChatMessage, ChatRoom, DirectRequest, MessagePage, Presence, Unsubscribe, UserProfile } from './repository';
 import { toast } from 'sonner';
+import { applyContentFilter, CONTENT_FILTER_LABELS } from './contentFilter';
+import { describeSuspension, flagFilteredMessage, getActiveSuspension, getContentFilter, REMOVED_MESSAGE_TEXT } from './moderationService';
+import { findFirstLink, toPreviewText } from './markdown';
+import { fetchLinkPreview } from './linkPreview';
 
-// Interface for chat message
-export interface ChatMessage {
-  id: string;
-  senderId: string;
-  text: string;
-  timestamp: Timestamp;
-  reactions?: Record<string, string[]>; // emoji -> userId[]
-  replyTo?: string; // messageId being replied to
-  replyToText?: string; // Content of message being replied to
-}
+export type { ChatImage, ChatMessage, ChatRoom, DirectRequest, LinkPreview, Presence } from './repository';
 
-// Interface for chat room
-export interface ChatRoom {
-  id: string;
-  name: string;
-  participants: string[];
-  createdAt: Timestamp;
-  createdBy: string;
-  type: 'main' | 'men' | 'women' | 'group';
-  lastMessage?: {
-    text: string;
-    senderId: string;
-    timestamp: Timestamp;
-  };
-}
+// Messages watched live per room, and how many more each "load older" fetches
+export const MESSAGE_WINDOW_SIZE = 50;
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Senders can correct a message for this long after sending it; deleting is always allowed
+export const MESSAGE_EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+// Shown in place of a message its sender deleted
+export const DELETED_MESSAGE_TEXT = 'This message was deleted';
+
+// Image attachments; storage.rules and firestore.rules enforce the same limits
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+export const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 
-// Get available chat rooms for a user based on their gender
-export const getAvailableRooms = async (userId: string, gender?: string): Promise<ChatRoom[]> => {
+// Signed-in clients refresh their presence this often while the tab is visible
+export const PRESENCE_HEARTBEAT_MS = 30 * 1000;
+// A user is treated as gone once two heartbeats have been missed
+export const PRESENCE_TIMEOUT_MS = 2 * PRESENCE_HEARTBEAT_MS + 10 * 1000;
+// Typing stops showing this long after the last keystroke was reported
+export const TYPING_TIMEOUT_MS = 6 * 1000;
+
+// Most recently active first
+const sortRooms = (rooms: ChatRoom[]) => rooms.sort((a, b) => {
+  const timeA = a.lastMessage?.timestamp || a.createdAt;
+  const timeB = b.lastMessage?.timestamp || b.createdAt;
+  return timeB.toMillis() - timeA.toMillis();
+});
+
+// Get the chat rooms a user may read; eligibility is stored on each room
+export const getAvailableRooms = async (userId: string, gender?: UserProfile['gender']): Promise<ChatRoom[]> => {
   try {
-    // First, get all chat rooms
-    const roomsQuery = query(collection(db, 'rooms'));
-    const snapshot = await getDocs(roomsQuery);
-    
-    const rooms: ChatRoom[] = [];
-    const allUserProfiles: UserProfile[] = [];
-    
-    // Get all user profiles to determine gender filtering
-    const usersSnapshot = await getDocs(collection(db, 'users'));
-    usersSnapshot.forEach((userDoc) => {
-      allUserProfiles.push({ 
-        id: userDoc.id, 
-        ...userDoc.data() as Omit<UserProfile, 'id'> 
-      });
-    });
+    const rooms = await repository.rooms.listForUser(userId, gender);
     
-    // Process each room
-    for (const doc of snapshot.docs) {
-      const roomData = doc.data() as Omit<ChatRoom, 'id'>;
-      const room: ChatRoom = {
-        id: doc.id,
-        ...roomData,
-        createdAt: roomData.createdAt as Timestamp
-      };
-      
-      // For gender-specific rooms, apply filtering of participants
-      if (room.type === 'men') {
-        // Filter to include only male participants
-        room.participants = allUserProfiles
-          .filter(user => user.gender === 'male')
-          .map(user => user.id);
-      } else if (room.type === 'women') {
-        // Filter to include only female participants
-        room.participants = allUserProfiles
-          .filter(user => user.gender === 'female')
-          .map(user => user.id);
-      } else if (room.type === 'main') {
-        // Include all users in the main room
-        room.participants = allUserProfiles.map(user => user.id);
-      }
-      
-      // Determine which rooms should be available to this user
-      const shouldInclude = 
-        room.type === 'main' || 
-        (room.type === 'men' && gender === 'male') || 
-        (room.type === 'women' && gender === 'female') || 
-        (room.type === 'group' && (room.participants.includes(userId) || room.createdBy === userId));
-      
-      if (shouldInclude) {
-        rooms.push(room);
-      }
-    }
-    
-    // Sort rooms by last message timestamp or creation time
-    rooms.sort((a, b) => {
-      const timeA = a.lastMessage?.timestamp || a.createdAt;
-      const timeB = b.lastMessage?.timestamp || b.createdAt;
-      return timeB.toMillis() - timeA.toMillis();
-    });
+    // Eligible open rooms are joined on first visit, so member counts come from the room itself
+    await Promise.all(rooms
+      .filter(room => room.audience !== 'members' && !room.participants.includes(userId))
+      .map(async (room) => {
+        await repository.rooms.addParticipant(room.id, userId);
+        room.participants = [...room.participants, userId];
+      }));
     
-    return rooms;
+    return sortRooms(rooms);
   } catch (error) {
     console.error("Error in getAvailableRooms:", error);
     return [];
   }
 };
 
-// Get messages for a specific room
-export const getRoomMessages = (roomId: string) => {
+// Keep the room list current as messages arrive and rooms are created
+export const subscribeToRooms = (
+  userId: string,
+  gender: UserProfile['gender'] | undefined,
+  callback: (rooms: ChatRoom[]) => void
+): Unsubscribe => repository.rooms.subscribeForUser(userId, gender, (rooms) => callback(sortRooms(rooms)), (error) => {
+  console.error("Error listening to chat rooms:", error);
+});
+
+// Give rooms created before eligibility was stored on the room an audience (admin only)
+export const migrateLegacyRooms = async () => {
+  try {
+    return await repository.rooms.migrateLegacyRooms();
+  } catch (error) {
+    console.error("Error migrating chat rooms:", error);
+    return 0;
+  }
+};
+
+const compareMessages = (a: ChatMessage, b: ChatMessage) =>
+  a.timestamp.toMillis() - b.timestamp.toMillis() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Listen to the latest MESSAGE_WINDOW_SIZE messages in a room
+export const getRoomMessages = (roomId: string, onMessages: (messages: ChatMessage[]) => void) => {
   console.log(`Starting real-time listener for messages in room ${roomId}`);
   
   try {
-    const messagesQuery = query(
-      collection(db, 'rooms', roomId, 'messages'),
-      orderBy('timestamp', 'asc')
-    );
-    
     // Return the unsubscribe function directly so it can be used by the component
-    return onSnapshot(messagesQuery, (snapshot) => {
-      console.log(`Received snapshot update for room ${roomId} with ${snapshot.docs.length} messages`);
+    return repository.messages.subscribeLatest(roomId, MESSAGE_WINDOW_SIZE, (messages) => {
+      console.log(`Received snapshot update for room ${roomId} with ${messages.length} messages`);
+      onMessages(messages);
     }, (error) => {
       console.error(`Error in messages listener for room ${roomId}:`, error);
     });
@@ -138,139 +97,323 @@ export const getRoomMessages = (roomId: string) => {
   }
 };
 
-// Separate function to get messages once without real-time updates
-export const fetchRoomMessages = async (roomId: string): Promise<ChatMessage[]> => {
+/**
+ * Folds a fresh snapshot of the latest window into the messages already shown.
+ * Shown messages older than the window were pushed out by newer ones, or were
+ * loaded as older pages, so they are kept; older messages are not watched, so
+ * reactions on them only refresh when the room is reopened.
+ */
+export const mergeMessageWindow = (shown: ChatMessage[], latest: ChatMessage[]) => {
+  // A partial window holds the room's whole history
+  if (latest.length < MESSAGE_WINDOW_SIZE) {
+    return latest;
+  }
+  return [...shown.filter(message => compareMessages(message, latest[0]) < 0), ...latest];
+};
+
+// Load the page of messages just before the oldest one shown
+export const fetchOlderMessages = async (roomId: string, oldest: ChatMessage): Promise<MessagePage> => {
   try {
-    const messagesQuery = query(
-      collection(db, 'rooms', roomId, 'messages'),
-      orderBy('timestamp', 'asc')
-    );
-    
-    const snapshot = await getDocs(messagesQuery);
-    const messages: ChatMessage[] = [];
-    
-    snapshot.forEach((doc) => {
-      const messageData = doc.data() as Omit<ChatMessage, 'id'>;
-      messages.push({
-        id: doc.id,
-        ...messageData,
-        timestamp: messageData.timestamp as Timestamp
-      });
-    });
-    
-    return messages;
+    return await repository.messages.listBefore(roomId, oldest, MESSAGE_PAGE_SIZE);
   } catch (error) {
-    console.error(`Error fetching messages for room ${roomId}:`, error);
-    return [];
+    console.error(`Error fetching older messages for room ${roomId}:`, error);
+    toast.error("Failed to load older messages");
+    return { messages: [], hasMore: true };
   }
 };
 
-// Send a message to a room
-export const sendMessage = async (roomId: string, text: string, userId: string, replyTo?: string, replyToText?: string) => {
+// Suspended and banned members can read but not post; says why and returns true if the user is one
+const isBlockedFromPosting = (profile: UserProfile | null) => {
+  const suspension = getActiveSuspension(profile);
+  if (suspension) {
+    toast.error(describeSuspension(suspension));
+    return true;
+  }
+  return false;
+};
+
+const checkCanPost = async (userId: string) => !isBlockedFromPosting(await repository.users.get(userId));
+
+// Run the content filter over a message a user is about to post; null if a rule blocked it or the sender is suspended
+const filterOutgoingText = async (text: string, userId: string, hasImage = false) => {
+  const [filter, sender] = await Promise.all([getContentFilter(), repository.users.get(userId)]);
+  if (isBlockedFromPosting(sender)) {
+    return null;
+  }
+
+  const filtered = applyContentFilter(text.trim(), filter, { joinedAt: sender?.joinedAt?.toDate() }, new Date(), { image: hasImage });
+  
+  if (filtered.blocked) {
+    const rules = filtered.matches
+      .filter(match => match.action === 'block')
+      .map(match => CONTENT_FILTER_LABELS[match.kind].title.toLowerCase());
+    toast.error(`Message not sent: it contains ${rules.join(' and ')}`);
+    return null;
+  }
+  return filtered;
+};
+
+// An image picked for a message, with its size as displayed so the bubble can reserve space
+export interface ImageAttachment {
+  file: File;
+  width: number;
+  height: number;
+}
+
+// Why an image can't be attached, or null if it can
+export const validateImage = (file: File) => {
+  if (!IMAGE_TYPES.includes(file.type)) {
+    return 'Only JPEG, PNG, GIF and WebP images can be sent';
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return `Images must be ${MAX_IMAGE_BYTES / (1024 * 1024)} MB or smaller`;
+  }
+  return null;
+};
+
+// The message is already a tombstone, so a file left behind is only logged
+const removeImageFile = async (path: string) => {
   try {
-    if (!text.trim()) {
+    await repository.attachments.remove(path);
+  } catch (error) {
+    console.error("Error removing message image:", error);
+  }
+};
+
+// Attach a preview of the message's first link once the page has been read; best effort
+const attachLinkPreview = async (roomId: string, messageId: string, text: string) => {
+  const href = findFirstLink(text);
+  try {
+    const linkPreview = href ? await fetchLinkPreview(href) : null;
+    await repository.messages.update(roomId, messageId, { linkPreview });
+  } catch (error) {
+    console.error("Error attaching link preview:", error);
+  }
+};
+
+// Send a message to a room, optionally with an image or as a reply in the thread started by `replyTo`
+export const sendMessage = async (
+  roomId: string,
+  text: string,
+  userId: string,
+  { replyTo, image }: { replyTo?: string; image?: ImageAttachment } = {}
+) => {
+  try {
+    if (!text.trim() && !image) {
+      return false;
+    }
+    
+    if (image) {
+      const problem = validateImage(image.file);
+      if (problem) {
+        toast.error(problem);
+        return false;
+      }
+    }
+    
+    // Run the content filter before anything is written
+    const filtered = await filterOutgoingText(text, userId, !!image);
+    if (!filtered) {
       return false;
     }
     
     // Add message to the room's messages collection
-    const messagesRef = collection(db, 'rooms', roomId, 'messages');
     const messageData = {
       senderId: userId,
-      text: text.trim(),
-      timestamp: serverTimestamp()
+      text: filtered.text
     };
     
-    // Add reply information if provided
-    if (replyTo && replyToText) {
-      Object.assign(messageData, {
-        replyTo,
-        replyToText
-      });
+    // Replies quote the original live, so only its id is stored
+    if (replyTo) {
+      Object.assign(messageData, { replyTo });
+    }
+    
+    const room = await repository.rooms.get(roomId);
+    if (room && isArchived(room)) {
+      toast.error('This group is archived');
+      return false;
+    }
+    
+    let stored: ChatImage | undefined;
+    if (image) {
+      const { url, path } = await repository.attachments.uploadImage(roomId, userId, image.file);
+      stored = {
+        url,
+        path,
+        contentType: image.file.type,
+        size: image.file.size,
+        width: Math.round(image.width),
+        height: Math.round(image.height),
+        ...(filtered.imageMasked && { masked: true })
+      };
+      Object.assign(messageData, { image: stored });
     }
     
-    await addDoc(messagesRef, messageData);
+    const messageId = await repository.messages.add(roomId, messageData);
+    
+    if (filtered.flagged) {
+      await flagFilteredMessage(roomId, messageId, userId, filtered, stored?.url);
+    }
+    
+    if (findFirstLink(filtered.text)) {
+      void attachLinkPreview(roomId, messageId, filtered.text);
+    }
     
     // Update the room's last message
-    const roomRef = doc(db, 'rooms', roomId);
-    await updateDoc(roomRef, {
+    await repository.rooms.update(roomId, {
       lastMessage: {
-        text: text.trim(),
+        text: toPreviewText(filtered.text, !!image),
         senderId: userId,
-        timestamp: serverTimestamp()
-      },
-      // Add user to participants if not already there
-      participants: arrayUnion(userId)
+        timestamp: Timestamp.now()
+      }
     });
     
+    // Add user to participants if not already there
+    await repository.rooms.addParticipant(roomId, userId);
+    
     return true;
   } catch (error) {
     console.error("Error sending message:", error);
-    toast.error("Failed to send message");
+    // A partner who has since blocked the sender no longer receives their messages
+    toast.error(isPermissionDenied(error) ? "You can't send messages in this conversation" : "Failed to send message");
     return false;
   }
 };
 
-// Add a reaction to a message
-export const addReaction = async (roomId: string, messageId: string, emoji: string, userId: string) => {
+// The message that started a thread and its replies, kept current as they change
+export const subscribeToThread = (
+  roomId: string,
+  messageId: string,
+  callback: (parent: ChatMessage | null, replies: ChatMessage[]) => void
+): Unsubscribe => repository.messages.subscribeThread(roomId, messageId, callback, (error) => {
+  console.error("Error listening to thread:", error);
+});
+
+export const isDeletedMessage = (message: ChatMessage) => !!(message.deletedAt || message.removedAt);
+
+export const canEditMessage = (message: ChatMessage, userId: string | undefined, now = Date.now()) =>
+  message.senderId === userId &&
+  !isDeletedMessage(message) &&
+  !!message.timestamp &&
+  now - message.timestamp.toMillis() < MESSAGE_EDIT_WINDOW_MS;
+
+export const canDeleteMessage = (message: ChatMessage, userId: string | undefined) =>
+  message.senderId === userId && !isDeletedMessage(message);
+
+// Threads are one level deep, so replying to a reply continues the thread it is in
+export const getThreadId = (message: ChatMessage) => message.replyTo || message.id;
+
+// What a reply should quote: the original as it is now, or null once it no longer exists.
+// Replies sent before threads fall back to the copy they kept
+export const getReplyPreview = (reply: ChatMessage, original?: ChatMessage | null) => {
+  if (!original) return reply.replyToText ?? (original === null ? 'Original message unavailable' : '…');
+  if (original.removedAt) return REMOVED_MESSAGE_TEXT;
+  if (original.deletedAt) return DELETED_MESSAGE_TEXT;
+  return toPreviewText(original.text, !!original.image);
+};
+
+// Keep the room list preview in step when its last message changes
+const updateLastMessagePreview = async (roomId: string, message: ChatMessage, text: string) => {
+  const room = await repository.rooms.get(roomId);
+  if (room?.lastMessage?.senderId === message.senderId && room.lastMessage.text === toPreviewText(message.text, !!message.image)) {
+    await repository.rooms.update(roomId, {
+      lastMessage: { ...room.lastMessage, text }
+    });
+  }
+};
+
+// Change the text of the user's own message while it is still inside the edit window
+export const editMessage = async (roomId: string, message: ChatMessage, text: string, userId: string) => {
   try {
-    const messageRef = doc(db, 'rooms', roomId, 'messages', messageId);
-    const messageDoc = await getDoc(messageRef);
+    if ((!text.trim() && !message.image) || text.trim() === message.text) {
+      return false;
+    }
     
-    if (!messageDoc.exists()) {
+    if (!canEditMessage(message, userId)) {
+      toast.error("This message can no longer be edited");
       return false;
     }
     
-    const messageData = messageDoc.data();
-    const reactions = messageData.reactions || {};
+    const filtered = await filterOutgoingText(text, userId, !!message.image);
+    if (!filtered) {
+      return false;
+    }
+    
+    await repository.messages.edit(roomId, message.id, filtered.text);
     
-    // If this emoji reaction doesn't exist yet, initialize it
-    if (!reactions[emoji]) {
-      reactions[emoji] = [];
+    if (filtered.flagged) {
+      await flagFilteredMessage(roomId, message.id, userId, filtered, message.image?.url);
     }
     
-    // Check if user already reacted with this emoji
-    if (!reactions[emoji].includes(userId)) {
-      reactions[emoji].push(userId);
-      
-      await updateDoc(messageRef, {
-        reactions
-      });
+    // The preview follows the message's first link, or goes if the link was edited out
+    if (findFirstLink(filtered.text) !== findFirstLink(message.text)) {
+      void attachLinkPreview(roomId, message.id, filtered.text);
     }
     
+    await updateLastMessagePreview(roomId, message, toPreviewText(filtered.text, !!message.image));
+    
     return true;
   } catch (error) {
-    console.error("Error adding reaction:", error);
+    console.error("Error editing message:", error);
+    toast.error("Failed to edit message");
     return false;
   }
 };
 
-// Remove a reaction from a message
-export const removeReaction = async (roomId: string, messageId: string, emoji: string, userId: string) => {
+// Soft-delete the user's own message, leaving a tombstone so replies to it still make sense
+export const deleteMessage = async (roomId: string, message: ChatMessage, userId: string) => {
   try {
-    const messageRef = doc(db, 'rooms', roomId, 'messages', messageId);
-    const messageDoc = await getDoc(messageRef);
+    if (!canDeleteMessage(message, userId)) {
+      return false;
+    }
     
-    if (!messageDoc.exists()) {
+    await repository.messages.update(roomId, message.id, {
+      text: '',
+      image: null,
+      linkPreview: null,
+      deletedAt: Timestamp.now()
+    });
+    
+    if (message.image) {
+      await removeImageFile(message.image.path);
+    }
+    
+    await updateLastMessagePreview(roomId, message, DELETED_MESSAGE_TEXT);
+    
+    return true;
+  } catch (error) {
+    console.error("Error deleting message:", error);
+    toast.error("Failed to delete message");
+    return false;
+  }
+};
+
+// Add a reaction to a message
+export const addReaction = async (roomId: string, messageId: string, emoji: string, userId: string) => {
+  try {
+    if (!await checkCanPost(userId)) {
       return false;
     }
     
-    const messageData = messageDoc.data();
-    const reactions = messageData.reactions || {};
+    // Only this user's entry changes, so reactions arriving together are all kept
+    await repository.messages.setReaction(roomId, messageId, emoji, userId, true);
     
-    // If this emoji reaction exists and user has reacted
-    if (reactions[emoji] && reactions[emoji].includes(userId)) {
-      reactions[emoji] = reactions[emoji].filter(id => id !== userId);
-      
-      // If no more users have this reaction, remove the emoji key
-      if (reactions[emoji].length === 0) {
-        delete reactions[emoji];
-      }
-      
-      await updateDoc(messageRef, {
-        reactions
-      });
+    return true;
+  } catch (error) {
+    console.error("Error adding reaction:", error);
+    return false;
+  }
+};
+
+// Remove a reaction from a message
+export const removeReaction = async (roomId: string, messageId: string, emoji: string, userId: string) => {
+  try {
+    if (!await checkCanPost(userId)) {
+      return false;
     }
     
+    await repository.messages.setReaction(roomId, messageId, emoji, userId, false);
+    
     return true;
   } catch (error) {
     console.error("Error removing reaction:", error);
@@ -278,26 +421,71 @@ export const removeReaction = async (roomId: string, messageId: string, emoji: s
   }
 };
 
-// Create a new group chat
-export const createGroupChat = async (name: string, userId: string, initialParticipants: string[] = []) => {
+// Limits the security rules apply to group details
+export const GROUP_NAME_MAX_LENGTH = 50;
+export const GROUP_DESCRIPTION_MAX_LENGTH = 300;
+
+// Groups quiet for this long are suggested to their owner for archiving
+export const GROUP_INACTIVE_DAYS = 30;
+
+export type GroupRole = 'owner' | 'moderator' | 'member';
+
+// The user's role in a group, or null if they are not in it
+export const getGroupRole = (room: ChatRoom, userId: string | undefined): GroupRole | null => {
+  if (room.type !== 'group' || !userId || !room.participants.includes(userId)) return null;
+  if (room.createdBy === userId) return 'owner';
+  return room.moderators?.includes(userId) ? 'moderator' : 'member';
+};
+
+// Owners and moderators invite and remove members and edit the details
+export const canModerateGroup = (room: ChatRoom, userId: string | undefined) => {
+  const role = getGroupRole(room, userId);
+  return role === 'owner' || role === 'moderator';
+};
+
+// Moderators remove members, but only the owner removes moderators, and nobody removes the owner
+export const canRemoveFromGroup = (room: ChatRoom, userId: string | undefined, memberId: string) => {
+  const role = getGroupRole(room, userId);
+  const memberRole = getGroupRole(room, memberId);
+  if (!memberRole || memberRole === 'owner' || memberId === userId) return false;
+  return role === 'owner' || (role === 'moderator' && memberRole === 'member');
+};
+
+export const isArchived = (room: ChatRoom) => !!room.archivedAt;
+
+export const isGroupInactive = (room: ChatRoom, now = Date.now()) => {
+  const lastActivity = room.lastMessage?.timestamp || room.createdAt;
+  return !!lastActivity && now - lastActivity.toMillis() > GROUP_INACTIVE_DAYS * 24 * 60 * 60 * 1000;
+};
+
+// Create a group owned by the user; everyone else is invited and joins once they accept
+export const createGroupChat = async (
+  name: string,
+  userId: string,
+  options: { description?: string; discoverable?: boolean; invitees?: string[] } = {}
+) => {
   try {
-    // Ensure the creator is included in participants
-    const participants = [userId, ...initialParticipants.filter(id => id !== userId)];
+    if (!await checkCanPost(userId)) {
+      return null;
+    }
     
-    // Create new room document
-    const roomsRef = collection(db, 'rooms');
-    const roomData = {
-      name: name.trim(),
-      participants,
-      createdAt: serverTimestamp(),
+    const roomId = await repository.rooms.create({
+      name: name.trim().slice(0, GROUP_NAME_MAX_LENGTH),
+      ...(options.description?.trim() && { description: options.description.trim().slice(0, GROUP_DESCRIPTION_MAX_LENGTH) }),
+      participants: [userId],
       createdBy: userId,
-      type: 'group'
-    };
+      type: 'group',
+      audience: 'members',
+      discoverable: !!options.discoverable
+    });
     
-    const roomDoc = await addDoc(roomsRef, roomData);
+    const room = await repository.rooms.get(roomId);
+    for (const inviteeId of (options.invitees || []).filter(id => id !== userId)) {
+      await inviteToGroup(room, inviteeId, userId, { quiet: true });
+    }
     
     toast.success(`${name} chat room created`);
-    return roomDoc.id;
+    return roomId;
   } catch (error) {
     console.error("Error creating group chat:", error);
     toast.error("Failed to create chat room");
@@ -305,16 +493,87 @@ export const createGroupChat = async (name: string, userId: string, initialParti
   }
 };
 
-// Add a user to a group chat
-export const addUserToChat = async (roomId: string, userId: string) => {
+// Invite a user to a group, unless they have blocked the person inviting them
+export const inviteToGroup = async (
+  room: ChatRoom,
+  userId: string,
+  invitedBy: string,
+  { quiet = false }: { quiet?: boolean } = {}
+) => {
   try {
-    const roomRef = doc(db, 'rooms', roomId);
-    await updateDoc(roomRef, {
-      participants: arrayUnion(userId)
-    });
+    if (room.participants.includes(userId) || room.invited?.includes(userId)) {
+      return true;
+    }
+    
+    const profile = await repository.users.get(userId);
+    if (!profile) {
+      toast.error("This member can't be invited to this group");
+      return false;
+    }
+    
+    // Only the rules can see whether they blocked the inviter
+    try {
+      await repository.rooms.invite(room.id, userId);
+    } catch (error) {
+      if (!isPermissionDenied(error)) throw error;
+      toast.error(`${profile.username || 'This member'} can't be invited to this group`);
+      return false;
+    }
+    if (!quiet) {
+      toast.success(`Invited ${profile.username || 'member'} to ${room.name}`);
+    }
+    return true;
+  } catch (error) {
+    console.error("Error inviting user to group:", error);
+    toast.error("Failed to send invitation");
+    return false;
+  }
+};
+
+// Used both by the inviter withdrawing an invitation and by the invitee declining it
+export const removeGroupInvitation = async (room: ChatRoom, userId: string) => {
+  try {
+    await repository.rooms.removeInvitation(room.id, userId);
+    return true;
+  } catch (error) {
+    console.error("Error removing group invitation:", error);
+    toast.error("Failed to update invitation");
+    return false;
+  }
+};
+
+// Join from an invitation or from the discoverable groups
+export const joinGroup = async (room: ChatRoom, userId: string) => {
+  try {
+    if (isArchived(room)) {
+      toast.error('This group is archived');
+      return false;
+    }
+    
+    await repository.rooms.join(room.id, userId);
+    toast.success(`You joined ${room.name}`);
+    return true;
+  } catch (error) {
+    console.error("Error joining group:", error);
+    toast.error("Failed to join group");
+    return false;
+  }
+};
+
+// The owner hands the group over before leaving, so a group is never left without one
+export const leaveGroup = async (room: ChatRoom, userId: string) => {
+  if (room.createdBy === userId) {
+    toast.error('Make someone else the owner before leaving');
+    return false;
+  }
+  
+  try {
+    await repository.rooms.removeParticipant(room.id, userId);
+    toast.success(`You left ${room.name}`);
     return true;
   } catch (error) {
-    console.error("Error adding user to chat:", error);
+    console.error("Error leaving group:", error);
+    toast.error("Failed to leave group");
     return false;
   }
 };
@@ -322,13 +581,412 @@ export const addUserToChat = async (roomId: string, userId: string) => {
 // Remove a user from a group chat
 export const removeUserFromChat = async (roomId: string, userId: string) => {
   try {
-    const roomRef = doc(db, 'rooms', roomId);
-    await updateDoc(roomRef, {
-      participants: arrayRemove(userId)
-    });
+    await repository.rooms.removeParticipant(roomId, userId);
     return true;
   } catch (error) {
     console.error("Error removing user from chat:", error);
+    toast.error("Failed to remove member");
+    return false;
+  }
+};
+
+export const updateGroupDetails = async (room: ChatRoom, details: { name: string; description: string }) => {
+  const name = details.name.trim().slice(0, GROUP_NAME_MAX_LENGTH);
+  if (!name) {
+    toast.error('The group needs a name');
+    return false;
+  }
+  
+  try {
+    await repository.rooms.update(room.id, {
+      name,
+      description: details.description.trim().slice(0, GROUP_DESCRIPTION_MAX_LENGTH)
+    });
+    toast.success('Group details saved');
+    return true;
+  } catch (error) {
+    console.error("Error updating group details:", error);
+    toast.error("Failed to save group details");
+    return false;
+  }
+};
+
+// Visibility, archiving, roles and ownership; only the owner may change them
+export const updateGroupSettings = async (
+  room: ChatRoom,
+  settings: Partial<Pick<ChatRoom, 'discoverable' | 'archivedAt' | 'moderators' | 'createdBy'>>
+) => {
+  try {
+    await repository.rooms.update(room.id, settings);
+    return true;
+  } catch (error) {
+    console.error("Error updating group settings:", error);
+    toast.error("Failed to update group");
     return false;
   }
 };
+
+export const setGroupModerator = (room: ChatRoom, userId: string, isModerator: boolean) =>
+  updateGroupSettings(room, {
+    moderators: isModerator
+      ? Array.from(new Set([...(room.moderators || []), userId]))
+      : (room.moderators || []).filter(id => id !== userId)
+  });
+
+// The previous owner stays on as a moderator
+export const transferGroupOwnership = (room: ChatRoom, newOwnerId: string) =>
+  updateGroupSettings(room, {
+    createdBy: newOwnerId,
+    moderators: Array.from(new Set([...(room.moderators || []), room.createdBy])).filter(id => id !== newOwnerId)
+  });
+
+export const archiveGroup = (room: ChatRoom, archived: boolean) =>
+  updateGroupSettings(room, { archivedAt: archived ? Timestamp.now() : null });
+
+// Discoverable groups and invitations the user has not acted on yet
+export const subscribeToOpenGroups = (
+  userId: string,
+  callback: (rooms: ChatRoom[]) => void
+): Unsubscribe => repository.rooms.subscribeOpenGroups(
+  userId,
+  (rooms) => callback(sortRooms(rooms.filter(room => !room.participants.includes(userId) && !isArchived(room)))),
+  (error) => {
+    console.error("Error listening to open groups:", error);
+  }
+);
+
+// Block and mute lists are private, so these only work on the signed-in
+// member's own profile, which the app loads with them
+export const hasBlocked = (profile: Partial<BlockList> | null | undefined, userId: string) =>
+  !!profile?.blockedUsers?.includes(userId);
+
+// Messages from blocked and muted users are hidden until the reader asks to see them
+export const isHiddenSender = (profile: Partial<BlockList> | null | undefined, userId: string) =>
+  hasBlocked(profile, userId) || !!profile?.mutedUsers?.includes(userId);
+
+export const getHiddenSenderIds = (profile: Partial<BlockList> | null | undefined) =>
+  [...(profile?.blockedUsers || []), ...(profile?.mutedUsers || [])];
+
+// Whether the security rules refused a write, e.g. to someone who blocked the writer
+export const isPermissionDenied = (error: unknown) =>
+  (error as { code?: string })?.code === 'permission-denied';
+
+// The signed-in member's own block and mute lists
+export const getBlockList = async (userId: string): Promise<BlockList> => {
+  try {
+    return await repository.users.getBlockList(userId);
+  } catch (error) {
+    console.error("Error fetching block list:", error);
+    return { blockedUsers: [], mutedUsers: [] };
+  }
+};
+
+// Lists saved on the profile, where anyone could read them, move to the private block list
+export const ensureBlockListMigrated = async (userId: string) => {
+  try {
+    await repository.users.migrateLegacyBlockList(userId);
+  } catch (error) {
+    console.error('Error moving block list off the profile:', error);
+  }
+};
+
+const updateUserList = (userId: string, list: keyof BlockList, targetId: string, include: boolean) =>
+  repository.users.setBlockListEntry(userId, list, targetId, include);
+
+export const blockUser = async (userId: string, targetId: string) => {
+  try {
+    await updateUserList(userId, 'blockedUsers', targetId, true);
+    toast.success('Member blocked. You can unblock them from your profile.');
+    return true;
+  } catch (error) {
+    console.error("Error blocking user:", error);
+    toast.error("Failed to block member");
+    return false;
+  }
+};
+
+export const unblockUser = async (userId: string, targetId: string) => {
+  try {
+    await updateUserList(userId, 'blockedUsers', targetId, false);
+    toast.success('Member unblocked');
+    return true;
+  } catch (error) {
+    console.error("Error unblocking user:", error);
+    toast.error("Failed to unblock member");
+    return false;
+  }
+};
+
+export const muteUser = async (userId: string, targetId: string) => {
+  try {
+    await updateUserList(userId, 'mutedUsers', targetId, true);
+    toast.success('Member muted');
+    return true;
+  } catch (error) {
+    console.error("Error muting user:", error);
+    toast.error("Failed to mute member");
+    return false;
+  }
+};
+
+export const unmuteUser = async (userId: string, targetId: string) => {
+  try {
+    await updateUserList(userId, 'mutedUsers', targetId, false);
+    toast.success('Member unmuted');
+    return true;
+  } catch (error) {
+    console.error("Error unmuting user:", error);
+    toast.error("Failed to unmute member");
+    return false;
+  }
+};
+
+// One room per pair of members, whoever asked first
+export const directRoomId = (userId: string, otherId: string) =>
+  `direct_${[userId, otherId].sort().join('_')}`;
+
+export const getDirectPartnerId = (room: ChatRoom, userId: string) =>
+  room.participants.find(id => id !== userId) || userId;
+
+// Live list of the message requests a user sent or received
+export const subscribeToDirectRequests = (
+  userId: string,
+  callback: (requests: DirectRequest[]) => void
+): Unsubscribe => repository.directRequests.subscribe(userId, callback, (error) => {
+  console.error("Error listening to message requests:", error);
+});
+
+// Ask another member for a one-to-one conversation; nothing can be sent until they accept
+export const requestDirectMessage = async (userId: string, otherId: string) => {
+  try {
+    if (!await checkCanPost(userId)) {
+      return false;
+    }
+    
+    const other = await repository.users.get(otherId);
+    if (!other) {
+      toast.error("You can't message this member");
+      return false;
+    }
+    
+    await repository.directRequests.send(userId, otherId);
+    toast.success('Message request sent');
+    return true;
+  } catch (error) {
+    console.error("Error sending message request:", error);
+    toast.error(isPermissionDenied(error) ? "You can't message this member" : "Failed to send message request");
+    return false;
+  }
+};
+
+export const withdrawDirectRequest = async (request: DirectRequest) => {
+  try {
+    await repository.directRequests.withdraw(request.id);
+    return true;
+  } catch (error) {
+    console.error("Error withdrawing message request:", error);
+    toast.error("Failed to withdraw message request");
+    return false;
+  }
+};
+
+// Accepting opens the conversation for both members; returns its room id. The
+// room may already exist from a request the other way round, which only the
+// rooms the user can see will tell, as a missing room cannot be read
+export const acceptDirectRequest = async (request: DirectRequest, knownRooms: ChatRoom[]) => {
+  try {
+    const roomId = directRoomId(request.fromId, request.toId);
+    
+    if (!knownRooms.some(room => room.id === roomId)) {
+      if (!await checkCanPost(request.toId)) {
+        return null;
+      }
+      
+      await repository.rooms.create({
+        name: 'Direct message',
+        participants: [request.fromId, request.toId],
+        createdBy: request.toId,
+        type: 'direct',
+        audience: 'members'
+      }, roomId);
+    }
+    
+    await repository.directRequests.respond(request.id, 'accepted');
+    return roomId;
+  } catch (error) {
+    console.error("Error accepting message request:", error);
+    toast.error("Failed to accept message request");
+    return null;
+  }
+};
+
+export const declineDirectRequest = async (request: DirectRequest) => {
+  try {
+    await repository.directRequests.respond(request.id, 'declined');
+    return true;
+  } catch (error) {
+    console.error("Error declining message request:", error);
+    toast.error("Failed to decline message request");
+    return false;
+  }
+};
+
+export const markRoomRead = async (userId: string, roomId: string) => {
+  try {
+    await repository.readMarkers.markRead(userId, roomId);
+    return true;
+  } catch (error) {
+    console.error("Error marking room as read:", error);
+    return false;
+  }
+};
+
+// Unread badges stop counting here
+export const UNREAD_BADGE_LIMIT = 99;
+
+export const formatUnreadCount = (count: number) =>
+  count > UNREAD_BADGE_LIMIT ? `${UNREAD_BADGE_LIMIT}+` : `${count}`;
+
+// Someone else posted since the user last read the room
+const hasUnreadMessages = (room: ChatRoom, userId: string, lastReadAt?: Timestamp) =>
+  !!room.lastMessage &&
+  room.lastMessage.senderId !== userId &&
+  (!lastReadAt || room.lastMessage.timestamp.toMillis() > lastReadAt.toMillis());
+
+// Unread messages per room along with the read markers they were counted from,
+// leaving out the user's own messages and those from senders they hide.
+// A room is only counted again once its last message or its read marker moves
+export const subscribeToUnreadCounts = (
+  userId: string,
+  gender: UserProfile['gender'] | undefined,
+  hiddenSenderIds: string[],
+  callback: (unreadCounts: Record<string, number>, readMarkers: Record<string, Timestamp>) => void
+): Unsubscribe => {
+  let rooms: ChatRoom[] | null = null;
+  let readMarkers: Record<string, Timestamp> | null = null;
+  const counted = new Map<string, { key: string; count: number }>();
+  const excludedSenderIds = [userId, ...hiddenSenderIds];
+  let latestCount = 0;
+  
+  const countUnread = async () => {
+    if (!rooms || !readMarkers) return;
+    
+    const countId = ++latestCount;
+    const markers = readMarkers;
+    try {
+      const counts = await Promise.all(rooms
+        .filter(room => hasUnreadMessages(room, userId, markers[room.id]))
+        .map(async (room): Promise<[string, number]> => {
+          const key = `${room.lastMessage.timestamp.toMillis()}_${markers[room.id]?.toMillis() ?? 0}`;
+          const cached = counted.get(room.id);
+          const count = cached?.key === key
+            ? cached.count
+            : await repository.messages.countAfter(room.id, markers[room.id] || null, excludedSenderIds);
+          counted.set(room.id, { key, count });
+          return [room.id, count];
+        }));
+      
+      // A newer count started while this one ran
+      if (countId === latestCount) {
+        callback(Object.fromEntries(counts), markers);
+      }
+    } catch (error) {
+      console.error("Error counting unread messages:", error);
+    }
+  };
+  
+  const onError = (error: Error) => {
+    console.error("Error listening for unread messages:", error);
+  };
+  const unsubscribeRooms = repository.rooms.subscribeForUser(userId, gender, (latest) => {
+    rooms = latest;
+    countUnread();
+  }, onError);
+  const unsubscribeMarkers = repository.readMarkers.subscribe(userId, (latest) => {
+    readMarkers = latest;
+    countUnread();
+  }, onError);
+  
+  return () => {
+    unsubscribeRooms();
+    unsubscribeMarkers();
+  };
+};
+
+// Where the "new messages" divider goes: the first message from someone else
+// after the read marker, or -1 when older unread messages are not loaded yet
+export const getFirstUnreadIndex = (
+  messages: ChatMessage[],
+  userId: string,
+  lastReadAt: Timestamp | null,
+  hasOlderMessages: boolean
+) => {
+  const index = messages.findIndex(message =>
+    message.senderId !== userId &&
+    !!message.timestamp &&
+    (!lastReadAt || message.timestamp.toMillis() > lastReadAt.toMillis())
+  );
+  return index === 0 && hasOlderMessages ? -1 : index;
+};
+
+// Presence is readable by every member, so it only names rooms they can all see
+// (mirrors namesPublicRoom in firestore.rules)
+export const sharesPresence = (room: Pick<ChatRoom, 'audience'>) => room.audience !== 'members';
+
+// Record a presence heartbeat, optionally changing the user's room or typing state
+export const updatePresence = async (
+  userId: string,
+  data: { roomId?: string | null; typingIn?: string | null } = {}
+) => {
+  try {
+    await repository.presence.update(userId, { ...data, online: true });
+    return true;
+  } catch (error) {
+    console.error("Error updating presence:", error);
+    return false;
+  }
+};
+
+// Mark the user as gone, e.g. when they sign out or close the app
+export const setOffline = async (userId: string) => {
+  try {
+    await repository.presence.update(userId, { online: false, roomId: null, typingIn: null });
+    return true;
+  } catch (error) {
+    console.error("Error clearing presence:", error);
+    return false;
+  }
+};
+
+// Listen to everyone's presence records
+export const subscribeToPresence = (onPresence: (presence: Presence[]) => void) => {
+  try {
+    return repository.presence.subscribe(onPresence, (error) => {
+      console.error("Error in presence listener:", error);
+    });
+  } catch (error) {
+    console.error("Error setting up presence listener:", error);
+    return () => {};
+  }
+};
+
+export const isOnline = (presence: Presence, now = Date.now()) =>
+  presence.online && !!presence.lastSeen && now - presence.lastSeen.toMillis() < PRESENCE_TIMEOUT_MS;
+
+// Users who currently have the room open
+export const getRoomOnlineUserIds = (presence: Presence[], roomId: string, now = Date.now()) =>
+  presence
+    .filter(p => p.roomId === roomId && isOnline(p, now))
+    .map(p => p.userId);
+
+// Users typing in the room, leaving out the current user
+export const getTypingUserIds = (presence: Presence[], roomId: string, currentUserId?: string, now = Date.now()) =>
+  presence
+    .filter(p =>
+      p.userId !== currentUserId &&
+      p.typingIn === roomId &&
+      !!p.typingAt &&
+      now - p.typingAt.toMillis() < TYPING_TIMEOUT_MS &&
+      isOnline(p, now)
+    )
+    .map(p => p.userId);
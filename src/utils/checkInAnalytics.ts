@@ -0,0 +1,72 @@
+import { Timestamp } from 'firebase/firestore';
+import { toast } from 'sonner';
+import { addDays, eachDayOfInterval, format, startOfDay } from 'date-fns';
+import { repository, CheckInEvent } from './repository';
+import { getDayBoundary, toDayKey, toLocalWeekdayHour } from './dayBoundary';
+
+export type { CheckInEvent } from './repository';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Members active on one day of the selected range
+export interface DailyActivity {
+  day: string;     // yyyy-MM-dd
+  members: number;
+}
+
+// Record a daily check-in for the admin analytics. Best effort: the check-in itself is already saved
+export const recordCheckInEvent = async (userId: string, at: Date) => {
+  try {
+    const boundary = getDayBoundary(await repository.users.get(userId));
+    await repository.checkIns.addEvent({
+      userId,
+      day: toDayKey(at, boundary),
+      ...toLocalWeekdayHour(at, boundary.timeZone)
+    });
+  } catch (error) {
+    console.error("Error recording check-in event:", error);
+  }
+};
+
+// Every check-in from the start of `from` to the end of `to`
+export const getCheckInEvents = async (from: Date, to: Date): Promise<CheckInEvent[]> => {
+  try {
+    return await repository.checkIns.listEvents(
+      Timestamp.fromDate(startOfDay(from)),
+      Timestamp.fromDate(addDays(startOfDay(to), 1))
+    );
+  } catch (error) {
+    console.error("Error fetching check-in events:", error);
+    toast.error("Failed to load check-in history");
+    return [];
+  }
+};
+
+// Check-ins per weekday (rows, Sunday first) and hour (columns), on each member's own clock
+export const buildCheckInHeatmap = (events: CheckInEvent[]) => {
+  const heatmap = WEEKDAY_NAMES.map(() => Array<number>(24).fill(0));
+  events.forEach(event => {
+    heatmap[event.weekday][event.hour] += 1;
+  });
+  return heatmap;
+};
+
+/**
+ * How many different members checked in on each day of the range, days with
+ * none included. Days are the members' own, so a check-in made just after
+ * midnight somewhere else can land on a day outside the range and is left out.
+ */
+export const countDailyActiveMembers = (events: CheckInEvent[], from: Date, to: Date): DailyActivity[] => {
+  const members = new Map<string, Set<string>>();
+  events.forEach(event => {
+    if (!members.has(event.day)) {
+      members.set(event.day, new Set());
+    }
+    members.get(event.day).add(event.userId);
+  });
+
+  return eachDayOfInterval({ start: startOfDay(from), end: startOfDay(to) }).map(date => {
+    const day = format(date, 'yyyy-MM-dd');
+    return { day, members: members.get(day)?.size || 0 };
+  });
+};
@@ -0,0 +1,52 @@
+import { toast } from 'sonner';
+import { repository, MapRegion, MemberLocation } from './repository';
+
+export type { MapRegion, MemberLocation } from './repository';
+
+// Regions with fewer opted-in members stay off the map so nobody can be
+// singled out; mirrors MIN_REGION_MEMBERS in firestore.rules
+export const MIN_REGION_MEMBERS = 5;
+
+// Only regions big enough to show; each carries a count and never a member
+export const getCommunityLocations = async (): Promise<MapRegion[]> => {
+  try {
+    return await repository.communityMap.listRegions(MIN_REGION_MEMBERS);
+  } catch (error) {
+    console.error('Error fetching community locations:', error);
+    return [];
+  }
+};
+
+// Where a member is counted, given their private settings; null keeps them off the map
+const mapRegionFor = (share: boolean, location: MemberLocation | null | undefined) =>
+  share && location?.country && location.country !== 'other' ? location : null;
+
+// Turns the member's opt-in on or off and moves their count to match
+export const setMapSharing = async (userId: string, share: boolean) => {
+  try {
+    const identity = await repository.users.getIdentity(userId);
+    if (share && !mapRegionFor(true, identity?.location)) {
+      toast.error('Pick your country before joining the map');
+      return false;
+    }
+
+    await repository.users.setIdentity(userId, { shareLocationOnMap: share });
+    await repository.communityMap.setRegion(userId, mapRegionFor(share, identity?.location));
+    toast.success(share ? 'You are now counted on the community map' : 'You are no longer counted on the community map');
+    return true;
+  } catch (error) {
+    console.error('Error updating map sharing:', error);
+    toast.error('Failed to update your map settings');
+    return false;
+  }
+};
+
+// Keeps the member's count in step after their location changes
+export const syncMapRegion = async (userId: string) => {
+  try {
+    const identity = await repository.users.getIdentity(userId);
+    await repository.communityMap.setRegion(userId, mapRegionFor(!!identity?.shareLocationOnMap, identity?.location));
+  } catch (error) {
+    console.error('Error updating map region:', error);
+  }
+};
@@ -0,0 +1,159 @@
+import { differenceInDays } from 'date-fns';
+import { ContentFilterAction, ContentFilterKind, ContentFilterRule, ContentFilterSettings } from './repository';
+
+/**
+ * Pure content filter applied to outgoing chat messages. Each enabled rule
+ * looks for its own kind of content and then blocks the message, masks the
+ * matches, or lets it through and flags it for the moderation queue. Masks are
+ * applied in rule order, so later rules only see what earlier ones left. Images
+ * cannot be matched, so their rule applies to every one and masking blurs it.
+ *
+ * The filter runs in the sender's app only. Nothing on the server repeats it,
+ * so a modified client or a direct Firestore write gets past both blocking and
+ * the automatic flag: it keeps honest members from posting by mistake, and
+ * reports from readers remain the backstop.
+ */
+export const CONTENT_FILTER_KINDS: ContentFilterKind[] = [
+  'blockedWords',
+  'explicitContent',
+  'contactDetails',
+  'newAccountLinks',
+  'images'
+];
+
+export const CONTENT_FILTER_LABELS: Record<ContentFilterKind, { title: string; description: string }> = {
+  blockedWords: {
+    title: 'Blocked words',
+    description: 'Insults, slurs and anything else the community should not see'
+  },
+  explicitContent: {
+    title: 'Explicit content',
+    description: 'Sites, solicitations and keywords that point to explicit material'
+  },
+  contactDetails: {
+    title: 'Phone numbers and emails',
+    description: 'Moving conversations off the platform is a common grooming tactic'
+  },
+  newAccountLinks: {
+    title: 'Links from new accounts',
+    description: 'Links posted by accounts younger than the minimum age'
+  },
+  images: {
+    title: 'Image attachments',
+    description: 'Every image sent in chat; masked images stay blurred until the reader opens them'
+  }
+};
+
+export const CONTENT_FILTER_ACTION_LABELS: Record<ContentFilterAction, string> = {
+  block: 'Block the message',
+  mask: 'Mask the matches',
+  flag: 'Post and flag for review'
+};
+
+export const DEFAULT_CONTENT_FILTER: ContentFilterSettings = {
+  rules: {
+    blockedWords: { enabled: true, action: 'mask', words: [] },
+    // Plain words like "porn" are left out on purpose: members need them to talk about their struggle
+    explicitContent: {
+      enabled: true,
+      action: 'block',
+      words: ['nudes', 'send pics', 'sexting', 'onlyfans', 'pornhub', 'xvideos', 'xhamster', 'hentai', 'xxx']
+    },
+    contactDetails: { enabled: true, action: 'flag' },
+    newAccountLinks: { enabled: true, action: 'block', minAccountAgeDays: 7 },
+    images: { enabled: true, action: 'flag' }
+  }
+};
+
+export interface ContentFilterMatch {
+  kind: ContentFilterKind;
+  action: ContentFilterAction;
+  matches: string[];
+}
+
+export interface ContentFilterResult {
+  text: string;      // The text to post, with masks applied
+  blocked: boolean;
+  flagged: boolean;
+  imageMasked: boolean;
+  matches: ContentFilterMatch[];
+}
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+// Nine or more digits with common separators, so day counts and dates stay untouched
+const PHONE_PATTERN = /\+?\d(?:[\s\-.()]*\d){8,}/g;
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|me|co|ly|gg|app|xyz|info|tv)\b(?:\/\S*)?/gi;
+
+// Stands in for each masked character. Markdown gives it no meaning, unlike '*'
+const MASK_CHARACTER = '•';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole words and phrases only, in any letter case
+const wordListPattern = (words: string[] = []) => {
+  const cleaned = words.map(word => word.trim()).filter(Boolean);
+  if (cleaned.length === 0) {
+    return null;
+  }
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${cleaned.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+};
+
+const patternsFor = (kind: ContentFilterKind, rule: ContentFilterRule, accountAgeDays: number | null): RegExp[] => {
+  switch (kind) {
+    case 'blockedWords':
+    case 'explicitContent':
+      return [wordListPattern(rule.words)].filter(Boolean);
+    case 'contactDetails':
+      return [EMAIL_PATTERN, PHONE_PATTERN];
+    case 'newAccountLinks':
+      // Accounts without a join date predate tracking it, so they are not new
+      return accountAgeDays !== null && accountAgeDays < (rule.minAccountAgeDays ?? 0) ? [LINK_PATTERN] : [];
+    case 'images':
+      return [];
+  }
+};
+
+// Saved settings merged over the defaults, so rules added later are always present
+export const resolveContentFilter = (saved?: Partial<ContentFilterSettings> | null): ContentFilterSettings => ({
+  ...saved,
+  rules: Object.fromEntries(CONTENT_FILTER_KINDS.map(kind => [
+    kind,
+    { ...DEFAULT_CONTENT_FILTER.rules[kind], ...saved?.rules?.[kind] }
+  ])) as Record<ContentFilterKind, ContentFilterRule>
+});
+
+export const applyContentFilter = (
+  text: string,
+  settings: ContentFilterSettings,
+  sender: { joinedAt?: Date } = {},
+  now: Date = new Date(),
+  attachments: { image?: boolean } = {}
+): ContentFilterResult => {
+  const accountAgeDays = sender.joinedAt ? differenceInDays(now, sender.joinedAt) : null;
+  const result: ContentFilterResult = { text, blocked: false, flagged: false, imageMasked: false, matches: [] };
+
+  CONTENT_FILTER_KINDS.forEach(kind => {
+    const rule = settings.rules[kind];
+    if (!rule?.enabled) return;
+
+    const matches = kind === 'images'
+      ? (attachments.image ? ['image'] : [])
+      : patternsFor(kind, rule, accountAgeDays).flatMap(pattern => result.text.match(pattern) || []);
+    if (matches.length === 0) return;
+
+    result.matches.push({ kind, action: rule.action, matches });
+    if (rule.action === 'block') {
+      result.blocked = true;
+    } else if (rule.action === 'flag') {
+      result.flagged = true;
+    } else if (kind === 'images') {
+      result.imageMasked = true;
+    } else {
+      patternsFor(kind, rule, accountAgeDays).forEach(pattern => {
+        result.text = result.text.replace(pattern, match => MASK_CHARACTER.repeat(match.length));
+      });
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,85 @@
+import type { UserProfile } from './repository';
+
+/**
+ * Where one of a user's days ends and the next begins. Days are counted in the
+ * user's stored timezone rather than the browser's, and start at the rollover
+ * hour so a check-in at 1am can still count for the previous evening.
+ */
+export interface DayBoundary {
+  timeZone: string;
+  rolloverHour: number; // 0-23, local hour in timeZone at which a new day starts
+}
+
+export const MAX_ROLLOVER_HOUR = 6;
+
+export const getBrowserTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const getSupportedTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  return intl.supportedValuesOf?.('timeZone') || [getBrowserTimeZone()];
+};
+
+export const getDayBoundary = (profile?: Pick<UserProfile, 'timeZone' | 'dayRolloverHour'> | null): DayBoundary => ({
+  timeZone: profile?.timeZone || getBrowserTimeZone(),
+  rolloverHour: profile?.dayRolloverHour ?? 0
+});
+
+// The calendar date and hour, or the weekday and hour on the clock
+const FORMAT_OPTIONS: Record<'date' | 'clock', Intl.DateTimeFormatOptions> = {
+  date: { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', hourCycle: 'h23' },
+  clock: { weekday: 'short', hour: '2-digit', hourCycle: 'h23' }
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string, kind: keyof typeof FORMAT_OPTIONS = 'date') => {
+  const key = `${kind}:${timeZone}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', { timeZone, ...FORMAT_OPTIONS[kind] });
+    } catch (error) {
+      // An unknown zone name falls back to the browser's zone instead of breaking every date
+      console.error(`Unknown timezone "${timeZone}", using ${getBrowserTimeZone()}:`, error);
+      formatter = new Intl.DateTimeFormat('en-US', FORMAT_OPTIONS[kind]);
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * The user's day that an instant falls in, as yyyy-MM-dd. The rollover is
+ * compared against the wall clock in the user's zone, so days that gain or
+ * lose an hour to daylight saving still change over at the chosen hour.
+ */
+export const toDayKey = (date: Date, boundary: DayBoundary): string => {
+  const parts = getFormatter(boundary.timeZone).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  // Before the rollover the instant still belongs to the previous calendar day
+  const day = new Date(Date.UTC(part('year'), part('month') - 1, part('day')));
+  if (part('hour') % 24 < boundary.rolloverHour) {
+    day.setUTCDate(day.getUTCDate() - 1);
+  }
+  return day.toISOString().slice(0, 10);
+};
+
+// Day of the week (0 is Sunday) and hour an instant falls in on the user's clock, ignoring the rollover
+export const toLocalWeekdayHour = (date: Date, timeZone: string) => {
+  const parts = getFormatter(timeZone, 'clock').formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value;
+  return { weekday: WEEKDAYS.indexOf(part('weekday')), hour: Number(part('hour')) % 24 };
+};
+
+// Local midnight of a day key, for display and for calendar components
+export const dayKeyToDate = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const isSameUserDay = (a: Date, b: Date, boundary: DayBoundary) =>
+  toDayKey(a, boundary) === toDayKey(b, boundary);
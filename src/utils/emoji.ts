@@ -0,0 +1,143 @@
+// Emoji offered by the picker, grouped as most keyboards group them. Each entry
+// is the emoji followed by the words it can be found by
+export interface EmojiCategory {
+  id: string;
+  label: string;
+  emojis: [emoji: string, keywords: string][];
+}
+
+export const EMOJI_CATEGORIES: EmojiCategory[] = [
+  {
+    id: 'smileys',
+    label: 'Smileys',
+    emojis: [
+      ['😀', 'grin smile happy'], ['😃', 'smile happy joy'], ['😄', 'smile laugh happy'], ['😁', 'grin beam'],
+      ['😆', 'laugh squint'], ['😅', 'sweat relief laugh'], ['😂', 'joy tears laugh lol'], ['🙂', 'slight smile'],
+      ['😉', 'wink'], ['😊', 'blush smile happy'], ['😇', 'halo angel innocent'], ['🥰', 'love hearts adore'],
+      ['😍', 'heart eyes love'], ['🤩', 'star struck excited'], ['😘', 'kiss'], ['😋', 'yum tasty'],
+      ['😌', 'relieved calm peace'], ['🤗', 'hug'], ['🤔', 'thinking hmm'], ['🤐', 'zipper quiet secret'],
+      ['😐', 'neutral meh'], ['😶', 'speechless'], ['🙄', 'eye roll'], ['😬', 'grimace awkward'],
+      ['😔', 'pensive sad'], ['😪', 'sleepy tired'], ['😴', 'sleep tired'], ['🥱', 'yawn tired bored'],
+      ['😷', 'mask sick'], ['🤒', 'sick ill fever'], ['🥵', 'hot'], ['🥶', 'cold freezing'],
+      ['😵', 'dizzy'], ['🤯', 'mind blown'], ['🥳', 'party celebrate'], ['😎', 'cool sunglasses'],
+      ['😕', 'confused'], ['😟', 'worried'], ['🙁', 'frown sad'], ['😮', 'surprised wow'],
+      ['😳', 'flushed embarrassed'], ['🥺', 'pleading puppy eyes'], ['😢', 'cry sad tear'], ['😭', 'sob cry sad'],
+      ['😱', 'scream scared'], ['😖', 'confounded'], ['😞', 'disappointed sad'], ['😓', 'sweat downcast'],
+      ['😩', 'weary tired'], ['😫', 'tired exhausted'], ['😤', 'triumph huff determined'], ['😡', 'angry mad rage'],
+      ['😠', 'angry mad'], ['🤬', 'swearing cursing angry']
+    ]
+  },
+  {
+    id: 'gestures',
+    label: 'People',
+    emojis: [
+      ['👍', 'thumbs up yes like agree'], ['👎', 'thumbs down no dislike'], ['👏', 'clap applause well done'],
+      ['🙌', 'raise hands celebrate hooray'], ['🙏', 'pray please thanks hope'], ['🤝', 'handshake deal agree'],
+      ['💪', 'strong muscle strength flex'], ['👊', 'fist bump'], ['✊', 'raised fist solidarity'],
+      ['✌️', 'peace victory'], ['🤞', 'fingers crossed luck hope'], ['👌', 'ok okay perfect'],
+      ['👋', 'wave hello hi bye'], ['🤙', 'call me shaka'], ['☝️', 'point up one'], ['👉', 'point right'],
+      ['👈', 'point left'], ['🫶', 'heart hands love support'], ['🤲', 'palms up open'], ['✋', 'stop hand high five'],
+      ['🧠', 'brain mind think'], ['👀', 'eyes look see'], ['🧘', 'meditate yoga calm'], ['🏃', 'run running exercise'],
+      ['🚶', 'walk walking'], ['🏋️', 'weights gym lift'], ['🚴', 'bike cycling'], ['🏊', 'swim swimming']
+    ]
+  },
+  {
+    id: 'hearts',
+    label: 'Hearts',
+    emojis: [
+      ['❤️', 'heart love red'], ['🧡', 'orange heart'], ['💛', 'yellow heart'], ['💚', 'green heart'],
+      ['💙', 'blue heart'], ['💜', 'purple heart'], ['🤍', 'white heart'], ['🖤', 'black heart'],
+      ['🤎', 'brown heart'], ['💕', 'two hearts love'], ['💖', 'sparkling heart'], ['💗', 'growing heart'],
+      ['💓', 'beating heart'], ['💞', 'revolving hearts'], ['💝', 'heart gift'], ['❤️‍🩹', 'mending heart healing recovery'],
+      ['💔', 'broken heart sad'], ['❣️', 'heart exclamation']
+    ]
+  },
+  {
+    id: 'nature',
+    label: 'Nature',
+    emojis: [
+      ['🌱', 'seedling growth new start'], ['🌿', 'herb leaf'], ['🍀', 'clover luck'], ['🌳', 'tree'],
+      ['🌲', 'evergreen tree'], ['🌸', 'blossom flower spring'], ['🌻', 'sunflower'], ['🌹', 'rose flower'],
+      ['🌷', 'tulip flower'], ['🌼', 'flower daisy'], ['☀️', 'sun sunny'], ['🌤️', 'sun cloud'],
+      ['🌈', 'rainbow hope'], ['⛅', 'cloud weather'], ['🌧️', 'rain'], ['⛈️', 'storm thunder'],
+      ['❄️', 'snow cold'], ['🌊', 'wave ocean sea'], ['🌙', 'moon night'], ['⭐', 'star'],
+      ['🌟', 'glowing star shine'], ['🔥', 'fire hot streak lit'], ['💧', 'drop water'], ['🦋', 'butterfly change'],
+      ['🐶', 'dog puppy'], ['🐱', 'cat kitten'], ['🐻', 'bear'], ['🦁', 'lion courage brave'],
+      ['🐢', 'turtle slow steady'], ['🦅', 'eagle free']
+    ]
+  },
+  {
+    id: 'food',
+    label: 'Food',
+    emojis: [
+      ['🍎', 'apple'], ['🍌', 'banana'], ['🍓', 'strawberry'], ['🍉', 'watermelon'],
+      ['🥑', 'avocado'], ['🥦', 'broccoli healthy'], ['🥗', 'salad healthy'], ['🍕', 'pizza'],
+      ['🍔', 'burger hamburger'], ['🍟', 'fries'], ['🌮', 'taco'], ['🍜', 'noodles ramen'],
+      ['🍣', 'sushi'], ['🍰', 'cake'], ['🎂', 'birthday cake'], ['🍪', 'cookie'],
+      ['🍫', 'chocolate'], ['🍩', 'donut'], ['☕', 'coffee tea hot drink'], ['🍵', 'tea green'],
+      ['🥤', 'drink soda'], ['🧃', 'juice'], ['🍿', 'popcorn'], ['🥛', 'milk']
+    ]
+  },
+  {
+    id: 'activities',
+    label: 'Activities',
+    emojis: [
+      ['🎉', 'party celebrate tada congratulations'], ['🎊', 'confetti celebrate'], ['🎈', 'balloon party'],
+      ['🎁', 'gift present'], ['🏆', 'trophy win champion'], ['🥇', 'gold medal first'], ['🏅', 'medal award'],
+      ['🎯', 'target goal bullseye'], ['⚽', 'soccer football'], ['🏀', 'basketball'], ['🎾', 'tennis'],
+      ['🎮', 'game video'], ['🎲', 'dice game'], ['🧩', 'puzzle'], ['🎨', 'art paint'],
+      ['🎵', 'music note'], ['🎸', 'guitar music'], ['🎧', 'headphones music'], ['📚', 'books read study'],
+      ['✍️', 'writing journal'], ['🏕️', 'camping'], ['⛰️', 'mountain climb'], ['🧗', 'climbing']
+    ]
+  },
+  {
+    id: 'symbols',
+    label: 'Symbols',
+    emojis: [
+      ['✨', 'sparkles shine new'], ['💯', 'hundred perfect'], ['✅', 'check done yes'], ['☑️', 'check box'],
+      ['✔️', 'check mark'], ['❌', 'cross no wrong'], ['❗', 'exclamation important'], ['❓', 'question'],
+      ['⚠️', 'warning caution'], ['🚫', 'prohibited no'], ['⏰', 'alarm clock time'], ['⏳', 'hourglass time waiting'],
+      ['📅', 'calendar date'], ['📈', 'chart up progress growth'], ['🔒', 'lock private'], ['🔑', 'key'],
+      ['💡', 'idea light bulb'], ['📌', 'pin'], ['🔔', 'bell notification'], ['💬', 'speech chat talk'],
+      ['🕊️', 'dove peace'], ['☮️', 'peace'], ['♾️', 'infinity forever'], ['🆘', 'sos help'],
+      ['➕', 'plus add'], ['🔄', 'repeat again'], ['🚀', 'rocket launch'], ['⚡', 'lightning energy']
+    ]
+  }
+];
+
+// Recently picked emoji are remembered on this device only
+const RECENT_EMOJI_KEY = 'purepath.recentEmoji';
+const RECENT_EMOJI_LIMIT = 16;
+
+export const getRecentEmoji = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_EMOJI_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(item => typeof item === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const rememberEmoji = (emoji: string) => {
+  const recent = [emoji, ...getRecentEmoji().filter(item => item !== emoji)].slice(0, RECENT_EMOJI_LIMIT);
+  try {
+    localStorage.setItem(RECENT_EMOJI_KEY, JSON.stringify(recent));
+  } catch (error) {
+    console.error("Error saving recent emoji:", error);
+  }
+  return recent;
+};
+
+// Emoji whose keywords start with every word of the query
+export const searchEmoji = (query: string) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  return EMOJI_CATEGORIES
+    .flatMap(category => category.emojis)
+    .filter(([, keywords]) => {
+      const terms = keywords.split(' ');
+      return words.every(word => terms.some(term => term.startsWith(word)));
+    })
+    .map(([emoji]) => emoji);
+};
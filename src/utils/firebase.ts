@@ -1,91 +1,20 @@
-import { initializeApp } from 'firebase/app';
-import { getAuth, onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword, signOut, User, updatePassword, EmailAuthProvider, reauthenticateWithCredential } from 'firebase/auth';
-import { getFirestore, collection, doc, setDoc, getDoc, getDocs, query, where, GeoPoint, Timestamp, addDoc, orderBy, arrayUnion, serverTimestamp, onSnapshot, updateDoc } from 'firebase/firestore';
+import { Timestamp } from 'firebase/firestore';
 import { toast } from 'sonner';
-import { format, subDays, differenceInDays, startOfDay, parseISO, isSameDay, addDays } from 'date-fns';
-
-export interface UserProfile {
-  id: string;
-  firstName?: string;
-  lastName?: string;
-  username?: string;
-  email?: string;
-  gender?: 'male' | 'female' | 'other' | 'prefer-not-to-say';
-  location?: {
-    country: string;
-    state?: string | null;
-  };
-  role?: 'admin' | 'member';
-  joinedAt?: Timestamp;
-  streakDays?: number;
-  lastCheckIn?: Timestamp;
-  socialMedia?: {
-    discord?: string;
-    instagram?: string;
-    other?: {
-      name: string;
-      url: string;
-    };
-  };
-}
-
-export interface JournalEntry {
-  id?: string;
-  userId: string;
-  timestamp: Date;
-  question: string;    // The prompt that was shown
-  notes: string;       // User's journal response
-  level: number;       // Mood level (1-10)
-  emotions: string[];  // Selected emotions
-}
-
-export interface Relapse {
-  timestamp: Timestamp;
-  triggers: string;
-  notes?: string;
-}
-
-const firebaseConfig = {
-  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
-  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: import.meta.env.VITE_FIREBASE_APP_ID,
-  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID
-};
+import { format, subDays, startOfDay, parseISO, addDays } from 'date-fns';
+import { repository, JournalCursor, JournalEntry, JournalPage, Relapse, UserProfile } from './repository';
+import { buildStreakTimeline, summarizeStreaks, StreakEvents, StreakSummary } from './streaks';
+import { getBrowserTimeZone, getDayBoundary, toDayKey } from './dayBoundary';
+import { setOffline } from './chatService';
+import { recordCheckInEvent } from './checkInAnalytics';
+import { describeSuspension, getActiveSuspension } from './moderationService';
 
-let app, auth, db;
-try {
-  console.log("Initializing Firebase app...");
-  app = initializeApp(firebaseConfig);
-  console.log("Firebase app initialized successfully");
-  
-  console.log("Initializing Firebase auth...");
-  auth = getAuth(app);
-  console.log("Firebase auth initialized successfully");
-  
-  console.log("Initializing Firestore...");
-  db = getFirestore(app);
-  console.log("Firestore initialized successfully");
-} catch (error) {
-  console.error("Error initializing Firebase:", error);
-}
-
-export { app, auth, db };
-
-export const isUserAdmin = async (email: string): Promise<boolean> => {
-  if (!db) {
-    console.error("Firebase db not initialized");
-    return false;
-  }
+export type { AuthUser, UserProfile, JournalEntry, JournalCursor, JournalPage, Relapse } from './repository';
 
+export const isUserAdmin = async (userId: string): Promise<boolean> => {
   try {
-    const usersRef = collection(db, 'users');
-    const q = query(usersRef, where('email', '==', email), where('role', '==', 'admin'));
-    const querySnapshot = await getDocs(q);
+    const user = await repository.users.get(userId);
 
-    return !querySnapshot.empty;
+    return user?.role === 'admin';
   } catch (error) {
     console.error('Error checking admin status:', error);
     return false;
@@ -93,14 +22,8 @@ export const isUserAdmin = async (email: string): Promise<boolean> => {
 };
 
 export const login = async (email: string, password: string) => {
-  if (!auth) {
-    console.error("Firebase auth not initialized");
-    toast.error('Firebase not configured. Please add your Firebase credentials in environment variables.');
-    return false;
-  }
-  
   try {
-    await signInWithEmailAndPassword(auth, email, password);
+    await repository.auth.signIn(email, password);
     toast.success('Welcome back to PurePath');
     return true;
   } catch (error) {
@@ -116,27 +39,26 @@ export const register = async (
   firstName: string, 
   lastName: string, 
   gender: string, 
-  location?: { country: string; state?: string | null }
+  location?: { country: string; state?: string | null },
+  alias?: string
 ) => {
   try {
     console.log('Registering user with gender:', gender);
-    const userCredential = await createUserWithEmailAndPassword(auth, email, password);
+    const user = await repository.auth.signUp(email, password);
     
-    await setDoc(doc(db, 'users', userCredential.user.uid), {
+    // Legal name, email and location stay out of the profile other members can read
+    await repository.users.create(user.uid, {
       username,
-      firstName,
-      lastName,
-      email,
-      meditations: [],
-      relapses: [],  
-      gender,
-      location: location || null,
+      ...(alias?.trim() && { alias: alias.trim() }),
+      gender: gender as UserProfile['gender'],
+      timeZone: getBrowserTimeZone(),
       role: 'member',
       joinedAt: Timestamp.now(),
       streakDays: 0,
       streakStartDate: Timestamp.now(),
       lastCheckIn: Timestamp.now()
     });
+    await repository.users.setIdentity(user.uid, { firstName, lastName, email, location: location || null });
     
     toast.success('Welcome to PurePath');
     return true;
@@ -149,7 +71,12 @@ export const register = async (
 
 export const logout = async () => {
   try {
-    await signOut(auth);
+    // Clear presence while the session can still write it
+    const user = repository.auth.getCurrentUser();
+    if (user) {
+      await setOffline(user.uid);
+    }
+    await repository.auth.signOut();
     toast.success('You have been logged out');
     return true;
   } catch (error) {
@@ -159,20 +86,10 @@ export const logout = async () => {
 };
 
 export const getUserProfile = async (userId: string): Promise<UserProfile | null> => {
-  if (!db) {
-    console.error("Firebase db not initialized");
-    return { id: userId };
-  }
-  
   try {
-    const docRef = doc(db, 'users', userId);
-    const docSnap = await getDoc(docRef);
+    const profile = await repository.users.get(userId);
     
-    if (docSnap.exists()) {
-      return { id: docSnap.id, ...docSnap.data() } as UserProfile;
-    } else {
-      return { id: userId };
-    }
+    return profile || { id: userId };
   } catch (error) {
     console.error('Error fetching user profile:', error);
     return { id: userId };
@@ -180,15 +97,13 @@ export const getUserProfile = async (userId: string): Promise<UserProfile | null
 };
 
 export const updateUserProfile = async (userId: string, profileData: Partial<UserProfile>): Promise<boolean> => {
-  if (!db) {
-    console.error("Firebase db not initialized");
-    toast.error('Firebase not configured properly');
-    return false;
-  }
-  
   try {
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, profileData);
+    const { id: _id, ...data } = profileData;
+    await repository.users.update(userId, data);
+    if (data.timeZone !== undefined || data.dayRolloverHour !== undefined) {
+      // Moving the day boundary can move events onto different days
+      await refreshStreak(userId);
+    }
     toast.success('Profile updated successfully');
     return true;
   } catch (error) {
@@ -199,20 +114,20 @@ export const updateUserProfile = async (userId: string, profileData: Partial<Use
 };
 
 export const updateUserPassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
-  if (!auth || !auth.currentUser) {
-    console.error("User not logged in or auth not initialized");
+  const user = repository.auth.getCurrentUser();
+  if (!user) {
+    console.error("User not logged in");
     toast.error('You must be logged in to change your password');
     return false;
   }
   
   try {
-    const credential = EmailAuthProvider.credential(
-      auth.currentUser.email || '',
-      currentPassword
-    );
-    
-    await reauthenticateWithCredential(auth.currentUser, credential);
-    await updatePassword(auth.currentUser, newPassword);
+    await repository.auth.changePassword(currentPassword, newPassword);
+    // Changing it signs the member in again, which is what lets them clear an admin's forced reset
+    const profile = await repository.users.get(user.uid);
+    if (profile?.passwordResetRequired) {
+      await repository.users.update(user.uid, { passwordResetRequired: false });
+    }
     toast.success('Password updated successfully');
     return true;
   } catch (error) {
@@ -230,50 +145,47 @@ export const updateUserPassword = async (currentPassword: string, newPassword: s
   }
 };
 
+export const deleteAccount = async (userId: string): Promise<boolean> => {
+  try {
+    // The rules keep a suspended profile, so nothing else is deleted either
+    const suspension = getActiveSuspension(await repository.users.get(userId));
+    if (suspension) {
+      toast.error(`${describeSuspension(suspension)}, so it can't be deleted until that ends`);
+      return false;
+    }
+
+    // Leaving the map needs the member's own record, so it goes first
+    await repository.communityMap.setRegion(userId, null);
+    await repository.checkIns.deleteEvents(userId);
+    await repository.users.delete(userId);
+    await repository.auth.deleteCurrentUser();
+    return true;
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    toast.error('Failed to delete account');
+    return false;
+  }
+};
+
 export const updateStreak = async (userId: string) => {
   try {
-    const userRef = doc(db, 'users', userId);
-    const userDoc = await getDoc(userRef);
+    const summary = await getStreakSummary(userId);
     
-    if (userDoc.exists()) {
-      const userData = userDoc.data();
-      const lastCheckIn = userData.lastCheckIn?.toDate() || new Date(0);
-      const now = new Date();
-      
-      const yesterdayDate = new Date(now);
-      yesterdayDate.setDate(now.getDate() - 1);
-      
-      const isYesterday = 
-        lastCheckIn.getDate() === yesterdayDate.getDate() && 
-        lastCheckIn.getMonth() === yesterdayDate.getMonth() && 
-        lastCheckIn.getFullYear() === yesterdayDate.getFullYear();
-        
-      const isToday = 
-        lastCheckIn.getDate() === now.getDate() && 
-        lastCheckIn.getMonth() === now.getMonth() && 
-        lastCheckIn.getFullYear() === now.getFullYear();
-      
-      if (isToday) {
-        return { success: true, streakDays: userData.streakDays, message: 'Already checked in today' };
-      }
-      
-      let streakDays = userData.streakDays || 0;
-      
-      if (isYesterday) {
-        streakDays += 1;
-      } else if (!isToday) {
-        streakDays = 1;
-      }
-      
-      await updateDoc(userRef, {
-        lastCheckIn: Timestamp.now(),
-        streakDays
-      });
-      
-      return { success: true, streakDays, message: 'Streak updated successfully' };
+    if (!summary) {
+      return { success: false, message: 'User not found' };
     }
     
-    return { success: false, message: 'User not found' };
+    if (summary.checkedInToday) {
+      return { success: true, streakDays: summary.currentStreak, message: 'Already checked in today' };
+    }
+    
+    const now = Timestamp.now();
+    await repository.checkIns.add(userId, { timestamp: now });
+    await repository.users.update(userId, { lastCheckIn: now });
+    await recordCheckInEvent(userId, now.toDate());
+    const updated = await refreshStreak(userId);
+    
+    return { success: true, streakDays: updated?.currentStreak ?? 0, message: 'Streak updated successfully' };
   } catch (error) {
     console.error('Error updating streak:', error);
     return { success: false, message: error.message };
@@ -282,29 +194,21 @@ export const updateStreak = async (userId: string) => {
 
 export const updateStreakStart = async (userId: string, startDate: Date) => {
   try {
-    const userRef = doc(db, 'users', userId);
-    const userDoc = await getDoc(userRef);
-
-    if (userDoc.exists()) {
-      const userData = userDoc.data();
-      const lastCheckIn = userData.lastCheckIn?.toDate() || new Date(0);
-
-      const diffInMilliseconds = lastCheckIn.getTime() - startDate.getTime();
-      const diffInDays = Math.floor(diffInMilliseconds / (1000 * 60 * 60 * 24));
-
-      if (diffInDays < 0) {
-        return { success: false, message: 'Invalid Date' };
-      }
-
-      await updateDoc(userRef, {
-        streakDays: diffInDays > 0 ? diffInDays : 0,
-        streakStartDate: Timestamp.fromDate(startDate)
-      });
-      
-      return { success: true, message: 'Streak start updated successfully' };
+    if (startOfDay(startDate) > startOfDay(new Date())) {
+      return { success: false, message: 'Invalid Date' };
     }
 
-    return { success: false, message: 'User not found' };
+    const userData = await repository.users.get(userId);
+    if (!userData) {
+      return { success: false, message: 'User not found' };
+    }
+
+    await repository.users.update(userId, {
+      streakStartDate: Timestamp.fromDate(startDate)
+    });
+    await refreshStreak(userId);
+    
+    return { success: true, message: 'Streak start updated successfully' };
   } catch (error) {
     console.error('Error setting streak:', error);
     return { success: false, message: error.message };
@@ -316,20 +220,113 @@ interface LogRelapseResult {
   message?: string;
 }
 
-export const logRelapse = async (userId: string, triggers: string, notes?: string): Promise<LogRelapseResult> => {
+// Users whose embedded journal and relapse arrays have already been moved this session
+const migratedUsers = new Set<string>();
+
+const ensureLegacyDataMigrated = async (userId: string) => {
+  if (migratedUsers.has(userId)) {
+    return;
+  }
+  
+  const movedEntries = await repository.journal.migrateLegacyEntries(userId);
+  const movedRelapses = await repository.relapses.migrateLegacyRelapses(userId);
+  if (movedEntries > 0 || movedRelapses > 0) {
+    console.log(`Migrated ${movedEntries} journal entries and ${movedRelapses} relapses for user ${userId}`);
+  }
+  migratedUsers.add(userId);
+};
+
+export const getRelapses = async (userId: string): Promise<Relapse[]> => {
+  await ensureLegacyDataMigrated(userId);
+  return repository.relapses.list(userId);
+};
+
+const loadStreakEvents = async (userData: UserProfile): Promise<StreakEvents> => {
+  const joinDate = userData.joinedAt?.toDate() || new Date();
+  const [relapses, checkIns] = await Promise.all([
+    getRelapses(userData.id),
+    repository.checkIns.list(userData.id)
+  ]);
+  
+  const dailyCheckIns = checkIns.filter(checkIn => !checkIn.day);
+  const confirmedDays = checkIns.filter(checkIn => checkIn.day).map(checkIn => checkIn.day);
+  
+  // Accounts from before the check-in log only know their most recent check-in
+  const checkInDates = dailyCheckIns.map(checkIn => checkIn.timestamp.toDate());
+  if (checkInDates.length === 0 && userData.lastCheckIn) {
+    checkInDates.push(userData.lastCheckIn.toDate());
+  }
+  
+  return {
+    startDate: userData.streakStartDate?.toDate() || joinDate,
+    trackingSince: joinDate,
+    checkIns: checkInDates,
+    confirmedDays,
+    relapses: relapses.map(relapse => relapse.timestamp.toDate())
+  };
+};
+
+export const getStreakSummary = async (userId: string): Promise<StreakSummary | null> => {
+  const userData = await repository.users.get(userId);
+  if (!userData) {
+    return null;
+  }
+  
+  return summarizeStreaks(await loadStreakEvents(userData), new Date(), getDayBoundary(userData));
+};
+
+// Retroactive "I was clean that day" for a missed day still inside the grace window
+export const confirmCleanDay = async (userId: string, dayKey: string) => {
   try {
-    const userDocRef = doc(db, 'users', userId);  // Reference to the user's document
+    const summary = await getStreakSummary(userId);
+    
+    if (!summary) {
+      return { success: false, message: 'User not found' };
+    }
+    
+    if (!summary.pendingDays.some(day => day.key === dayKey)) {
+      return { success: false, message: 'That day can no longer be confirmed' };
+    }
+    
+    await repository.checkIns.add(userId, { timestamp: Timestamp.now(), day: dayKey });
+    const updated = await refreshStreak(userId);
+    
+    return { success: true, streakDays: updated?.currentStreak ?? 0, message: 'Day confirmed' };
+  } catch (error) {
+    console.error('Error confirming clean day:', error);
+    return { success: false, message: error.message };
+  }
+};
+
+// streakDays on the profile is a cache of the derived value for member lists and the admin table
+const refreshStreak = async (userId: string): Promise<StreakSummary | null> => {
+  const summary = await getStreakSummary(userId);
+  if (summary) {
+    await repository.users.update(userId, { streakDays: summary.currentStreak });
+  }
+  return summary;
+};
+
+export const logRelapse = async (
+  userId: string,
+  triggers: string,
+  notes?: string,
+  occurredAt: Date = new Date()
+): Promise<LogRelapseResult> => {
+  try {
+    if (occurredAt > new Date()) {
+      return { success: false, message: 'A relapse cannot be reported in the future' };
+    }
 
     const relapseObject = {
-      timestamp: Timestamp.now(),
+      timestamp: Timestamp.fromDate(occurredAt),
       triggers: triggers,
       notes: notes || ''
     };
 
-    await updateDoc(userDocRef, {
-      relapses: arrayUnion(relapseObject),
-      streakDays: 0
-    });
+    await ensureLegacyDataMigrated(userId);
+    await repository.relapses.add(userId, relapseObject);
+    await refreshStreak(userId);
     return { success: true, message: 'Progress reset. Remember: every moment is a new opportunity.' };
   } catch (error) {
     console.error('Error logging relapse:', error);
@@ -337,102 +334,104 @@ export const logRelapse = async (userId: string, triggers: string, notes?: strin
   }
 };
 
+export const updateRelapse = async (
+  userId: string,
+  relapseId: string,
+  changes: { triggers: string; notes?: string; occurredAt: Date }
+): Promise<LogRelapseResult> => {
+  try {
+    if (changes.occurredAt > new Date()) {
+      return { success: false, message: 'A relapse cannot be reported in the future' };
+    }
+
+    await repository.relapses.update(userId, relapseId, {
+      timestamp: Timestamp.fromDate(changes.occurredAt),
+      triggers: changes.triggers,
+      notes: changes.notes || ''
+    });
+    await refreshStreak(userId);
+    return { success: true, message: 'Relapse updated' };
+  } catch (error) {
+    console.error('Error updating relapse:', error);
+    return { success: false, message: error.message };
+  }
+};
+
+export const deleteRelapse = async (userId: string, relapseId: string): Promise<LogRelapseResult> => {
+  try {
+    await repository.relapses.delete(userId, relapseId);
+    await refreshStreak(userId);
+    return { success: true, message: 'Relapse deleted' };
+  } catch (error) {
+    console.error('Error deleting relapse:', error);
+    return { success: false, message: error.message };
+  }
+};
+
 export const getRelapseData = async (userId: string, timeframe = 'weekly') => {
   try {
-    const userDocRef = doc(db, 'users', userId);
-    const userDoc = await getDoc(userDocRef);
+    const userData = await repository.users.get(userId);
     
-    if (!userDoc.exists()) {
+    if (!userData) {
       return {
         streakData: [],
         moodData: [],
+        currentStreak: 0,
         longestStreak: 0,
         cleanDays: 0,
-        relapseDays: 0
+        relapseDays: 0,
+        netGrowth: 0
       };
     }
     
-    const userData = userDoc.data();
-    const joinDate = userData.joinedAt?.toDate() || new Date();
-    const relapses: Relapse[] = userData.relapses || [];
-    const journal = userData.journal || [];
-    
-    const sortedRelapses = [...relapses].sort((a, b) => 
-      a.timestamp.toDate().getTime() - b.timestamp.toDate().getTime()
-    );
-    
-    let startDate = new Date();
-    const endDate = new Date();
+    const boundary = getDayBoundary(userData);
+    const events = await loadStreakEvents(userData);
+    const now = new Date();
+    const summary = summarizeStreaks(events, now, boundary);
+    const timeline = buildStreakTimeline(events, now, boundary);
     
+    // Today plus the previous 7 or 30 days
+    let days = timeline;
     if (timeframe === 'weekly') {
-      startDate = subDays(endDate, 7);
+      days = timeline.slice(-8);
     } else if (timeframe === 'monthly') {
-      startDate = subDays(endDate, 30);
-    } else {
-      startDate = joinDate;
+      days = timeline.slice(-31);
     }
     
-    const streakData = [];
-    const moodData = [];
-    let currentDate = startOfDay(startDate);
-    const today = startOfDay(new Date());
-    let currentStreak = 0;
-    let longestStreak = 0;
-    
-    const historicalLongestStreak = calculateLongestStreak(joinDate, sortedRelapses);
+    // A day either side covers any offset between the user's zone and the browser's
+    const journal = days.length > 0
+      ? await repository.journal.listBetween(userId, subDays(days[0].date, 1), addDays(now, 1))
+      : [];
     
-    const totalDaysSinceJoining = differenceInDays(today, joinDate) + 1;
-    const totalRelapseDays = sortedRelapses.length;
-    const totalCleanDays = totalDaysSinceJoining - totalRelapseDays;
-    const netGrowth = totalCleanDays - totalRelapseDays;
+    const streakData = days.map(day => ({
+      date: format(day.date, 'MMM d'),
+      streak: day.streak
+    }));
     
-    while (currentDate <= today) {
-      const formattedDate = format(currentDate, 'MMM d');
-      
-      const hadRelapse = sortedRelapses.some(relapse => {
-        const relapseDate = startOfDay(relapse.timestamp.toDate());
-        return isSameDay(relapseDate, currentDate);
-      });
-      
-      if (hadRelapse) {
-        streakData.push({ date: formattedDate, streak: 0 });
-        currentStreak = 0;
-      } else {
-        currentStreak++;
-        streakData.push({ date: formattedDate, streak: currentStreak });
-        
-        if (currentStreak > longestStreak) {
-          longestStreak = currentStreak;
-        }
-      }
-      
-      const journalEntry = journal.find(entry => {
-        const entryDate = entry.timestamp.toDate();
-        return isSameDay(entryDate, currentDate);
-      });
-      
-      moodData.push({
-        date: formattedDate,
-        streak: hadRelapse ? 0 : currentStreak,
+    const moodData = days.map(day => {
+      const journalEntry = journal.find(entry => toDayKey(entry.timestamp, boundary) === day.key);
+      return {
+        date: format(day.date, 'MMM d'),
+        streak: day.streak,
         mood: journalEntry ? journalEntry.level : 5
-      });
-      
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
+      };
+    });
     
     return {
       streakData,
       moodData,
-      longestStreak: historicalLongestStreak,
-      cleanDays: totalCleanDays,
-      relapseDays: totalRelapseDays,
-      netGrowth
+      currentStreak: summary.currentStreak,
+      longestStreak: summary.longestStreak,
+      cleanDays: summary.cleanDays,
+      relapseDays: summary.relapseDays,
+      netGrowth: summary.netGrowth
     };
   } catch (error) {
     console.error('Error getting relapse data:', error);
     return {
       streakData: [],
       moodData: [],
+      currentStreak: 0,
       longestStreak: 0,
       cleanDays: 0,
       relapseDays: 0,
@@ -441,73 +440,23 @@ export const getRelapseData = async (userId: string, timeframe = 'weekly') => {
   }
 };
 
-export const calculateLongestStreak = (joinDate: Date, sortedRelapses: Relapse[]): number => {
-  if (sortedRelapses.length === 0) {
-    return differenceInDays(new Date(), joinDate);
-  }
-
-  let longestStreak = 0;
-  let lastRelapseDate = startOfDay(joinDate);
-  
-  for (const relapse of sortedRelapses) {
-    const relapseDate = startOfDay(relapse.timestamp.toDate());
-    const streakDays = differenceInDays(relapseDate, lastRelapseDate);
-    
-    if (streakDays > longestStreak) {
-      longestStreak = streakDays;
-    }
-    
-    lastRelapseDate = relapseDate;
-  }
-  
-  const currentStreak = differenceInDays(new Date(), lastRelapseDate);
-  if (currentStreak > longestStreak) {
-    longestStreak = currentStreak;
-  }
-  
-  return longestStreak;
-};
-
 export const getRelapseCalendarData = async (userId: string) => {
   try {
-    const userDocRef = doc(db, 'users', userId);
-    const userDoc = await getDoc(userDocRef);
+    const userData = await repository.users.get(userId);
     
-    if (!userDoc.exists()) {
+    if (!userData) {
       return [];
     }
     
-    const userData = userDoc.data();
-    const joinDate = userData.joinedAt?.toDate() || new Date();
-    const relapses: Relapse[] = userData.relapses || [];
-    
-    const sortedRelapses = [...relapses].sort((a, b) => 
-      a.timestamp.toDate().getTime() - b.timestamp.toDate().getTime()
-    );
+    const boundary = getDayBoundary(userData);
+    const events = await loadStreakEvents(userData);
+    const sortedRelapses = await getRelapses(userId);
     
-    const calendarData = [];
-    let currentDate = startOfDay(joinDate);
-    const today = startOfDay(new Date());
-    
-    while (currentDate <= today) {
-      const relapse = sortedRelapses.find(r => {
-        const relapseDate = startOfDay(r.timestamp.toDate());
-        return isSameDay(relapseDate, currentDate);
-      });
-      
-      calendarData.push({
-        date: new Date(currentDate),
-        hadRelapse: !!relapse,
-        relapseInfo: relapse ? {
-          triggers: relapse.triggers,
-          notes: relapse.notes || ''
-        } : null
-      });
-      
-      currentDate.setDate(currentDate.getDate() + 1);
-    }
-    
-    return calendarData;
+    return buildStreakTimeline(events, new Date(), boundary).map(day => ({
+      date: day.date,
+      hadRelapse: day.hadRelapse,
+      relapses: sortedRelapses.filter(relapse => toDayKey(relapse.timestamp.toDate(), boundary) === day.key)
+    }));
   } catch (error) {
     console.error('Error getting relapse calendar data:', error);
     return [];
@@ -515,22 +464,13 @@ export const getRelapseCalendarData = async (userId: string) => {
 };
 
 export const addJournalEntry = async (entry: JournalEntry): Promise<boolean> => {
-  if (!db || !entry.userId) {
-    console.error("Firebase db not initialized or missing userId");
+  if (!entry.userId) {
+    console.error("Missing userId for journal entry");
     return false;
   }
   
   try {
-    const userRef = doc(db, 'users', entry.userId);
-    
-    const entryWithTimestamp = {
-      ...entry,
-      timestamp: Timestamp.fromDate(entry.timestamp)
-    };
-    
-    await updateDoc(userRef, {
-      journal: arrayUnion(entryWithTimestamp)
-    });
+    await repository.journal.add(entry);
     
     return true;
   } catch (error) {
@@ -539,57 +479,58 @@ export const addJournalEntry = async (entry: JournalEntry): Promise<boolean> =>
   }
 };
 
-export const getJournalEntries = async (userId: string): Promise<JournalEntry[]> => {
-  if (!db) {
-    console.error("Firebase db not initialized");
-    return [];
+export const getJournalEntry = async (userId: string, entryId: string): Promise<JournalEntry | null> => {
+  try {
+    await ensureLegacyDataMigrated(userId);
+    return await repository.journal.get(userId, entryId);
+  } catch (error) {
+    console.error('Error getting journal entry:', error);
+    return null;
   }
-  
+};
+
+export const updateJournalEntry = async (
+  userId: string,
+  entryId: string,
+  changes: Pick<JournalEntry, 'notes' | 'level' | 'emotions'>
+): Promise<boolean> => {
   try {
-    const userRef = doc(db, 'users', userId);
-    const userDoc = await getDoc(userRef);
-    
-    if (userDoc.exists() && userDoc.data().journal) {
-      const entries = userDoc.data().journal;
-      
-      return entries
-        .map((entry) => ({
-          ...entry,
-          timestamp: entry.timestamp.toDate()
-        }))
-        .sort((a: JournalEntry, b: JournalEntry) => 
-          b.timestamp.getTime() - a.timestamp.getTime()
-        );
-    }
+    // The original timestamp is kept so the entry stays where it was written
+    await repository.journal.update(userId, entryId, {
+      ...changes,
+      editedAt: new Date()
+    });
     
-    return [];
+    return true;
   } catch (error) {
-    console.error('Error getting journal entries:', error);
-    return [];
+    console.error('Error updating journal entry:', error);
+    return false;
   }
 };
 
-export const getCommunityLocations = async () => {
+export const deleteJournalEntry = async (userId: string, entryId: string): Promise<boolean> => {
   try {
-    const usersRef = collection(db, 'users');
-    const querySnapshot = await getDocs(usersRef);
-    
-    const locations: { id: string; location: { country: string; state?: string | null; } }[] = [];
-    
-    querySnapshot.forEach((doc) => {
-      const data = doc.data();
-      if (data.location && data.location.country) {
-        locations.push({
-          id: doc.id,
-          location: data.location
-        });
-      }
-    });
+    await repository.journal.delete(userId, entryId);
     
-    return locations;
+    return true;
   } catch (error) {
-    console.error('Error fetching community locations:', error);
-    return [];
+    console.error('Error deleting journal entry:', error);
+    return false;
+  }
+};
+
+export const getJournalPage = async (
+  userId: string,
+  pageSize: number,
+  cursor: JournalCursor | null = null,
+  direction: 'asc' | 'desc' = 'desc'
+): Promise<JournalPage> => {
+  try {
+    await ensureLegacyDataMigrated(userId);
+    return await repository.journal.listPage(userId, { pageSize, cursor, direction });
+  } catch (error) {
+    console.error('Error getting journal entries:', error);
+    return { entries: [], nextCursor: null };
   }
 };
 
@@ -662,4 +603,3 @@ export const generateGeminiResponse = async (prompt: string, options?: any) => {
   }
 };
 
-export default app;
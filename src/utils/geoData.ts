@@ -0,0 +1,1483 @@
+import { countries } from './locationData';
+
+// One first-level subdivision: [code, name, latitude, longitude]. Codes are the
+// ISO 3166-2 suffix, except US states, which keep the postal codes already
+// stored on profiles
+type SubdivisionRow = [string, string, number, number];
+
+interface CountryGeo {
+  center: [number, number];
+  area: number;          // Thousands of km², for sizing shaded regions
+  subdivisionLabel: string;
+  subdivisions: SubdivisionRow[];
+}
+
+// Approximate centres of every country in `countries` and of their first-level
+// subdivisions. Bundled so the map and the pickers work offline
+const GEO: Record<string, CountryGeo> = {
+  us: {
+    center: [37.0902, -95.7129],
+    area: 9834,
+    subdivisionLabel: 'State',
+    subdivisions: [
+      ['AL', 'Alabama', 32.7794, -86.8287],
+      ['AK', 'Alaska', 64.0685, -152.2782],
+      ['AZ', 'Arizona', 34.2744, -111.6602],
+      ['AR', 'Arkansas', 34.8938, -92.4426],
+      ['CA', 'California', 36.7783, -119.4179],
+      ['CO', 'Colorado', 39.5501, -105.7821],
+      ['CT', 'Connecticut', 41.6032, -73.0877],
+      ['DE', 'Delaware', 38.9896, -75.5050],
+      ['FL', 'Florida', 27.9944, -81.7603],
+      ['GA', 'Georgia', 32.6415, -83.4426],
+      ['HI', 'Hawaii', 19.8968, -155.5828],
+      ['ID', 'Idaho', 44.0682, -114.7420],
+      ['IL', 'Illinois', 40.0417, -89.1965],
+      ['IN', 'Indiana', 39.8942, -86.2816],
+      ['IA', 'Iowa', 42.0751, -93.4960],
+      ['KS', 'Kansas', 38.5111, -96.8005],
+      ['KY', 'Kentucky', 37.6690, -84.6514],
+      ['LA', 'Louisiana', 31.1801, -91.8749],
+      ['ME', 'Maine', 45.2538, -69.4455],
+      ['MD', 'Maryland', 39.0458, -76.6413],
+      ['MA', 'Massachusetts', 42.4072, -71.3824],
+      ['MI', 'Michigan', 44.3148, -85.6024],
+      ['MN', 'Minnesota', 46.7296, -94.6859],
+      ['MS', 'Mississippi', 32.7416, -89.6787],
+      ['MO', 'Missouri', 38.4561, -92.2884],
+      ['MT', 'Montana', 46.9219, -110.4544],
+      ['NE', 'Nebraska', 41.4925, -99.9018],
+      ['NV', 'Nevada', 38.8026, -116.4194],
+      ['NH', 'New Hampshire', 43.1939, -71.5724],
+      ['NJ', 'New Jersey', 40.0583, -74.4057],
+      ['NM', 'New Mexico', 34.5199, -105.8701],
+      ['NY', 'New York', 42.1657, -74.9481],
+      ['NC', 'North Carolina', 35.6301, -79.8064],
+      ['ND', 'North Dakota', 47.5515, -101.0020],
+      ['OH', 'Ohio', 40.4173, -82.9071],
+      ['OK', 'Oklahoma', 35.5653, -96.9289],
+      ['OR', 'Oregon', 44.5720, -122.0709],
+      ['PA', 'Pennsylvania', 40.5908, -77.2098],
+      ['RI', 'Rhode Island', 41.6809, -71.5118],
+      ['SC', 'South Carolina', 33.8569, -80.9450],
+      ['SD', 'South Dakota', 44.2998, -99.4388],
+      ['TN', 'Tennessee', 35.7478, -86.6923],
+      ['TX', 'Texas', 31.0545, -97.5635],
+      ['UT', 'Utah', 39.3210, -111.0937],
+      ['VT', 'Vermont', 44.5588, -72.5778],
+      ['VA', 'Virginia', 37.7693, -78.1700],
+      ['WA', 'Washington', 47.4009, -121.4905],
+      ['WV', 'West Virginia', 38.5976, -80.4549],
+      ['WI', 'Wisconsin', 43.7844, -88.7879],
+      ['WY', 'Wyoming', 43.0759, -107.2903],
+      ['DC', 'District of Columbia', 38.9072, -77.0369]
+    ]
+  },
+  ca: {
+    center: [56.1304, -106.3468],
+    area: 9985,
+    subdivisionLabel: 'Province or territory',
+    subdivisions: [
+      ['AB', 'Alberta', 53.93, -116.58],
+      ['BC', 'British Columbia', 53.73, -127.65],
+      ['MB', 'Manitoba', 53.76, -98.81],
+      ['NB', 'New Brunswick', 46.50, -66.16],
+      ['NL', 'Newfoundland and Labrador', 53.14, -57.66],
+      ['NS', 'Nova Scotia', 44.68, -63.74],
+      ['ON', 'Ontario', 51.25, -85.32],
+      ['PE', 'Prince Edward Island', 46.51, -63.42],
+      ['QC', 'Quebec', 52.94, -73.55],
+      ['SK', 'Saskatchewan', 52.94, -106.45],
+      ['NT', 'Northwest Territories', 64.83, -124.85],
+      ['NU', 'Nunavut', 70.30, -83.11],
+      ['YT', 'Yukon', 64.28, -135.00]
+    ]
+  },
+  gb: {
+    center: [55.3781, -3.4360],
+    area: 243,
+    subdivisionLabel: 'Country',
+    subdivisions: [
+      ['ENG', 'England', 52.36, -1.17],
+      ['SCT', 'Scotland', 56.49, -4.20],
+      ['WLS', 'Wales', 52.13, -3.78],
+      ['NIR', 'Northern Ireland', 54.79, -6.49]
+    ]
+  },
+  au: {
+    center: [-25.2744, 133.7751],
+    area: 7692,
+    subdivisionLabel: 'State or territory',
+    subdivisions: [
+      ['ACT', 'Australian Capital Territory', -35.47, 149.01],
+      ['NSW', 'New South Wales', -31.84, 145.61],
+      ['NT', 'Northern Territory', -19.49, 132.55],
+      ['QLD', 'Queensland', -20.92, 142.70],
+      ['SA', 'South Australia', -30.00, 136.21],
+      ['TAS', 'Tasmania', -41.45, 145.97],
+      ['VIC', 'Victoria', -37.47, 144.79],
+      ['WA', 'Western Australia', -27.67, 121.63]
+    ]
+  },
+  de: {
+    center: [51.1657, 10.4515],
+    area: 358,
+    subdivisionLabel: 'State',
+    subdivisions: [
+      ['BW', 'Baden-Württemberg', 48.66, 9.35],
+      ['BY', 'Bavaria', 48.79, 11.50],
+      ['BE', 'Berlin', 52.52, 13.40],
+      ['BB', 'Brandenburg', 52.41, 12.53],
+      ['HB', 'Bremen', 53.08, 8.80],
+      ['HH', 'Hamburg', 53.55, 9.99],
+      ['HE', 'Hesse', 50.65, 9.16],
+      ['MV', 'Mecklenburg-Vorpommern', 53.61, 12.43],
+      ['NI', 'Lower Saxony', 52.64, 9.85],
+      ['NW', 'North Rhine-Westphalia', 51.43, 7.66],
+      ['RP', 'Rhineland-Palatinate', 50.12, 7.31],
+      ['SL', 'Saarland', 49.40, 7.02],
+      ['SN', 'Saxony', 51.10, 13.20],
+      ['ST', 'Saxony-Anhalt', 51.95, 11.69],
+      ['SH', 'Schleswig-Holstein', 54.22, 9.70],
+      ['TH', 'Thuringia', 51.01, 10.85]
+    ]
+  },
+  fr: {
+    center: [46.2276, 2.2137],
+    area: 644,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['ARA', 'Auvergne-Rhône-Alpes', 45.45, 4.39],
+      ['BFC', 'Bourgogne-Franche-Comté', 47.28, 4.99],
+      ['BRE', 'Brittany', 48.20, -2.93],
+      ['CVL', 'Centre-Val de Loire', 47.75, 1.68],
+      ['20R', 'Corsica', 42.04, 9.01],
+      ['GES', 'Grand Est', 48.70, 6.19],
+      ['HDF', 'Hauts-de-France', 50.48, 2.79],
+      ['IDF', 'Île-de-France', 48.85, 2.35],
+      ['NOR', 'Normandy', 49.18, 0.37],
+      ['NAQ', 'Nouvelle-Aquitaine', 45.71, 0.37],
+      ['OCC', 'Occitanie', 43.89, 2.17],
+      ['PDL', 'Pays de la Loire', 47.76, -0.33],
+      ['PAC', "Provence-Alpes-Côte d'Azur", 43.94, 6.07],
+      ['971', 'Guadeloupe', 16.27, -61.55],
+      ['972', 'Martinique', 14.64, -61.02],
+      ['973', 'French Guiana', 3.93, -53.13],
+      ['974', 'Réunion', -21.12, 55.54],
+      ['976', 'Mayotte', -12.83, 45.17]
+    ]
+  },
+  jp: {
+    center: [36.2048, 138.2529],
+    area: 378,
+    subdivisionLabel: 'Prefecture',
+    subdivisions: [
+      ['01', 'Hokkaido', 43.22, 142.86],
+      ['02', 'Aomori', 40.78, 140.83],
+      ['03', 'Iwate', 39.59, 141.36],
+      ['04', 'Miyagi', 38.63, 140.93],
+      ['05', 'Akita', 39.75, 140.41],
+      ['06', 'Yamagata', 38.45, 140.10],
+      ['07', 'Fukushima', 37.38, 140.23],
+      ['08', 'Ibaraki', 36.31, 140.32],
+      ['09', 'Tochigi', 36.68, 139.82],
+      ['10', 'Gunma', 36.52, 138.98],
+      ['11', 'Saitama', 35.99, 139.35],
+      ['12', 'Chiba', 35.47, 140.23],
+      ['13', 'Tokyo', 35.68, 139.69],
+      ['14', 'Kanagawa', 35.42, 139.34],
+      ['15', 'Niigata', 37.52, 138.92],
+      ['16', 'Toyama', 36.64, 137.27],
+      ['17', 'Ishikawa', 36.77, 136.77],
+      ['18', 'Fukui', 35.85, 136.22],
+      ['19', 'Yamanashi', 35.61, 138.61],
+      ['20', 'Nagano', 36.13, 138.04],
+      ['21', 'Gifu', 35.78, 137.05],
+      ['22', 'Shizuoka', 35.02, 138.34],
+      ['23', 'Aichi', 35.03, 137.21],
+      ['24', 'Mie', 34.51, 136.38],
+      ['25', 'Shiga', 35.22, 136.14],
+      ['26', 'Kyoto', 35.25, 135.44],
+      ['27', 'Osaka', 34.62, 135.51],
+      ['28', 'Hyogo', 35.04, 134.83],
+      ['29', 'Nara', 34.32, 135.87],
+      ['30', 'Wakayama', 33.91, 135.51],
+      ['31', 'Tottori', 35.36, 133.85],
+      ['32', 'Shimane', 35.07, 132.56],
+      ['33', 'Okayama', 34.90, 133.81],
+      ['34', 'Hiroshima', 34.60, 132.79],
+      ['35', 'Yamaguchi', 34.20, 131.57],
+      ['36', 'Tokushima', 33.92, 134.24],
+      ['37', 'Kagawa', 34.24, 133.96],
+      ['38', 'Ehime', 33.62, 132.86],
+      ['39', 'Kochi', 33.42, 133.37],
+      ['40', 'Fukuoka', 33.57, 130.67],
+      ['41', 'Saga', 33.28, 130.12],
+      ['42', 'Nagasaki', 32.96, 129.74],
+      ['43', 'Kumamoto', 32.59, 130.81],
+      ['44', 'Oita', 33.20, 131.43],
+      ['45', 'Miyazaki', 32.09, 131.30],
+      ['46', 'Kagoshima', 31.01, 130.43],
+      ['47', 'Okinawa', 26.51, 127.93]
+    ]
+  },
+  cn: {
+    center: [35.8617, 104.1954],
+    area: 9597,
+    subdivisionLabel: 'Province or region',
+    subdivisions: [
+      ['AH', 'Anhui', 31.83, 117.23],
+      ['BJ', 'Beijing', 40.18, 116.41],
+      ['CQ', 'Chongqing', 30.06, 107.87],
+      ['FJ', 'Fujian', 26.08, 117.98],
+      ['GS', 'Gansu', 37.81, 101.06],
+      ['GD', 'Guangdong', 23.34, 113.42],
+      ['GX', 'Guangxi', 23.83, 108.79],
+      ['GZ', 'Guizhou', 26.82, 106.87],
+      ['HI', 'Hainan', 19.19, 109.75],
+      ['HE', 'Hebei', 38.04, 114.51],
+      ['HL', 'Heilongjiang', 47.86, 127.76],
+      ['HA', 'Henan', 33.88, 113.61],
+      ['HB', 'Hubei', 30.98, 112.27],
+      ['HN', 'Hunan', 27.61, 111.71],
+      ['JS', 'Jiangsu', 32.97, 119.46],
+      ['JX', 'Jiangxi', 27.61, 115.72],
+      ['JL', 'Jilin', 43.67, 126.19],
+      ['LN', 'Liaoning', 41.30, 122.61],
+      ['NM', 'Inner Mongolia', 44.09, 113.94],
+      ['NX', 'Ningxia', 37.27, 106.17],
+      ['QH', 'Qinghai', 35.74, 96.41],
+      ['SN', 'Shaanxi', 35.19, 108.87],
+      ['SD', 'Shandong', 36.34, 118.15],
+      ['SH', 'Shanghai', 31.23, 121.47],
+      ['SX', 'Shanxi', 37.58, 112.29],
+      ['SC', 'Sichuan', 30.65, 102.69],
+      ['TJ', 'Tianjin', 39.30, 117.32],
+      ['XJ', 'Xinjiang', 41.12, 85.24],
+      ['XZ', 'Tibet', 31.69, 88.09],
+      ['YN', 'Yunnan', 24.97, 101.49],
+      ['ZJ', 'Zhejiang', 29.18, 120.08],
+      ['HK', 'Hong Kong', 22.32, 114.17],
+      ['MO', 'Macau', 22.20, 113.54],
+      ['TW', 'Taiwan', 23.70, 120.96]
+    ]
+  },
+  in: {
+    center: [20.5937, 78.9629],
+    area: 3287,
+    subdivisionLabel: 'State or territory',
+    subdivisions: [
+      ['AP', 'Andhra Pradesh', 15.91, 79.74],
+      ['AR', 'Arunachal Pradesh', 28.22, 94.73],
+      ['AS', 'Assam', 26.20, 92.94],
+      ['BR', 'Bihar', 25.10, 85.31],
+      ['CG', 'Chhattisgarh', 21.28, 81.87],
+      ['GA', 'Goa', 15.30, 74.12],
+      ['GJ', 'Gujarat', 22.26, 71.19],
+      ['HR', 'Haryana', 29.06, 76.09],
+      ['HP', 'Himachal Pradesh', 31.90, 77.23],
+      ['JH', 'Jharkhand', 23.61, 85.28],
+      ['KA', 'Karnataka', 15.32, 75.71],
+      ['KL', 'Kerala', 10.85, 76.27],
+      ['MP', 'Madhya Pradesh', 22.97, 78.66],
+      ['MH', 'Maharashtra', 19.75, 75.71],
+      ['MN', 'Manipur', 24.66, 93.91],
+      ['ML', 'Meghalaya', 25.47, 91.37],
+      ['MZ', 'Mizoram', 23.16, 92.94],
+      ['NL', 'Nagaland', 26.16, 94.56],
+      ['OD', 'Odisha', 20.95, 85.10],
+      ['PB', 'Punjab', 31.15, 75.34],
+      ['RJ', 'Rajasthan', 27.02, 74.22],
+      ['SK', 'Sikkim', 27.53, 88.51],
+      ['TN', 'Tamil Nadu', 11.13, 78.66],
+      ['TS', 'Telangana', 18.11, 79.02],
+      ['TR', 'Tripura', 23.94, 91.99],
+      ['UP', 'Uttar Pradesh', 26.85, 80.95],
+      ['UK', 'Uttarakhand', 30.07, 79.02],
+      ['WB', 'West Bengal', 22.99, 87.85],
+      ['AN', 'Andaman and Nicobar Islands', 11.74, 92.66],
+      ['CH', 'Chandigarh', 30.73, 76.78],
+      ['DH', 'Dadra and Nagar Haveli and Daman and Diu', 20.40, 72.83],
+      ['DL', 'Delhi', 28.70, 77.10],
+      ['JK', 'Jammu and Kashmir', 33.78, 76.58],
+      ['LA', 'Ladakh', 34.15, 77.58],
+      ['LD', 'Lakshadweep', 10.57, 72.64],
+      ['PY', 'Puducherry', 11.94, 79.81]
+    ]
+  },
+  br: {
+    center: [-14.2350, -51.9253],
+    area: 8516,
+    subdivisionLabel: 'State',
+    subdivisions: [
+      ['AC', 'Acre', -9.02, -70.81],
+      ['AL', 'Alagoas', -9.57, -36.78],
+      ['AP', 'Amapá', 1.41, -51.77],
+      ['AM', 'Amazonas', -3.42, -65.86],
+      ['BA', 'Bahia', -12.58, -41.70],
+      ['CE', 'Ceará', -5.50, -39.32],
+      ['DF', 'Federal District', -15.80, -47.86],
+      ['ES', 'Espírito Santo', -19.18, -40.31],
+      ['GO', 'Goiás', -15.83, -49.84],
+      ['MA', 'Maranhão', -4.96, -45.27],
+      ['MT', 'Mato Grosso', -12.68, -56.92],
+      ['MS', 'Mato Grosso do Sul', -20.77, -54.79],
+      ['MG', 'Minas Gerais', -18.51, -44.56],
+      ['PA', 'Pará', -3.42, -52.29],
+      ['PB', 'Paraíba', -7.24, -36.78],
+      ['PR', 'Paraná', -24.89, -51.55],
+      ['PE', 'Pernambuco', -8.81, -36.95],
+      ['PI', 'Piauí', -7.72, -42.73],
+      ['RJ', 'Rio de Janeiro', -22.91, -43.17],
+      ['RN', 'Rio Grande do Norte', -5.79, -36.52],
+      ['RS', 'Rio Grande do Sul', -30.03, -53.20],
+      ['RO', 'Rondônia', -10.83, -63.34],
+      ['RR', 'Roraima', 2.74, -62.08],
+      ['SC', 'Santa Catarina', -27.24, -50.22],
+      ['SP', 'São Paulo', -22.19, -48.79],
+      ['SE', 'Sergipe', -10.57, -37.39],
+      ['TO', 'Tocantins', -10.18, -48.33]
+    ]
+  },
+  mx: {
+    center: [23.6345, -102.5528],
+    area: 1964,
+    subdivisionLabel: 'State',
+    subdivisions: [
+      ['AGU', 'Aguascalientes', 21.89, -102.29],
+      ['BCN', 'Baja California', 30.84, -115.28],
+      ['BCS', 'Baja California Sur', 26.04, -111.67],
+      ['CAM', 'Campeche', 19.83, -90.53],
+      ['CHP', 'Chiapas', 16.76, -93.13],
+      ['CHH', 'Chihuahua', 28.63, -106.07],
+      ['CMX', 'Mexico City', 19.43, -99.13],
+      ['COA', 'Coahuila', 27.06, -101.71],
+      ['COL', 'Colima', 19.25, -103.72],
+      ['DUR', 'Durango', 24.56, -104.66],
+      ['GUA', 'Guanajuato', 21.02, -101.26],
+      ['GRO', 'Guerrero', 17.44, -99.55],
+      ['HID', 'Hidalgo', 20.09, -98.76],
+      ['JAL', 'Jalisco', 20.66, -103.35],
+      ['MEX', 'State of Mexico', 19.50, -99.73],
+      ['MIC', 'Michoacán', 19.57, -101.71],
+      ['MOR', 'Morelos', 18.68, -99.10],
+      ['NAY', 'Nayarit', 21.75, -104.85],
+      ['NLE', 'Nuevo León', 25.59, -99.99],
+      ['OAX', 'Oaxaca', 17.07, -96.73],
+      ['PUE', 'Puebla', 19.04, -98.21],
+      ['QUE', 'Querétaro', 20.59, -100.39],
+      ['ROO', 'Quintana Roo', 19.18, -88.48],
+      ['SLP', 'San Luis Potosí', 22.16, -100.99],
+      ['SIN', 'Sinaloa', 25.17, -107.48],
+      ['SON', 'Sonora', 29.30, -110.33],
+      ['TAB', 'Tabasco', 17.84, -92.62],
+      ['TAM', 'Tamaulipas', 24.27, -98.84],
+      ['TLA', 'Tlaxcala', 19.32, -98.24],
+      ['VER', 'Veracruz', 19.17, -96.13],
+      ['YUC', 'Yucatán', 20.71, -89.09],
+      ['ZAC', 'Zacatecas', 22.77, -102.58]
+    ]
+  },
+  it: {
+    center: [41.8719, 12.5674],
+    area: 302,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['65', 'Abruzzo', 42.19, 13.73],
+      ['77', 'Basilicata', 40.64, 15.97],
+      ['78', 'Calabria', 39.06, 16.53],
+      ['72', 'Campania', 40.84, 14.25],
+      ['45', 'Emilia-Romagna', 44.60, 11.04],
+      ['36', 'Friuli-Venezia Giulia', 46.07, 13.23],
+      ['62', 'Lazio', 41.89, 12.48],
+      ['42', 'Liguria', 44.31, 8.70],
+      ['25', 'Lombardy', 45.47, 9.85],
+      ['57', 'Marche', 43.30, 13.45],
+      ['67', 'Molise', 41.67, 14.56],
+      ['21', 'Piedmont', 45.05, 7.52],
+      ['75', 'Apulia', 41.13, 16.87],
+      ['88', 'Sardinia', 40.12, 9.01],
+      ['82', 'Sicily', 37.60, 14.02],
+      ['52', 'Tuscany', 43.77, 11.25],
+      ['32', 'Trentino-South Tyrol', 46.43, 11.17],
+      ['55', 'Umbria', 42.94, 12.62],
+      ['23', 'Aosta Valley', 45.74, 7.32],
+      ['34', 'Veneto', 45.44, 12.32]
+    ]
+  },
+  es: {
+    center: [40.4637, -3.7492],
+    area: 506,
+    subdivisionLabel: 'Autonomous community',
+    subdivisions: [
+      ['AN', 'Andalusia', 37.54, -4.73],
+      ['AR', 'Aragon', 41.60, -0.88],
+      ['AS', 'Asturias', 43.36, -5.85],
+      ['IB', 'Balearic Islands', 39.57, 2.65],
+      ['CN', 'Canary Islands', 28.29, -16.63],
+      ['CB', 'Cantabria', 43.18, -3.99],
+      ['CL', 'Castile and León', 41.84, -4.40],
+      ['CM', 'Castilla-La Mancha', 39.28, -3.10],
+      ['CT', 'Catalonia', 41.59, 1.52],
+      ['EX', 'Extremadura', 39.49, -6.07],
+      ['GA', 'Galicia', 42.58, -7.91],
+      ['RI', 'La Rioja', 42.29, -2.54],
+      ['MD', 'Community of Madrid', 40.42, -3.70],
+      ['MC', 'Region of Murcia', 37.99, -1.13],
+      ['NC', 'Navarre', 42.70, -1.68],
+      ['PV', 'Basque Country', 42.99, -2.62],
+      ['VC', 'Valencian Community', 39.48, -0.75],
+      ['CE', 'Ceuta', 35.89, -5.32],
+      ['ML', 'Melilla', 35.29, -2.94]
+    ]
+  },
+  kr: {
+    center: [35.9078, 127.7669],
+    area: 100,
+    subdivisionLabel: 'Province or city',
+    subdivisions: [
+      ['11', 'Seoul', 37.57, 126.98],
+      ['26', 'Busan', 35.18, 129.08],
+      ['27', 'Daegu', 35.87, 128.60],
+      ['28', 'Incheon', 37.46, 126.71],
+      ['29', 'Gwangju', 35.16, 126.85],
+      ['30', 'Daejeon', 36.35, 127.38],
+      ['31', 'Ulsan', 35.54, 129.31],
+      ['50', 'Sejong', 36.48, 127.29],
+      ['41', 'Gyeonggi', 37.41, 127.52],
+      ['51', 'Gangwon', 37.82, 128.16],
+      ['43', 'North Chungcheong', 36.80, 127.70],
+      ['44', 'South Chungcheong', 36.52, 126.80],
+      ['52', 'North Jeolla', 35.72, 127.15],
+      ['46', 'South Jeolla', 34.87, 126.99],
+      ['47', 'North Gyeongsang', 36.49, 128.89],
+      ['48', 'South Gyeongsang', 35.46, 128.21],
+      ['49', 'Jeju', 33.49, 126.50]
+    ]
+  },
+  ru: {
+    center: [61.5240, 105.3188],
+    area: 17098,
+    subdivisionLabel: 'Federal subject',
+    subdivisions: [
+      ['AD', 'Adygea', 44.61, 40.10],
+      ['AL', 'Altai Republic', 50.62, 86.22],
+      ['ALT', 'Altai Krai', 52.69, 82.69],
+      ['AMU', 'Amur Oblast', 52.95, 128.83],
+      ['ARK', 'Arkhangelsk Oblast', 63.56, 43.12],
+      ['AST', 'Astrakhan Oblast', 47.13, 47.35],
+      ['BA', 'Bashkortostan', 54.23, 56.17],
+      ['BEL', 'Belgorod Oblast', 50.71, 37.59],
+      ['BRY', 'Bryansk Oblast', 52.89, 33.42],
+      ['BU', 'Buryatia', 53.00, 109.00],
+      ['CE', 'Chechnya', 43.40, 45.72],
+      ['CHE', 'Chelyabinsk Oblast', 54.43, 61.09],
+      ['CHU', 'Chukotka', 66.00, 169.49],
+      ['CU', 'Chuvashia', 55.55, 47.10],
+      ['DA', 'Dagestan', 42.14, 47.09],
+      ['IN', 'Ingushetia', 43.11, 45.05],
+      ['IRK', 'Irkutsk Oblast', 56.13, 106.34],
+      ['IVA', 'Ivanovo Oblast', 57.10, 41.49],
+      ['KB', 'Kabardino-Balkaria', 43.39, 43.56],
+      ['KGD', 'Kaliningrad Oblast', 54.71, 20.51],
+      ['KL', 'Kalmykia', 46.19, 45.45],
+      ['KLU', 'Kaluga Oblast', 54.39, 35.26],
+      ['KAM', 'Kamchatka Krai', 57.19, 160.07],
+      ['KC', 'Karachay-Cherkessia', 43.92, 41.78],
+      ['KR', 'Karelia', 63.16, 32.99],
+      ['KEM', 'Kemerovo Oblast', 54.76, 87.41],
+      ['KHA', 'Khabarovsk Krai', 51.56, 135.51],
+      ['KK', 'Khakassia', 53.05, 90.40],
+      ['KHM', 'Khanty-Mansi', 62.23, 70.64],
+      ['KIR', 'Kirov Oblast', 58.42, 49.50],
+      ['KO', 'Komi', 63.86, 54.83],
+      ['KOS', 'Kostroma Oblast', 58.55, 43.68],
+      ['KDA', 'Krasnodar Krai', 45.04, 38.98],
+      ['KYA', 'Krasnoyarsk Krai', 64.25, 95.11],
+      ['KGN', 'Kurgan Oblast', 55.45, 65.34],
+      ['KRS', 'Kursk Oblast', 51.76, 36.19],
+      ['LEN', 'Leningrad Oblast', 60.08, 31.89],
+      ['LIP', 'Lipetsk Oblast', 52.53, 39.20],
+      ['MAG', 'Magadan Oblast', 62.66, 153.91],
+      ['ME', 'Mari El', 56.58, 48.00],
+      ['MO', 'Mordovia', 54.44, 44.45],
+      ['MOW', 'Moscow', 55.76, 37.62],
+      ['MOS', 'Moscow Oblast', 55.53, 38.32],
+      ['MUR', 'Murmansk Oblast', 67.84, 35.08],
+      ['NEN', 'Nenets', 67.64, 57.70],
+      ['NIZ', 'Nizhny Novgorod Oblast', 56.30, 44.00],
+      ['NGR', 'Novgorod Oblast', 58.24, 32.57],
+      ['NVS', 'Novosibirsk Oblast', 55.45, 79.55],
+      ['OMS', 'Omsk Oblast', 56.07, 73.80],
+      ['ORE', 'Orenburg Oblast', 51.76, 55.10],
+      ['ORL', 'Oryol Oblast', 52.78, 36.48],
+      ['PNZ', 'Penza Oblast', 53.14, 44.09],
+      ['PER', 'Perm Krai', 58.82, 56.59],
+      ['PRI', 'Primorsky Krai', 45.05, 135.00],
+      ['PSK', 'Pskov Oblast', 57.34, 28.99],
+      ['ROS', 'Rostov Oblast', 47.68, 41.83],
+      ['RYA', 'Ryazan Oblast', 54.39, 40.82],
+      ['SA', 'Sakha (Yakutia)', 66.76, 124.12],
+      ['SAK', 'Sakhalin Oblast', 50.69, 142.95],
+      ['SAM', 'Samara Oblast', 53.42, 50.12],
+      ['SPE', 'Saint Petersburg', 59.94, 30.31],
+      ['SAR', 'Saratov Oblast', 51.84, 46.75],
+      ['SE', 'North Ossetia-Alania', 43.05, 44.24],
+      ['SMO', 'Smolensk Oblast', 54.99, 32.67],
+      ['STA', 'Stavropol Krai', 44.67, 43.00],
+      ['SVE', 'Sverdlovsk Oblast', 58.59, 61.53],
+      ['TAM', 'Tambov Oblast', 52.64, 41.42],
+      ['TA', 'Tatarstan', 55.18, 50.73],
+      ['TOM', 'Tomsk Oblast', 58.90, 82.06],
+      ['TUL', 'Tula Oblast', 53.86, 37.59],
+      ['TVE', 'Tver Oblast', 57.00, 35.00],
+      ['TYU', 'Tyumen Oblast', 58.00, 69.00],
+      ['TY', 'Tuva', 51.72, 94.44],
+      ['UD', 'Udmurtia', 57.07, 53.00],
+      ['ULY', 'Ulyanovsk Oblast', 53.98, 47.78],
+      ['VLA', 'Vladimir Oblast', 56.16, 40.41],
+      ['VGG', 'Volgograd Oblast', 49.65, 44.39],
+      ['VLG', 'Vologda Oblast', 59.87, 40.66],
+      ['VOR', 'Voronezh Oblast', 51.18, 39.99],
+      ['YAN', 'Yamalo-Nenets', 66.07, 76.93],
+      ['YAR', 'Yaroslavl Oblast', 57.82, 39.14],
+      ['YEV', 'Jewish Autonomous Oblast', 48.48, 132.46],
+      ['ZAB', 'Zabaykalsky Krai', 52.25, 117.00]
+    ]
+  },
+  za: {
+    center: [-30.5595, 22.9375],
+    area: 1221,
+    subdivisionLabel: 'Province',
+    subdivisions: [
+      ['EC', 'Eastern Cape', -32.30, 26.42],
+      ['FS', 'Free State', -28.45, 26.80],
+      ['GP', 'Gauteng', -26.27, 28.11],
+      ['KZN', 'KwaZulu-Natal', -28.53, 30.90],
+      ['LP', 'Limpopo', -23.40, 29.42],
+      ['MP', 'Mpumalanga', -25.57, 30.53],
+      ['NW', 'North West', -26.66, 25.28],
+      ['NC', 'Northern Cape', -29.05, 21.86],
+      ['WC', 'Western Cape', -33.23, 21.86]
+    ]
+  },
+  ng: {
+    center: [9.0820, 8.6753],
+    area: 924,
+    subdivisionLabel: 'State',
+    subdivisions: [
+      ['AB', 'Abia', 5.45, 7.52],
+      ['AD', 'Adamawa', 9.33, 12.40],
+      ['AK', 'Akwa Ibom', 4.91, 7.85],
+      ['AN', 'Anambra', 6.22, 6.94],
+      ['BA', 'Bauchi', 10.78, 9.99],
+      ['BY', 'Bayelsa', 4.77, 6.07],
+      ['BE', 'Benue', 7.34, 8.77],
+      ['BO', 'Borno', 11.89, 13.15],
+      ['CR', 'Cross River', 5.87, 8.60],
+      ['DE', 'Delta', 5.70, 5.93],
+      ['EB', 'Ebonyi', 6.26, 8.01],
+      ['ED', 'Edo', 6.63, 5.93],
+      ['EK', 'Ekiti', 7.72, 5.31],
+      ['EN', 'Enugu', 6.54, 7.44],
+      ['FC', 'Federal Capital Territory', 8.89, 7.19],
+      ['GO', 'Gombe', 10.36, 11.19],
+      ['IM', 'Imo', 5.57, 7.06],
+      ['JI', 'Jigawa', 12.23, 9.56],
+      ['KD', 'Kaduna', 10.38, 7.71],
+      ['KN', 'Kano', 11.75, 8.52],
+      ['KT', 'Katsina', 12.38, 7.63],
+      ['KE', 'Kebbi', 11.49, 4.23],
+      ['KO', 'Kogi', 7.73, 6.69],
+      ['KW', 'Kwara', 8.97, 4.39],
+      ['LA', 'Lagos', 6.52, 3.38],
+      ['NA', 'Nasarawa', 8.54, 8.32],
+      ['NI', 'Niger', 9.93, 5.60],
+      ['OG', 'Ogun', 6.99, 3.47],
+      ['ON', 'Ondo', 7.10, 4.84],
+      ['OS', 'Osun', 7.56, 4.52],
+      ['OY', 'Oyo', 8.16, 3.61],
+      ['PL', 'Plateau', 9.22, 9.52],
+      ['RI', 'Rivers', 4.84, 6.91],
+      ['SO', 'Sokoto', 13.06, 5.24],
+      ['TA', 'Taraba', 7.87, 10.78],
+      ['YO', 'Yobe', 12.29, 11.44],
+      ['ZA', 'Zamfara', 12.12, 6.22]
+    ]
+  },
+  eg: {
+    center: [26.8206, 30.8025],
+    area: 1010,
+    subdivisionLabel: 'Governorate',
+    subdivisions: [
+      ['ALX', 'Alexandria', 31.20, 29.92],
+      ['ASN', 'Aswan', 23.70, 32.72],
+      ['AST', 'Asyut', 27.18, 31.18],
+      ['BH', 'Beheira', 30.85, 30.34],
+      ['BNS', 'Beni Suef', 29.07, 31.10],
+      ['C', 'Cairo', 30.04, 31.24],
+      ['DK', 'Dakahlia', 31.04, 31.38],
+      ['DT', 'Damietta', 31.42, 31.81],
+      ['FYM', 'Faiyum', 29.31, 30.84],
+      ['GH', 'Gharbia', 30.87, 31.03],
+      ['GZ', 'Giza', 29.40, 30.25],
+      ['IS', 'Ismailia', 30.59, 32.27],
+      ['KFS', 'Kafr el-Sheikh', 31.31, 30.94],
+      ['LX', 'Luxor', 25.69, 32.64],
+      ['MT', 'Matrouh', 29.57, 26.42],
+      ['MN', 'Minya', 28.10, 30.75],
+      ['MNF', 'Monufia', 30.60, 30.99],
+      ['WAD', 'New Valley', 24.55, 27.17],
+      ['SIN', 'North Sinai', 30.28, 33.62],
+      ['PTS', 'Port Said', 31.26, 32.30],
+      ['KB', 'Qalyubia', 30.33, 31.22],
+      ['KN', 'Qena', 26.16, 32.73],
+      ['BA', 'Red Sea', 24.68, 34.15],
+      ['SHR', 'Sharqia', 30.73, 31.72],
+      ['SHG', 'Sohag', 26.56, 31.69],
+      ['JS', 'South Sinai', 29.31, 34.15],
+      ['SUZ', 'Suez', 29.97, 32.53]
+    ]
+  },
+  sa: {
+    center: [23.8859, 45.0792],
+    area: 2150,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['11', 'Al Bahah', 20.01, 41.47],
+      ['08', 'Northern Borders', 30.08, 42.55],
+      ['12', 'Al Jawf', 29.89, 39.32],
+      ['03', 'Medina', 24.84, 39.32],
+      ['05', 'Al-Qassim', 26.21, 43.48],
+      ['01', 'Riyadh', 23.84, 45.40],
+      ['04', 'Eastern Province', 22.98, 50.17],
+      ['14', "'Asir", 19.10, 42.86],
+      ['06', "Ha'il", 27.40, 41.44],
+      ['09', 'Jazan', 17.31, 42.72],
+      ['02', 'Makkah', 21.52, 41.11],
+      ['10', 'Najran', 18.13, 46.73],
+      ['07', 'Tabuk', 27.90, 37.26]
+    ]
+  },
+  ae: {
+    center: [23.4241, 53.8478],
+    area: 84,
+    subdivisionLabel: 'Emirate',
+    subdivisions: [
+      ['AZ', 'Abu Dhabi', 23.47, 53.67],
+      ['AJ', 'Ajman', 25.40, 55.51],
+      ['DU', 'Dubai', 25.08, 55.31],
+      ['FU', 'Fujairah', 25.41, 56.25],
+      ['RK', 'Ras al-Khaimah', 25.67, 55.98],
+      ['SH', 'Sharjah', 25.27, 55.73],
+      ['UQ', 'Umm al-Quwain', 25.52, 55.71]
+    ]
+  },
+  ar: {
+    center: [-38.4161, -63.6167],
+    area: 2780,
+    subdivisionLabel: 'Province',
+    subdivisions: [
+      ['C', 'Buenos Aires City', -34.60, -58.38],
+      ['B', 'Buenos Aires', -36.68, -60.56],
+      ['K', 'Catamarca', -27.34, -66.95],
+      ['H', 'Chaco', -26.39, -60.77],
+      ['U', 'Chubut', -43.79, -68.53],
+      ['X', 'Córdoba', -31.40, -64.18],
+      ['W', 'Corrientes', -28.77, -57.80],
+      ['E', 'Entre Ríos', -32.06, -59.20],
+      ['P', 'Formosa', -24.89, -59.93],
+      ['Y', 'Jujuy', -23.32, -65.76],
+      ['L', 'La Pampa', -37.13, -65.45],
+      ['F', 'La Rioja', -29.69, -67.18],
+      ['M', 'Mendoza', -34.63, -68.58],
+      ['N', 'Misiones', -26.88, -54.58],
+      ['Q', 'Neuquén', -38.64, -70.12],
+      ['R', 'Río Negro', -40.83, -67.23],
+      ['A', 'Salta', -24.30, -64.81],
+      ['J', 'San Juan', -30.87, -68.89],
+      ['D', 'San Luis', -33.76, -66.03],
+      ['Z', 'Santa Cruz', -48.82, -69.82],
+      ['S', 'Santa Fe', -30.71, -60.95],
+      ['G', 'Santiago del Estero', -27.78, -63.25],
+      ['V', 'Tierra del Fuego', -54.31, -67.74],
+      ['T', 'Tucumán', -26.95, -65.36]
+    ]
+  },
+  cl: {
+    center: [-35.6751, -71.5430],
+    area: 756,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['AP', 'Arica y Parinacota', -18.59, -69.48],
+      ['TA', 'Tarapacá', -20.20, -69.29],
+      ['AN', 'Antofagasta', -23.63, -69.60],
+      ['AT', 'Atacama', -27.37, -70.33],
+      ['CO', 'Coquimbo', -30.54, -71.13],
+      ['VS', 'Valparaíso', -32.78, -71.20],
+      ['RM', 'Santiago Metropolitan', -33.44, -70.65],
+      ['LI', "O'Higgins", -34.58, -71.00],
+      ['ML', 'Maule', -35.52, -71.57],
+      ['NB', 'Ñuble', -36.62, -71.95],
+      ['BI', 'Biobío', -37.45, -72.35],
+      ['AR', 'Araucanía', -38.95, -72.33],
+      ['LR', 'Los Ríos', -40.23, -72.33],
+      ['LL', 'Los Lagos', -41.92, -72.14],
+      ['AI', 'Aysén', -46.38, -72.30],
+      ['MA', 'Magallanes', -52.21, -72.17]
+    ]
+  },
+  co: {
+    center: [4.5709, -74.2973],
+    area: 1142,
+    subdivisionLabel: 'Department',
+    subdivisions: [
+      ['AMA', 'Amazonas', -1.44, -71.57],
+      ['ANT', 'Antioquia', 7.20, -75.34],
+      ['ARA', 'Arauca', 6.55, -71.00],
+      ['ATL', 'Atlántico', 10.70, -74.92],
+      ['BOL', 'Bolívar', 8.67, -74.03],
+      ['BOY', 'Boyacá', 5.45, -73.36],
+      ['CAL', 'Caldas', 5.30, -75.25],
+      ['CAQ', 'Caquetá', 0.87, -73.84],
+      ['CAS', 'Casanare', 5.76, -71.57],
+      ['CAU', 'Cauca', 2.71, -76.83],
+      ['CES', 'Cesar', 9.34, -73.65],
+      ['CHO', 'Chocó', 5.69, -76.66],
+      ['COR', 'Córdoba', 8.05, -75.57],
+      ['CUN', 'Cundinamarca', 5.03, -74.03],
+      ['DC', 'Bogotá', 4.71, -74.07],
+      ['GUA', 'Guainía', 2.59, -68.52],
+      ['GUV', 'Guaviare', 2.04, -72.33],
+      ['HUI', 'Huila', 2.54, -75.53],
+      ['LAG', 'La Guajira', 11.35, -72.52],
+      ['MAG', 'Magdalena', 10.41, -74.41],
+      ['MET', 'Meta', 3.27, -73.09],
+      ['NAR', 'Nariño', 1.29, -77.36],
+      ['NSA', 'Norte de Santander', 7.95, -72.90],
+      ['PUT', 'Putumayo', 0.44, -75.53],
+      ['QUI', 'Quindío', 4.46, -75.67],
+      ['RIS', 'Risaralda', 5.32, -75.99],
+      ['SAP', 'San Andrés and Providencia', 12.56, -81.72],
+      ['SAN', 'Santander', 6.64, -73.65],
+      ['SUC', 'Sucre', 8.81, -74.72],
+      ['TOL', 'Tolima', 4.09, -75.15],
+      ['VAC', 'Valle del Cauca', 3.80, -76.64],
+      ['VAU', 'Vaupés', 0.86, -70.81],
+      ['VID', 'Vichada', 4.42, -69.29]
+    ]
+  },
+  pe: {
+    center: [-9.1900, -75.0152],
+    area: 1285,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['AMA', 'Amazonas', -5.08, -78.05],
+      ['ANC', 'Áncash', -9.33, -77.56],
+      ['APU', 'Apurímac', -14.05, -73.09],
+      ['ARE', 'Arequipa', -15.84, -72.48],
+      ['AYA', 'Ayacucho', -13.64, -74.21],
+      ['CAJ', 'Cajamarca', -6.25, -78.84],
+      ['CAL', 'Callao', -12.05, -77.12],
+      ['CUS', 'Cusco', -13.23, -71.97],
+      ['HUV', 'Huancavelica', -12.79, -74.97],
+      ['HUC', 'Huánuco', -9.42, -76.04],
+      ['ICA', 'Ica', -14.24, -75.58],
+      ['JUN', 'Junín', -11.54, -74.88],
+      ['LAL', 'La Libertad', -8.11, -78.26],
+      ['LAM', 'Lambayeque', -6.36, -79.82],
+      ['LIM', 'Lima Region', -11.77, -76.61],
+      ['LMA', 'Lima', -12.05, -77.04],
+      ['LOR', 'Loreto', -4.23, -74.22],
+      ['MDD', 'Madre de Dios', -11.77, -70.81],
+      ['MOQ', 'Moquegua', -16.86, -70.79],
+      ['PAS', 'Pasco', -10.45, -75.52],
+      ['PIU', 'Piura', -5.18, -80.14],
+      ['PUN', 'Puno', -14.99, -69.95],
+      ['SAM', 'San Martín', -7.24, -76.83],
+      ['TAC', 'Tacna', -17.64, -70.61],
+      ['TUM', 'Tumbes', -3.86, -80.45],
+      ['UCA', 'Ucayali', -9.83, -73.09]
+    ]
+  },
+  ve: {
+    center: [6.4238, -66.5897],
+    area: 916,
+    subdivisionLabel: 'State',
+    subdivisions: [
+      ['A', 'Capital District', 10.49, -66.88],
+      ['Z', 'Amazonas', 3.42, -65.86],
+      ['B', 'Anzoátegui', 8.59, -64.17],
+      ['C', 'Apure', 7.13, -68.87],
+      ['D', 'Aragua', 10.05, -67.29],
+      ['E', 'Barinas', 8.11, -70.06],
+      ['F', 'Bolívar', 6.13, -63.53],
+      ['G', 'Carabobo', 10.12, -68.05],
+      ['H', 'Cojedes', 9.38, -68.33],
+      ['Y', 'Delta Amacuro', 8.84, -61.40],
+      ['I', 'Falcón', 11.18, -69.86],
+      ['J', 'Guárico', 8.75, -66.24],
+      ['K', 'Lara', 10.07, -69.86],
+      ['L', 'Mérida', 8.48, -71.19],
+      ['M', 'Miranda', 10.25, -66.42],
+      ['N', 'Monagas', 9.32, -63.01],
+      ['O', 'Nueva Esparta', 10.99, -63.91],
+      ['P', 'Portuguesa', 9.09, -69.10],
+      ['R', 'Sucre', 10.44, -63.50],
+      ['S', 'Táchira', 7.91, -72.14],
+      ['T', 'Trujillo', 9.37, -70.43],
+      ['X', 'La Guaira', 10.60, -66.93],
+      ['U', 'Yaracuy', 10.34, -68.74],
+      ['V', 'Zulia', 10.29, -72.14]
+    ]
+  },
+  nl: {
+    center: [52.1326, 5.2913],
+    area: 42,
+    subdivisionLabel: 'Province',
+    subdivisions: [
+      ['DR', 'Drenthe', 52.86, 6.62],
+      ['FL', 'Flevoland', 52.53, 5.60],
+      ['FR', 'Friesland', 53.16, 5.78],
+      ['GE', 'Gelderland', 52.05, 5.87],
+      ['GR', 'Groningen', 53.22, 6.74],
+      ['LI', 'Limburg', 51.21, 5.94],
+      ['NB', 'North Brabant', 51.48, 5.23],
+      ['NH', 'North Holland', 52.52, 4.79],
+      ['OV', 'Overijssel', 52.44, 6.50],
+      ['UT', 'Utrecht', 52.09, 5.12],
+      ['ZE', 'Zeeland', 51.49, 3.85],
+      ['ZH', 'South Holland', 52.02, 4.49]
+    ]
+  },
+  be: {
+    center: [50.5039, 4.4699],
+    area: 31,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['BRU', 'Brussels', 50.85, 4.35],
+      ['VLG', 'Flanders', 51.01, 4.24],
+      ['WAL', 'Wallonia', 50.42, 4.85]
+    ]
+  },
+  se: {
+    center: [60.1282, 18.6435],
+    area: 450,
+    subdivisionLabel: 'County',
+    subdivisions: [
+      ['K', 'Blekinge', 56.28, 15.11],
+      ['W', 'Dalarna', 61.09, 14.67],
+      ['I', 'Gotland', 57.47, 18.49],
+      ['X', 'Gävleborg', 61.30, 16.15],
+      ['N', 'Halland', 56.89, 12.81],
+      ['Z', 'Jämtland', 63.17, 14.96],
+      ['F', 'Jönköping', 57.37, 14.34],
+      ['H', 'Kalmar', 57.24, 16.18],
+      ['G', 'Kronoberg', 56.72, 14.41],
+      ['BD', 'Norrbotten', 66.83, 20.40],
+      ['M', 'Skåne', 55.99, 13.60],
+      ['AB', 'Stockholm', 59.33, 18.07],
+      ['D', 'Södermanland', 59.03, 16.75],
+      ['C', 'Uppsala', 60.01, 17.27],
+      ['S', 'Värmland', 59.73, 13.24],
+      ['AC', 'Västerbotten', 65.33, 16.52],
+      ['Y', 'Västernorrland', 63.43, 17.73],
+      ['U', 'Västmanland', 59.67, 16.22],
+      ['O', 'Västra Götaland', 58.25, 13.06],
+      ['T', 'Örebro', 59.54, 15.01],
+      ['E', 'Östergötland', 58.35, 15.51]
+    ]
+  },
+  no: {
+    center: [60.4720, 8.4689],
+    area: 385,
+    subdivisionLabel: 'County',
+    subdivisions: [
+      ['03', 'Oslo', 59.91, 10.75],
+      ['11', 'Rogaland', 59.15, 6.01],
+      ['15', 'Møre og Romsdal', 62.85, 7.37],
+      ['18', 'Nordland', 67.69, 14.91],
+      ['31', 'Østfold', 59.28, 11.11],
+      ['32', 'Akershus', 60.00, 11.04],
+      ['33', 'Buskerud', 60.23, 9.05],
+      ['34', 'Innlandet', 61.19, 10.37],
+      ['39', 'Vestfold', 59.26, 10.25],
+      ['40', 'Telemark', 59.39, 8.32],
+      ['42', 'Agder', 58.74, 7.75],
+      ['46', 'Vestland', 60.91, 6.37],
+      ['50', 'Trøndelag', 63.54, 10.94],
+      ['55', 'Troms', 69.35, 19.23],
+      ['56', 'Finnmark', 70.15, 25.54]
+    ]
+  },
+  dk: {
+    center: [56.2639, 9.5018],
+    area: 43,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['84', 'Capital Region', 55.79, 12.35],
+      ['82', 'Central Jutland', 56.30, 9.30],
+      ['81', 'North Jutland', 57.05, 9.92],
+      ['85', 'Zealand', 55.46, 11.72],
+      ['83', 'Southern Denmark', 55.33, 9.09]
+    ]
+  },
+  fi: {
+    center: [61.9241, 25.7482],
+    area: 338,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['01', 'Åland', 60.18, 19.92],
+      ['02', 'South Karelia', 61.06, 28.19],
+      ['03', 'South Ostrobothnia', 62.79, 22.84],
+      ['04', 'South Savo', 61.69, 27.27],
+      ['05', 'Kainuu', 64.37, 28.75],
+      ['06', 'Tavastia Proper', 60.91, 24.30],
+      ['07', 'Central Ostrobothnia', 63.56, 24.00],
+      ['08', 'Central Finland', 62.56, 25.59],
+      ['09', 'Kymenlaakso', 60.78, 26.89],
+      ['10', 'Lapland', 67.92, 26.50],
+      ['11', 'Pirkanmaa', 61.70, 23.73],
+      ['12', 'Ostrobothnia', 62.96, 22.01],
+      ['13', 'North Karelia', 62.81, 30.15],
+      ['14', 'North Ostrobothnia', 65.01, 25.47],
+      ['15', 'North Savo', 63.08, 27.02],
+      ['16', 'Päijät-Häme', 61.32, 25.73],
+      ['17', 'Satakunta', 61.59, 22.15],
+      ['18', 'Uusimaa', 60.22, 24.87],
+      ['19', 'Southwest Finland', 60.45, 22.27]
+    ]
+  },
+  pl: {
+    center: [51.9194, 19.1451],
+    area: 313,
+    subdivisionLabel: 'Voivodeship',
+    subdivisions: [
+      ['DS', 'Lower Silesia', 51.13, 16.38],
+      ['KP', 'Kuyavia-Pomerania', 53.16, 18.48],
+      ['LU', 'Lublin', 51.22, 22.90],
+      ['LB', 'Lubusz', 52.23, 15.26],
+      ['LD', 'Łódź', 51.46, 19.47],
+      ['MA', 'Lesser Poland', 49.85, 20.27],
+      ['MZ', 'Masovia', 52.40, 21.10],
+      ['OP', 'Opole', 50.67, 17.92],
+      ['PK', 'Subcarpathia', 49.94, 22.20],
+      ['PD', 'Podlaskie', 53.13, 22.95],
+      ['PM', 'Pomerania', 54.29, 18.15],
+      ['SL', 'Silesia', 50.57, 19.02],
+      ['SK', 'Holy Cross', 50.79, 20.77],
+      ['WN', 'Warmia-Masuria', 53.87, 20.70],
+      ['WP', 'Greater Poland', 52.28, 17.35],
+      ['ZP', 'West Pomerania', 53.47, 15.51]
+    ]
+  },
+  at: {
+    center: [47.5162, 14.5501],
+    area: 84,
+    subdivisionLabel: 'State',
+    subdivisions: [
+      ['1', 'Burgenland', 47.50, 16.47],
+      ['2', 'Carinthia', 46.72, 13.86],
+      ['3', 'Lower Austria', 48.22, 15.76],
+      ['4', 'Upper Austria', 48.03, 13.97],
+      ['5', 'Salzburg', 47.41, 13.19],
+      ['6', 'Styria', 47.26, 15.01],
+      ['7', 'Tyrol', 47.22, 11.38],
+      ['8', 'Vorarlberg', 47.25, 9.91],
+      ['9', 'Vienna', 48.21, 16.37]
+    ]
+  },
+  ch: {
+    center: [46.8182, 8.2275],
+    area: 41,
+    subdivisionLabel: 'Canton',
+    subdivisions: [
+      ['AG', 'Aargau', 47.39, 8.16],
+      ['AR', 'Appenzell Ausserrhoden', 47.37, 9.30],
+      ['AI', 'Appenzell Innerrhoden', 47.32, 9.42],
+      ['BL', 'Basel-Landschaft', 47.44, 7.76],
+      ['BS', 'Basel-Stadt', 47.56, 7.59],
+      ['BE', 'Bern', 46.80, 7.63],
+      ['FR', 'Fribourg', 46.68, 7.10],
+      ['GE', 'Geneva', 46.20, 6.14],
+      ['GL', 'Glarus', 46.98, 9.07],
+      ['GR', 'Graubünden', 46.66, 9.63],
+      ['JU', 'Jura', 47.35, 7.16],
+      ['LU', 'Lucerne', 47.07, 8.11],
+      ['NE', 'Neuchâtel', 46.99, 6.78],
+      ['NW', 'Nidwalden', 46.93, 8.39],
+      ['OW', 'Obwalden', 46.85, 8.25],
+      ['SG', 'St. Gallen', 47.15, 9.35],
+      ['SH', 'Schaffhausen', 47.72, 8.59],
+      ['SZ', 'Schwyz', 47.06, 8.76],
+      ['SO', 'Solothurn', 47.30, 7.64],
+      ['TG', 'Thurgau', 47.58, 9.09],
+      ['TI', 'Ticino', 46.33, 8.80],
+      ['UR', 'Uri', 46.77, 8.63],
+      ['VS', 'Valais', 46.21, 7.61],
+      ['VD', 'Vaud', 46.56, 6.57],
+      ['ZG', 'Zug', 47.16, 8.53],
+      ['ZH', 'Zürich', 47.41, 8.65]
+    ]
+  },
+  gr: {
+    center: [39.0742, 21.8243],
+    area: 132,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['A', 'Eastern Macedonia and Thrace', 41.13, 25.14],
+      ['B', 'Central Macedonia', 40.64, 22.94],
+      ['C', 'Western Macedonia', 40.30, 21.79],
+      ['D', 'Epirus', 39.59, 20.74],
+      ['E', 'Thessaly', 39.51, 22.20],
+      ['F', 'Ionian Islands', 38.64, 20.59],
+      ['G', 'Western Greece', 38.25, 21.73],
+      ['H', 'Central Greece', 38.60, 22.71],
+      ['I', 'Attica', 38.05, 23.80],
+      ['J', 'Peloponnese', 37.51, 22.37],
+      ['K', 'North Aegean', 39.10, 26.35],
+      ['L', 'South Aegean', 36.74, 25.33],
+      ['M', 'Crete', 35.24, 24.81]
+    ]
+  },
+  pt: {
+    center: [39.3999, -8.2245],
+    area: 92,
+    subdivisionLabel: 'District or region',
+    subdivisions: [
+      ['01', 'Aveiro', 40.64, -8.65],
+      ['02', 'Beja', 37.83, -7.86],
+      ['03', 'Braga', 41.55, -8.42],
+      ['04', 'Bragança', 41.81, -6.76],
+      ['05', 'Castelo Branco', 39.82, -7.49],
+      ['06', 'Coimbra', 40.21, -8.43],
+      ['07', 'Évora', 38.57, -7.91],
+      ['08', 'Faro', 37.02, -7.93],
+      ['09', 'Guarda', 40.54, -7.27],
+      ['10', 'Leiria', 39.74, -8.81],
+      ['11', 'Lisbon', 38.72, -9.14],
+      ['12', 'Portalegre', 39.29, -7.43],
+      ['13', 'Porto', 41.15, -8.61],
+      ['14', 'Santarém', 39.24, -8.69],
+      ['15', 'Setúbal', 38.52, -8.89],
+      ['16', 'Viana do Castelo', 41.69, -8.83],
+      ['17', 'Vila Real', 41.30, -7.74],
+      ['18', 'Viseu', 40.66, -7.91],
+      ['20', 'Azores', 37.74, -25.68],
+      ['30', 'Madeira', 32.76, -16.96]
+    ]
+  },
+  ie: {
+    center: [53.4129, -8.2439],
+    area: 70,
+    subdivisionLabel: 'Province',
+    subdivisions: [
+      ['C', 'Connacht', 53.83, -9.00],
+      ['L', 'Leinster', 53.18, -6.88],
+      ['M', 'Munster', 52.30, -8.66],
+      ['U', 'Ulster', 54.90, -7.70]
+    ]
+  },
+  nz: {
+    center: [-40.9006, 174.8860],
+    area: 268,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['AUK', 'Auckland', -36.85, 174.76],
+      ['BOP', 'Bay of Plenty', -38.14, 176.25],
+      ['CAN', 'Canterbury', -43.53, 171.50],
+      ['GIS', 'Gisborne', -38.66, 177.98],
+      ['HKB', "Hawke's Bay", -39.49, 176.91],
+      ['MWT', 'Manawatū-Whanganui', -39.73, 175.44],
+      ['MBH', 'Marlborough', -41.51, 173.95],
+      ['NSN', 'Nelson', -41.27, 173.28],
+      ['NTL', 'Northland', -35.41, 173.93],
+      ['OTA', 'Otago', -45.48, 169.83],
+      ['STL', 'Southland', -45.85, 167.94],
+      ['TKI', 'Taranaki', -39.35, 174.44],
+      ['TAS', 'Tasman', -41.46, 172.79],
+      ['WKO', 'Waikato', -37.79, 175.28],
+      ['WGN', 'Wellington', -41.29, 174.78],
+      ['WTC', 'West Coast', -42.45, 171.21]
+    ]
+  },
+  sg: {
+    center: [1.3521, 103.8198],
+    area: 0.73,
+    subdivisionLabel: 'District',
+    subdivisions: [
+      ['01', 'Central Singapore', 1.29, 103.85],
+      ['02', 'North East', 1.38, 103.89],
+      ['03', 'North West', 1.42, 103.79],
+      ['04', 'South East', 1.34, 103.94],
+      ['05', 'South West', 1.35, 103.70]
+    ]
+  },
+  my: {
+    center: [4.2105, 101.9758],
+    area: 330,
+    subdivisionLabel: 'State or territory',
+    subdivisions: [
+      ['01', 'Johor', 1.94, 103.38],
+      ['02', 'Kedah', 6.12, 100.37],
+      ['03', 'Kelantan', 5.31, 102.00],
+      ['04', 'Malacca', 2.19, 102.25],
+      ['05', 'Negeri Sembilan', 2.73, 102.25],
+      ['06', 'Pahang', 3.81, 103.33],
+      ['07', 'Penang', 5.41, 100.33],
+      ['08', 'Perak', 4.59, 101.09],
+      ['09', 'Perlis', 6.44, 100.20],
+      ['10', 'Selangor', 3.07, 101.52],
+      ['11', 'Terengganu', 5.31, 103.13],
+      ['12', 'Sabah', 5.42, 116.80],
+      ['13', 'Sarawak', 2.50, 112.50],
+      ['14', 'Kuala Lumpur', 3.14, 101.69],
+      ['15', 'Labuan', 5.28, 115.24],
+      ['16', 'Putrajaya', 2.93, 101.69]
+    ]
+  },
+  th: {
+    center: [15.8700, 100.9925],
+    area: 513,
+    subdivisionLabel: 'Province',
+    subdivisions: [
+      ['10', 'Bangkok', 13.76, 100.50],
+      ['37', 'Amnat Charoen', 15.86, 104.63],
+      ['15', 'Ang Thong', 14.59, 100.46],
+      ['38', 'Bueng Kan', 18.36, 103.65],
+      ['31', 'Buri Ram', 14.99, 103.10],
+      ['24', 'Chachoengsao', 13.69, 101.08],
+      ['18', 'Chai Nat', 15.19, 100.13],
+      ['36', 'Chaiyaphum', 15.81, 102.03],
+      ['22', 'Chanthaburi', 12.61, 102.10],
+      ['50', 'Chiang Mai', 18.79, 98.98],
+      ['57', 'Chiang Rai', 19.91, 99.83],
+      ['20', 'Chon Buri', 13.36, 100.98],
+      ['86', 'Chumphon', 10.49, 99.18],
+      ['46', 'Kalasin', 16.43, 103.51],
+      ['62', 'Kamphaeng Phet', 16.48, 99.52],
+      ['71', 'Kanchanaburi', 14.02, 99.53],
+      ['40', 'Khon Kaen', 16.44, 102.84],
+      ['81', 'Krabi', 8.09, 98.91],
+      ['52', 'Lampang', 18.29, 99.49],
+      ['51', 'Lamphun', 18.58, 99.01],
+      ['42', 'Loei', 17.49, 101.72],
+      ['16', 'Lop Buri', 14.80, 100.65],
+      ['58', 'Mae Hong Son', 19.30, 97.97],
+      ['44', 'Maha Sarakham', 16.18, 103.30],
+      ['49', 'Mukdahan', 16.54, 104.72],
+      ['26', 'Nakhon Nayok', 14.20, 101.21],
+      ['73', 'Nakhon Pathom', 13.82, 100.06],
+      ['48', 'Nakhon Phanom', 17.41, 104.78],
+      ['30', 'Nakhon Ratchasima', 14.98, 102.10],
+      ['60', 'Nakhon Sawan', 15.70, 100.14],
+      ['80', 'Nakhon Si Thammarat', 8.43, 99.96],
+      ['55', 'Nan', 18.78, 100.78],
+      ['96', 'Narathiwat', 6.43, 101.82],
+      ['39', 'Nong Bua Lam Phu', 17.20, 102.44],
+      ['43', 'Nong Khai', 17.88, 102.74],
+      ['12', 'Nonthaburi', 13.86, 100.52],
+      ['13', 'Pathum Thani', 14.02, 100.53],
+      ['94', 'Pattani', 6.87, 101.25],
+      ['82', 'Phang Nga', 8.45, 98.53],
+      ['93', 'Phatthalung', 7.62, 100.08],
+      ['56', 'Phayao', 19.17, 99.90],
+      ['67', 'Phetchabun', 16.42, 101.16],
+      ['76', 'Phetchaburi', 13.11, 99.94],
+      ['66', 'Phichit', 16.44, 100.35],
+      ['65', 'Phitsanulok', 16.82, 100.26],
+      ['14', 'Phra Nakhon Si Ayutthaya', 14.35, 100.57],
+      ['54', 'Phrae', 18.14, 100.14],
+      ['83', 'Phuket', 7.88, 98.39],
+      ['25', 'Prachin Buri', 14.05, 101.37],
+      ['77', 'Prachuap Khiri Khan', 11.81, 99.80],
+      ['85', 'Ranong', 9.96, 98.64],
+      ['70', 'Ratchaburi', 13.54, 99.82],
+      ['21', 'Rayong', 12.68, 101.28],
+      ['45', 'Roi Et', 16.05, 103.65],
+      ['27', 'Sa Kaeo', 13.82, 102.07],
+      ['47', 'Sakon Nakhon', 17.16, 104.15],
+      ['11', 'Samut Prakan', 13.60, 100.60],
+      ['74', 'Samut Sakhon', 13.55, 100.27],
+      ['75', 'Samut Songkhram', 13.41, 100.00],
+      ['19', 'Saraburi', 14.53, 100.91],
+      ['91', 'Satun', 6.62, 100.07],
+      ['33', 'Si Sa Ket', 15.12, 104.32],
+      ['17', 'Sing Buri', 14.89, 100.40],
+      ['90', 'Songkhla', 7.19, 100.60],
+      ['64', 'Sukhothai', 17.01, 99.82],
+      ['72', 'Suphan Buri', 14.47, 100.12],
+      ['84', 'Surat Thani', 9.14, 99.33],
+      ['32', 'Surin', 14.88, 103.49],
+      ['63', 'Tak', 16.88, 99.13],
+      ['92', 'Trang', 7.56, 99.61],
+      ['23', 'Trat', 12.24, 102.52],
+      ['34', 'Ubon Ratchathani', 15.24, 104.85],
+      ['41', 'Udon Thani', 17.41, 102.79],
+      ['61', 'Uthai Thani', 15.38, 100.02],
+      ['53', 'Uttaradit', 17.62, 100.10],
+      ['95', 'Yala', 6.54, 101.28],
+      ['35', 'Yasothon', 15.79, 104.15]
+    ]
+  },
+  ph: {
+    center: [12.8797, 121.7740],
+    area: 300,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['00', 'Metro Manila', 14.60, 120.98],
+      ['01', 'Ilocos', 16.08, 120.62],
+      ['02', 'Cagayan Valley', 16.98, 121.81],
+      ['03', 'Central Luzon', 15.48, 120.71],
+      ['40', 'Calabarzon', 14.10, 121.08],
+      ['41', 'Mimaropa', 12.41, 119.96],
+      ['05', 'Bicol', 13.42, 123.41],
+      ['06', 'Western Visayas', 11.00, 122.54],
+      ['07', 'Central Visayas', 10.31, 123.89],
+      ['08', 'Eastern Visayas', 11.70, 125.00],
+      ['09', 'Zamboanga Peninsula', 7.83, 122.44],
+      ['10', 'Northern Mindanao', 8.02, 124.69],
+      ['11', 'Davao', 7.30, 125.68],
+      ['12', 'Soccsksargen', 6.27, 124.69],
+      ['13', 'Caraga', 8.80, 125.74],
+      ['14', 'Bangsamoro', 7.22, 124.25],
+      ['15', 'Cordillera', 17.35, 121.17]
+    ]
+  },
+  id: {
+    center: [-0.7893, 113.9213],
+    area: 1905,
+    subdivisionLabel: 'Region',
+    subdivisions: [
+      ['JW', 'Java', -7.31, 110.00],
+      ['KA', 'Kalimantan', 0.00, 114.00],
+      ['ML', 'Maluku Islands', -3.24, 130.15],
+      ['NU', 'Lesser Sunda Islands', -8.66, 119.00],
+      ['PP', 'Western New Guinea', -4.27, 138.08],
+      ['SL', 'Sulawesi', -1.85, 120.53],
+      ['SM', 'Sumatra', -0.59, 101.34]
+    ]
+  },
+  vn: {
+    center: [14.0583, 108.2772],
+    area: 331,
+    subdivisionLabel: 'Province or city',
+    subdivisions: [
+      ['HN', 'Hanoi', 21.03, 105.85],
+      ['26', 'Huế', 16.46, 107.59],
+      ['HP', 'Hai Phong', 20.84, 106.69],
+      ['DN', 'Da Nang', 16.05, 108.20],
+      ['SG', 'Ho Chi Minh City', 10.82, 106.63],
+      ['CT', 'Can Tho', 10.05, 105.75],
+      ['04', 'Cao Bang', 22.67, 106.26],
+      ['71', 'Dien Bien', 21.39, 103.02],
+      ['01', 'Lai Chau', 22.40, 103.46],
+      ['09', 'Lang Son', 21.85, 106.76],
+      ['05', 'Son La', 21.33, 103.91],
+      ['07', 'Tuyen Quang', 22.15, 105.20],
+      ['02', 'Lao Cai', 22.20, 104.30],
+      ['69', 'Thai Nguyen', 21.80, 105.90],
+      ['68', 'Phu Tho', 21.30, 105.25],
+      ['56', 'Bac Ninh', 21.27, 106.20],
+      ['66', 'Hung Yen', 20.65, 106.30],
+      ['18', 'Ninh Binh', 20.35, 106.00],
+      ['13', 'Quang Ninh', 21.01, 107.29],
+      ['21', 'Thanh Hoa', 19.81, 105.78],
+      ['22', 'Nghe An', 19.23, 104.92],
+      ['23', 'Ha Tinh', 18.34, 105.91],
+      ['25', 'Quang Tri', 17.10, 106.60],
+      ['29', 'Quang Ngai', 14.90, 108.40],
+      ['30', 'Gia Lai', 13.98, 108.60],
+      ['34', 'Khanh Hoa', 11.95, 108.85],
+      ['35', 'Lam Dong', 11.80, 107.90],
+      ['33', 'Dak Lak', 12.90, 108.55],
+      ['39', 'Dong Nai', 11.30, 107.00],
+      ['37', 'Tay Ninh', 11.00, 106.10],
+      ['49', 'Vinh Long', 10.10, 106.20],
+      ['45', 'Dong Thap', 10.40, 105.95],
+      ['59', 'Ca Mau', 9.18, 105.15],
+      ['44', 'An Giang', 10.30, 105.10]
+    ]
+  },
+  tr: {
+    center: [38.9637, 35.2433],
+    area: 784,
+    subdivisionLabel: 'Province',
+    subdivisions: [
+      ['01', 'Adana', 37.00, 35.32],
+      ['02', 'Adıyaman', 37.76, 38.28],
+      ['03', 'Afyonkarahisar', 38.76, 30.54],
+      ['04', 'Ağrı', 39.72, 43.05],
+      ['05', 'Amasya', 40.65, 35.83],
+      ['06', 'Ankara', 39.93, 32.86],
+      ['07', 'Antalya', 36.90, 30.70],
+      ['08', 'Artvin', 41.18, 41.82],
+      ['09', 'Aydın', 37.84, 27.84],
+      ['10', 'Balıkesir', 39.65, 27.88],
+      ['11', 'Bilecik', 40.14, 29.98],
+      ['12', 'Bingöl', 38.88, 40.50],
+      ['13', 'Bitlis', 38.40, 42.11],
+      ['14', 'Bolu', 40.74, 31.61],
+      ['15', 'Burdur', 37.72, 30.29],
+      ['16', 'Bursa', 40.19, 29.06],
+      ['17', 'Çanakkale', 40.15, 26.41],
+      ['18', 'Çankırı', 40.60, 33.62],
+      ['19', 'Çorum', 40.55, 34.96],
+      ['20', 'Denizli', 37.78, 29.09],
+      ['21', 'Diyarbakır', 37.91, 40.24],
+      ['22', 'Edirne', 41.68, 26.56],
+      ['23', 'Elazığ', 38.68, 39.22],
+      ['24', 'Erzincan', 39.75, 39.49],
+      ['25', 'Erzurum', 39.90, 41.27],
+      ['26', 'Eskişehir', 39.78, 30.52],
+      ['27', 'Gaziantep', 37.07, 37.38],
+      ['28', 'Giresun', 40.91, 38.39],
+      ['29', 'Gümüşhane', 40.46, 39.48],
+      ['30', 'Hakkâri', 37.57, 43.74],
+      ['31', 'Hatay', 36.20, 36.16],
+      ['32', 'Isparta', 37.76, 30.55],
+      ['33', 'Mersin', 36.81, 34.64],
+      ['34', 'Istanbul', 41.01, 28.98],
+      ['35', 'İzmir', 38.42, 27.14],
+      ['36', 'Kars', 40.60, 43.10],
+      ['37', 'Kastamonu', 41.38, 33.78],
+      ['38', 'Kayseri', 38.73, 35.48],
+      ['39', 'Kırklareli', 41.73, 27.22],
+      ['40', 'Kırşehir', 39.15, 34.16],
+      ['41', 'Kocaeli', 40.77, 29.92],
+      ['42', 'Konya', 37.87, 32.48],
+      ['43', 'Kütahya', 39.42, 29.98],
+      ['44', 'Malatya', 38.35, 38.31],
+      ['45', 'Manisa', 38.61, 27.43],
+      ['46', 'Kahramanmaraş', 37.58, 36.94],
+      ['47', 'Mardin', 37.31, 40.74],
+      ['48', 'Muğla', 37.22, 28.36],
+      ['49', 'Muş', 38.75, 41.51],
+      ['50', 'Nevşehir', 38.62, 34.71],
+      ['51', 'Niğde', 37.97, 34.68],
+      ['52', 'Ordu', 40.98, 37.88],
+      ['53', 'Rize', 41.02, 40.52],
+      ['54', 'Sakarya', 40.78, 30.40],
+      ['55', 'Samsun', 41.29, 36.33],
+      ['56', 'Siirt', 37.93, 41.94],
+      ['57', 'Sinop', 42.03, 35.15],
+      ['58', 'Sivas', 39.75, 37.02],
+      ['59', 'Tekirdağ', 40.98, 27.51],
+      ['60', 'Tokat', 40.31, 36.55],
+      ['61', 'Trabzon', 41.00, 39.72],
+      ['62', 'Tunceli', 39.11, 39.55],
+      ['63', 'Şanlıurfa', 37.16, 38.80],
+      ['64', 'Uşak', 38.68, 29.41],
+      ['65', 'Van', 38.49, 43.38],
+      ['66', 'Yozgat', 39.82, 34.81],
+      ['67', 'Zonguldak', 41.45, 31.79],
+      ['68', 'Aksaray', 38.37, 34.03],
+      ['69', 'Bayburt', 40.26, 40.23],
+      ['70', 'Karaman', 37.18, 33.22],
+      ['71', 'Kırıkkale', 39.85, 33.51],
+      ['72', 'Batman', 37.88, 41.13],
+      ['73', 'Şırnak', 37.52, 42.46],
+      ['74', 'Bartın', 41.63, 32.34],
+      ['75', 'Ardahan', 41.11, 42.70],
+      ['76', 'Iğdır', 39.92, 44.05],
+      ['77', 'Yalova', 40.66, 29.27],
+      ['78', 'Karabük', 41.20, 32.62],
+      ['79', 'Kilis', 36.72, 37.12],
+      ['80', 'Osmaniye', 37.07, 36.25],
+      ['81', 'Düzce', 40.84, 31.16]
+    ]
+  },
+  il: {
+    center: [31.0461, 34.8516],
+    area: 22,
+    subdivisionLabel: 'District',
+    subdivisions: [
+      ['D', 'Southern', 30.85, 34.78],
+      ['HA', 'Haifa', 32.65, 35.02],
+      ['JM', 'Jerusalem', 31.77, 35.04],
+      ['M', 'Central', 32.00, 34.90],
+      ['TA', 'Tel Aviv', 32.08, 34.78],
+      ['Z', 'Northern', 32.90, 35.40]
+    ]
+  },
+  ua: {
+    center: [48.3794, 31.1656],
+    area: 604,
+    subdivisionLabel: 'Oblast',
+    subdivisions: [
+      ['71', 'Cherkasy', 49.44, 32.06],
+      ['74', 'Chernihiv', 51.49, 31.29],
+      ['77', 'Chernivtsi', 48.29, 25.94],
+      ['43', 'Crimea', 45.04, 34.00],
+      ['12', 'Dnipropetrovsk', 48.46, 35.05],
+      ['14', 'Donetsk', 48.02, 37.80],
+      ['26', 'Ivano-Frankivsk', 48.92, 24.71],
+      ['63', 'Kharkiv', 49.99, 36.23],
+      ['65', 'Kherson', 46.64, 32.62],
+      ['68', 'Khmelnytskyi', 49.42, 26.99],
+      ['35', 'Kirovohrad', 48.51, 32.26],
+      ['30', 'Kyiv', 50.45, 30.52],
+      ['32', 'Kyiv Oblast', 50.05, 30.77],
+      ['09', 'Luhansk', 48.57, 39.31],
+      ['46', 'Lviv', 49.84, 24.03],
+      ['48', 'Mykolaiv', 46.98, 31.99],
+      ['51', 'Odesa', 46.48, 30.72],
+      ['53', 'Poltava', 49.59, 34.55],
+      ['56', 'Rivne', 50.62, 26.25],
+      ['40', 'Sevastopol', 44.62, 33.53],
+      ['59', 'Sumy', 50.91, 34.80],
+      ['61', 'Ternopil', 49.55, 25.59],
+      ['05', 'Vinnytsia', 49.23, 28.47],
+      ['07', 'Volyn', 50.75, 25.33],
+      ['21', 'Zakarpattia', 48.62, 22.29],
+      ['23', 'Zaporizhzhia', 47.84, 35.14],
+      ['18', 'Zhytomyr', 50.25, 28.66]
+    ]
+  }
+};
+
+export interface Subdivision {
+  value: string;
+  label: string;
+}
+
+// Alphabetical, for pickers; empty for countries without any
+export const getSubdivisions = (country: string): Subdivision[] =>
+  (GEO[country]?.subdivisions || [])
+    .map(([value, label]) => ({ value, label }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+// What the country calls its subdivisions, for picker labels
+export const getSubdivisionLabel = (country: string) => GEO[country]?.subdivisionLabel || 'Region';
+
+// Country name without its flag
+export const getCountryName = (country: string) =>
+  countries.find(c => c.value === country)?.label.replace(/^\S+\s/, '') || country;
+
+export const getSubdivisionName = (country: string, subdivision: string) =>
+  GEO[country]?.subdivisions.find(([value]) => value === subdivision)?.[1] || null;
+
+// "California, United States", or just the country
+export const getRegionName = (country: string, subdivision?: string | null) => {
+  const subdivisionName = subdivision ? getSubdivisionName(country, subdivision) : null;
+  return subdivisionName ? `${subdivisionName}, ${getCountryName(country)}` : getCountryName(country);
+};
+
+// Where to draw a region; null for places outside the dataset
+export const getRegionCenter = (country: string, subdivision?: string | null): [number, number] | null => {
+  const geo = GEO[country];
+  if (!geo) return null;
+
+  const row = subdivision ? geo.subdivisions.find(([value]) => value === subdivision) : null;
+  return row ? [row[2], row[3]] : geo.center;
+};
+
+// Radius of a circle with the region's area, sharing the country's area evenly
+// between its subdivisions since the dataset has no boundaries
+export const getRegionRadiusKm = (country: string, subdivision?: string | null) => {
+  const geo = GEO[country];
+  if (!geo) return 0;
+
+  const parts = subdivision && geo.subdivisions.length > 0 ? geo.subdivisions.length : 1;
+  return Math.sqrt((geo.area * 1000) / parts / Math.PI);
+};
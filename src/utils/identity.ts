@@ -0,0 +1,146 @@
+import { toast } from 'sonner';
+import {
+  repository,
+  CommunityAvatar,
+  IdentityDisplay,
+  IdentitySurface,
+  UserIdentity,
+  UserProfile
+} from './repository';
+
+export type { CommunityAvatar, IdentityDisplay, IdentitySurface, UserIdentity } from './repository';
+
+export const ALIAS_MIN_LENGTH = 2;
+export const ALIAS_MAX_LENGTH = 30;
+
+// Shown wherever a member chose not to be identified
+export const ANONYMOUS_NAME = 'Anonymous member';
+
+export const IDENTITY_SURFACES: { id: IdentitySurface; label: string; description: string }[] = [
+  { id: 'chat', label: 'Chat', description: 'Your name on messages in rooms and groups' },
+  { id: 'members', label: 'Members list', description: 'How you appear in the member list, group pickers and to partners' }
+];
+
+export const IDENTITY_DISPLAY_LABELS: Record<IdentityDisplay, string> = {
+  alias: 'Community alias',
+  username: 'Username',
+  anonymous: 'Anonymous'
+};
+
+const DEFAULT_IDENTITY_DISPLAY: Record<IdentitySurface, IdentityDisplay> = {
+  chat: 'alias',
+  members: 'alias'
+};
+
+export const AVATAR_EMOJIS = ['🌱', '🌿', '🌻', '🌊', '⛰️', '🌙', '⭐', '🔥', '🦁', '🦅', '🐢', '🦋', '🐻', '🦊', '🐺', '🕊️'];
+
+// Keys are stored on the profile; the classes are spelled out so Tailwind keeps them
+export const AVATAR_COLORS: Record<string, string> = {
+  slate: 'bg-slate-500',
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  amber: 'bg-amber-500',
+  green: 'bg-green-600',
+  teal: 'bg-teal-500',
+  sky: 'bg-sky-500',
+  indigo: 'bg-indigo-500',
+  violet: 'bg-violet-500',
+  pink: 'bg-pink-500'
+};
+
+// Members who haven't picked an avatar still get a stable one
+export const getDefaultAvatar = (userId: string): CommunityAvatar => {
+  const hash = Array.from(userId).reduce((total, char) => (total * 31 + char.charCodeAt(0)) >>> 0, 7);
+  const colors = Object.keys(AVATAR_COLORS);
+  return {
+    emoji: AVATAR_EMOJIS[hash % AVATAR_EMOJIS.length],
+    color: colors[Math.floor(hash / AVATAR_EMOJIS.length) % colors.length]
+  };
+};
+
+export const getIdentityDisplay = (profile: UserProfile | null | undefined, surface: IdentitySurface) =>
+  profile?.identityDisplay?.[surface] ?? DEFAULT_IDENTITY_DISPLAY[surface];
+
+// The name other members see for this member in the given place; never their legal name
+export const getPublicName = (profile: UserProfile | null | undefined, surface: IdentitySurface) => {
+  if (!profile) return 'Former member';
+
+  const display = getIdentityDisplay(profile, surface);
+  if (display === 'anonymous') return ANONYMOUS_NAME;
+  if (display === 'alias' && profile.alias) return profile.alias;
+  return profile.username || ANONYMOUS_NAME;
+};
+
+// Anonymous members share one neutral avatar so it can't be used to tell them apart
+export const getPublicAvatar = (profile: UserProfile | null | undefined, surface: IdentitySurface): CommunityAvatar | null => {
+  if (!profile || getIdentityDisplay(profile, surface) === 'anonymous') return null;
+  return profile.avatar ?? getDefaultAvatar(profile.id);
+};
+
+export const validateAlias = (alias: string) => {
+  const trimmed = alias.trim();
+  if (trimmed.length < ALIAS_MIN_LENGTH) return `Alias must be at least ${ALIAS_MIN_LENGTH} characters`;
+  if (trimmed.length > ALIAS_MAX_LENGTH) return `Alias must be at most ${ALIAS_MAX_LENGTH} characters`;
+  return null;
+};
+
+export const getUserIdentity = async (userId: string): Promise<UserIdentity | null> => {
+  try {
+    return await repository.users.getIdentity(userId);
+  } catch (error) {
+    console.error('Error fetching identity:', error);
+    return null;
+  }
+};
+
+export const updateUserIdentity = async (userId: string, identity: UserIdentity) => {
+  try {
+    await repository.users.setIdentity(userId, identity);
+    toast.success('Personal details saved');
+    return true;
+  } catch (error) {
+    console.error('Error updating identity:', error);
+    toast.error('Failed to save personal details');
+    return false;
+  }
+};
+
+// Real names by user id, for admins
+export const getAllIdentities = async (): Promise<Record<string, UserIdentity>> => {
+  try {
+    return await repository.users.listIdentities();
+  } catch (error) {
+    console.error('Error fetching identities:', error);
+    return {};
+  }
+};
+
+export const getRealName = (identity: UserIdentity | null | undefined) =>
+  [identity?.firstName, identity?.lastName].filter(Boolean).join(' ');
+
+// Profiles written before identities were kept apart still carry names, email and location
+const hasLegacyIdentity = (profile: UserProfile) =>
+  ['firstName', 'lastName', 'email', 'location'].some(field => field in profile);
+
+// Moves the signed-in member's own names and location off their public profile
+export const ensureIdentityMigrated = async (userId: string) => {
+  try {
+    await repository.users.migrateLegacyIdentity(userId);
+  } catch (error) {
+    console.error('Error moving identity off the profile:', error);
+  }
+};
+
+// Moves every member's names and location off their public profile (admin only); returns how many moved
+export const migrateLegacyIdentities = async () => {
+  try {
+    const profiles = await repository.users.list();
+    const moved = await Promise.all(profiles
+      .filter(hasLegacyIdentity)
+      .map(profile => repository.users.migrateLegacyIdentity(profile.id)));
+    return moved.filter(Boolean).length;
+  } catch (error) {
+    console.error('Error moving identities off profiles:', error);
+    return 0;
+  }
+};
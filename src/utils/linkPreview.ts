@@ -0,0 +1,67 @@
+import { LinkPreview } from './repository';
+
+// Pages that take longer than this get the plain preview
+const FETCH_TIMEOUT_MS = 5 * 1000;
+const TITLE_MAX_LENGTH = 120;
+const DESCRIPTION_MAX_LENGTH = 300;
+
+const clip = (value: string | null | undefined, length: number) => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  if (!text) return undefined;
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+};
+
+const readMeta = (doc: Document, ...names: string[]) => {
+  for (const name of names) {
+    const content = doc.querySelector(`meta[property="${name}"], meta[name="${name}"]`)?.getAttribute('content');
+    if (content?.trim()) return content;
+  }
+  return null;
+};
+
+/**
+ * Build a preview of a link from the page's OpenGraph tags. The page is read
+ * by the sender's own browser and parsed without running it, so no third
+ * party sees what is being shared. The page's image is left out: every reader
+ * would load it from the site, which could then tell who saw the message. Most
+ * sites refuse cross-origin reads; the preview then only names the site.
+ */
+export const fetchLinkPreview = async (href: string): Promise<LinkPreview | null> => {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  const preview: LinkPreview = { url: url.href, siteName: url.hostname.replace(/^www\./, '') };
+
+  try {
+    const response = await fetch(url.href, {
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      credentials: 'omit',
+      referrerPolicy: 'no-referrer'
+    });
+    if (!response.ok || !response.headers.get('content-type')?.includes('text/html')) {
+      return preview;
+    }
+
+    const doc = new DOMParser().parseFromString(await response.text(), 'text/html');
+    const title = clip(readMeta(doc, 'og:title', 'twitter:title') || doc.title, TITLE_MAX_LENGTH);
+    const description = clip(readMeta(doc, 'og:description', 'twitter:description', 'description'), DESCRIPTION_MAX_LENGTH);
+    const siteName = clip(readMeta(doc, 'og:site_name'), TITLE_MAX_LENGTH);
+
+    return {
+      ...preview,
+      ...(siteName && { siteName }),
+      ...(title && { title }),
+      ...(description && { description })
+    };
+  } catch {
+    // Blocked by CORS, offline or too slow: the plain preview still links the site
+    return preview;
+  }
+};
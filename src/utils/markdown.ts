@@ -0,0 +1,149 @@
+/**
+ * The small subset of markdown chat messages support: bold, italic, inline
+ * code, code blocks, lists and links. Messages are parsed into a tree that
+ * the UI renders as React elements, never as HTML, so nothing a sender types
+ * can inject markup. Links are only kept for http and https addresses.
+ */
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; lines: MarkdownInline[][] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'code'; text: string };
+
+// Order matters: code wins over emphasis, and explicit links over bare ones
+const INLINE_PATTERN = new RegExp([
+  /`([^`\n]+)`/.source,
+  /\*\*(.+?)\*\*/.source,
+  /(?<![\w*])\*([^*\s](?:[^*\n]*[^*\s])?)\*(?![\w*])/.source,
+  /(?<![\w_])_([^_\s](?:[^_\n]*[^_\s])?)_(?![\w_])/.source,
+  /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/.source,
+  /((?:https?:\/\/|www\.)[^\s<]*[^\s<.,:;"')\]!?])/.source
+].join('|'), 'g');
+
+const LIST_ITEM_PATTERN = /^\s*(?:([-*•])|(\d+)[.)])\s+(.*)$/;
+
+const toHref = (url: string) => (url.startsWith('www.') ? `https://${url}` : url);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const [whole, code, bold, starItalic, underscoreItalic, linkText, linkUrl, bareUrl] = match;
+    if (match.index > last) {
+      nodes.push({ type: 'text', text: text.slice(last, match.index) });
+    }
+
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (bold !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(bold) });
+    } else if (starItalic !== undefined || underscoreItalic !== undefined) {
+      nodes.push({ type: 'italic', children: parseInline(starItalic ?? underscoreItalic) });
+    } else if (linkText !== undefined) {
+      nodes.push({ type: 'link', href: linkUrl, children: parseInline(linkText) });
+    } else {
+      nodes.push({ type: 'link', href: toHref(bareUrl), children: [{ type: 'text', text: bareUrl }] });
+    }
+    last = match.index + whole.length;
+  }
+
+  if (last < text.length) {
+    nodes.push({ type: 'text', text: text.slice(last) });
+  }
+  return nodes;
+};
+
+export const parseMarkdown = (text: string): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code runs to the closing fence, or to the end of an unclosed one
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM_PATTERN);
+    if (listItem) {
+      const ordered = listItem[2] !== undefined;
+      const previous = blocks[blocks.length - 1];
+      const item = parseInline(listItem[3]);
+      if (previous?.type === 'list' && previous.ordered === ordered && lines[i - 1]?.trim()) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      continue;
+    }
+
+    // Consecutive lines stay one paragraph, keeping their line breaks
+    const previous = blocks[blocks.length - 1];
+    if (previous?.type === 'paragraph' && lines[i - 1]?.trim()) {
+      previous.lines.push(parseInline(line));
+    } else {
+      blocks.push({ type: 'paragraph', lines: [parseInline(line)] });
+    }
+  }
+
+  return blocks;
+};
+
+const inlineText = (nodes: MarkdownInline[]): string => nodes
+  .map(node => ('children' in node ? inlineText(node.children) : node.text))
+  .join('');
+
+// The message without its formatting, for previews such as the room list
+export const toPlainText = (text: string) => parseMarkdown(text)
+  .map(block => {
+    if (block.type === 'code') return block.text;
+    if (block.type === 'list') return block.items.map(inlineText).join(', ');
+    return block.lines.map(inlineText).join(' ');
+  })
+  .join(' ')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// Stands in for the text of a message that is only an image
+export const IMAGE_MESSAGE_TEXT = 'Photo';
+
+// One line for a message where formatting doesn't fit, as in the room list
+export const toPreviewText = (text: string, hasImage = false) =>
+  toPlainText(text) || (hasImage ? IMAGE_MESSAGE_TEXT : '');
+
+const findLink = (nodes: MarkdownInline[]): string | null => {
+  for (const node of nodes) {
+    if (node.type === 'link') return node.href;
+    if ('children' in node) {
+      const href = findLink(node.children);
+      if (href) return href;
+    }
+  }
+  return null;
+};
+
+// The first link outside code, which is the one a message previews
+export const findFirstLink = (text: string) => {
+  for (const block of parseMarkdown(text)) {
+    if (block.type === 'code') continue;
+    const href = findLink(block.type === 'list' ? block.items.flat() : block.lines.flat());
+    if (href) return href;
+  }
+  return null;
+};
@@ -0,0 +1,399 @@
+import { Timestamp } from 'firebase/firestore';
+import { toast } from 'sonner';
+import {
+  repository,
+  AccountAction,
+  ChatMessage,
+  ContentFilterSettings,
+  MessageReport,
+  ModerationAction,
+  ModerationLogEntry,
+  ReportStatus,
+  Suspension,
+  UserProfile
+} from './repository';
+import { CONTENT_FILTER_LABELS, ContentFilterResult, resolveContentFilter } from './contentFilter';
+import { toPreviewText } from './markdown';
+
+export type { AccountAction, ContentFilterSettings, MessageReport, ModerationAction, ModerationLogEntry, Suspension } from './repository';
+
+export const REPORT_REASONS = [
+  'Harassment or bullying',
+  'Explicit or triggering content',
+  'Encouraging relapse',
+  'Sharing personal information',
+  'Spam or advertising',
+  'Other'
+];
+
+// Shown in place of a removed message, and in the room list if it was the last one
+export const REMOVED_MESSAGE_TEXT = 'This message was removed by a moderator';
+
+const MODERATION_LOG_SIZE = 50;
+const MEMBER_HISTORY_SIZE = 50;
+
+// Every message runs through the filter, so its settings are only re-read this often
+const CONTENT_FILTER_CACHE_MS = 60 * 1000;
+
+let contentFilterCache: { settings: ContentFilterSettings; loadedAt: number } | null = null;
+
+export const MODERATION_ACTION_LABELS: Record<ModerationAction | AccountAction, string> = {
+  approve: 'Approved',
+  remove: 'Removed',
+  warn: 'Warned sender',
+  promote: 'Made admin',
+  demote: 'Removed admin',
+  suspend: 'Suspended',
+  ban: 'Banned',
+  reinstate: 'Reinstated',
+  'reset-password': 'Forced password reset'
+};
+
+const STATUS_FOR_ACTION: Record<ModerationAction, Exclude<ReportStatus, 'pending'>> = {
+  approve: 'approved',
+  remove: 'removed',
+  warn: 'warned'
+};
+
+// All pending reports about one message, as shown in the moderation queue
+export interface ReportedMessage {
+  roomId: string;
+  messageId: string;
+  messageText: string;
+  imageUrl?: string;
+  senderId: string;
+  reports: MessageReport[]; // Newest first
+}
+
+// Report a chat message to the moderators
+export const reportMessage = async (
+  roomId: string,
+  message: ChatMessage,
+  reporterId: string,
+  reason: string,
+  details?: string
+) => {
+  try {
+    await repository.moderation.addReport({
+      roomId,
+      messageId: message.id,
+      messageText: message.text,
+      ...(message.image && { imageUrl: message.image.url }),
+      senderId: message.senderId,
+      reporterId,
+      reason,
+      ...(details?.trim() && { details: details.trim() })
+    });
+    toast.success('Thanks for letting us know. A moderator will review this message.');
+    return true;
+  } catch (error) {
+    console.error("Error reporting message:", error);
+    toast.error("Failed to report message");
+    return false;
+  }
+};
+
+// File a report on the sender's own message when the content filter flags it
+export const flagFilteredMessage = async (
+  roomId: string,
+  messageId: string,
+  senderId: string,
+  result: ContentFilterResult,
+  imageUrl?: string
+) => {
+  try {
+    const kinds = result.matches
+      .filter(match => match.action === 'flag')
+      .map(match => CONTENT_FILTER_LABELS[match.kind].title);
+
+    await repository.moderation.addReport({
+      roomId,
+      messageId,
+      messageText: result.text,
+      ...(imageUrl && { imageUrl }),
+      senderId,
+      reporterId: senderId,
+      source: 'filter',
+      reason: `Content filter: ${kinds.join(', ')}`
+    });
+    return true;
+  } catch (error) {
+    console.error("Error flagging filtered message:", error);
+    return false;
+  }
+};
+
+// The saved content filter over the defaults; falls back to the defaults if it cannot be read
+export const getContentFilter = async (): Promise<ContentFilterSettings> => {
+  if (contentFilterCache && Date.now() - contentFilterCache.loadedAt < CONTENT_FILTER_CACHE_MS) {
+    return contentFilterCache.settings;
+  }
+
+  try {
+    const settings = resolveContentFilter(await repository.settings.getContentFilter());
+    contentFilterCache = { settings, loadedAt: Date.now() };
+    return settings;
+  } catch (error) {
+    console.error("Error loading content filter:", error);
+    return resolveContentFilter(null);
+  }
+};
+
+export const saveContentFilter = async (settings: ContentFilterSettings, adminId: string) => {
+  try {
+    const { updatedAt: _updatedAt, ...data } = settings;
+    await repository.settings.saveContentFilter({ ...data, updatedBy: adminId });
+    contentFilterCache = null;
+    toast.success('Content filter saved');
+    return true;
+  } catch (error) {
+    console.error("Error saving content filter:", error);
+    toast.error("Failed to save content filter");
+    return false;
+  }
+};
+
+// Pending reports grouped by message, most recently reported first
+export const getModerationQueue = async (): Promise<ReportedMessage[]> => {
+  try {
+    const reports = await repository.moderation.listReports('pending');
+    const queue = new Map<string, ReportedMessage>();
+
+    reports.forEach(report => {
+      const key = `${report.roomId}/${report.messageId}`;
+      if (!queue.has(key)) {
+        queue.set(key, {
+          roomId: report.roomId,
+          messageId: report.messageId,
+          messageText: report.messageText,
+          ...(report.imageUrl && { imageUrl: report.imageUrl }),
+          senderId: report.senderId,
+          reports: []
+        });
+      }
+      queue.get(key)!.reports.push(report);
+    });
+
+    return Array.from(queue.values());
+  } catch (error) {
+    console.error("Error fetching moderation queue:", error);
+    return [];
+  }
+};
+
+export const getModerationLog = async (): Promise<ModerationLogEntry[]> => {
+  try {
+    return await repository.moderation.listLog(MODERATION_LOG_SIZE);
+  } catch (error) {
+    console.error("Error fetching moderation log:", error);
+    return [];
+  }
+};
+
+// Replace the message with a tombstone so the conversation keeps its shape
+const removeMessage = async (item: ReportedMessage, moderatorId: string) => {
+  const message = await repository.messages.get(item.roomId, item.messageId);
+  await repository.messages.update(item.roomId, item.messageId, {
+    text: '',
+    image: null,
+    linkPreview: null,
+    removedAt: Timestamp.now(),
+    removedBy: moderatorId
+  });
+
+  if (message?.image) {
+    try {
+      await repository.attachments.remove(message.image.path);
+    } catch (error) {
+      console.error("Error removing message image:", error);
+    }
+  }
+
+  const room = await repository.rooms.get(item.roomId);
+  if (room?.lastMessage?.senderId === item.senderId && room.lastMessage.text === toPreviewText(item.messageText, !!item.imageUrl)) {
+    await repository.rooms.update(item.roomId, {
+      lastMessage: { ...room.lastMessage, text: REMOVED_MESSAGE_TEXT }
+    });
+  }
+};
+
+const warnSender = async (item: ReportedMessage) => {
+  const sender = await repository.users.get(item.senderId);
+  if (!sender) {
+    throw new Error(`User ${item.senderId} not found`);
+  }
+
+  await repository.users.update(item.senderId, {
+    warnings: [
+      ...(sender.warnings || []),
+      { reason: item.reports[0]?.reason || 'Community guidelines', at: Timestamp.now() }
+    ]
+  });
+};
+
+// Apply a moderator's decision to a reported message, close its reports and log it
+export const moderateMessage = async (
+  item: ReportedMessage,
+  action: ModerationAction,
+  moderatorId: string,
+  note?: string
+) => {
+  try {
+    if (action === 'remove') {
+      await removeMessage(item, moderatorId);
+    } else if (action === 'warn') {
+      await warnSender(item);
+    }
+
+    await Promise.all(item.reports.map(report =>
+      repository.moderation.resolveReport(report.id, STATUS_FOR_ACTION[action], moderatorId)
+    ));
+
+    await repository.moderation.addLogEntry({
+      moderatorId,
+      action,
+      roomId: item.roomId,
+      messageId: item.messageId,
+      messageText: item.messageText,
+      senderId: item.senderId,
+      reportIds: item.reports.map(report => report.id),
+      ...(note?.trim() && { note: note.trim() })
+    });
+
+    return true;
+  } catch (error) {
+    console.error("Error moderating message:", error);
+    toast.error("Failed to apply moderation decision");
+    return false;
+  }
+};
+
+// The member's suspension or ban while it is in force; mirrors isSuspended in firestore.rules
+export const getActiveSuspension = (profile: Pick<UserProfile, 'suspension'> | null | undefined, now = Date.now()) => {
+  const suspension = profile?.suspension;
+  if (!suspension || (suspension.until && suspension.until.toMillis() <= now)) {
+    return null;
+  }
+  return suspension;
+};
+
+// What a suspended or banned member is told when they try to post
+export const describeSuspension = (suspension: Suspension) =>
+  suspension.kind === 'banned'
+    ? 'Your account has been banned'
+    : `Your account is suspended${suspension.until ? ` until ${suspension.until.toDate().toLocaleString()}` : ''}`;
+
+const logAccountAction = (
+  moderatorId: string,
+  userId: string,
+  action: AccountAction,
+  { note, until }: { note?: string; until?: Timestamp | null } = {}
+) =>
+  repository.moderation.addLogEntry({
+    moderatorId,
+    action,
+    senderId: userId,
+    ...(note?.trim() && { note: note.trim() }),
+    ...(until !== undefined && { until })
+  });
+
+// Make a member an admin or take it away; admins can't demote themselves, so there is always one left
+export const setUserRole = async (userId: string, role: 'admin' | 'member', moderatorId: string) => {
+  if (userId === moderatorId && role !== 'admin') {
+    toast.error("You can't remove your own admin role");
+    return false;
+  }
+
+  try {
+    await repository.users.update(userId, { role });
+    await logAccountAction(moderatorId, userId, role === 'admin' ? 'promote' : 'demote');
+    toast.success(role === 'admin' ? 'Member promoted to admin' : 'Admin role removed');
+    return true;
+  } catch (error) {
+    console.error("Error changing user role:", error);
+    toast.error("Failed to change role");
+    return false;
+  }
+};
+
+// Stop a member posting until `until`, or for good when banned
+export const suspendUser = async (
+  userId: string,
+  { kind, reason, until }: Pick<Suspension, 'kind' | 'reason' | 'until'>,
+  moderatorId: string
+) => {
+  if (userId === moderatorId) {
+    toast.error("You can't suspend your own account");
+    return false;
+  }
+  if (!reason.trim()) {
+    toast.error('Please give a reason');
+    return false;
+  }
+  if (kind === 'suspended' && (!until || until.toMillis() <= Date.now())) {
+    toast.error('Suspensions need an end in the future');
+    return false;
+  }
+
+  try {
+    const suspension: Suspension = {
+      kind,
+      reason: reason.trim(),
+      until: kind === 'banned' ? null : until,
+      by: moderatorId,
+      at: Timestamp.now()
+    };
+    await repository.users.update(userId, { suspension });
+    await logAccountAction(moderatorId, userId, kind === 'banned' ? 'ban' : 'suspend', {
+      note: suspension.reason,
+      until: suspension.until
+    });
+    toast.success(kind === 'banned' ? 'Member banned' : 'Member suspended');
+    return true;
+  } catch (error) {
+    console.error("Error suspending user:", error);
+    toast.error("Failed to suspend member");
+    return false;
+  }
+};
+
+// Lift a suspension or ban early
+export const reinstateUser = async (userId: string, moderatorId: string, note?: string) => {
+  try {
+    await repository.users.update(userId, { suspension: null });
+    await logAccountAction(moderatorId, userId, 'reinstate', { note });
+    toast.success('Member reinstated');
+    return true;
+  } catch (error) {
+    console.error("Error reinstating user:", error);
+    toast.error("Failed to reinstate member");
+    return false;
+  }
+};
+
+// Email the member a reset link and keep them on their security settings until they change their password
+export const requirePasswordReset = async (userId: string, email: string, moderatorId: string) => {
+  try {
+    await repository.users.requirePasswordReset(userId);
+    if (email) {
+      await repository.auth.sendPasswordReset(email);
+    }
+    await logAccountAction(moderatorId, userId, 'reset-password');
+    toast.success(email ? 'Password reset required and email sent' : 'Password reset required');
+    return true;
+  } catch (error) {
+    console.error("Error requiring password reset:", error);
+    toast.error("Failed to require a password reset");
+    return false;
+  }
+};
+
+// Everything moderators have decided about one member, newest first
+export const getUserModerationHistory = async (userId: string): Promise<ModerationLogEntry[]> => {
+  try {
+    return await repository.moderation.listLogForUser(userId, MEMBER_HISTORY_SIZE);
+  } catch (error) {
+    console.error("Error fetching moderation history:", error);
+    return [];
+  }
+};
@@ -0,0 +1,225 @@
+import { Timestamp } from 'firebase/firestore';
+import { toast } from 'sonner';
+import {
+  repository,
+  PartnerAlert,
+  PartnerAlertType,
+  PartnerProgress,
+  PartnerShareKey,
+  PartnerSharing,
+  Partnership,
+  Unsubscribe
+} from './repository';
+import { getRelapseData, getStreakSummary } from './firebase';
+import { StreakSummary } from './streaks';
+import { isPermissionDenied } from './chatService';
+
+export type { PartnerAlert, PartnerProgress, PartnerSharing, Partnership } from './repository';
+
+/**
+ * Accountability partners: two members who both opted in to follow each
+ * other's progress. Each member decides what the other sees, and a copy of
+ * just that is kept on the partnership, so revoking something removes it
+ * from the partner's view straight away.
+ */
+export const PARTNER_SHARE_KEYS: PartnerShareKey[] = ['streak', 'checkIns', 'relapses', 'alerts'];
+
+export const PARTNER_SHARE_LABELS: Record<PartnerShareKey, { title: string; description: string }> = {
+  streak: {
+    title: 'Current streak',
+    description: 'Your current and longest streak'
+  },
+  checkIns: {
+    title: 'Check-ins',
+    description: 'When you last checked in'
+  },
+  relapses: {
+    title: 'Relapse report',
+    description: 'Clean and relapse days, and your streak over the last week'
+  },
+  alerts: {
+    title: 'Alerts',
+    description: 'Notify your partner when you press Emergency Help or report a relapse'
+  }
+};
+
+// Relapse reports are the most personal, so they stay hidden until turned on
+export const DEFAULT_PARTNER_SHARING: PartnerSharing = {
+  streak: true,
+  checkIns: true,
+  relapses: false,
+  alerts: true
+};
+
+export const PARTNER_ALERT_TEXT: Record<PartnerAlertType, string> = {
+  panic: 'pressed Emergency Help',
+  relapse: 'reported a relapse'
+};
+
+const PARTNER_ALERT_LIMIT = 20;
+
+// Both ids sorted, so either member finds the same partnership
+export const partnershipId = (userId: string, otherId: string) =>
+  [userId, otherId].sort().join('_');
+
+export const getPartnerId = (partnership: Partnership, userId: string) =>
+  partnership.members.find(id => id !== userId) || '';
+
+export const getPartnerSharing = (partnership: Partnership, userId: string): PartnerSharing =>
+  ({ ...DEFAULT_PARTNER_SHARING, ...partnership.sharing?.[userId] });
+
+const loadRelapseReport = async (userId: string): Promise<PartnerProgress['relapses']> => {
+  const { cleanDays, relapseDays, netGrowth, streakData } = await getRelapseData(userId, 'weekly');
+  return { cleanDays, relapseDays, netGrowth, streakData };
+};
+
+const buildProgress = (
+  sharing: PartnerSharing,
+  summary: StreakSummary,
+  relapses?: PartnerProgress['relapses']
+): Omit<PartnerProgress, 'updatedAt'> => ({
+  ...(sharing.streak && { currentStreak: summary.currentStreak, longestStreak: summary.longestStreak }),
+  ...(sharing.checkIns && { lastCheckIn: summary.lastCheckIn ? Timestamp.fromDate(summary.lastCheckIn) : null }),
+  ...(sharing.relapses && relapses && { relapses })
+});
+
+// Refresh what the user shows each active partner; pass the summary if it was just loaded
+export const syncPartnerProgress = async (userId: string, summary?: StreakSummary | null) => {
+  try {
+    const partnerships = (await repository.partners.list(userId))
+      .filter(partnership => partnership.status === 'active');
+    if (partnerships.length === 0) {
+      return true;
+    }
+
+    const current = summary || await getStreakSummary(userId);
+    if (!current) {
+      return false;
+    }
+
+    const relapses = partnerships.some(partnership => getPartnerSharing(partnership, userId).relapses)
+      ? await loadRelapseReport(userId)
+      : undefined;
+
+    await Promise.all(partnerships.map(partnership => {
+      const sharing = getPartnerSharing(partnership, userId);
+      return repository.partners.share(partnership.id, userId, sharing, buildProgress(sharing, current, relapses));
+    }));
+    return true;
+  } catch (error) {
+    console.error("Error sharing progress with partners:", error);
+    return false;
+  }
+};
+
+export const subscribeToPartnerships = (
+  userId: string,
+  callback: (partnerships: Partnership[]) => void
+): Unsubscribe => repository.partners.subscribe(userId, (partnerships) => {
+  // Accepted since the user last shared, so the partner is not left looking at nothing
+  if (partnerships.some(partnership => partnership.status === 'active' && !partnership.progress?.[userId])) {
+    syncPartnerProgress(userId);
+  }
+  callback(partnerships);
+}, (error) => {
+  console.error("Error listening to partnerships:", error);
+});
+
+export const requestPartnership = async (userId: string, otherId: string) => {
+  try {
+    const other = await repository.users.get(otherId);
+    if (!other) {
+      toast.error("You can't invite this member");
+      return false;
+    }
+
+    await repository.partners.request(partnershipId(userId, otherId), userId, otherId, DEFAULT_PARTNER_SHARING);
+    toast.success('Partner invitation sent');
+    return true;
+  } catch (error) {
+    console.error("Error requesting partnership:", error);
+    // Members who blocked the requester are only known to the security rules
+    toast.error(isPermissionDenied(error) ? "You can't invite this member" : "Failed to send partner invitation");
+    return false;
+  }
+};
+
+export const acceptPartnership = async (partnership: Partnership, userId: string) => {
+  try {
+    await repository.partners.accept(partnership.id, userId, DEFAULT_PARTNER_SHARING);
+    await syncPartnerProgress(userId);
+    toast.success('You are now accountability partners');
+    return true;
+  } catch (error) {
+    console.error("Error accepting partnership:", error);
+    toast.error("Failed to accept partner invitation");
+    return false;
+  }
+};
+
+// Declining, withdrawing and ending all remove the partnership with everything shared on it
+export const endPartnership = async (partnership: Partnership) => {
+  try {
+    await repository.partners.remove(partnership.id);
+    return true;
+  } catch (error) {
+    console.error("Error ending partnership:", error);
+    toast.error("Failed to update partnership");
+    return false;
+  }
+};
+
+export const updatePartnerSharing = async (partnership: Partnership, userId: string, sharing: PartnerSharing) => {
+  try {
+    const summary = await getStreakSummary(userId);
+    if (!summary) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    const relapses = sharing.relapses ? await loadRelapseReport(userId) : undefined;
+    await repository.partners.share(partnership.id, userId, sharing, buildProgress(sharing, summary, relapses));
+    return true;
+  } catch (error) {
+    console.error("Error updating partner sharing:", error);
+    toast.error("Failed to update what you share");
+    return false;
+  }
+};
+
+// Let every partner who receives the user's alerts know; returns how many were notified
+export const alertPartners = async (userId: string, type: PartnerAlertType) => {
+  try {
+    const recipients = (await repository.partners.list(userId))
+      .filter(partnership => partnership.status === 'active' && getPartnerSharing(partnership, userId).alerts)
+      .map(partnership => getPartnerId(partnership, userId));
+
+    await Promise.all(recipients.map(toId => repository.partners.addAlert({ fromId: userId, toId, type })));
+    return recipients.length;
+  } catch (error) {
+    console.error("Error alerting partners:", error);
+    return 0;
+  }
+};
+
+// The user's most recent alerts, newest first
+export const subscribeToPartnerAlerts = (
+  userId: string,
+  callback: (alerts: PartnerAlert[]) => void
+): Unsubscribe => repository.partners.subscribeAlerts(userId, PARTNER_ALERT_LIMIT, callback, (error) => {
+  console.error("Error listening to partner alerts:", error);
+});
+
+export const markPartnerAlertsRead = async (alerts: PartnerAlert[]) => {
+  const unread = alerts.filter(alert => !alert.read).map(alert => alert.id);
+  if (unread.length === 0) {
+    return true;
+  }
+
+  try {
+    await repository.partners.markAlertsRead(unread);
+    return true;
+  } catch (error) {
+    console.error("Error marking partner alerts read:", error);
+    return false;
+  }
+};
@@ -0,0 +1,9 @@
+// Options offered when reporting or editing a relapse; the value is what gets stored
+export const RELAPSE_TRIGGERS = [
+  { value: 'stress', label: 'Stress' },
+  { value: 'boredom', label: 'Boredom' },
+  { value: 'loneliness', label: 'Loneliness' },
+  { value: 'fatigue', label: 'Fatigue' },
+  { value: 'social-media', label: 'Social Media' },
+  { value: 'other', label: 'Other' },
+];
@@ -0,0 +1,987 @@
+import { initializeApp, FirebaseApp } from 'firebase/app';
+import {
+  getAuth,
+  signInWithEmailAndPassword,
+  createUserWithEmailAndPassword,
+  signOut,
+  updatePassword,
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  sendPasswordResetEmail,
+  Auth
+} from 'firebase/auth';
+import {
+  getFirestore,
+  collection,
+  collectionGroup,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  addDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  writeBatch,
+  runTransaction,
+  deleteField,
+  arrayUnion,
+  arrayRemove,
+  FieldPath,
+  serverTimestamp,
+  onSnapshot,
+  updateDoc,
+  getCountFromServer,
+  increment,
+  Firestore,
+  Timestamp,
+  DocumentSnapshot,
+  DocumentData,
+  CollectionReference,
+  QueryConstraint
+} from 'firebase/firestore';
+import { getStorage, ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import {
+  BlockList,
+  CheckIn,
+  CheckInEvent,
+  ChatMessage,
+  ChatRoom,
+  ContentFilterSettings,
+  DataRepository,
+  DirectRequest,
+  MapRegion,
+  JournalEntry,
+  MessageReport,
+  ModerationLogEntry,
+  PartnerAlert,
+  Partnership,
+  Presence,
+  Relapse,
+  UserIdentity,
+  UserProfile
+} from './types';
+import { audienceForType } from './rooms';
+import { countedRegionIds, regionIdFor, regionsFor } from './mapRegions';
+
+const firebaseConfig = {
+  apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
+  authDomain: import.meta.env.VITE_FIREBASE_AUTH_DOMAIN,
+  projectId: import.meta.env.VITE_FIREBASE_PROJECT_ID,
+  storageBucket: import.meta.env.VITE_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: import.meta.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+  appId: import.meta.env.VITE_FIREBASE_APP_ID,
+  measurementId: import.meta.env.VITE_FIREBASE_MEASUREMENT_ID
+};
+
+export const isFirebaseConfigured = () => !!firebaseConfig.apiKey && !!firebaseConfig.projectId;
+
+let app: FirebaseApp | undefined;
+let auth: Auth | undefined;
+let db: Firestore | undefined;
+
+// Initializes Firebase on first use so the local backend never touches it
+export const initializeFirebase = () => {
+  if (app && auth && db) {
+    return { app, auth, db };
+  }
+
+  console.log("Initializing Firebase app...");
+  app = initializeApp(firebaseConfig);
+  console.log("Firebase app initialized successfully");
+
+  console.log("Initializing Firebase auth...");
+  auth = getAuth(app);
+  console.log("Firebase auth initialized successfully");
+
+  console.log("Initializing Firestore...");
+  db = getFirestore(app);
+  console.log("Firestore initialized successfully");
+
+  return { app, auth, db };
+};
+
+const toUserProfile = (snapshot: DocumentSnapshot): UserProfile =>
+  ({ id: snapshot.id, ...snapshot.data() }) as UserProfile;
+
+// Profile fields that moved into the private identity document
+const IDENTITY_FIELDS: (keyof UserIdentity)[] = ['firstName', 'lastName', 'email', 'location'];
+
+// Profile fields that moved into the member's private block list
+const BLOCK_LIST_FIELDS: (keyof BlockList)[] = ['blockedUsers', 'mutedUsers'];
+
+// Firestore allows at most 500 writes per batch
+const WRITE_BATCH_SIZE = 400;
+
+// Firestore takes at most 10 values in a not-in filter
+const NOT_IN_LIMIT = 10;
+
+const chunked = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+const toJournalEntry = (snapshot: DocumentSnapshot): JournalEntry => {
+  const data = snapshot.data();
+  return {
+    ...data,
+    id: snapshot.id,
+    timestamp: (data.timestamp as Timestamp).toDate(),
+    editedAt: data.editedAt ? (data.editedAt as Timestamp).toDate() : undefined
+  } as JournalEntry;
+};
+
+// Journal dates are kept as Timestamps so the subcollection can be range-queried
+const fromJournalEntry = (data: Partial<Omit<JournalEntry, 'id'>>) => {
+  const { timestamp, editedAt, ...rest } = data;
+  return {
+    ...rest,
+    ...(timestamp && { timestamp: Timestamp.fromDate(timestamp) }),
+    ...(editedAt && { editedAt: Timestamp.fromDate(editedAt) })
+  };
+};
+
+const toRelapse = (snapshot: DocumentSnapshot): Relapse =>
+  ({ id: snapshot.id, ...snapshot.data() }) as Relapse;
+
+const toCheckIn = (snapshot: DocumentSnapshot): CheckIn =>
+  ({ id: snapshot.id, ...snapshot.data() }) as CheckIn;
+
+const toCheckInEvent = (snapshot: DocumentSnapshot): CheckInEvent =>
+  ({ id: snapshot.id, ...snapshot.data() }) as CheckInEvent;
+
+const toChatRoom = (snapshot: DocumentSnapshot): ChatRoom => {
+  // Pending server timestamps resolve to a local estimate instead of null
+  const roomData = snapshot.data({ serverTimestamps: 'estimate' }) as Omit<ChatRoom, 'id'>;
+  return {
+    id: snapshot.id,
+    ...roomData,
+    participants: roomData.participants || [],
+    audience: roomData.audience || audienceForType(roomData.type),
+    createdAt: roomData.createdAt as Timestamp
+  };
+};
+
+const toChatMessage = (snapshot: DocumentSnapshot): ChatMessage => {
+  // Pending server timestamps resolve to a local estimate instead of null
+  const messageData = snapshot.data({ serverTimestamps: 'estimate' }) as Omit<ChatMessage, 'id'>;
+  return {
+    id: snapshot.id,
+    ...messageData,
+    timestamp: messageData.timestamp as Timestamp
+  };
+};
+
+const toDirectRequest = (snapshot: DocumentSnapshot): DirectRequest => {
+  const requestData = snapshot.data({ serverTimestamps: 'estimate' }) as Omit<DirectRequest, 'id'>;
+  return {
+    id: snapshot.id,
+    ...requestData,
+    createdAt: requestData.createdAt as Timestamp
+  };
+};
+
+const toPartnership = (snapshot: DocumentSnapshot): Partnership =>
+  ({ id: snapshot.id, ...snapshot.data({ serverTimestamps: 'estimate' }) }) as Partnership;
+
+const toPartnerAlert = (snapshot: DocumentSnapshot): PartnerAlert =>
+  ({ id: snapshot.id, ...snapshot.data({ serverTimestamps: 'estimate' }) }) as PartnerAlert;
+
+const toPresence = (snapshot: DocumentSnapshot): Presence => {
+  const presenceData = snapshot.data({ serverTimestamps: 'estimate' }) as Omit<Presence, 'userId'>;
+  return {
+    ...presenceData,
+    userId: snapshot.id,
+    lastSeen: presenceData.lastSeen as Timestamp
+  };
+};
+
+const toMessageReport = (snapshot: DocumentSnapshot): MessageReport =>
+  ({ id: snapshot.id, ...snapshot.data({ serverTimestamps: 'estimate' }) }) as MessageReport;
+
+const toModerationLogEntry = (snapshot: DocumentSnapshot): ModerationLogEntry =>
+  ({ id: snapshot.id, ...snapshot.data({ serverTimestamps: 'estimate' }) }) as ModerationLogEntry;
+
+export const createFirestoreRepository = (): DataRepository => {
+  const { app, auth, db } = initializeFirebase();
+  const storage = getStorage(app);
+
+  const journalCollection = (userId: string) => collection(db, 'users', userId, 'journal');
+  const relapsesCollection = (userId: string) => collection(db, 'users', userId, 'relapses');
+  const checkInsCollection = (userId: string) => collection(db, 'users', userId, 'checkIns');
+  const roomReadsCollection = (userId: string) => collection(db, 'users', userId, 'roomReads');
+
+  // Everything kept under users/{userId}. Clients can't list subcollections, so
+  // deleting an account goes through this list
+  const userSubcollections = ['journal', 'relapses', 'checkIns', 'roomReads', 'userData', 'private'];
+
+  // Deletes a collection a page at a time, within the limit of a write batch
+  const deleteCollection = async (ref: CollectionReference) => {
+    for (;;) {
+      const snapshot = await getDocs(query(ref, limit(WRITE_BATCH_SIZE)));
+      if (snapshot.empty) return;
+
+      const batch = writeBatch(db);
+      snapshot.docs.forEach(docSnap => batch.delete(docSnap.ref));
+      await batch.commit();
+    }
+  };
+
+  /**
+   * Copies an array embedded in the user document into a subcollection and then
+   * drops the field. Ids derive from the array position, so a retried migration
+   * overwrites rather than duplicates whatever an interrupted run already copied.
+   */
+  const migrateEmbeddedArray = async (
+    userId: string,
+    field: string,
+    target: CollectionReference,
+    toDocument: (item: DocumentData) => DocumentData
+  ) => {
+    const userRef = doc(db, 'users', userId);
+    const userDoc = await getDoc(userRef);
+    if (!userDoc.exists() || userDoc.data()[field] === undefined) {
+      return 0;
+    }
+
+    const items = (userDoc.data()[field] || []) as DocumentData[];
+    for (let start = 0; start < items.length; start += WRITE_BATCH_SIZE) {
+      const batch = writeBatch(db);
+      items.slice(start, start + WRITE_BATCH_SIZE).forEach((item, offset) => {
+        const { id: _id, ...data } = item;
+        batch.set(doc(target, `legacy-${start + offset}`), toDocument(data));
+      });
+      await batch.commit();
+    }
+
+    await updateDoc(userRef, { [field]: deleteField() });
+    return items.length;
+  };
+
+  const identityDoc = (userId: string) => doc(db, 'users', userId, 'private', 'identity');
+  const blockListDoc = (userId: string) => doc(db, 'users', userId, 'userData', 'blockList');
+
+  // Newest first, so limit() keeps the latest messages; callers reverse the result
+  // One query per way of being eligible; the rules reject any query that
+  // could match a room the user may not read, so these cannot be merged
+  const roomQueriesForUser = (userId: string, gender?: UserProfile['gender']) => {
+    const rooms = collection(db, 'rooms');
+    const queries = [
+      query(rooms, where('audience', '==', 'everyone')),
+      query(rooms, where('audience', '==', 'members'), where('participants', 'array-contains', userId))
+    ];
+    if (gender === 'male' || gender === 'female') {
+      queries.push(query(rooms, where('audience', '==', gender)));
+    }
+    return queries;
+  };
+
+  const messagesQuery = (roomId: string, ...constraints: QueryConstraint[]) => query(
+    collection(db, 'rooms', roomId, 'messages'),
+    orderBy('timestamp', 'desc'),
+    orderBy(documentId(), 'desc'),
+    ...constraints
+  );
+
+  return {
+    backend: 'firestore',
+
+    auth: {
+      getCurrentUser: () => auth.currentUser,
+      onAuthStateChanged: (callback, onError) => auth.onAuthStateChanged(callback, onError),
+      signIn: async (email, password) => {
+        const credential = await signInWithEmailAndPassword(auth, email, password);
+        return credential.user;
+      },
+      signUp: async (email, password) => {
+        const credential = await createUserWithEmailAndPassword(auth, email, password);
+        return credential.user;
+      },
+      signOut: () => signOut(auth),
+      changePassword: async (currentPassword, newPassword) => {
+        if (!auth.currentUser) {
+          throw new Error('Not signed in');
+        }
+
+        const credential = EmailAuthProvider.credential(
+          auth.currentUser.email || '',
+          currentPassword
+        );
+
+        await reauthenticateWithCredential(auth.currentUser, credential);
+        await updatePassword(auth.currentUser, newPassword);
+      },
+      sendPasswordReset: (email) => sendPasswordResetEmail(auth, email),
+      deleteCurrentUser: async () => {
+        if (auth.currentUser) {
+          await auth.currentUser.delete();
+        }
+      }
+    },
+
+    users: {
+      get: async (userId) => {
+        const docSnap = await getDoc(doc(db, 'users', userId));
+        return docSnap.exists() ? toUserProfile(docSnap) : null;
+      },
+      list: async () => {
+        const snapshot = await getDocs(collection(db, 'users'));
+        return snapshot.docs.map(toUserProfile);
+      },
+      create: async (userId, data) => {
+        // New accounts start with the embedded array the favorites repository reads
+        await setDoc(doc(db, 'users', userId), {
+          meditations: [],
+          ...data
+        });
+      },
+      update: async (userId, data) => {
+        await updateDoc(doc(db, 'users', userId), data);
+      },
+      requirePasswordReset: async (userId) => {
+        await updateDoc(doc(db, 'users', userId), { passwordResetRequired: true, passwordResetRequiredAt: serverTimestamp() });
+      },
+      // The profile goes last, so a deletion cut short can be run again from it
+      delete: async (userId) => {
+        for (const name of userSubcollections) {
+          await deleteCollection(collection(db, 'users', userId, name));
+        }
+        await deleteDoc(doc(db, 'users', userId));
+      },
+      getIdentity: async (userId) => {
+        const docSnap = await getDoc(identityDoc(userId));
+        return docSnap.exists() ? (docSnap.data() as UserIdentity) : null;
+      },
+      setIdentity: async (userId, identity) => {
+        await setDoc(identityDoc(userId), identity, { merge: true });
+      },
+      listIdentities: async () => {
+        const snapshot = await getDocs(collectionGroup(db, 'private'));
+        return Object.fromEntries(snapshot.docs
+          .filter(docSnap => docSnap.id === 'identity' && docSnap.ref.parent.parent)
+          .map(docSnap => [docSnap.ref.parent.parent.id, docSnap.data() as UserIdentity]));
+      },
+      // Both documents change in one batch, so the names are never in neither or both
+      migrateLegacyIdentity: async (userId) => {
+        const userRef = doc(db, 'users', userId);
+        const userDoc = await getDoc(userRef);
+        const legacy = userDoc.exists()
+          ? IDENTITY_FIELDS.filter(field => userDoc.data()[field] !== undefined)
+          : [];
+        if (legacy.length === 0) {
+          return false;
+        }
+
+        const batch = writeBatch(db);
+        batch.set(identityDoc(userId), Object.fromEntries(legacy.map(field => [field, userDoc.data()[field]])), { merge: true });
+        batch.update(userRef, Object.fromEntries(legacy.map(field => [field, deleteField()])));
+        await batch.commit();
+        return true;
+      },
+      getBlockList: async (userId) => {
+        const docSnap = await getDoc(blockListDoc(userId));
+        return {
+          blockedUsers: docSnap.data()?.blockedUsers || [],
+          mutedUsers: docSnap.data()?.mutedUsers || []
+        };
+      },
+      setBlockListEntry: async (userId, list, targetId, included) => {
+        await setDoc(blockListDoc(userId), {
+          [list]: included ? arrayUnion(targetId) : arrayRemove(targetId)
+        }, { merge: true });
+      },
+      migrateLegacyBlockList: async (userId) => {
+        const userRef = doc(db, 'users', userId);
+        const userDoc = await getDoc(userRef);
+        const legacy = userDoc.exists()
+          ? BLOCK_LIST_FIELDS.filter(field => userDoc.data()[field] !== undefined)
+          : [];
+        if (legacy.length === 0) {
+          return false;
+        }
+
+        const batch = writeBatch(db);
+        batch.set(blockListDoc(userId), Object.fromEntries(legacy.map(field =>
+          [field, arrayUnion(...(userDoc.data()[field] || []))])), { merge: true });
+        batch.update(userRef, Object.fromEntries(legacy.map(field => [field, deleteField()])));
+        await batch.commit();
+        return true;
+      }
+    },
+
+    // The rules only accept a count change made in the same transaction as the
+    // member's own record of where they are counted, and the other way round
+    communityMap: {
+      listRegions: async (minCount) => {
+        const snapshot = await getDocs(query(collection(db, 'mapRegions'), where('count', '>=', minCount)));
+        return snapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as MapRegion);
+      },
+      setRegion: async (userId, location) => {
+        const memberRef = doc(db, 'mapMembers', userId);
+        await runTransaction(db, async (transaction) => {
+          const member = await transaction.get(memberRef);
+          const current = countedRegionIds(member.exists() ? member.data() : null);
+          const next = location ? regionsFor(location) : [];
+          const nextIds = next.map(regionIdFor);
+          if (current.join() === nextIds.join()) {
+            return;
+          }
+
+          current
+            .filter(regionId => !nextIds.includes(regionId))
+            .forEach(regionId => transaction.update(doc(db, 'mapRegions', regionId), { count: increment(-1) }));
+          next
+            .filter(region => !current.includes(regionIdFor(region)))
+            .forEach(region => transaction.set(doc(db, 'mapRegions', regionIdFor(region)), {
+              country: region.country,
+              state: region.state || null,
+              count: increment(1)
+            }, { merge: true }));
+          if (nextIds.length) {
+            transaction.set(memberRef, { regions: nextIds });
+          } else {
+            transaction.delete(memberRef);
+          }
+        });
+      }
+    },
+
+    journal: {
+      listPage: async (userId, { pageSize, cursor, direction = 'desc' }) => {
+        const constraints: QueryConstraint[] = [
+          orderBy('timestamp', direction),
+          orderBy(documentId(), direction)
+        ];
+        if (cursor) {
+          constraints.push(startAfter(Timestamp.fromDate(cursor.timestamp), cursor.id));
+        }
+        // One extra entry tells us whether another page exists
+        constraints.push(limit(pageSize + 1));
+
+        const snapshot = await getDocs(query(journalCollection(userId), ...constraints));
+        const entries = snapshot.docs.slice(0, pageSize).map(toJournalEntry);
+        const last = entries[entries.length - 1];
+
+        return {
+          entries,
+          nextCursor: snapshot.docs.length > pageSize && last
+            ? { timestamp: last.timestamp, id: last.id }
+            : null
+        };
+      },
+      listBetween: async (userId, from, to) => {
+        const snapshot = await getDocs(query(
+          journalCollection(userId),
+          where('timestamp', '>=', Timestamp.fromDate(from)),
+          where('timestamp', '<', Timestamp.fromDate(to)),
+          orderBy('timestamp', 'asc')
+        ));
+        return snapshot.docs.map(toJournalEntry);
+      },
+      get: async (userId, entryId) => {
+        const docSnap = await getDoc(doc(journalCollection(userId), entryId));
+        return docSnap.exists() ? toJournalEntry(docSnap) : null;
+      },
+      add: async (entry) => {
+        const { id: _id, ...data } = entry;
+        const entryDoc = await addDoc(journalCollection(entry.userId), fromJournalEntry(data));
+        return entryDoc.id;
+      },
+      update: async (userId, entryId, data) => {
+        await updateDoc(doc(journalCollection(userId), entryId), fromJournalEntry(data));
+      },
+      delete: async (userId, entryId) => {
+        await deleteDoc(doc(journalCollection(userId), entryId));
+      },
+      migrateLegacyEntries: (userId) =>
+        migrateEmbeddedArray(userId, 'journal', journalCollection(userId), (entry) => ({ ...entry, userId }))
+    },
+
+    relapses: {
+      list: async (userId) => {
+        const snapshot = await getDocs(query(relapsesCollection(userId), orderBy('timestamp', 'asc')));
+        return snapshot.docs.map(toRelapse);
+      },
+      add: async (userId, relapse) => {
+        const { id: _id, ...data } = relapse;
+        const relapseDoc = await addDoc(relapsesCollection(userId), data);
+        return relapseDoc.id;
+      },
+      update: async (userId, relapseId, data) => {
+        await updateDoc(doc(relapsesCollection(userId), relapseId), data);
+      },
+      delete: async (userId, relapseId) => {
+        await deleteDoc(doc(relapsesCollection(userId), relapseId));
+      },
+      migrateLegacyRelapses: (userId) =>
+        migrateEmbeddedArray(userId, 'relapses', relapsesCollection(userId), (relapse) => relapse)
+    },
+
+    checkIns: {
+      list: async (userId) => {
+        const snapshot = await getDocs(query(checkInsCollection(userId), orderBy('timestamp', 'asc')));
+        return snapshot.docs.map(toCheckIn);
+      },
+      add: async (userId, checkIn) => {
+        const { id: _id, ...data } = checkIn;
+        const checkInDoc = await addDoc(checkInsCollection(userId), data);
+        return checkInDoc.id;
+      },
+      addEvent: async (event) => {
+        const eventDoc = await addDoc(collection(db, 'checkInEvents'), { ...event, timestamp: serverTimestamp() });
+        return eventDoc.id;
+      },
+      listEvents: async (from, to) => {
+        const snapshot = await getDocs(query(
+          collection(db, 'checkInEvents'),
+          where('timestamp', '>=', from),
+          where('timestamp', '<', to),
+          orderBy('timestamp', 'asc')
+        ));
+        return snapshot.docs.map(toCheckInEvent);
+      },
+      deleteEvents: async (userId) => {
+        const snapshot = await getDocs(query(collection(db, 'checkInEvents'), where('userId', '==', userId)));
+        await Promise.all(snapshot.docs.map(eventDoc => deleteDoc(eventDoc.ref)));
+      }
+    },
+
+    rooms: {
+      list: async () => {
+        const snapshot = await getDocs(collection(db, 'rooms'));
+        return snapshot.docs.map(toChatRoom);
+      },
+      listForUser: async (userId, gender) => {
+        const snapshots = await Promise.all(roomQueriesForUser(userId, gender).map(roomQuery => getDocs(roomQuery)));
+        return snapshots.flatMap(snapshot => snapshot.docs.map(toChatRoom));
+      },
+      subscribeForUser: (userId, gender, callback, onError) => {
+        const queries = roomQueriesForUser(userId, gender);
+        const results: ChatRoom[][] = queries.map(() => []);
+        let pending = queries.length;
+
+        // Wait for every query's first snapshot so the list never shows partially
+        const unsubscribes = queries.map((roomQuery, i) => {
+          let first = true;
+          return onSnapshot(roomQuery, (snapshot) => {
+            results[i] = snapshot.docs.map(toChatRoom);
+            if (first) {
+              first = false;
+              pending--;
+            }
+            if (pending === 0) {
+              callback(results.flat());
+            }
+          }, onError);
+        });
+
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+      },
+      subscribeOpenGroups: (userId, callback, onError) => {
+        const rooms = collection(db, 'rooms');
+        let discoverable: ChatRoom[] = [];
+        let invited: ChatRoom[] = [];
+        const emit = () => {
+          const byId = new Map([...discoverable, ...invited].map(room => [room.id, room]));
+          callback(Array.from(byId.values()));
+        };
+        const unsubscribeDiscoverable = onSnapshot(query(rooms, where('discoverable', '==', true)), (snapshot) => {
+          discoverable = snapshot.docs.map(toChatRoom);
+          emit();
+        }, onError);
+        const unsubscribeInvited = onSnapshot(query(rooms, where('invited', 'array-contains', userId)), (snapshot) => {
+          invited = snapshot.docs.map(toChatRoom);
+          emit();
+        }, onError);
+
+        return () => {
+          unsubscribeDiscoverable();
+          unsubscribeInvited();
+        };
+      },
+      get: async (roomId) => {
+        const docSnap = await getDoc(doc(db, 'rooms', roomId));
+        return docSnap.exists() ? toChatRoom(docSnap) : null;
+      },
+      create: async (data, roomId) => {
+        const roomData = { ...data, createdAt: serverTimestamp() };
+        if (roomId) {
+          await setDoc(doc(db, 'rooms', roomId), roomData);
+          return roomId;
+        }
+        const roomDoc = await addDoc(collection(db, 'rooms'), roomData);
+        return roomDoc.id;
+      },
+      update: async (roomId, data) => {
+        await updateDoc(doc(db, 'rooms', roomId), data);
+      },
+      addParticipant: async (roomId, userId) => {
+        await updateDoc(doc(db, 'rooms', roomId), {
+          participants: arrayUnion(userId)
+        });
+      },
+      removeParticipant: async (roomId, userId) => {
+        await updateDoc(doc(db, 'rooms', roomId), {
+          participants: arrayRemove(userId),
+          moderators: arrayRemove(userId)
+        });
+      },
+      invite: async (roomId, userId) => {
+        await updateDoc(doc(db, 'rooms', roomId), {
+          invited: arrayUnion(userId)
+        });
+      },
+      removeInvitation: async (roomId, userId) => {
+        await updateDoc(doc(db, 'rooms', roomId), {
+          invited: arrayRemove(userId)
+        });
+      },
+      join: async (roomId, userId) => {
+        await updateDoc(doc(db, 'rooms', roomId), {
+          participants: arrayUnion(userId),
+          invited: arrayRemove(userId)
+        });
+      },
+      migrateLegacyRooms: async () => {
+        const snapshot = await getDocs(collection(db, 'rooms'));
+        const legacy = snapshot.docs.filter(roomDoc => !roomDoc.data().audience);
+
+        for (let start = 0; start < legacy.length; start += WRITE_BATCH_SIZE) {
+          const batch = writeBatch(db);
+          legacy.slice(start, start + WRITE_BATCH_SIZE).forEach(roomDoc => {
+            batch.update(roomDoc.ref, { audience: audienceForType(roomDoc.data().type) });
+          });
+          await batch.commit();
+        }
+        return legacy.length;
+      }
+    },
+
+    messages: {
+      subscribeLatest: (roomId, count, callback, onError) => onSnapshot(
+        messagesQuery(roomId, limit(count)),
+        (snapshot) => callback(snapshot.docs.map(toChatMessage).reverse()),
+        onError
+      ),
+      listBefore: async (roomId, cursor, pageSize) => {
+        // One extra message tells whether another page exists
+        const snapshot = await getDocs(messagesQuery(roomId, startAfter(cursor.timestamp, cursor.id), limit(pageSize + 1)));
+        return {
+          messages: snapshot.docs.slice(0, pageSize).map(toChatMessage).reverse(),
+          hasMore: snapshot.docs.length > pageSize
+        };
+      },
+      get: async (roomId, messageId) => {
+        const docSnap = await getDoc(doc(db, 'rooms', roomId, 'messages', messageId));
+        return docSnap.exists() ? toChatMessage(docSnap) : null;
+      },
+      add: async (roomId, data) => {
+        const messageDoc = doc(collection(db, 'rooms', roomId, 'messages'));
+        const batch = writeBatch(db);
+        batch.set(messageDoc, { ...data, timestamp: serverTimestamp() });
+        if (data.replyTo) {
+          batch.update(doc(db, 'rooms', roomId, 'messages', data.replyTo), {
+            replyCount: increment(1),
+            lastReplyAt: serverTimestamp(),
+            lastReplyId: messageDoc.id
+          });
+        }
+        await batch.commit();
+        return messageDoc.id;
+      },
+      update: async (roomId, messageId, data) => {
+        await updateDoc(doc(db, 'rooms', roomId, 'messages', messageId), data);
+      },
+      edit: async (roomId, messageId, text) => {
+        await updateDoc(doc(db, 'rooms', roomId, 'messages', messageId), { text, editedAt: serverTimestamp() });
+      },
+      // Emoji can't go in a dotted field path, so the path is built from its parts.
+      // Taking back the last reaction leaves an empty list under the emoji
+      setReaction: async (roomId, messageId, emoji, userId, reacted) => {
+        await updateDoc(
+          doc(db, 'rooms', roomId, 'messages', messageId),
+          new FieldPath('reactions', emoji),
+          reacted ? arrayUnion(userId) : arrayRemove(userId)
+        );
+      },
+      // One count leaves out the first ten senders. Past that, the rest are counted
+      // ten at a time and taken off, which stays exact as the groups don't overlap
+      countAfter: async (roomId, after, excludedSenderIds) => {
+        const messages = collection(db, 'rooms', roomId, 'messages');
+        const since = after ? [where('timestamp', '>', after)] : [];
+        const [leftOut, ...overflow] = chunked(excludedSenderIds, NOT_IN_LIMIT);
+        const [count, ...excluded] = await Promise.all([
+          getCountFromServer(query(messages, ...(leftOut ? [where('senderId', 'not-in', leftOut)] : []), ...since)),
+          ...overflow.map(senderIds =>
+            getCountFromServer(query(messages, where('senderId', 'in', senderIds), ...since)))
+        ]);
+        return excluded.reduce((total, snapshot) => total - snapshot.data().count, count.data().count);
+      },
+      subscribeThread: (roomId, messageId, callback, onError) => {
+        let parent: ChatMessage | null = null;
+        let replies: ChatMessage[] = [];
+        let parentLoaded = false;
+        let repliesLoaded = false;
+        const emit = () => parentLoaded && repliesLoaded && callback(parent, replies);
+        
+        const unsubscribeParent = onSnapshot(doc(db, 'rooms', roomId, 'messages', messageId), (docSnap) => {
+          parent = docSnap.exists() ? toChatMessage(docSnap) : null;
+          parentLoaded = true;
+          emit();
+        }, onError);
+        const unsubscribeReplies = onSnapshot(
+          query(collection(db, 'rooms', roomId, 'messages'), where('replyTo', '==', messageId), orderBy('timestamp')),
+          (snapshot) => {
+            replies = snapshot.docs.map(toChatMessage);
+            repliesLoaded = true;
+            emit();
+          },
+          onError
+        );
+        
+        return () => {
+          unsubscribeParent();
+          unsubscribeReplies();
+        };
+      }
+    },
+
+    // Files live under the sender's folder in the room, as the storage rules require
+    attachments: {
+      uploadImage: async (roomId, userId, file) => {
+        const path = `chatImages/${roomId}/${userId}/${doc(collection(db, 'rooms', roomId, 'messages')).id}`;
+        const fileRef = ref(storage, path);
+        await uploadBytes(fileRef, file, { contentType: file.type });
+        return { url: await getDownloadURL(fileRef), path };
+      },
+      remove: async (path) => {
+        await deleteObject(ref(storage, path));
+      }
+    },
+
+    // A user may only list requests they are part of, so sent and received are two queries
+    directRequests: {
+      subscribe: (userId, callback, onError) => {
+        const requests = collection(db, 'directRequests');
+        let sent: DirectRequest[] = [];
+        let received: DirectRequest[] = [];
+        const unsubscribeSent = onSnapshot(query(requests, where('fromId', '==', userId)), (snapshot) => {
+          sent = snapshot.docs.map(toDirectRequest);
+          callback([...sent, ...received]);
+        }, onError);
+        const unsubscribeReceived = onSnapshot(query(requests, where('toId', '==', userId)), (snapshot) => {
+          received = snapshot.docs.map(toDirectRequest);
+          callback([...sent, ...received]);
+        }, onError);
+
+        return () => {
+          unsubscribeSent();
+          unsubscribeReceived();
+        };
+      },
+      send: async (fromId, toId) => {
+        await setDoc(doc(db, 'directRequests', `${fromId}_${toId}`), {
+          fromId,
+          toId,
+          status: 'pending',
+          createdAt: serverTimestamp()
+        });
+      },
+      respond: async (requestId, status) => {
+        await updateDoc(doc(db, 'directRequests', requestId), {
+          status,
+          respondedAt: serverTimestamp()
+        });
+      },
+      withdraw: async (requestId) => {
+        await deleteDoc(doc(db, 'directRequests', requestId));
+      }
+    },
+
+    readMarkers: {
+      list: async (userId) => {
+        const snapshot = await getDocs(roomReadsCollection(userId));
+        return Object.fromEntries(snapshot.docs.map(readDoc => [readDoc.id, readDoc.data().lastReadAt as Timestamp]));
+      },
+      // Estimate the time of a marker still being written, rather than report it as missing
+      subscribe: (userId, callback, onError) => onSnapshot(
+        roomReadsCollection(userId),
+        (snapshot) => callback(Object.fromEntries(snapshot.docs.map(readDoc =>
+          [readDoc.id, readDoc.data({ serverTimestamps: 'estimate' }).lastReadAt as Timestamp]
+        ))),
+        onError
+      ),
+      markRead: async (userId, roomId) => {
+        await setDoc(doc(roomReadsCollection(userId), roomId), { lastReadAt: serverTimestamp() });
+      }
+    },
+
+    partners: {
+      list: async (userId) => {
+        const snapshot = await getDocs(query(collection(db, 'partnerships'), where('members', 'array-contains', userId)));
+        return snapshot.docs.map(toPartnership);
+      },
+      subscribe: (userId, callback, onError) => onSnapshot(
+        query(collection(db, 'partnerships'), where('members', 'array-contains', userId)),
+        (snapshot) => callback(snapshot.docs.map(toPartnership)),
+        onError
+      ),
+      request: async (partnershipId, fromId, toId, sharing) => {
+        await setDoc(doc(db, 'partnerships', partnershipId), {
+          members: [fromId, toId],
+          status: 'pending',
+          sharing: { [fromId]: sharing },
+          createdAt: serverTimestamp()
+        });
+      },
+      accept: async (partnershipId, userId, sharing) => {
+        await updateDoc(doc(db, 'partnerships', partnershipId), {
+          status: 'active',
+          [`sharing.${userId}`]: sharing,
+          acceptedAt: serverTimestamp()
+        });
+      },
+      share: async (partnershipId, userId, sharing, progress) => {
+        await updateDoc(doc(db, 'partnerships', partnershipId), {
+          [`sharing.${userId}`]: sharing,
+          [`progress.${userId}`]: { ...progress, updatedAt: serverTimestamp() }
+        });
+      },
+      remove: async (partnershipId) => {
+        await deleteDoc(doc(db, 'partnerships', partnershipId));
+      },
+      addAlert: async (alert) => {
+        const alertDoc = await addDoc(collection(db, 'partnerAlerts'), {
+          ...alert,
+          read: false,
+          createdAt: serverTimestamp()
+        });
+        return alertDoc.id;
+      },
+      subscribeAlerts: (userId, count, callback, onError) => onSnapshot(
+        query(collection(db, 'partnerAlerts'), where('toId', '==', userId), orderBy('createdAt', 'desc'), limit(count)),
+        (snapshot) => callback(snapshot.docs.map(toPartnerAlert)),
+        onError
+      ),
+      markAlertsRead: async (alertIds) => {
+        const batch = writeBatch(db);
+        alertIds.forEach(alertId => batch.update(doc(db, 'partnerAlerts', alertId), { read: true }));
+        await batch.commit();
+      }
+    },
+
+    presence: {
+      list: async () => {
+        const snapshot = await getDocs(collection(db, 'presence'));
+        return snapshot.docs.map(toPresence);
+      },
+      subscribe: (callback, onError) => onSnapshot(
+        collection(db, 'presence'),
+        (snapshot) => callback(snapshot.docs.map(toPresence)),
+        onError
+      ),
+      update: async (userId, data) => {
+        await setDoc(doc(db, 'presence', userId), {
+          ...data,
+          lastSeen: serverTimestamp(),
+          ...(data.typingIn !== undefined && { typingAt: serverTimestamp() })
+        }, { merge: true });
+      }
+    },
+
+    moderation: {
+      addReport: async (report) => {
+        const reportDoc = await addDoc(collection(db, 'reports'), {
+          ...report,
+          status: 'pending',
+          createdAt: serverTimestamp()
+        });
+        return reportDoc.id;
+      },
+      listReports: async (status) => {
+        const constraints: QueryConstraint[] = status ? [where('status', '==', status)] : [];
+        const snapshot = await getDocs(query(collection(db, 'reports'), ...constraints, orderBy('createdAt', 'desc')));
+        return snapshot.docs.map(toMessageReport);
+      },
+      resolveReport: async (reportId, status, moderatorId) => {
+        await updateDoc(doc(db, 'reports', reportId), {
+          status,
+          resolvedBy: moderatorId,
+          resolvedAt: serverTimestamp()
+        });
+      },
+      addLogEntry: async (entry) => {
+        const entryDoc = await addDoc(collection(db, 'moderationLog'), {
+          ...entry,
+          timestamp: serverTimestamp()
+        });
+        return entryDoc.id;
+      },
+      listLog: async (count) => {
+        const snapshot = await getDocs(query(collection(db, 'moderationLog'), orderBy('timestamp', 'desc'), limit(count)));
+        return snapshot.docs.map(toModerationLogEntry);
+      },
+      listLogForUser: async (userId, count) => {
+        const snapshot = await getDocs(query(
+          collection(db, 'moderationLog'),
+          where('senderId', '==', userId),
+          orderBy('timestamp', 'desc'),
+          limit(count)
+        ));
+        return snapshot.docs.map(toModerationLogEntry);
+      }
+    },
+
+    settings: {
+      getContentFilter: async () => {
+        const docSnap = await getDoc(doc(db, 'settings', 'contentFilter'));
+        return docSnap.exists()
+          ? docSnap.data({ serverTimestamps: 'estimate' }) as ContentFilterSettings
+          : null;
+      },
+      saveContentFilter: async (settings) => {
+        await setDoc(doc(db, 'settings', 'contentFilter'), {
+          ...settings,
+          updatedAt: serverTimestamp()
+        });
+      }
+    },
+
+    tasks: {
+      get: async (userId) => {
+        const docSnap = await getDoc(doc(db, 'users', userId, 'userData', 'dailyTasks'));
+        if (!docSnap.exists()) {
+          return null;
+        }
+
+        const data = docSnap.data();
+        return {
+          tasks: data.tasks || [],
+          lastUpdated: data.lastUpdated?.toDate() || new Date(0)
+        };
+      },
+      save: async (userId, state) => {
+        await setDoc(doc(db, 'users', userId, 'userData', 'dailyTasks'), state);
+      }
+    },
+
+    favorites: {
+      list: async (userId) => {
+        const userDoc = await getDoc(doc(db, 'users', userId));
+        return userDoc.exists() ? userDoc.data().meditations || [] : [];
+      },
+      add: async (userId, itemId) => {
+        await updateDoc(doc(db, 'users', userId), {
+          meditations: arrayUnion(itemId)
+        });
+      },
+      remove: async (userId, itemId) => {
+        await updateDoc(doc(db, 'users', userId), {
+          meditations: arrayRemove(itemId)
+        });
+      }
+    }
+  };
+};
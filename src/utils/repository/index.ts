@@ -0,0 +1,27 @@
+import { createFirestoreRepository, isFirebaseConfigured } from './firestore';
+import { createLocalRepository } from './local';
+import { DataRepository } from './types';
+
+export * from './types';
+
+/**
+ * Picks the data backend once at startup. The in-browser store, with its demo
+ * admin account, is only used when VITE_DATA_BACKEND=local asks for it; a
+ * missing or broken Firebase configuration is an error rather than a reason
+ * to fall back to it.
+ */
+const selectRepository = (): DataRepository => {
+  if (import.meta.env.VITE_DATA_BACKEND === 'local') {
+    return createLocalRepository();
+  }
+
+  if (!isFirebaseConfigured()) {
+    throw new Error("Firebase is not configured. Set the VITE_FIREBASE_* variables, or VITE_DATA_BACKEND=local to use the local data backend");
+  }
+
+  return createFirestoreRepository();
+};
+
+export const repository = selectRepository();
+
+export default repository;
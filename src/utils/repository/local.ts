@@ -0,0 +1,755 @@
+import { Timestamp } from 'firebase/firestore';
+import { LocalStore } from './localStore';
+import {
+  AuthUser,
+  BlockList,
+  CheckIn,
+  CheckInEvent,
+  ChatMessage,
+  ChatRoom,
+  ContentFilterSettings,
+  DailyTaskState,
+  DataRepository,
+  DirectRequest,
+  JournalCursor,
+  MapRegion,
+  JournalEntry,
+  MessageCursor,
+  MessageReport,
+  ModerationLogEntry,
+  PartnerAlert,
+  Partnership,
+  Presence,
+  Relapse,
+  UserIdentity,
+  UserProfile
+} from './types';
+import { audienceForType, isEligibleForRoom } from './rooms';
+import { countedRegionIds, regionIdFor, regionsFor } from './mapRegions';
+
+const STORAGE_KEY = 'purepath:local-data';
+const SESSION_KEY = 'purepath:local-session';
+const PRESENCE_CHANNEL = 'purepath:local-presence';
+
+// Presence as it travels between tabs; structured clone drops the Timestamp class
+interface PresenceMessage extends Omit<Presence, 'lastSeen' | 'typingAt'> {
+  lastSeen: number;
+  typingAt?: number | null;
+}
+
+// Development-only credentials; never point the local backend at real users
+interface LocalAccount {
+  email: string;
+  password: string;
+}
+
+export const DEMO_ADMIN = {
+  email: 'admin@purepath.local',
+  password: 'purepath'
+};
+
+// Errors carry Firebase-style codes so callers can branch on them the same way
+const authError = (code: string, message: string) =>
+  Object.assign(new Error(message), { code });
+
+// What Firestore throws when the security rules refuse a write
+const permissionDenied = () =>
+  Object.assign(new Error('Missing or insufficient permissions.'), { code: 'permission-denied' });
+
+const seed = (store: LocalStore) => {
+  const now = Timestamp.now();
+
+  store.set('rooms', 'main', { name: 'Main Chat', participants: [], createdAt: now, createdBy: 'system', type: 'main', audience: 'everyone' });
+  store.set('rooms', 'men', { name: "Men's Chat", participants: [], createdAt: now, createdBy: 'system', type: 'men', audience: 'male' });
+  store.set('rooms', 'women', { name: "Women's Chat", participants: [], createdAt: now, createdBy: 'system', type: 'women', audience: 'female' });
+
+  const adminId = 'demo-admin';
+  store.set('accounts', adminId, DEMO_ADMIN);
+  store.set('identities', adminId, {
+    firstName: 'Demo',
+    lastName: 'Admin',
+    email: DEMO_ADMIN.email,
+    location: { country: 'us', state: 'CA' }
+  });
+  store.set('users', adminId, {
+    username: 'admin',
+    alias: 'Demo Admin',
+    gender: 'prefer-not-to-say',
+    role: 'admin',
+    joinedAt: now,
+    streakDays: 0,
+    streakStartDate: now,
+    lastCheckIn: now
+  });
+};
+
+const compareMessages = (a: MessageCursor, b: MessageCursor) =>
+  a.timestamp.toMillis() - b.timestamp.toMillis() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Same ordering Firestore applies for orderBy(timestamp) then orderBy(documentId())
+const compareJournalEntries = (a: JournalCursor, b: JournalCursor) =>
+  a.timestamp.getTime() - b.timestamp.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+export const createLocalRepository = (store = new LocalStore(STORAGE_KEY)): DataRepository => {
+  if (store.isEmpty()) {
+    seed(store);
+  }
+
+  const authListeners = new Set<(user: AuthUser | null) => void>();
+  let currentUser: AuthUser | null = null;
+
+  if (typeof localStorage !== 'undefined') {
+    const sessionId = localStorage.getItem(SESSION_KEY);
+    const account = sessionId ? store.get<LocalAccount>('accounts', sessionId) : null;
+    currentUser = account ? { uid: account.id, email: account.email } : null;
+  }
+
+  const setCurrentUser = (user: AuthUser | null) => {
+    currentUser = user;
+    if (typeof localStorage !== 'undefined') {
+      if (user) {
+        localStorage.setItem(SESSION_KEY, user.uid);
+      } else {
+        localStorage.removeItem(SESSION_KEY);
+      }
+    }
+    // Notify on a later tick, as Firebase does, so callers can finish writing the profile
+    setTimeout(() => authListeners.forEach(listener => listener(user)), 0);
+  };
+
+  const findAccount = (email: string) =>
+    store.all<LocalAccount>('accounts').find(account => account.email.toLowerCase() === email.toLowerCase());
+
+  const messagesCollection = (roomId: string) => `rooms/${roomId}/messages`;
+
+  const userRelapses = (userId: string) => store.all<Relapse & { userId: string }>('relapses')
+    .filter(relapse => relapse.userId === userId);
+
+  // Each tab keeps its own copy of the store, so presence is shared between
+  // tabs directly; two tabs signed in as different users can then chat locally
+  const presenceChannel = typeof BroadcastChannel !== 'undefined'
+    ? new BroadcastChannel(PRESENCE_CHANNEL)
+    : null;
+  presenceChannel?.addEventListener('message', (event: MessageEvent<PresenceMessage>) => {
+    const { lastSeen, typingAt, ...presence } = event.data;
+    store.set('presence', presence.userId, {
+      ...presence,
+      lastSeen: Timestamp.fromMillis(lastSeen),
+      typingAt: typingAt ? Timestamp.fromMillis(typingAt) : null
+    });
+  });
+
+  // Local data saved before rooms had an audience reads the same way Firestore does
+  const toChatRoom = (room: ChatRoom) => ({ ...room, audience: room.audience || audienceForType(room.type) });
+
+  const getBlockList = (userId: string): BlockList => ({
+    blockedUsers: [],
+    mutedUsers: [],
+    ...store.get<BlockList>('blockLists', userId)
+  });
+
+  // Mirrors blockedBy in firestore.rules, for the signed-in member
+  const checkNotBlockedBy = (userId: string) => {
+    if (currentUser && getBlockList(userId).blockedUsers.includes(currentUser.uid)) {
+      throw permissionDenied();
+    }
+  };
+
+  const userJournal = (userId: string) => store.all<JournalEntry & { id: string }>('journal')
+    .filter(entry => entry.userId === userId);
+
+  return {
+    backend: 'local',
+
+    auth: {
+      getCurrentUser: () => currentUser,
+      onAuthStateChanged: (callback) => {
+        authListeners.add(callback);
+        // Firebase reports the initial state asynchronously; do the same
+        setTimeout(() => callback(currentUser), 0);
+        return () => {
+          authListeners.delete(callback);
+        };
+      },
+      signIn: async (email, password) => {
+        const account = findAccount(email);
+        if (!account) {
+          throw authError('auth/user-not-found', 'No account found with this email address');
+        }
+        if (account.password !== password) {
+          throw authError('auth/wrong-password', 'Incorrect password');
+        }
+        const user = { uid: account.id, email: account.email };
+        setCurrentUser(user);
+        return user;
+      },
+      signUp: async (email, password) => {
+        if (findAccount(email)) {
+          throw authError('auth/email-already-in-use', 'An account already exists with this email address');
+        }
+        if (password.length < 6) {
+          throw authError('auth/weak-password', 'Password should be at least 6 characters');
+        }
+        const uid = store.add('accounts', { email, password });
+        const user = { uid, email };
+        setCurrentUser(user);
+        return user;
+      },
+      signOut: async () => {
+        setCurrentUser(null);
+      },
+      changePassword: async (currentPassword, newPassword) => {
+        const account = currentUser ? store.get<LocalAccount>('accounts', currentUser.uid) : null;
+        if (!account) {
+          throw authError('auth/user-not-found', 'Not signed in');
+        }
+        if (account.password !== currentPassword) {
+          throw authError('auth/wrong-password', 'Incorrect password');
+        }
+        if (newPassword.length < 6) {
+          throw authError('auth/weak-password', 'Password should be at least 6 characters');
+        }
+        store.update('accounts', account.id, { password: newPassword });
+      },
+      sendPasswordReset: async (email) => {
+        if (!findAccount(email)) {
+          throw authError('auth/user-not-found', 'No account found with this email address');
+        }
+        console.log(`Local backend: password reset requested for ${email}`);
+      },
+      deleteCurrentUser: async () => {
+        if (currentUser) {
+          store.remove('accounts', currentUser.uid);
+          setCurrentUser(null);
+        }
+      }
+    },
+
+    users: {
+      get: async (userId) => store.get<UserProfile>('users', userId),
+      list: async () => store.all<UserProfile>('users'),
+      create: async (userId, data) => {
+        store.set('users', userId, data);
+      },
+      update: async (userId, data) => {
+        store.update('users', userId, data);
+      },
+      requirePasswordReset: async (userId) => {
+        store.update('users', userId, { passwordResetRequired: true, passwordResetRequiredAt: Timestamp.now() });
+      },
+      // Everything Firestore keeps under users/{userId} goes with the profile
+      delete: async (userId) => {
+        ['journal', 'relapses', 'checkIns', 'roomReads'].forEach(name => store.all<{ userId: string }>(name)
+          .filter(record => record.userId === userId)
+          .forEach(record => store.remove(name, record.id)));
+        ['dailyTasks', 'favorites', 'blockLists', 'identities', 'users'].forEach(name => store.remove(name, userId));
+      },
+      getIdentity: async (userId) => {
+        const identity = store.get<UserIdentity>('identities', userId);
+        if (!identity) return null;
+        const { id: _id, ...data } = identity;
+        return data;
+      },
+      setIdentity: async (userId, identity) => {
+        store.set('identities', userId, { ...store.get('identities', userId), ...identity });
+      },
+      listIdentities: async () => Object.fromEntries(
+        store.all<UserIdentity>('identities').map(({ id, ...identity }) => [id, identity])
+      ),
+      migrateLegacyIdentity: async (userId) => {
+        const user = store.get<UserProfile & UserIdentity>('users', userId);
+        if (!user || (user.firstName === undefined && user.lastName === undefined && user.email === undefined && user.location === undefined)) {
+          return false;
+        }
+        const { firstName, lastName, email, location, ...profile } = user;
+        store.set('identities', userId, {
+          ...store.get('identities', userId),
+          ...(firstName !== undefined && { firstName }),
+          ...(lastName !== undefined && { lastName }),
+          ...(email !== undefined && { email }),
+          ...(location !== undefined && { location })
+        });
+        store.set('users', userId, profile);
+        return true;
+      },
+      getBlockList: async (userId) => getBlockList(userId),
+      setBlockListEntry: async (userId, list, targetId, included) => {
+        const current = getBlockList(userId);
+        const others = current[list].filter(id => id !== targetId);
+        store.set('blockLists', userId, { ...current, [list]: included ? [...others, targetId] : others });
+      },
+      migrateLegacyBlockList: async (userId) => {
+        const user = store.get<UserProfile>('users', userId);
+        if (!user || (user.blockedUsers === undefined && user.mutedUsers === undefined)) {
+          return false;
+        }
+        const { blockedUsers = [], mutedUsers = [], ...profile } = user;
+        const current = getBlockList(userId);
+        store.set('blockLists', userId, {
+          blockedUsers: Array.from(new Set([...current.blockedUsers, ...blockedUsers])),
+          mutedUsers: Array.from(new Set([...current.mutedUsers, ...mutedUsers]))
+        });
+        store.set('users', userId, profile);
+        return true;
+      }
+    },
+
+    communityMap: {
+      listRegions: async (minCount) => store.all<MapRegion>('mapRegions')
+        .filter(region => region.count >= minCount),
+      setRegion: async (userId, location) => {
+        const current = countedRegionIds(store.get<{ regions?: string[]; region?: string }>('mapMembers', userId));
+        const next = location ? regionsFor(location) : [];
+        const nextIds = next.map(regionIdFor);
+        if (current.join() === nextIds.join()) {
+          return;
+        }
+
+        current.filter(regionId => !nextIds.includes(regionId)).forEach(regionId => {
+          const region = store.get<MapRegion>('mapRegions', regionId);
+          store.update('mapRegions', regionId, { count: Math.max((region?.count || 0) - 1, 0) });
+        });
+        next.filter(region => !current.includes(regionIdFor(region))).forEach(({ country, state }) => {
+          const region = store.get<MapRegion>('mapRegions', regionIdFor({ country, state }));
+          store.set('mapRegions', regionIdFor({ country, state }), {
+            country,
+            state: state || null,
+            count: (region?.count || 0) + 1
+          });
+        });
+        if (nextIds.length) {
+          store.set('mapMembers', userId, { regions: nextIds });
+        } else {
+          store.remove('mapMembers', userId);
+        }
+      }
+    },
+
+    journal: {
+      listPage: async (userId, { pageSize, cursor, direction = 'desc' }) => {
+        const sign = direction === 'asc' ? 1 : -1;
+        const ordered = userJournal(userId).sort((a, b) => sign * compareJournalEntries(a, b));
+        const start = cursor
+          ? ordered.filter(entry => sign * compareJournalEntries(entry, cursor) <= 0).length
+          : 0;
+        const entries = ordered.slice(start, start + pageSize);
+        const last = entries[entries.length - 1];
+
+        return {
+          entries,
+          nextCursor: start + pageSize < ordered.length && last
+            ? { timestamp: last.timestamp, id: last.id }
+            : null
+        };
+      },
+      listBetween: async (userId, from, to) => userJournal(userId)
+        .filter(entry => entry.timestamp >= from && entry.timestamp < to)
+        .sort(compareJournalEntries),
+      get: async (userId, entryId) => {
+        const entry = store.get<JournalEntry>('journal', entryId);
+        return entry && entry.userId === userId ? entry : null;
+      },
+      add: async (entry) => {
+        const { id: _id, ...data } = entry;
+        return store.add('journal', data);
+      },
+      update: async (userId, entryId, data) => {
+        const entry = store.get<JournalEntry>('journal', entryId);
+        if (!entry || entry.userId !== userId) {
+          throw new Error(`Journal entry ${entryId} not found`);
+        }
+        store.update('journal', entryId, data);
+      },
+      delete: async (userId, entryId) => {
+        const entry = store.get<JournalEntry>('journal', entryId);
+        if (entry && entry.userId === userId) {
+          store.remove('journal', entryId);
+        }
+      },
+      // Local entries have always lived in their own collection
+      migrateLegacyEntries: async () => 0
+    },
+
+    relapses: {
+      list: async (userId) => userRelapses(userId)
+        .sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis())
+        .map(({ userId: _userId, ...relapse }) => relapse),
+      add: async (userId, relapse) => {
+        const { id: _id, ...data } = relapse;
+        return store.add('relapses', { ...data, userId });
+      },
+      update: async (userId, relapseId, data) => {
+        if (!userRelapses(userId).some(relapse => relapse.id === relapseId)) {
+          throw new Error(`Relapse ${relapseId} not found`);
+        }
+        store.update('relapses', relapseId, data);
+      },
+      delete: async (userId, relapseId) => {
+        if (userRelapses(userId).some(relapse => relapse.id === relapseId)) {
+          store.remove('relapses', relapseId);
+        }
+      },
+      migrateLegacyRelapses: async () => 0
+    },
+
+    checkIns: {
+      list: async (userId) => store.all<CheckIn & { userId: string }>('checkIns')
+        .filter(checkIn => checkIn.userId === userId)
+        .sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis())
+        .map(({ userId: _userId, ...checkIn }) => checkIn),
+      add: async (userId, checkIn) => {
+        const { id: _id, ...data } = checkIn;
+        return store.add('checkIns', { ...data, userId });
+      },
+      addEvent: async (event) => store.add('checkInEvents', { ...event, timestamp: Timestamp.now() }),
+      listEvents: async (from, to) => store.all<CheckInEvent>('checkInEvents')
+        .filter(event => event.timestamp.toMillis() >= from.toMillis() && event.timestamp.toMillis() < to.toMillis())
+        .sort((a, b) => a.timestamp.toMillis() - b.timestamp.toMillis()),
+      deleteEvents: async (userId) => {
+        store.all<CheckInEvent>('checkInEvents')
+          .filter(event => event.userId === userId)
+          .forEach(event => store.remove('checkInEvents', event.id));
+      }
+    },
+
+    rooms: {
+      list: async () => store.all<ChatRoom>('rooms').map(toChatRoom),
+      listForUser: async (userId, gender) => store.all<ChatRoom>('rooms')
+        .map(toChatRoom)
+        .filter(room => isEligibleForRoom(room, userId, gender)),
+      subscribeForUser: (userId, gender, callback) => {
+        const emit = () => callback(store.all<ChatRoom>('rooms')
+          .map(toChatRoom)
+          .filter(room => isEligibleForRoom(room, userId, gender)));
+        setTimeout(emit, 0);
+        return store.subscribe('rooms', emit);
+      },
+      subscribeOpenGroups: (userId, callback) => {
+        const emit = () => callback(store.all<ChatRoom>('rooms')
+          .map(toChatRoom)
+          .filter(room => room.discoverable || room.invited?.includes(userId)));
+        setTimeout(emit, 0);
+        return store.subscribe('rooms', emit);
+      },
+      get: async (roomId) => {
+        const room = store.get<ChatRoom>('rooms', roomId);
+        return room ? toChatRoom(room) : null;
+      },
+      create: async (data, roomId) => {
+        const room = { ...data, createdAt: Timestamp.now() };
+        if (roomId) {
+          store.set('rooms', roomId, room);
+          return roomId;
+        }
+        return store.add('rooms', room);
+      },
+      update: async (roomId, data) => {
+        store.update('rooms', roomId, data);
+      },
+      addParticipant: async (roomId, userId) => {
+        const room = store.get<ChatRoom>('rooms', roomId);
+        if (room && !room.participants.includes(userId)) {
+          store.update('rooms', roomId, { participants: [...room.participants, userId] });
+        }
+      },
+      removeParticipant: async (roomId, userId) => {
+        const room = store.get<ChatRoom>('rooms', roomId);
+        if (room) {
+          store.update('rooms', roomId, {
+            participants: room.participants.filter(id => id !== userId),
+            moderators: (room.moderators || []).filter(id => id !== userId)
+          });
+        }
+      },
+      invite: async (roomId, userId) => {
+        checkNotBlockedBy(userId);
+        const room = store.get<ChatRoom>('rooms', roomId);
+        if (room && !room.invited?.includes(userId)) {
+          store.update('rooms', roomId, { invited: [...(room.invited || []), userId] });
+        }
+      },
+      removeInvitation: async (roomId, userId) => {
+        const room = store.get<ChatRoom>('rooms', roomId);
+        if (room) {
+          store.update('rooms', roomId, { invited: (room.invited || []).filter(id => id !== userId) });
+        }
+      },
+      join: async (roomId, userId) => {
+        const room = store.get<ChatRoom>('rooms', roomId);
+        if (room) {
+          store.update('rooms', roomId, {
+            participants: room.participants.includes(userId) ? room.participants : [...room.participants, userId],
+            invited: (room.invited || []).filter(id => id !== userId)
+          });
+        }
+      },
+      migrateLegacyRooms: async () => {
+        const legacy = store.all<ChatRoom>('rooms').filter(room => !room.audience);
+        legacy.forEach(room => store.update('rooms', room.id, { audience: audienceForType(room.type) }));
+        return legacy.length;
+      }
+    },
+
+    messages: {
+      subscribeLatest: (roomId, count, callback) => {
+        const name = messagesCollection(roomId);
+        const emit = () => callback(store.all<ChatMessage>(name).sort(compareMessages).slice(-count));
+        setTimeout(emit, 0);
+        return store.subscribe(name, emit);
+      },
+      listBefore: async (roomId, cursor, pageSize) => {
+        const older = store.all<ChatMessage>(messagesCollection(roomId))
+          .filter(message => compareMessages(message, cursor) < 0)
+          .sort(compareMessages);
+        return {
+          messages: older.slice(-pageSize),
+          hasMore: older.length > pageSize
+        };
+      },
+      get: async (roomId, messageId) => store.get<ChatMessage>(messagesCollection(roomId), messageId),
+      add: async (roomId, data) => {
+        const room = store.get<ChatRoom>('rooms', roomId);
+        if (room?.type === 'direct') {
+          checkNotBlockedBy(room.participants.find(id => id !== data.senderId) || data.senderId);
+        }
+        const name = messagesCollection(roomId);
+        const timestamp = Timestamp.now();
+        const messageId = store.add(name, { ...data, timestamp });
+        if (data.replyTo) {
+          const parent = store.get<ChatMessage>(name, data.replyTo);
+          store.update(name, data.replyTo, {
+            replyCount: (parent?.replyCount || 0) + 1,
+            lastReplyAt: timestamp,
+            lastReplyId: messageId
+          });
+        }
+        return messageId;
+      },
+      update: async (roomId, messageId, data) => {
+        store.update(messagesCollection(roomId), messageId, data);
+      },
+      edit: async (roomId, messageId, text) => {
+        store.update(messagesCollection(roomId), messageId, { text, editedAt: Timestamp.now() });
+      },
+      setReaction: async (roomId, messageId, emoji, userId, reacted) => {
+        const reactions = { ...store.get<ChatMessage>(messagesCollection(roomId), messageId)?.reactions };
+        const others = (reactions[emoji] || []).filter(id => id !== userId);
+        store.update(messagesCollection(roomId), messageId, {
+          reactions: { ...reactions, [emoji]: reacted ? [...others, userId] : others }
+        });
+      },
+      countAfter: async (roomId, after, excludedSenderIds) => store.all<ChatMessage>(messagesCollection(roomId))
+        .filter(message => !after || message.timestamp.toMillis() > after.toMillis())
+        .filter(message => !excludedSenderIds.includes(message.senderId))
+        .length,
+      subscribeThread: (roomId, messageId, callback) => {
+        const name = messagesCollection(roomId);
+        const emit = () => callback(
+          store.get<ChatMessage>(name, messageId),
+          store.all<ChatMessage>(name).filter(message => message.replyTo === messageId).sort(compareMessages)
+        );
+        setTimeout(emit, 0);
+        return store.subscribe(name, emit);
+      }
+    },
+
+    // Without file storage, images are kept inline as data URLs
+    attachments: {
+      uploadImage: async (roomId, userId, file) => {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        let binary = '';
+        for (let start = 0; start < bytes.length; start += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+        }
+        return {
+          url: `data:${file.type};base64,${btoa(binary)}`,
+          path: `chatImages/${roomId}/${userId}/${Date.now()}`
+        };
+      },
+      remove: async () => {}
+    },
+
+    directRequests: {
+      subscribe: (userId, callback) => {
+        const emit = () => callback(store.all<DirectRequest>('directRequests')
+          .filter(request => request.fromId === userId || request.toId === userId));
+        setTimeout(emit, 0);
+        return store.subscribe('directRequests', emit);
+      },
+      send: async (fromId, toId) => {
+        checkNotBlockedBy(toId);
+        const requestId = `${fromId}_${toId}`;
+        if (store.get('directRequests', requestId)) {
+          throw new Error(`Request ${requestId} already exists`);
+        }
+        store.set('directRequests', requestId, { fromId, toId, status: 'pending', createdAt: Timestamp.now() });
+      },
+      respond: async (requestId, status) => {
+        store.update('directRequests', requestId, { status, respondedAt: Timestamp.now() });
+      },
+      withdraw: async (requestId) => {
+        store.remove('directRequests', requestId);
+      }
+    },
+
+    readMarkers: {
+      list: async (userId) => Object.fromEntries(
+        store.all<{ userId: string; roomId: string; lastReadAt: Timestamp }>('roomReads')
+          .filter(marker => marker.userId === userId)
+          .map(marker => [marker.roomId, marker.lastReadAt])
+      ),
+      subscribe: (userId, callback) => {
+        const emit = () => callback(Object.fromEntries(
+          store.all<{ userId: string; roomId: string; lastReadAt: Timestamp }>('roomReads')
+            .filter(marker => marker.userId === userId)
+            .map(marker => [marker.roomId, marker.lastReadAt])
+        ));
+        setTimeout(emit, 0);
+        return store.subscribe('roomReads', emit);
+      },
+      markRead: async (userId, roomId) => {
+        store.set('roomReads', `${userId}_${roomId}`, { userId, roomId, lastReadAt: Timestamp.now() });
+      }
+    },
+
+    partners: {
+      list: async (userId) => store.all<Partnership>('partnerships')
+        .filter(partnership => partnership.members.includes(userId)),
+      subscribe: (userId, callback) => {
+        const emit = () => callback(store.all<Partnership>('partnerships')
+          .filter(partnership => partnership.members.includes(userId)));
+        setTimeout(emit, 0);
+        return store.subscribe('partnerships', emit);
+      },
+      request: async (partnershipId, fromId, toId, sharing) => {
+        checkNotBlockedBy(toId);
+        if (store.get('partnerships', partnershipId)) {
+          throw new Error(`Partnership ${partnershipId} already exists`);
+        }
+        store.set('partnerships', partnershipId, {
+          members: [fromId, toId],
+          status: 'pending',
+          sharing: { [fromId]: sharing },
+          createdAt: Timestamp.now()
+        });
+      },
+      accept: async (partnershipId, userId, sharing) => {
+        const partnership = store.get<Partnership>('partnerships', partnershipId);
+        store.update('partnerships', partnershipId, {
+          status: 'active',
+          sharing: { ...partnership?.sharing, [userId]: sharing },
+          acceptedAt: Timestamp.now()
+        });
+      },
+      share: async (partnershipId, userId, sharing, progress) => {
+        const partnership = store.get<Partnership>('partnerships', partnershipId);
+        store.update('partnerships', partnershipId, {
+          sharing: { ...partnership?.sharing, [userId]: sharing },
+          progress: { ...partnership?.progress, [userId]: { ...progress, updatedAt: Timestamp.now() } }
+        });
+      },
+      remove: async (partnershipId) => {
+        store.remove('partnerships', partnershipId);
+      },
+      addAlert: async (alert) => store.add('partnerAlerts', {
+        ...alert,
+        read: false,
+        createdAt: Timestamp.now()
+      }),
+      subscribeAlerts: (userId, count, callback) => {
+        const emit = () => callback(store.all<PartnerAlert>('partnerAlerts')
+          .filter(alert => alert.toId === userId)
+          .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
+          .slice(0, count));
+        setTimeout(emit, 0);
+        return store.subscribe('partnerAlerts', emit);
+      },
+      markAlertsRead: async (alertIds) => {
+        alertIds.forEach(alertId => store.update('partnerAlerts', alertId, { read: true }));
+      }
+    },
+
+    presence: {
+      list: async () => store.all<Presence>('presence'),
+      subscribe: (callback) => {
+        const emit = () => callback(store.all<Presence>('presence'));
+        setTimeout(emit, 0);
+        return store.subscribe('presence', emit);
+      },
+      update: async (userId, data) => {
+        const now = Timestamp.now();
+        const { id: _id, ...existing } = store.get<Presence>('presence', userId) || { id: userId, online: false };
+        const presence: Presence = {
+          ...existing,
+          ...data,
+          userId,
+          lastSeen: now,
+          ...(data.typingIn !== undefined && { typingAt: now })
+        };
+        store.set('presence', userId, presence);
+        presenceChannel?.postMessage({
+          ...presence,
+          lastSeen: now.toMillis(),
+          typingAt: presence.typingAt ? presence.typingAt.toMillis() : null
+        });
+      }
+    },
+
+    moderation: {
+      addReport: async (report) => store.add('reports', {
+        ...report,
+        status: 'pending',
+        createdAt: Timestamp.now()
+      }),
+      listReports: async (status) => store.all<MessageReport>('reports')
+        .filter(report => !status || report.status === status)
+        .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis()),
+      resolveReport: async (reportId, status, moderatorId) => {
+        store.update('reports', reportId, { status, resolvedBy: moderatorId, resolvedAt: Timestamp.now() });
+      },
+      addLogEntry: async (entry) => store.add('moderationLog', { ...entry, timestamp: Timestamp.now() }),
+      listLog: async (count) => store.all<ModerationLogEntry>('moderationLog')
+        .sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis())
+        .slice(0, count),
+      listLogForUser: async (userId, count) => store.all<ModerationLogEntry>('moderationLog')
+        .filter(entry => entry.senderId === userId)
+        .sort((a, b) => b.timestamp.toMillis() - a.timestamp.toMillis())
+        .slice(0, count)
+    },
+
+    settings: {
+      getContentFilter: async () => {
+        const settings = store.get<ContentFilterSettings>('settings', 'contentFilter');
+        if (!settings) {
+          return null;
+        }
+        const { id: _id, ...data } = settings;
+        return data;
+      },
+      saveContentFilter: async (settings) => {
+        store.set('settings', 'contentFilter', { ...settings, updatedAt: Timestamp.now() });
+      }
+    },
+
+    tasks: {
+      get: async (userId) => store.get<DailyTaskState>('dailyTasks', userId),
+      save: async (userId, state) => {
+        store.set('dailyTasks', userId, state);
+      }
+    },
+
+    favorites: {
+      list: async (userId) => store.get<{ items: string[] }>('favorites', userId)?.items || [],
+      add: async (userId, itemId) => {
+        const items = store.get<{ items: string[] }>('favorites', userId)?.items || [];
+        if (!items.includes(itemId)) {
+          store.set('favorites', userId, { items: [...items, itemId] });
+        }
+      },
+      remove: async (userId, itemId) => {
+        const items = store.get<{ items: string[] }>('favorites', userId)?.items || [];
+        store.set('favorites', userId, { items: items.filter(id => id !== itemId) });
+      }
+    }
+  };
+};
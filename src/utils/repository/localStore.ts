@@ -0,0 +1,125 @@
+import { Timestamp } from 'firebase/firestore';
+import { Unsubscribe } from './types';
+
+type StoredDocument = Record<string, unknown>;
+type StoredCollection = Record<string, StoredDocument>;
+
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// Same shape as Firestore auto ids so ids look alike across backends
+export const createId = () => {
+  let id = '';
+  for (let i = 0; i < 20; i++) {
+    id += AUTO_ID_CHARS.charAt(Math.floor(Math.random() * AUTO_ID_CHARS.length));
+  }
+  return id;
+};
+
+// Timestamps and Dates are tagged so they come back as the same classes
+const encode = (value: unknown) => JSON.stringify(value, function (key, encoded) {
+  const raw = this[key];
+  if (raw instanceof Timestamp) {
+    return { __type: 'timestamp', millis: raw.toMillis() };
+  }
+  if (raw instanceof Date) {
+    return { __type: 'date', millis: raw.getTime() };
+  }
+  return encoded;
+});
+
+const decode = <T>(json: string): T => JSON.parse(json, (_key, value) => {
+  if (value && typeof value === 'object') {
+    if (value.__type === 'timestamp') {
+      return Timestamp.fromMillis(value.millis);
+    }
+    if (value.__type === 'date') {
+      return new Date(value.millis);
+    }
+  }
+  return value;
+});
+
+const clone = <T>(value: T): T => decode<T>(encode(value));
+
+/**
+ * A tiny document store used by the local backend. Collections are flat maps
+ * of id -> document, persisted to localStorage when it is available so a demo
+ * survives page reloads.
+ */
+export class LocalStore {
+  private collections: Record<string, StoredCollection> = {};
+  private listeners = new Map<string, Set<() => void>>();
+
+  constructor(private storageKey?: string) {
+    if (storageKey && typeof localStorage !== 'undefined') {
+      const saved = localStorage.getItem(storageKey);
+      if (saved) {
+        try {
+          this.collections = decode(saved);
+        } catch (error) {
+          console.error('Discarding unreadable local data:', error);
+        }
+      }
+    }
+  }
+
+  isEmpty() {
+    return Object.keys(this.collections).length === 0;
+  }
+
+  all<T extends object>(name: string): (T & { id: string })[] {
+    return Object.entries(this.collections[name] || {})
+      .map(([id, data]) => ({ ...clone(data), id }) as T & { id: string });
+  }
+
+  get<T extends object>(name: string, id: string): (T & { id: string }) | null {
+    const data = this.collections[name]?.[id];
+    return data ? ({ ...clone(data), id } as T & { id: string }) : null;
+  }
+
+  set(name: string, id: string, data: object) {
+    const { id: _ignored, ...rest } = data as StoredDocument;
+    this.collections[name] = { ...this.collections[name], [id]: clone(rest) };
+    this.changed(name);
+  }
+
+  add(name: string, data: object) {
+    const id = createId();
+    this.set(name, id, data);
+    return id;
+  }
+
+  // Mirrors Firestore's updateDoc, which fails on a missing document
+  update(name: string, id: string, data: object) {
+    const existing = this.collections[name]?.[id];
+    if (!existing) {
+      throw new Error(`No document to update: ${name}/${id}`);
+    }
+    this.set(name, id, { ...existing, ...clone(data) });
+  }
+
+  remove(name: string, id: string) {
+    if (this.collections[name]?.[id]) {
+      const { [id]: _removed, ...rest } = this.collections[name];
+      this.collections[name] = rest;
+      this.changed(name);
+    }
+  }
+
+  subscribe(name: string, callback: () => void): Unsubscribe {
+    if (!this.listeners.has(name)) {
+      this.listeners.set(name, new Set());
+    }
+    this.listeners.get(name)!.add(callback);
+    return () => {
+      this.listeners.get(name)?.delete(callback);
+    };
+  }
+
+  private changed(name: string) {
+    if (this.storageKey && typeof localStorage !== 'undefined') {
+      localStorage.setItem(this.storageKey, encode(this.collections));
+    }
+    this.listeners.get(name)?.forEach(callback => callback());
+  }
+}
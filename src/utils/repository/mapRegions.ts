@@ -0,0 +1,15 @@
+import { MemberLocation } from './types';
+
+// Region document ids; mirrors regionMatches in firestore.rules
+export const regionIdFor = ({ country, state }: MemberLocation) =>
+  state ? `${country}-${state}` : country;
+
+// Every region a member is counted in: their country, and their state within it
+// when they gave one. Each level is shown or hidden on its own count
+export const regionsFor = ({ country, state }: MemberLocation): MemberLocation[] =>
+  state ? [{ country, state: null }, { country, state }] : [{ country, state: null }];
+
+// Where a mapMembers record counts the member. Records from before states were
+// also counted in their country hold a single region
+export const countedRegionIds = (record: { regions?: string[]; region?: string } | null | undefined) =>
+  record?.regions || (record?.region ? [record.region] : []);
@@ -0,0 +1,32 @@
+import { ChatRoom, RoomAudience, UserProfile } from './types';
+
+// Audience implied by the room type, for rooms stored before they had one
+export const audienceForType = (type: ChatRoom['type']): RoomAudience => {
+  switch (type) {
+    case 'main':
+      return 'everyone';
+    case 'men':
+      return 'male';
+    case 'women':
+      return 'female';
+    default:
+      return 'members';
+  }
+};
+
+// Client-side mirror of canReadRoom in firestore.rules
+export const isEligibleForRoom = (
+  room: Pick<ChatRoom, 'audience' | 'participants'>,
+  userId: string,
+  gender?: UserProfile['gender']
+) => {
+  switch (room.audience) {
+    case 'everyone':
+      return true;
+    case 'male':
+    case 'female':
+      return room.audience === gender;
+    default:
+      return room.participants.includes(userId);
+  }
+};
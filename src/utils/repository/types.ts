@@ -0,0 +1,620 @@
+import { Timestamp } from 'firebase/firestore';
+
+export type Unsubscribe = () => void;
+
+// Minimal view of a signed-in account, shared by every auth backend
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+}
+
+// Where a member's identity shows up to other members
+export type IdentitySurface = 'chat' | 'members';
+// What other members see there: the community alias, the username, or nothing identifying
+export type IdentityDisplay = 'alias' | 'username' | 'anonymous';
+
+// Picked from a fixed set, so avatars never carry a photo of the member
+export interface CommunityAvatar {
+  emoji: string;
+  color: string;
+}
+
+// Readable by every signed-in member, so it must never hold anything that
+// identifies the member outside the community; see UserIdentity
+export interface UserProfile {
+  id: string;
+  username?: string;
+  alias?: string;              // Community name, separate from the legal name
+  avatar?: CommunityAvatar;
+  identityDisplay?: Partial<Record<IdentitySurface, IdentityDisplay>>;
+  gender?: 'male' | 'female' | 'other' | 'prefer-not-to-say';
+  role?: 'admin' | 'member';
+  joinedAt?: Timestamp;
+  streakDays?: number;
+  streakStartDate?: Timestamp;
+  lastCheckIn?: Timestamp;
+  timeZone?: string;           // IANA zone used to decide which day an event falls on
+  dayRolloverHour?: number;    // Hour the user's day starts, so late nights count as the previous day
+  warnings?: {                 // Moderator warnings, oldest first; only admins may change them
+    reason: string;
+    at: Timestamp;
+  }[];
+  suspension?: Suspension | null; // Only admins may change it
+  passwordResetRequired?: boolean; // Set by an admin; the member clears it by changing their password
+  passwordResetRequiredAt?: Timestamp; // Only sign-ins after this can clear the reset
+  // The signed-in member's own BlockList, merged into their profile by the app; never stored on it
+  blockedUsers?: string[];
+  mutedUsers?: string[];
+  socialMedia?: {
+    discord?: string;
+    instagram?: string;
+    other?: {
+      name: string;
+      url: string;
+    };
+  };
+}
+
+// Who a member has blocked or muted. Stored apart from the profile so only the
+// member can read it; the security rules still check it for blocks
+export interface BlockList {
+  blockedUsers: string[];     // Hidden in chat, and may not add this user to rooms or message them
+  mutedUsers: string[];       // Hidden in chat, but otherwise unrestricted
+}
+
+// Who a member is outside the community. Stored apart from the profile so
+// only the member and admins can read it
+export interface UserIdentity {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+  location?: MemberLocation | null;
+  shareLocationOnMap?: boolean; // Opt-in to being counted on the community map
+}
+
+export interface MemberLocation {
+  country: string;
+  state?: string | null;
+}
+
+// How many opted-in members live in one country, or one state of it. A member
+// with a state is counted in both. The map only ever sees these counts, never
+// who is behind them
+export interface MapRegion {
+  id: string;
+  country: string;
+  state: string | null;
+  count: number;
+}
+
+export interface JournalEntry {
+  id?: string;
+  userId: string;
+  timestamp: Date;
+  question: string;    // The prompt that was shown
+  notes: string;       // User's journal response
+  level: number;       // Mood level (1-10)
+  emotions: string[];  // Selected emotions
+  editedAt?: Date;     // Last time the entry was changed after it was written
+}
+
+// Position after the last entry of a page; entries are ordered by timestamp, then id
+export interface JournalCursor {
+  timestamp: Date;
+  id: string;
+}
+
+export interface JournalPage {
+  entries: JournalEntry[];
+  nextCursor: JournalCursor | null;
+}
+
+export interface Relapse {
+  id?: string;
+  timestamp: Timestamp; // When the relapse happened, which may be earlier than when it was reported
+  triggers: string;
+  notes?: string;
+}
+
+export interface CheckIn {
+  id?: string;
+  timestamp: Timestamp; // When the check-in was made
+  day?: string;         // Set when confirming an earlier day, as yyyy-MM-dd in the user's day boundary
+}
+
+// A daily check-in as admins see it for analytics, timed in the member's own timezone
+export interface CheckInEvent {
+  id: string;
+  userId: string;
+  timestamp: Timestamp;
+  day: string;          // yyyy-MM-dd in the member's day boundary
+  weekday: number;      // 0 (Sunday) to 6, local to the member
+  hour: number;         // 0-23, local to the member
+}
+
+// An image attached to a chat message
+export interface ChatImage {
+  url: string;
+  path: string;        // Where the file is stored, so it can be deleted with the message
+  contentType: string;
+  size: number;        // In bytes
+  width: number;
+  height: number;
+  masked?: boolean;    // Shown blurred until the reader chooses to see it
+}
+
+// Summary of the first link in a message, built by the sender's browser
+export interface LinkPreview {
+  url: string;
+  siteName: string;
+  title?: string;
+  description?: string;
+}
+
+// Interface for chat message
+export interface ChatMessage {
+  id: string;
+  senderId: string;
+  text: string;
+  timestamp: Timestamp;
+  reactions?: Record<string, string[]>; // emoji -> userId[]
+  replyTo?: string; // Id of the message that started the thread this replies in
+  replyToText?: string; // Copy of the original kept by replies sent before threads; newer replies quote it live
+  replyCount?: number; // Replies in the thread this message started
+  lastReplyAt?: Timestamp;
+  lastReplyId?: string; // The reply counted last, so the rules can check it exists
+  image?: ChatImage | null; // Cleared when the message is deleted or removed
+  linkPreview?: LinkPreview | null;
+  removedAt?: Timestamp; // Set when a moderator removed the message; text is then empty
+  removedBy?: string;
+  editedAt?: Timestamp; // Last time the sender changed the text
+  deletedAt?: Timestamp; // Set when the sender deleted the message; text is then empty
+}
+
+export type ReportStatus = 'pending' | 'approved' | 'removed' | 'warned';
+
+export type ModerationAction = 'approve' | 'remove' | 'warn';
+
+// What an admin did to a member's account, as recorded in the moderation log
+export type AccountAction = 'promote' | 'demote' | 'suspend' | 'ban' | 'reinstate' | 'reset-password';
+
+// Suspended and banned members are shut out of the app until it ends or an admin lifts it
+export interface Suspension {
+  kind: 'suspended' | 'banned';
+  reason: string;
+  until: Timestamp | null;     // Bans have no end and last until lifted
+  by: string;
+  at: Timestamp;
+}
+
+// A member's report of a chat message, reviewed in the Admin moderation queue
+export interface MessageReport {
+  id: string;
+  roomId: string;
+  messageId: string;
+  messageText: string; // Copy taken when reporting, kept after the message is removed
+  imageUrl?: string;   // The message's image, for the moderator to review
+  senderId: string;
+  reporterId: string;
+  source?: 'member' | 'filter'; // 'filter' when the content filter flagged the sender's own message
+  reason: string;
+  details?: string;
+  createdAt: Timestamp;
+  status: ReportStatus;
+  resolvedBy?: string;
+  resolvedAt?: Timestamp;
+}
+
+// A decision about a reported message, or an action on a member's account; the log is append-only
+export interface ModerationLogEntry {
+  id: string;
+  moderatorId: string;
+  action: ModerationAction | AccountAction;
+  roomId?: string;             // Message decisions only
+  messageId?: string;
+  messageText?: string;
+  senderId: string;            // The member the decision was about
+  reportIds?: string[];
+  until?: Timestamp | null;    // When a suspension ends
+  note?: string;
+  timestamp: Timestamp;
+}
+
+// Position of a message in its room; messages are ordered by timestamp, then id
+export interface MessageCursor {
+  timestamp: Timestamp;
+  id: string;
+}
+
+export interface MessagePage {
+  messages: ChatMessage[];
+  hasMore: boolean; // Whether even older messages exist
+}
+
+// Who may read and post in a room; the security rules enforce the same check.
+// 'male' and 'female' match UserProfile.gender, 'members' means participants only
+export type RoomAudience = 'everyone' | 'male' | 'female' | 'members';
+
+// Interface for chat room
+export interface ChatRoom {
+  id: string;
+  name: string;
+  description?: string;
+  participants: string[]; // Users who have joined the room
+  createdAt: Timestamp;
+  createdBy: string;      // For groups this is the owner, who may hand the group over
+  type: 'main' | 'men' | 'women' | 'group' | 'direct';
+  audience: RoomAudience;
+  moderators?: string[];  // Group members who help the owner run the group
+  invited?: string[];     // Invited to the group but not yet joined
+  discoverable?: boolean; // Listed for everyone to join; otherwise joining needs an invitation
+  archivedAt?: Timestamp | null; // Archived groups stay readable but take no new messages or members
+  lastMessage?: {
+    text: string;
+    senderId: string;
+    timestamp: Timestamp;
+  };
+}
+
+export type DirectRequestStatus = 'pending' | 'accepted' | 'declined';
+
+// One member asking another for a one-to-one conversation; the id is `${fromId}_${toId}`
+export interface DirectRequest {
+  id: string;
+  fromId: string;
+  toId: string;
+  status: DirectRequestStatus;
+  createdAt: Timestamp;
+  respondedAt?: Timestamp;
+}
+
+export type PartnerShareKey = 'streak' | 'checkIns' | 'relapses' | 'alerts';
+
+// What one partner lets the other see; each member controls only their own
+export type PartnerSharing = Record<PartnerShareKey, boolean>;
+
+// A member's progress as shown to their partner; only the shared parts are present
+export interface PartnerProgress {
+  updatedAt: Timestamp;           // Stamped by the backend on every update
+  currentStreak?: number;         // With 'streak'
+  longestStreak?: number;
+  lastCheckIn?: Timestamp | null; // With 'checkIns'
+  relapses?: {                    // With 'relapses', derived from getRelapseData
+    cleanDays: number;
+    relapseDays: number;
+    netGrowth: number;
+    streakData: { date: string; streak: number }[];
+  };
+}
+
+export type PartnershipStatus = 'pending' | 'active';
+
+// Two members following each other's progress; the id is both ids, sorted and joined by '_'
+export interface Partnership {
+  id: string;
+  members: string[];                         // [requester, recipient]
+  status: PartnershipStatus;
+  sharing: Record<string, PartnerSharing>;   // Keyed by member
+  progress?: Record<string, PartnerProgress>; // Keyed by member, only while active
+  createdAt: Timestamp;
+  acceptedAt?: Timestamp;
+}
+
+export type PartnerAlertType = 'panic' | 'relapse';
+
+// In-app notice sent to a partner who receives alerts
+export interface PartnerAlert {
+  id: string;
+  fromId: string;
+  toId: string;
+  type: PartnerAlertType;
+  createdAt: Timestamp;
+  read: boolean;
+}
+
+// Heartbeat record kept per signed-in user
+export interface Presence {
+  userId: string;
+  online: boolean;             // Cleared when the user leaves; a stale lastSeen counts as offline too
+  lastSeen: Timestamp;         // Stamped by the backend on every update
+  roomId?: string | null;      // Room open in the Discussion tab
+  typingIn?: string | null;    // Room the user is typing in
+  typingAt?: Timestamp | null; // Stamped whenever typingIn is written
+}
+
+export type ContentFilterKind = 'blockedWords' | 'explicitContent' | 'contactDetails' | 'newAccountLinks' | 'images';
+
+export type ContentFilterAction = 'block' | 'mask' | 'flag';
+
+export interface ContentFilterRule {
+  enabled: boolean;
+  action: ContentFilterAction;
+  words?: string[];           // Words and phrases, for the word-list rules
+  minAccountAgeDays?: number; // Accounts younger than this may not post links
+}
+
+export interface ContentFilterSettings {
+  rules: Record<ContentFilterKind, ContentFilterRule>;
+  updatedAt?: Timestamp;
+  updatedBy?: string;
+}
+
+export interface DailyTask {
+  id: string;
+  title: string;
+  description: string;
+  completed: boolean;
+  icon: string;
+  link: string;
+}
+
+export interface DailyTaskState {
+  tasks: DailyTask[];
+  lastUpdated: Date;
+}
+
+export interface AuthRepository {
+  getCurrentUser(): AuthUser | null;
+  onAuthStateChanged(callback: (user: AuthUser | null) => void, onError?: (error: Error) => void): Unsubscribe;
+  signIn(email: string, password: string): Promise<AuthUser>;
+  signUp(email: string, password: string): Promise<AuthUser>;
+  signOut(): Promise<void>;
+  // Re-authenticates with the current password before changing it
+  changePassword(currentPassword: string, newPassword: string): Promise<void>;
+  sendPasswordReset(email: string): Promise<void>;
+  deleteCurrentUser(): Promise<void>;
+}
+
+export interface UserRepository {
+  get(userId: string): Promise<UserProfile | null>;
+  list(): Promise<UserProfile[]>;
+  create(userId: string, data: Omit<UserProfile, 'id'>): Promise<void>;
+  update(userId: string, data: Partial<Omit<UserProfile, 'id'>>): Promise<void>;
+  // Sets passwordResetRequired; the backend stamps passwordResetRequiredAt with its own clock
+  requirePasswordReset(userId: string): Promise<void>;
+  // Removes the profile with everything kept under it: the identity, journal and other records
+  delete(userId: string): Promise<void>;
+  getIdentity(userId: string): Promise<UserIdentity | null>;
+  // Merges into the stored identity
+  setIdentity(userId: string, identity: UserIdentity): Promise<void>;
+  // Every member's identity by user id; admins only
+  listIdentities(): Promise<Record<string, UserIdentity>>;
+  // Moves names, email and location still stored on the profile into the identity;
+  // safe to call repeatedly and returns whether anything was moved
+  migrateLegacyIdentity(userId: string): Promise<boolean>;
+  // Only the member themselves can read or change their block list
+  getBlockList(userId: string): Promise<BlockList>;
+  // Adds or removes one member in place
+  setBlockListEntry(userId: string, list: keyof BlockList, targetId: string, included: boolean): Promise<void>;
+  // Moves block and mute lists still stored on the profile into the block list;
+  // safe to call repeatedly and returns whether anything was moved
+  migrateLegacyBlockList(userId: string): Promise<boolean>;
+}
+
+export interface CommunityMapRepository {
+  // Only regions with at least `minCount` members; the backend refuses to
+  // return smaller ones, so they never reach another member's device
+  listRegions(minCount: number): Promise<MapRegion[]>;
+  // Counts the member in the location's country and, when it has one, its state,
+  // or takes them off the map when null, together with the record of where they are counted
+  setRegion(userId: string, location: MemberLocation | null): Promise<void>;
+}
+
+export interface JournalRepository {
+  listPage(userId: string, options: {
+    pageSize: number;
+    cursor?: JournalCursor | null;
+    direction?: 'asc' | 'desc';
+  }): Promise<JournalPage>;
+  // Entries with from <= timestamp < to, oldest first
+  listBetween(userId: string, from: Date, to: Date): Promise<JournalEntry[]>;
+  get(userId: string, entryId: string): Promise<JournalEntry | null>;
+  add(entry: JournalEntry): Promise<string>;
+  update(userId: string, entryId: string, data: Partial<Omit<JournalEntry, 'id' | 'userId'>>): Promise<void>;
+  delete(userId: string, entryId: string): Promise<void>;
+  // Moves entries still embedded in the user document into the journal store;
+  // safe to call repeatedly and returns how many entries were moved
+  migrateLegacyEntries(userId: string): Promise<number>;
+}
+
+export interface RelapseRepository {
+  // Relapses are always returned oldest first
+  list(userId: string): Promise<Relapse[]>;
+  add(userId: string, relapse: Relapse): Promise<string>;
+  update(userId: string, relapseId: string, data: Partial<Omit<Relapse, 'id'>>): Promise<void>;
+  delete(userId: string, relapseId: string): Promise<void>;
+  // Same contract as JournalRepository.migrateLegacyEntries
+  migrateLegacyRelapses(userId: string): Promise<number>;
+}
+
+export interface CheckInRepository {
+  // Check-ins are always returned oldest first
+  list(userId: string): Promise<CheckIn[]>;
+  add(userId: string, checkIn: CheckIn): Promise<string>;
+  // Append-only; the timestamp is set on write
+  addEvent(event: Omit<CheckInEvent, 'id' | 'timestamp'>): Promise<string>;
+  // Every member's events from `from` up to but not including `to`, oldest first; admins only
+  listEvents(from: Timestamp, to: Timestamp): Promise<CheckInEvent[]>;
+  // When an account is deleted
+  deleteEvents(userId: string): Promise<void>;
+}
+
+export interface RoomRepository {
+  // Every room; only admins may read rooms they are not eligible for
+  list(): Promise<ChatRoom[]>;
+  // Only the rooms the user may read, so no other room is ever requested
+  listForUser(userId: string, gender?: UserProfile['gender']): Promise<ChatRoom[]>;
+  // Live version of listForUser
+  subscribeForUser(
+    userId: string,
+    gender: UserProfile['gender'] | undefined,
+    callback: (rooms: ChatRoom[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // Groups the user may join: discoverable ones and those they are invited to
+  subscribeOpenGroups(
+    userId: string,
+    callback: (rooms: ChatRoom[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  get(roomId: string): Promise<ChatRoom | null>;
+  // Rooms get an automatic id unless one is given
+  create(data: Omit<ChatRoom, 'id' | 'createdAt'>, roomId?: string): Promise<string>;
+  update(roomId: string, data: Partial<Omit<ChatRoom, 'id'>>): Promise<void>;
+  addParticipant(roomId: string, userId: string): Promise<void>;
+  // Also drops any moderator role the user held
+  removeParticipant(roomId: string, userId: string): Promise<void>;
+  invite(roomId: string, userId: string): Promise<void>;
+  removeInvitation(roomId: string, userId: string): Promise<void>;
+  // Adds the user and drops their invitation, if they had one
+  join(roomId: string, userId: string): Promise<void>;
+  // Stores an audience on rooms created before rooms carried one; admin only,
+  // safe to call repeatedly and returns how many rooms were updated
+  migrateLegacyRooms(): Promise<number>;
+}
+
+export interface MessageRepository {
+  // Messages are always returned oldest first. Only the newest `count` messages
+  // are watched; each change re-delivers that whole window
+  subscribeLatest(
+    roomId: string,
+    count: number,
+    callback: (messages: ChatMessage[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // Up to pageSize messages older than the cursor
+  listBefore(roomId: string, cursor: MessageCursor, pageSize: number): Promise<MessagePage>;
+  get(roomId: string, messageId: string): Promise<ChatMessage | null>;
+  // The backend stamps the message with its own clock. A reply is counted on the
+  // message that started its thread in the same write
+  add(roomId: string, data: Omit<ChatMessage, 'id' | 'timestamp'>): Promise<string>;
+  update(roomId: string, messageId: string, data: Partial<Omit<ChatMessage, 'id'>>): Promise<void>;
+  // Replaces the text; the backend stamps editedAt with its own clock
+  edit(roomId: string, messageId: string, text: string): Promise<void>;
+  // Adds or takes back one member's reaction in place, so concurrent reactions don't overwrite each other
+  setReaction(roomId: string, messageId: string, emoji: string, userId: string, reacted: boolean): Promise<void>;
+  // Messages sent after the given time, or all of them without one, leaving out the given senders
+  countAfter(roomId: string, after: Timestamp | null, excludedSenderIds: string[]): Promise<number>;
+  // The message that started a thread, or null once it is gone, and its replies oldest first
+  subscribeThread(
+    roomId: string,
+    messageId: string,
+    callback: (parent: ChatMessage | null, replies: ChatMessage[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
+
+export interface DirectRequestRepository {
+  // Requests the user sent or received, in any status
+  subscribe(
+    userId: string,
+    callback: (requests: DirectRequest[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // The backend stamps createdAt and files the request as pending
+  send(fromId: string, toId: string): Promise<void>;
+  respond(requestId: string, status: Exclude<DirectRequestStatus, 'pending'>): Promise<void>;
+  withdraw(requestId: string): Promise<void>;
+}
+
+export interface ReadMarkerRepository {
+  // When the user last read each room, keyed by room id
+  list(userId: string): Promise<Record<string, Timestamp>>;
+  subscribe(
+    userId: string,
+    callback: (readMarkers: Record<string, Timestamp>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // The backend stamps the time
+  markRead(userId: string, roomId: string): Promise<void>;
+}
+
+export interface PartnerRepository {
+  // Partnerships the user is part of, in any status
+  list(userId: string): Promise<Partnership[]>;
+  subscribe(
+    userId: string,
+    callback: (partnerships: Partnership[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // The backend stamps createdAt and files the partnership as pending
+  request(partnershipId: string, fromId: string, toId: string, sharing: PartnerSharing): Promise<void>;
+  accept(partnershipId: string, userId: string, sharing: PartnerSharing): Promise<void>;
+  // Replaces what the user shares; the backend stamps progress.updatedAt
+  share(partnershipId: string, userId: string, sharing: PartnerSharing, progress: Omit<PartnerProgress, 'updatedAt'>): Promise<void>;
+  remove(partnershipId: string): Promise<void>;
+  // The backend stamps createdAt and files the alert as unread
+  addAlert(alert: Omit<PartnerAlert, 'id' | 'createdAt' | 'read'>): Promise<string>;
+  // The user's most recent alerts, newest first
+  subscribeAlerts(
+    userId: string,
+    count: number,
+    callback: (alerts: PartnerAlert[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  markAlertsRead(alertIds: string[]): Promise<void>;
+}
+
+export interface PresenceRepository {
+  list(): Promise<Presence[]>;
+  subscribe(callback: (presence: Presence[]) => void, onError?: (error: Error) => void): Unsubscribe;
+  // Merges the given fields into the user's record and refreshes lastSeen
+  update(userId: string, data: Partial<Omit<Presence, 'userId' | 'lastSeen' | 'typingAt'>>): Promise<void>;
+}
+
+export interface ModerationRepository {
+  // The backend stamps createdAt and files the report as pending
+  addReport(report: Omit<MessageReport, 'id' | 'createdAt' | 'status' | 'resolvedBy' | 'resolvedAt'>): Promise<string>;
+  // Newest first, optionally only those with the given status
+  listReports(status?: ReportStatus): Promise<MessageReport[]>;
+  resolveReport(reportId: string, status: Exclude<ReportStatus, 'pending'>, moderatorId: string): Promise<void>;
+  addLogEntry(entry: Omit<ModerationLogEntry, 'id' | 'timestamp'>): Promise<string>;
+  // The most recent decisions, newest first
+  listLog(count: number): Promise<ModerationLogEntry[]>;
+  // The most recent decisions about one member, newest first
+  listLogForUser(userId: string, count: number): Promise<ModerationLogEntry[]>;
+}
+
+export interface SettingsRepository {
+  getContentFilter(): Promise<ContentFilterSettings | null>;
+  // The backend stamps updatedAt
+  saveContentFilter(settings: Omit<ContentFilterSettings, 'updatedAt'>): Promise<void>;
+}
+
+export interface AttachmentRepository {
+  // Stores an image sent in a room and returns where it can be loaded from
+  uploadImage(roomId: string, userId: string, file: Blob): Promise<{ url: string; path: string }>;
+  remove(path: string): Promise<void>;
+}
+
+export interface TaskRepository {
+  get(userId: string): Promise<DailyTaskState | null>;
+  save(userId: string, state: DailyTaskState): Promise<void>;
+}
+
+export interface FavoriteRepository {
+  list(userId: string): Promise<string[]>;
+  add(userId: string, itemId: string): Promise<void>;
+  remove(userId: string, itemId: string): Promise<void>;
+}
+
+export interface DataRepository {
+  backend: 'firestore' | 'local';
+  auth: AuthRepository;
+  users: UserRepository;
+  communityMap: CommunityMapRepository;
+  journal: JournalRepository;
+  relapses: RelapseRepository;
+  checkIns: CheckInRepository;
+  rooms: RoomRepository;
+  messages: MessageRepository;
+  attachments: AttachmentRepository;
+  directRequests: DirectRequestRepository;
+  readMarkers: ReadMarkerRepository;
+  partners: PartnerRepository;
+  presence: PresenceRepository;
+  moderation: ModerationRepository;
+  settings: SettingsRepository;
+  tasks: TaskRepository;
+  favorites: FavoriteRepository;
+}
@@ -0,0 +1,159 @@
+import { addDays, differenceInCalendarDays, format } from 'date-fns';
+import { DayBoundary, dayKeyToDate, getDayBoundary, toDayKey } from './dayBoundary';
+
+/**
+ * Pure streak engine. Every streak figure in the app is derived from the same
+ * three inputs, so Dashboard, Analytics and the calendar can never disagree:
+ *
+ * - a day with a relapse resets the streak to 0,
+ * - the declared start date resets it the same way,
+ * - once the user has started checking in, a past day without a check-in
+ *   breaks the run; days before the first check-in are taken on trust.
+ *
+ * A missed day is only final once it leaves the grace window, during which the
+ * user may still confirm they were clean. After that a freeze token, earned
+ * every FREEZE_EARN_INTERVAL streak days, is spent to cover it if one is held.
+ *
+ * The streak on a day is the number of whole days since the last reset. Days
+ * are the user's days, bucketed by their DayBoundary.
+ */
+export const CHECK_IN_GRACE_DAYS = 3;
+export const FREEZE_EARN_INTERVAL = 7;
+export const MAX_FREEZE_TOKENS = 3;
+
+export interface StreakEvents {
+  startDate: Date;        // Declared start of the current attempt, a calendar date in local time
+  trackingSince?: Date;   // Where history begins, usually the join date
+  checkIns: Date[];
+  confirmedDays?: string[]; // Day keys confirmed clean after the fact
+  relapses: Date[];
+}
+
+export interface StreakDay {
+  key: string;            // yyyy-MM-dd in the user's day boundary
+  date: Date;             // Local midnight of that day, for display
+  streak: number;
+  hadRelapse: boolean;
+  checkedIn: boolean;     // Checked in on the day or confirmed it later
+  frozen: boolean;        // Missed, but covered by a freeze token
+  pending: boolean;       // Missed, but still inside the grace window
+  freezeTokens: number;   // Tokens held at the end of the day
+}
+
+export interface StreakSummary {
+  currentStreak: number;
+  longestStreak: number;
+  cleanDays: number;
+  relapseDays: number;
+  netGrowth: number;
+  checkedInToday: boolean;
+  lastCheckIn: Date | null;
+  freezeTokens: number;
+  pendingDays: StreakDay[];
+}
+
+export const buildStreakTimeline = (
+  events: StreakEvents,
+  now: Date = new Date(),
+  boundary: DayBoundary = getDayBoundary()
+): StreakDay[] => {
+  const todayKey = toDayKey(now, boundary);
+  // The declared start was picked on a calendar, so it is already a day rather than an instant
+  const startKey = format(events.startDate, 'yyyy-MM-dd');
+  const relapses = events.relapses.filter(date => date <= now);
+  const checkIns = events.checkIns.filter(date => date <= now);
+
+  const relapseDays = new Set(relapses.map(date => toDayKey(date, boundary)));
+  const checkInDays = new Set([
+    ...checkIns.map(date => toDayKey(date, boundary)),
+    ...(events.confirmedDays || [])
+  ]);
+
+  // Backdated relapses may predate tracking; history starts at whichever comes first
+  const firstKey = [
+    events.trackingSince ? toDayKey(events.trackingSince, boundary) : startKey,
+    startKey,
+    ...relapseDays
+  ].sort()[0];
+  if (firstKey > todayKey) {
+    return [];
+  }
+
+  const timeline: StreakDay[] = [];
+  const todayDate = dayKeyToDate(todayKey);
+  let anchor = 0;
+  let checkingIn = false;
+  let broken = false; // A missed day reset the run and nothing has been checked in since
+  let tokens = 0;
+
+  for (let i = 0, date = dayKeyToDate(firstKey); ; i++, date = addDays(date, 1)) {
+    const key = format(date, 'yyyy-MM-dd');
+    const hadRelapse = relapseDays.has(key);
+    const checkedIn = checkInDays.has(key);
+    const isToday = key === todayKey;
+    let frozen = false;
+    let pending = false;
+
+    if (key === startKey || hadRelapse) {
+      anchor = i;
+      checkingIn = false;
+      broken = false;
+    } else if (broken && !checkedIn) {
+      // Grace only keeps a live run going; a broken one stays at zero until the next check-in
+      anchor = i;
+      pending = !isToday && differenceInCalendarDays(todayDate, date) <= CHECK_IN_GRACE_DAYS;
+    } else if (checkingIn && !checkedIn && !isToday) {
+      // Today is still open, so only earlier days can count as missed
+      if (differenceInCalendarDays(todayDate, date) <= CHECK_IN_GRACE_DAYS) {
+        pending = true;
+      } else if (tokens > 0) {
+        tokens--;
+        frozen = true;
+      } else {
+        anchor = i;
+        broken = true;
+      }
+    }
+
+    if (checkedIn) {
+      checkingIn = true;
+      broken = false;
+    }
+
+    const streak = i - anchor;
+    if (streak > 0 && streak % FREEZE_EARN_INTERVAL === 0) {
+      tokens = Math.min(MAX_FREEZE_TOKENS, tokens + 1);
+    }
+
+    timeline.push({ key, date, streak, hadRelapse, checkedIn, frozen, pending, freezeTokens: tokens });
+
+    if (isToday) {
+      return timeline;
+    }
+  }
+};
+
+export const summarizeStreaks = (
+  events: StreakEvents,
+  now: Date = new Date(),
+  boundary: DayBoundary = getDayBoundary()
+): StreakSummary => {
+  const timeline = buildStreakTimeline(events, now, boundary);
+  const relapseDays = timeline.filter(day => day.hadRelapse).length;
+  const cleanDays = timeline.length - relapseDays;
+  const pastCheckIns = events.checkIns.filter(date => date <= now);
+
+  return {
+    currentStreak: timeline.length > 0 ? timeline[timeline.length - 1].streak : 0,
+    longestStreak: timeline.reduce((longest, day) => Math.max(longest, day.streak), 0),
+    cleanDays,
+    relapseDays,
+    netGrowth: cleanDays - relapseDays,
+    checkedInToday: timeline.length > 0 && timeline[timeline.length - 1].checkedIn,
+    freezeTokens: timeline.length > 0 ? timeline[timeline.length - 1].freezeTokens : 0,
+    pendingDays: timeline.filter(day => day.pending),
+    lastCheckIn: pastCheckIns.length > 0
+      ? pastCheckIns.reduce((latest, date) => (date > latest ? date : latest))
+      : null
+  };
+};
@@ -0,0 +1,67 @@
+/**
+ * Account deletion tests. They run against the local backend, which mirrors
+ * what Firestore keeps under users/{userId}: `npm test`.
+ */
+import { beforeEach, describe, expect, test } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { createLocalRepository } from '../src/utils/repository/local';
+import { LocalStore } from '../src/utils/repository/localStore';
+import { DataRepository } from '../src/utils/repository/types';
+
+const USER_ID = 'member';
+const OTHER_ID = 'other';
+
+let repository: DataRepository;
+
+// A member with something in every place their data is kept
+const addEverything = async (userId: string) => {
+  await repository.users.create(userId, { username: userId, gender: 'male' });
+  await repository.users.setIdentity(userId, { firstName: 'Sam', lastName: 'Doe', email: `${userId}@example.com` });
+  await repository.journal.add({
+    userId,
+    timestamp: new Date(),
+    question: 'How was today?',
+    notes: 'Fine',
+    level: 7,
+    emotions: ['calm']
+  });
+  await repository.relapses.add(userId, { timestamp: Timestamp.now(), triggers: 'Stress' });
+  await repository.checkIns.add(userId, { timestamp: Timestamp.now() });
+  await repository.readMarkers.markRead(userId, 'main');
+  await repository.tasks.save(userId, { tasks: [], lastUpdated: new Date() });
+  await repository.favorites.add(userId, 'breathing');
+  await repository.users.setBlockListEntry(userId, 'blockedUsers', 'someone', true);
+};
+
+beforeEach(() => {
+  repository = createLocalRepository(new LocalStore());
+});
+
+describe('deleting an account', () => {
+  test('nothing is left under the member', async () => {
+    await addEverything(USER_ID);
+    await repository.users.delete(USER_ID);
+
+    expect(await repository.users.get(USER_ID)).toBeNull();
+    expect(await repository.users.getIdentity(USER_ID)).toBeNull();
+    expect((await repository.journal.listPage(USER_ID, { pageSize: 10 })).entries).toEqual([]);
+    expect(await repository.relapses.list(USER_ID)).toEqual([]);
+    expect(await repository.checkIns.list(USER_ID)).toEqual([]);
+    expect(await repository.readMarkers.list(USER_ID)).toEqual({});
+    expect(await repository.tasks.get(USER_ID)).toBeNull();
+    expect(await repository.favorites.list(USER_ID)).toEqual([]);
+    expect(await repository.users.getBlockList(USER_ID)).toEqual({ blockedUsers: [], mutedUsers: [] });
+  });
+
+  test('other members keep their data', async () => {
+    await addEverything(USER_ID);
+    await addEverything(OTHER_ID);
+    await repository.users.delete(USER_ID);
+
+    expect(await repository.users.get(OTHER_ID)).not.toBeNull();
+    expect((await repository.journal.listPage(OTHER_ID, { pageSize: 10 })).entries).toHaveLength(1);
+    expect(await repository.relapses.list(OTHER_ID)).toHaveLength(1);
+    expect(await repository.checkIns.list(OTHER_ID)).toHaveLength(1);
+    expect(Object.keys(await repository.readMarkers.list(OTHER_ID))).toEqual(['main']);
+  });
+});
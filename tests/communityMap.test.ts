@@ -0,0 +1,53 @@
+/**
+ * Community map counting tests. They run against the local backend, which
+ * counts members the way the Firestore rules require: `npm test`.
+ */
+import { beforeEach, describe, expect, test } from 'vitest';
+import { createLocalRepository } from '../src/utils/repository/local';
+import { LocalStore } from '../src/utils/repository/localStore';
+import { DataRepository, MemberLocation } from '../src/utils/repository/types';
+
+const MIN_COUNT = 5;
+
+let repository: DataRepository;
+
+const addMembers = async (prefix: string, count: number, location: MemberLocation) => {
+  for (let i = 0; i < count; i++) {
+    await repository.communityMap.setRegion(`${prefix}-${i}`, location);
+  }
+};
+
+const visibleCounts = async () =>
+  Object.fromEntries((await repository.communityMap.listRegions(MIN_COUNT)).map(region => [region.id, region.count]));
+
+beforeEach(() => {
+  repository = createLocalRepository(new LocalStore());
+});
+
+describe('community map', () => {
+  test('members with a state are counted in their country too', async () => {
+    await addMembers('ca', 5, { country: 'us', state: 'CA' });
+    await addMembers('tx', 2, { country: 'us', state: 'TX' });
+
+    expect(await visibleCounts()).toEqual({ us: 7, 'us-CA': 5 });
+  });
+
+  test('a country shows once enough members are in it, even if no state does', async () => {
+    await addMembers('tx', 2, { country: 'us', state: 'TX' });
+    await addMembers('ny', 2, { country: 'us', state: 'NY' });
+    await addMembers('us', 1, { country: 'us' });
+
+    expect(await visibleCounts()).toEqual({ us: 5 });
+  });
+
+  test('moving state keeps the country count and leaving takes both', async () => {
+    await addMembers('ca', 5, { country: 'us', state: 'CA' });
+    await repository.communityMap.setRegion('ca-0', { country: 'us', state: 'TX' });
+    expect(await visibleCounts()).toEqual({ us: 5 });
+
+    await repository.communityMap.setRegion('ca-1', null);
+    expect(await visibleCounts()).toEqual({});
+    const all = await repository.communityMap.listRegions(0);
+    expect(Object.fromEntries(all.map(region => [region.id, region.count]))).toEqual({ us: 4, 'us-CA': 3, 'us-TX': 1 });
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Content filter tests. Pure functions only: `npm test`.
+ */
+import { describe, expect, test } from 'vitest';
+import { applyContentFilter, resolveContentFilter } from '../src/utils/contentFilter';
+import { parseMarkdown } from '../src/utils/markdown';
+
+const settings = resolveContentFilter({
+  rules: { blockedWords: { enabled: true, action: 'mask', words: ['darn'] } }
+} as Parameters<typeof resolveContentFilter>[0]);
+
+describe('masking', () => {
+  test('masked words keep their length', () => {
+    expect(applyContentFilter('well darn it', settings).text).toBe('well •••• it');
+  });
+
+  test('masks are not read as markdown emphasis', () => {
+    const { text } = applyContentFilter('darn this, darn that', settings);
+    expect(parseMarkdown(text)).toEqual([
+      { type: 'paragraph', lines: [[{ type: 'text', text: '•••• this, •••• that' }]] }
+    ]);
+  });
+});
@@ -0,0 +1,972 @@
+/**
+ * Security rules tests. They need the Firestore emulator, so run them with
+ * `npm run test:rules`, which starts it through the Firebase CLI.
+ */
+import { readFileSync } from 'node:fs';
+import { after, before, beforeEach, describe, test } from 'node:test';
+import { assertFails, assertSucceeds, initializeTestEnvironment } from '@firebase/rules-unit-testing';
+import {
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  collectionGroup,
+  deleteField,
+  doc,
+  FieldPath,
+  getDoc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  increment,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+
+let testEnv;
+
+const rooms = {
+  main: { name: 'Main Chat', type: 'main', audience: 'everyone', participants: [], createdBy: 'system' },
+  men: { name: "Men's Chat", type: 'men', audience: 'male', participants: [], createdBy: 'system' },
+  women: { name: "Women's Chat", type: 'women', audience: 'female', participants: [], createdBy: 'system' },
+  group: { name: 'Evening group', type: 'group', audience: 'members', participants: ['alice'], createdBy: 'alice' },
+  legacy: { name: 'Old group', type: 'group', participants: ['alice'], createdBy: 'alice' }
+};
+
+const firestoreAs = (userId) => (userId
+  ? testEnv.authenticatedContext(userId)
+  : testEnv.unauthenticatedContext()
+).firestore();
+
+const messages = (userId, roomId) => collection(firestoreAs(userId), 'rooms', roomId, 'messages');
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'purepath-rules-test',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') }
+  });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await setDoc(doc(db, 'users', 'alice'), { username: 'alice', gender: 'female', role: 'member' });
+    await setDoc(doc(db, 'users', 'bob'), { username: 'bob', gender: 'male', role: 'member' });
+    await setDoc(doc(db, 'users', 'admin'), { username: 'admin', gender: 'prefer-not-to-say', role: 'admin' });
+
+    for (const [roomId, room] of Object.entries(rooms)) {
+      await setDoc(doc(db, 'rooms', roomId), room);
+      await setDoc(doc(db, 'rooms', roomId, 'messages', 'first'), {
+        senderId: 'system',
+        text: 'Welcome',
+        timestamp: new Date()
+      });
+    }
+  });
+});
+
+describe('reading messages', () => {
+  test('signed-out visitors cannot read any room', async () => {
+    await assertFails(getDocs(messages(null, 'main')));
+  });
+
+  test('everyone signed in can read the main room', async () => {
+    await assertSucceeds(getDocs(messages('alice', 'main')));
+    await assertSucceeds(getDocs(messages('bob', 'main')));
+  });
+
+  test('gender rooms are limited to matching profiles', async () => {
+    await assertSucceeds(getDocs(messages('bob', 'men')));
+    await assertFails(getDocs(messages('alice', 'men')));
+    await assertSucceeds(getDocs(messages('alice', 'women')));
+    await assertFails(getDocs(messages('bob', 'women')));
+  });
+
+  test('groups are limited to their participants, even by id', async () => {
+    await assertSucceeds(getDocs(messages('alice', 'group')));
+    await assertFails(getDocs(messages('bob', 'group')));
+    await assertFails(getDoc(doc(firestoreAs('bob'), 'rooms', 'group', 'messages', 'first')));
+  });
+
+  test('rooms without an audience stay closed until migrated', async () => {
+    await assertFails(getDocs(messages('alice', 'legacy')));
+  });
+
+  test('admins can read every room', async () => {
+    for (const roomId of Object.keys(rooms)) {
+      await assertSucceeds(getDocs(messages('admin', roomId)));
+    }
+  });
+});
+
+describe('listing rooms', () => {
+  test('the eligibility queries used by the app are allowed', async () => {
+    const roomsRef = collection(firestoreAs('bob'), 'rooms');
+    await assertSucceeds(getDocs(query(roomsRef, where('audience', '==', 'everyone'))));
+    await assertSucceeds(getDocs(query(roomsRef, where('audience', '==', 'male'))));
+    await assertSucceeds(getDocs(query(
+      roomsRef,
+      where('audience', '==', 'members'),
+      where('participants', 'array-contains', 'bob')
+    )));
+  });
+
+  test('members cannot list every room or rooms they are not eligible for', async () => {
+    const roomsRef = collection(firestoreAs('bob'), 'rooms');
+    await assertFails(getDocs(roomsRef));
+    await assertFails(getDocs(query(roomsRef, where('audience', '==', 'female'))));
+    await assertFails(getDocs(query(roomsRef, where('audience', '==', 'members'))));
+  });
+
+  test('admins can list every room', async () => {
+    await assertSucceeds(getDocs(collection(firestoreAs('admin'), 'rooms')));
+  });
+});
+
+describe('sending messages', () => {
+  const message = (senderId) => ({ senderId, text: 'Hello', timestamp: serverTimestamp() });
+
+  test('members can post as themselves in rooms they may read', async () => {
+    await assertSucceeds(addDoc(messages('bob', 'men'), message('bob')));
+    await assertSucceeds(addDoc(messages('alice', 'group'), message('alice')));
+  });
+
+  test('nobody can post into a room they may not read', async () => {
+    await assertFails(addDoc(messages('alice', 'men'), message('alice')));
+    await assertFails(addDoc(messages('bob', 'group'), message('bob')));
+  });
+
+  test('messages cannot be sent as someone else or backdated', async () => {
+    await assertFails(addDoc(messages('bob', 'main'), message('alice')));
+    await assertFails(addDoc(messages('bob', 'main'), { senderId: 'bob', text: 'Hello', timestamp: new Date(0) }));
+  });
+
+  test('room members can react but not rewrite a message', async () => {
+    const first = doc(messages('alice', 'main'), 'first');
+    await assertSucceeds(updateDoc(first, { reactions: { '👍': ['alice'] } }));
+    await assertFails(updateDoc(first, { text: 'Edited' }));
+    await assertFails(updateDoc(doc(messages('alice', 'men'), 'first'), { reactions: { '👍': ['alice'] } }));
+  });
+
+  test('members change only their own reactions', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'rooms', 'main', 'messages', 'first'), { reactions: { '👍': ['bob'] } });
+    });
+    const first = doc(messages('alice', 'main'), 'first');
+    await assertFails(updateDoc(first, { reactions: {} }));
+    await assertFails(updateDoc(first, { reactions: { '👍': ['bob'], '🙏': ['bob'] } }));
+    await assertFails(updateDoc(first, { reactions: { '👍': ['bob', 'alice'], '🙏': ['alice'] } }));
+    await assertSucceeds(updateDoc(first, { reactions: { '👍': ['bob', 'alice'] } }));
+    await assertSucceeds(updateDoc(first, { reactions: { '👍': ['bob'] } }));
+  });
+
+  test('reactions are added and taken back in place, as the app writes them', async () => {
+    const first = (userId) => doc(messages(userId, 'main'), 'first');
+    const reaction = new FieldPath('reactions', '👍');
+    await Promise.all([
+      assertSucceeds(updateDoc(first('alice'), reaction, arrayUnion('alice'))),
+      assertSucceeds(updateDoc(first('bob'), reaction, arrayUnion('bob')))
+    ]);
+    await assertFails(updateDoc(first('alice'), reaction, arrayRemove('bob')));
+    await assertSucceeds(updateDoc(first('alice'), reaction, arrayRemove('alice')));
+  });
+});
+
+describe('threads', () => {
+  const reply = (senderId, replyTo) => ({ senderId, text: 'Same here', timestamp: serverTimestamp(), replyTo });
+
+  // Sends a reply and counts it on the original in one batch, as the app does
+  const sendReply = (userId, replyTo, counted = {}) => {
+    const batch = writeBatch(firestoreAs(userId));
+    const replyDoc = doc(messages(userId, 'main'));
+    batch.set(replyDoc, reply(userId, replyTo));
+    batch.update(doc(messages(userId, 'main'), replyTo), {
+      replyCount: increment(1),
+      lastReplyAt: serverTimestamp(),
+      lastReplyId: replyDoc.id,
+      ...counted
+    });
+    return batch.commit();
+  };
+
+  test('members can reply to a message and count the reply', async () => {
+    await assertSucceeds(sendReply('bob', 'first'));
+    await assertSucceeds(addDoc(messages('bob', 'main'), reply('bob', 'first')));
+  });
+
+  test('a reply is only counted in the write that sends it', async () => {
+    const first = doc(messages('bob', 'main'), 'first');
+    const sent = await addDoc(messages('bob', 'main'), reply('bob', 'first'));
+    await assertFails(updateDoc(first, { replyCount: increment(1), lastReplyAt: serverTimestamp() }));
+    await assertFails(updateDoc(first, { replyCount: increment(1), lastReplyAt: serverTimestamp(), lastReplyId: sent.id }));
+    await assertFails(sendReply('bob', 'first', { lastReplyId: 'first' }));
+  });
+
+  test('replies must point at an existing message that is not a reply itself', async () => {
+    await assertFails(addDoc(messages('bob', 'main'), reply('bob', 'missing')));
+    const first = await addDoc(messages('bob', 'main'), reply('bob', 'first'));
+    await assertFails(addDoc(messages('alice', 'main'), reply('alice', first.id)));
+  });
+
+  test('replies no longer carry a copy of the original', async () => {
+    await assertFails(addDoc(messages('bob', 'main'), { ...reply('bob', 'first'), replyToText: 'Welcome' }));
+  });
+
+  test('reply counts only go up by one at a time', async () => {
+    await assertFails(sendReply('bob', 'first', { replyCount: 5 }));
+    await assertFails(sendReply('bob', 'first', { lastReplyAt: new Date(0) }));
+  });
+});
+
+describe('message attachments', () => {
+  const image = (overrides = {}) => ({
+    url: 'https://firebasestorage.googleapis.com/v0/b/purepath.appspot.com/o/chatImages%2Fmain%2Fbob%2Fphoto?alt=media&token=abc',
+    path: 'chatImages/main/bob/photo',
+    contentType: 'image/jpeg',
+    size: 1024,
+    width: 800,
+    height: 600,
+    ...overrides
+  });
+  const withImage = (overrides) => ({ senderId: 'bob', text: '', timestamp: serverTimestamp(), image: image(overrides) });
+
+  test('members can send an image without text', async () => {
+    await assertSucceeds(addDoc(messages('bob', 'main'), withImage()));
+  });
+
+  test('messages without text or an image are refused', async () => {
+    await assertFails(addDoc(messages('bob', 'main'), { senderId: 'bob', text: '', timestamp: serverTimestamp() }));
+  });
+
+  test('images must be small, of an allowed type and uploaded by the sender to the room', async () => {
+    await assertFails(addDoc(messages('bob', 'main'), withImage({ size: 3 * 1024 * 1024 })));
+    await assertFails(addDoc(messages('bob', 'main'), withImage({ contentType: 'image/svg+xml' })));
+    await assertFails(addDoc(messages('bob', 'main'), withImage({ path: 'chatImages/main/alice/photo' })));
+    await assertFails(addDoc(messages('bob', 'main'), withImage({ path: 'chatImages/men/bob/photo' })));
+  });
+
+  test('image urls point at the uploaded file', async () => {
+    await assertFails(addDoc(messages('bob', 'main'), withImage({ url: 'javascript:alert(1)' })));
+    await assertFails(addDoc(messages('bob', 'main'), withImage({ url: 'https://tracker.example/pixel.gif' })));
+    await assertFails(addDoc(messages('bob', 'main'), withImage({
+      url: 'https://firebasestorage.googleapis.com/v0/b/purepath.appspot.com/o/chatImages%2Fmain%2Fbob%2Fother?alt=media'
+    })));
+  });
+
+  test('image urls must be in the project bucket', async () => {
+    await assertSucceeds(addDoc(messages('bob', 'main'), withImage({
+      url: 'https://firebasestorage.googleapis.com/v0/b/purepath.appspot.com/o/chatImages%2Fmain%2Fbob%2Fphoto?alt=media'
+    })));
+    await assertFails(addDoc(messages('bob', 'main'), withImage({
+      url: 'https://firebasestorage.googleapis.com/v0/b/attacker.appspot.com/o/chatImages%2Fmain%2Fbob%2Fphoto?alt=media'
+    })));
+    await assertFails(addDoc(messages('bob', 'main'), withImage({
+      url: 'https://firebasestorage.googleapis.com/v0/b/purepath.appspot.com/o/chatImages%2Fmain%2Fbob%2Fphoto?alt=media&token=abc&x=1'
+    })));
+  });
+
+  test('only the sender attaches a link preview', async () => {
+    const sent = await addDoc(messages('bob', 'main'), {
+      senderId: 'bob',
+      text: 'https://example.com',
+      timestamp: serverTimestamp()
+    });
+    const preview = { linkPreview: { url: 'https://example.com/', siteName: 'example.com', title: 'Example' } };
+    await assertFails(updateDoc(doc(messages('alice', 'main'), sent.id), preview));
+    await assertSucceeds(updateDoc(doc(messages('bob', 'main'), sent.id), preview));
+    await assertFails(updateDoc(doc(messages('bob', 'main'), sent.id), { linkPreview: { url: 'https://example.com/', html: '<b>' } }));
+    await assertFails(updateDoc(doc(messages('bob', 'main'), sent.id), { linkPreview: { url: 'javascript:alert(1)', siteName: 'example.com' } }));
+    await assertFails(updateDoc(doc(messages('bob', 'main'), sent.id), {
+      linkPreview: { ...preview.linkPreview, image: 'https://tracker.example/pixel.gif' }
+    }));
+  });
+
+  test('deleting a message drops its image and preview', async () => {
+    const sent = await addDoc(messages('bob', 'main'), withImage());
+    await assertFails(updateDoc(doc(messages('bob', 'main'), sent.id), { text: '', deletedAt: serverTimestamp() }));
+    await assertSucceeds(updateDoc(doc(messages('bob', 'main'), sent.id), {
+      text: '',
+      image: null,
+      linkPreview: null,
+      deletedAt: serverTimestamp()
+    }));
+  });
+});
+
+describe('editing and deleting messages', () => {
+  const sentAgo = async (minutes) => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'rooms', 'main', 'messages', 'mine'), {
+        senderId: 'bob',
+        text: 'Helo',
+        timestamp: new Date(Date.now() - minutes * 60 * 1000)
+      });
+    });
+    return doc(messages('bob', 'main'), 'mine');
+  };
+
+  test('senders can edit a recent message', async () => {
+    const mine = await sentAgo(1);
+    await assertSucceeds(updateDoc(mine, { text: 'Hello', editedAt: serverTimestamp() }));
+  });
+
+  test('edits are stamped with the server clock', async () => {
+    const mine = await sentAgo(1);
+    await assertFails(updateDoc(mine, { text: 'Hello', editedAt: new Date(Date.now() - 60 * 60 * 1000) }));
+    await assertFails(updateDoc(mine, { text: 'Hello' }));
+  });
+
+  test('edits are locked once the window has passed', async () => {
+    const mine = await sentAgo(60);
+    await assertFails(updateDoc(mine, { text: 'Hello', editedAt: serverTimestamp() }));
+  });
+
+  test('senders can delete their messages at any time', async () => {
+    const mine = await sentAgo(60);
+    await assertSucceeds(updateDoc(mine, { text: '', deletedAt: serverTimestamp() }));
+    await assertFails(updateDoc(mine, { text: 'Back again', editedAt: serverTimestamp() }));
+  });
+
+  test('nobody else can edit or delete a message', async () => {
+    await sentAgo(1);
+    const theirs = doc(messages('alice', 'main'), 'mine');
+    await assertFails(updateDoc(theirs, { text: 'Hello', editedAt: serverTimestamp() }));
+    await assertFails(updateDoc(theirs, { text: '', deletedAt: serverTimestamp() }));
+  });
+});
+
+describe('room membership', () => {
+  test('eligible users can join open rooms, others cannot', async () => {
+    await assertSucceeds(updateDoc(doc(firestoreAs('bob'), 'rooms', 'men'), { participants: arrayUnion('bob') }));
+    await assertFails(updateDoc(doc(firestoreAs('alice'), 'rooms', 'men'), { participants: arrayUnion('alice') }));
+  });
+
+  test('nobody is added to a group without accepting an invitation', async () => {
+    await assertFails(updateDoc(doc(firestoreAs('bob'), 'rooms', 'group'), { participants: arrayUnion('bob') }));
+    await assertFails(updateDoc(doc(firestoreAs('alice'), 'rooms', 'group'), { participants: arrayUnion('bob') }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('alice'), 'rooms', 'group'), { invited: arrayUnion('bob') }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('bob'), 'rooms', 'group'), {
+      participants: arrayUnion('bob'),
+      invited: arrayRemove('bob')
+    }));
+  });
+
+  test('group owners cannot invite someone who blocked them', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'users', 'bob', 'userData', 'blockList'), { blockedUsers: ['alice'] });
+    });
+    await assertFails(updateDoc(doc(firestoreAs('alice'), 'rooms', 'group'), { invited: arrayUnion('bob') }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('alice'), 'rooms', 'group'), { invited: arrayUnion('admin') }));
+    // Slipping them in ahead of someone already invited is checked the same way
+    await assertFails(updateDoc(doc(firestoreAs('alice'), 'rooms', 'group'), { invited: ['bob', 'admin'] }));
+  });
+
+  test('group creators can remove members', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'rooms', 'group'), { participants: ['alice', 'bob'] });
+    });
+    await assertSucceeds(updateDoc(doc(firestoreAs('alice'), 'rooms', 'group'), { participants: ['alice'] }));
+  });
+
+  test('members cannot change who a room is for', async () => {
+    await assertFails(updateDoc(doc(firestoreAs('bob'), 'rooms', 'main'), { audience: 'male' }));
+  });
+
+  test('members can only create private groups that include themselves', async () => {
+    const roomsRef = collection(firestoreAs('bob'), 'rooms');
+    const group = { name: 'New group', type: 'group', createdBy: 'bob', createdAt: serverTimestamp() };
+    await assertSucceeds(addDoc(roomsRef, { ...group, audience: 'members', participants: ['bob'] }));
+    await assertFails(addDoc(roomsRef, { ...group, audience: 'members', participants: ['alice'] }));
+    await assertFails(addDoc(roomsRef, { ...group, audience: 'members', participants: ['bob', 'alice'] }));
+    await assertFails(addDoc(roomsRef, { ...group, audience: 'everyone', participants: ['bob'] }));
+  });
+});
+
+describe('presence', () => {
+  const presence = (userId) => doc(firestoreAs(userId), 'presence', userId);
+
+  test('members share which public room they have open', async () => {
+    await assertSucceeds(setDoc(presence('alice'), { online: true, roomId: 'main', typingIn: 'main' }));
+    await assertSucceeds(setDoc(presence('alice'), { roomId: 'women', typingIn: null }, { merge: true }));
+    await assertSucceeds(getDoc(doc(firestoreAs('bob'), 'presence', 'alice')));
+    await assertFails(setDoc(doc(firestoreAs('bob'), 'presence', 'alice'), { online: false }));
+  });
+
+  test('groups and direct chats are never named in presence', async () => {
+    await assertFails(setDoc(presence('alice'), { online: true, roomId: 'group' }));
+    await assertFails(setDoc(presence('alice'), { online: true, typingIn: 'group' }));
+    await assertFails(setDoc(presence('alice'), { online: true, roomId: 'direct_alice_bob' }));
+    await assertSucceeds(setDoc(presence('alice'), { online: true, roomId: null, typingIn: null }));
+  });
+});
+
+describe('group management', () => {
+  const groupRef = (userId) => doc(firestoreAs(userId), 'rooms', 'group');
+  const setGroup = (data) => testEnv.withSecurityRulesDisabled(async (context) => {
+    await updateDoc(doc(context.firestore(), 'rooms', 'group'), data);
+  });
+
+  test('invitations can be seen and declined by the invitee only', async () => {
+    await setGroup({ invited: ['bob'] });
+    await assertSucceeds(getDocs(query(collection(firestoreAs('bob'), 'rooms'), where('invited', 'array-contains', 'bob'))));
+    await assertFails(getDocs(messages('bob', 'group')));
+    await assertFails(getDoc(doc(firestoreAs('carol'), 'rooms', 'group')));
+    await assertFails(updateDoc(groupRef('carol'), { invited: arrayRemove('bob') }));
+    await assertSucceeds(updateDoc(groupRef('bob'), { invited: arrayRemove('bob') }));
+  });
+
+  test('discoverable groups can be joined by anyone until they are archived', async () => {
+    await assertFails(updateDoc(groupRef('bob'), { participants: arrayUnion('bob'), invited: arrayRemove('bob') }));
+    await setGroup({ discoverable: true });
+    await assertSucceeds(getDoc(groupRef('bob')));
+    await assertSucceeds(updateDoc(groupRef('bob'), { participants: arrayUnion('bob'), invited: arrayRemove('bob') }));
+
+    await setGroup({ participants: ['alice'], archivedAt: new Date() });
+    await assertFails(updateDoc(groupRef('bob'), { participants: arrayUnion('bob'), invited: arrayRemove('bob') }));
+  });
+
+  test('moderators invite and remove members but not other moderators or the owner', async () => {
+    await setGroup({ participants: ['alice', 'bob', 'carol', 'dave'], moderators: ['bob', 'carol'] });
+    await assertSucceeds(updateDoc(groupRef('bob'), { invited: arrayUnion('admin') }));
+    await assertSucceeds(updateDoc(groupRef('bob'), { participants: arrayRemove('dave'), moderators: arrayRemove('dave') }));
+    await assertFails(updateDoc(groupRef('bob'), { participants: arrayRemove('carol'), moderators: arrayRemove('carol') }));
+    await assertFails(updateDoc(groupRef('bob'), { participants: arrayRemove('alice'), moderators: arrayRemove('alice') }));
+    await assertSucceeds(updateDoc(groupRef('alice'), { participants: arrayRemove('carol'), moderators: arrayRemove('carol') }));
+  });
+
+  test('moderators edit the details, only the owner changes settings and roles', async () => {
+    await setGroup({ participants: ['alice', 'bob', 'carol'], moderators: ['bob'] });
+    await assertSucceeds(updateDoc(groupRef('bob'), { name: 'Renamed', description: 'Evenings at nine' }));
+    await assertFails(updateDoc(groupRef('bob'), { name: '', description: '' }));
+    await assertFails(updateDoc(groupRef('carol'), { name: 'Mine now', description: '' }));
+    await assertFails(updateDoc(groupRef('bob'), { discoverable: true }));
+    await assertFails(updateDoc(groupRef('bob'), { moderators: ['bob', 'carol'] }));
+    await assertSucceeds(updateDoc(groupRef('alice'), { discoverable: true, moderators: ['bob', 'carol'] }));
+    await assertFails(updateDoc(groupRef('alice'), { moderators: ['bob', 'dave'] }));
+    await assertFails(updateDoc(groupRef('alice'), { createdBy: 'dave' }));
+    await assertSucceeds(updateDoc(groupRef('alice'), { createdBy: 'bob', moderators: ['alice', 'carol'] }));
+  });
+
+  test('members leave on their own, but the owner hands the group over first', async () => {
+    await setGroup({ participants: ['alice', 'bob'], moderators: ['bob'] });
+    await assertFails(updateDoc(groupRef('alice'), { participants: arrayRemove('alice'), moderators: arrayRemove('alice') }));
+    await assertSucceeds(updateDoc(groupRef('bob'), { participants: arrayRemove('bob'), moderators: arrayRemove('bob') }));
+  });
+
+  test('archived groups take no new messages', async () => {
+    await setGroup({ archivedAt: new Date() });
+    await assertFails(addDoc(messages('alice', 'group'), { senderId: 'alice', text: 'Hello?', timestamp: serverTimestamp() }));
+    await assertSucceeds(getDocs(messages('alice', 'group')));
+  });
+});
+
+describe('moderation', () => {
+  const report = (reporterId, roomId) => ({
+    roomId,
+    messageId: 'first',
+    messageText: 'Welcome',
+    senderId: 'system',
+    reporterId,
+    reason: 'Spam or advertising',
+    status: 'pending',
+    createdAt: serverTimestamp()
+  });
+
+  test('members can report messages in rooms they can read, as themselves', async () => {
+    const reports = collection(firestoreAs('bob'), 'reports');
+    await assertSucceeds(addDoc(reports, report('bob', 'men')));
+    await assertFails(addDoc(reports, report('alice', 'men')));
+    await assertFails(addDoc(reports, report('bob', 'women')));
+    await assertFails(addDoc(reports, { ...report('bob', 'main'), status: 'removed' }));
+  });
+
+  test('reports quote the message as it is stored', async () => {
+    const reports = collection(firestoreAs('bob'), 'reports');
+    await assertFails(addDoc(reports, { ...report('bob', 'main'), messageText: 'Something worse' }));
+    await assertFails(addDoc(reports, { ...report('bob', 'main'), senderId: 'alice' }));
+    await assertFails(addDoc(reports, { ...report('bob', 'main'), imageUrl: 'https://example.com/a.png' }));
+  });
+
+  test('only admins can see and resolve reports', async () => {
+    const reportRef = await addDoc(collection(firestoreAs('bob'), 'reports'), report('bob', 'main'));
+    await assertFails(getDoc(doc(firestoreAs('bob'), 'reports', reportRef.id)));
+    await assertFails(updateDoc(doc(firestoreAs('bob'), 'reports', reportRef.id), { status: 'approved' }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('admin'), 'reports', reportRef.id), { status: 'approved' }));
+  });
+
+  test('only admins can replace a message with a tombstone', async () => {
+    const tombstone = { text: '', removedAt: serverTimestamp(), removedBy: 'admin' };
+    await assertFails(updateDoc(doc(messages('alice', 'main'), 'first'), tombstone));
+    await assertSucceeds(updateDoc(doc(messages('admin', 'main'), 'first'), tombstone));
+  });
+
+  test('the audit trail is admin-only and append-only', async () => {
+    const entry = (moderatorId) => ({
+      moderatorId,
+      action: 'remove',
+      roomId: 'main',
+      messageId: 'first',
+      messageText: 'Welcome',
+      senderId: 'system',
+      reportIds: [],
+      timestamp: serverTimestamp()
+    });
+    await assertFails(addDoc(collection(firestoreAs('bob'), 'moderationLog'), entry('bob')));
+    const entryRef = await assertSucceeds(addDoc(collection(firestoreAs('admin'), 'moderationLog'), entry('admin')));
+    await assertFails(updateDoc(doc(firestoreAs('admin'), 'moderationLog', entryRef.id), { action: 'approve' }));
+  });
+
+  test('members cannot clear their own warnings', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'users', 'bob'), { warnings: [{ reason: 'Spam or advertising', at: new Date() }] });
+    });
+    await assertFails(updateDoc(doc(firestoreAs('bob'), 'users', 'bob'), { warnings: [] }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('bob'), 'users', 'bob'), { username: 'bobby' }));
+  });
+});
+
+describe('account actions', () => {
+  const message = (senderId) => ({ senderId, text: 'Hello', timestamp: serverTimestamp() });
+  const suspend = (until) => testEnv.withSecurityRulesDisabled(async (context) => {
+    await updateDoc(doc(context.firestore(), 'users', 'bob'), {
+      suspension: { kind: until ? 'suspended' : 'banned', reason: 'Harassment', until, by: 'admin', at: new Date() }
+    });
+  });
+
+  test('suspended and banned members cannot post, react or ask to message anyone', async () => {
+    await suspend(new Date(Date.now() + 60 * 60 * 1000));
+    await assertFails(addDoc(messages('bob', 'main'), message('bob')));
+    await assertFails(updateDoc(doc(messages('bob', 'main'), 'first'), { reactions: { '👍': ['bob'] } }));
+    await assertFails(setDoc(doc(firestoreAs('bob'), 'directRequests', 'bob_alice'), {
+      fromId: 'bob',
+      toId: 'alice',
+      status: 'pending',
+      createdAt: serverTimestamp()
+    }));
+
+    await suspend(null);
+    await assertFails(addDoc(messages('bob', 'main'), message('bob')));
+  });
+
+  test('an expired suspension no longer stops anything', async () => {
+    await suspend(new Date(Date.now() - 60 * 1000));
+    await assertSucceeds(addDoc(messages('bob', 'main'), message('bob')));
+  });
+
+  test('only admins can suspend, reinstate or change roles', async () => {
+    await suspend(null);
+    await assertFails(updateDoc(doc(firestoreAs('bob'), 'users', 'bob'), { suspension: null }));
+    await assertFails(updateDoc(doc(firestoreAs('alice'), 'users', 'alice'), { role: 'admin' }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('admin'), 'users', 'bob'), { suspension: null }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('admin'), 'users', 'alice'), { role: 'admin' }));
+  });
+
+  test('suspended members cannot delete their profile until the suspension ends', async () => {
+    await suspend(new Date(Date.now() + 60 * 60 * 1000));
+    await assertFails(deleteDoc(doc(firestoreAs('bob'), 'users', 'bob')));
+    await suspend(new Date(Date.now() - 60 * 1000));
+    await assertSucceeds(deleteDoc(doc(firestoreAs('bob'), 'users', 'bob')));
+  });
+
+  test('members clear a forced password reset only after signing in again', async () => {
+    const requiredAt = Date.now();
+    const signedInAt = (at) => doc(
+      testEnv.authenticatedContext('alice', { auth_time: Math.floor(at / 1000) }).firestore(), 'users', 'alice');
+
+    await assertFails(updateDoc(doc(firestoreAs('alice'), 'users', 'alice'), { passwordResetRequired: true }));
+    await assertFails(updateDoc(doc(firestoreAs('admin'), 'users', 'alice'), {
+      passwordResetRequired: true,
+      passwordResetRequiredAt: new Date(requiredAt - 60 * 60 * 1000)
+    }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('admin'), 'users', 'alice'), {
+      passwordResetRequired: true,
+      passwordResetRequiredAt: serverTimestamp()
+    }));
+    await assertFails(updateDoc(signedInAt(requiredAt - 60 * 1000), { passwordResetRequired: false }));
+    await assertFails(updateDoc(signedInAt(requiredAt - 60 * 1000), {
+      passwordResetRequired: false,
+      passwordResetRequiredAt: new Date(0)
+    }));
+    await assertSucceeds(updateDoc(signedInAt(requiredAt + 60 * 1000), { passwordResetRequired: false }));
+  });
+
+  test('account actions are logged without a message', async () => {
+    await assertSucceeds(addDoc(collection(firestoreAs('admin'), 'moderationLog'), {
+      moderatorId: 'admin',
+      action: 'ban',
+      senderId: 'bob',
+      note: 'Harassment',
+      until: null,
+      timestamp: serverTimestamp()
+    }));
+  });
+});
+
+describe('check-in events', () => {
+  const event = (userId) => ({ userId, day: '2024-03-04', weekday: 1, hour: 9, timestamp: serverTimestamp() });
+  const events = (userId) => collection(firestoreAs(userId), 'checkInEvents');
+
+  test('members record only their own check-ins, timed by the server', async () => {
+    await assertSucceeds(addDoc(events('alice'), event('alice')));
+    await assertFails(addDoc(events('alice'), event('bob')));
+    await assertFails(addDoc(events('alice'), { ...event('alice'), timestamp: new Date(0) }));
+    await assertFails(addDoc(events('alice'), { ...event('alice'), hour: 24 }));
+  });
+
+  test('days are date keys no more than a day ahead of the server', async () => {
+    const dayFromNow = (days) => new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    await assertSucceeds(addDoc(events('alice'), { ...event('alice'), day: dayFromNow(0) }));
+    await assertSucceeds(addDoc(events('alice'), { ...event('alice'), day: dayFromNow(1) }));
+    await assertFails(addDoc(events('alice'), { ...event('alice'), day: dayFromNow(2) }));
+    await assertFails(addDoc(events('alice'), { ...event('alice'), day: '2024-3-4' }));
+    await assertFails(addDoc(events('alice'), { ...event('alice'), day: '2024-03-04 or any text' }));
+    await assertFails(addDoc(events('alice'), { ...event('alice'), day: '2024-13-45' }));
+  });
+
+  test('only admins can read everyone\'s check-ins', async () => {
+    await addDoc(events('alice'), event('alice'));
+    await assertSucceeds(getDocs(collection(firestoreAs('admin'), 'checkInEvents')));
+    await assertFails(getDocs(events('bob')));
+    await assertSucceeds(getDocs(query(events('alice'), where('userId', '==', 'alice'))));
+  });
+
+  test('events cannot be changed, only deleted by their member', async () => {
+    const eventRef = await addDoc(events('alice'), event('alice'));
+    await assertFails(updateDoc(doc(firestoreAs('alice'), 'checkInEvents', eventRef.id), { hour: 10 }));
+    await assertFails(deleteDoc(doc(firestoreAs('bob'), 'checkInEvents', eventRef.id)));
+    await assertSucceeds(deleteDoc(doc(firestoreAs('alice'), 'checkInEvents', eventRef.id)));
+  });
+});
+
+describe('identities', () => {
+  const identity = (userId, ownerId) => doc(firestoreAs(userId), 'users', ownerId, 'private', 'identity');
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'users', 'bob', 'private', 'identity'), { firstName: 'Bob', lastName: 'Smith' });
+    });
+  });
+
+  test('only the member and admins can read a real name', async () => {
+    await assertSucceeds(getDoc(identity('bob', 'bob')));
+    await assertSucceeds(getDoc(identity('admin', 'bob')));
+    await assertFails(getDoc(identity('alice', 'bob')));
+    await assertSucceeds(getDocs(collectionGroup(firestoreAs('admin'), 'private')));
+    await assertFails(getDocs(collectionGroup(firestoreAs('alice'), 'private')));
+  });
+
+  test('real names cannot be put on the public profile', async () => {
+    await assertFails(setDoc(doc(firestoreAs('carol'), 'users', 'carol'), { username: 'carol', firstName: 'Carol' }));
+    await assertSucceeds(setDoc(doc(firestoreAs('carol'), 'users', 'carol'), { username: 'carol', alias: 'Sunrise' }));
+    await assertFails(updateDoc(doc(firestoreAs('bob'), 'users', 'bob'), { email: 'bob@example.com' }));
+  });
+
+  test('members can remove names left on their profile from before', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await updateDoc(doc(context.firestore(), 'users', 'bob'), { firstName: 'Bob' });
+    });
+    await assertFails(updateDoc(doc(firestoreAs('bob'), 'users', 'bob'), { firstName: 'Robert' }));
+    await assertSucceeds(updateDoc(doc(firestoreAs('bob'), 'users', 'bob'), { firstName: deleteField() }));
+  });
+});
+
+describe('community map', () => {
+  const region = (userId, regionId) => doc(firestoreAs(userId), 'mapRegions', regionId);
+  const member = (userId, ownerId) => doc(firestoreAs(userId), 'mapMembers', ownerId);
+
+  beforeEach(async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await setDoc(doc(db, 'mapRegions', 'us'), { country: 'us', state: null, count: 7 });
+      await setDoc(doc(db, 'mapRegions', 'us-CA'), { country: 'us', state: 'CA', count: 5 });
+      await setDoc(doc(db, 'mapRegions', 'us-TX'), { country: 'us', state: 'TX', count: 2 });
+      await setDoc(doc(db, 'mapRegions', 'gb'), { country: 'gb', state: null, count: 2 });
+      await setDoc(doc(db, 'mapMembers', 'bob'), { regions: ['gb'] });
+    });
+  });
+
+  test('regions with too few members cannot be read', async () => {
+    await assertSucceeds(getDoc(region('alice', 'us')));
+    await assertSucceeds(getDoc(region('alice', 'us-CA')));
+    await assertFails(getDoc(region('alice', 'us-TX')));
+    await assertFails(getDoc(region('alice', 'gb')));
+    await assertSucceeds(getDocs(query(collection(firestoreAs('alice'), 'mapRegions'), where('count', '>=', 5))));
+    await assertFails(getDocs(collection(firestoreAs('alice'), 'mapRegions')));
+  });
+
+  test('only the member knows where they are counted', async () => {
+    await assertSucceeds(getDoc(member('bob', 'bob')));
+    await assertFails(getDoc(member('alice', 'bob')));
+  });
+
+  test('joining counts the member once in their country and once in their state', async () => {
+    const db = firestoreAs('alice');
+    const join = writeBatch(db);
+    join.set(member('alice', 'alice'), { regions: ['us', 'us-CA'] });
+    join.set(region('alice', 'us'), { country: 'us', state: null, count: increment(1) }, { merge: true });
+    join.set(region('alice', 'us-CA'), { country: 'us', state: 'CA', count: increment(1) }, { merge: true });
+    await assertSucceeds(join.commit());
+
+    const again = writeBatch(db);
+    again.set(region('alice', 'us-CA'), { count: increment(1) }, { merge: true });
+    await assertFails(again.commit());
+  });
+
+  test('a state is always counted together with its own country', async () => {
+    const stateOnly = writeBatch(firestoreAs('alice'));
+    stateOnly.set(member('alice', 'alice'), { regions: ['us', 'us-CA'] });
+    stateOnly.update(region('alice', 'us-CA'), { count: increment(1) });
+    await assertFails(stateOnly.commit());
+
+    const otherCountry = writeBatch(firestoreAs('alice'));
+    otherCountry.set(member('alice', 'alice'), { regions: ['gb', 'us-CA'] });
+    otherCountry.update(region('alice', 'gb'), { count: increment(1) });
+    otherCountry.update(region('alice', 'us-CA'), { count: increment(1) });
+    await assertFails(otherCountry.commit());
+  });
+
+  test('counts cannot change without the member record, or by more than one', async () => {
+    await assertFails(updateDoc(region('alice', 'us-CA'), { count: increment(1) }));
+    await assertFails(setDoc(member('alice', 'alice'), { regions: ['us', 'us-CA'] }));
+
+    const twice = writeBatch(firestoreAs('alice'));
+    twice.set(member('alice', 'alice'), { regions: ['us'] });
+    twice.update(region('alice', 'us'), { count: increment(2) });
+    await assertFails(twice.commit());
+  });
+
+  test('new regions must match their id', async () => {
+    const wrong = writeBatch(firestoreAs('alice'));
+    wrong.set(member('alice', 'alice'), { regions: ['fr'] });
+    wrong.set(region('alice', 'fr'), { country: 'de', state: null, count: 1 });
+    await assertFails(wrong.commit());
+
+    const right = writeBatch(firestoreAs('alice'));
+    right.set(member('alice', 'alice'), { regions: ['fr'] });
+    right.set(region('alice', 'fr'), { country: 'fr', state: null, count: 1 });
+    await assertSucceeds(right.commit());
+  });
+
+  test('members can move or leave, taking only their own count', async () => {
+    await assertFails(updateDoc(region('alice', 'gb'), { count: increment(-1) }));
+
+    const move = writeBatch(firestoreAs('bob'));
+    move.update(member('bob', 'bob'), { regions: ['us', 'us-CA'] });
+    move.update(region('bob', 'gb'), { count: increment(-1) });
+    move.update(region('bob', 'us'), { count: increment(1) });
+    move.update(region('bob', 'us-CA'), { count: increment(1) });
+    await assertSucceeds(move.commit());
+
+    const changeState = writeBatch(firestoreAs('bob'));
+    changeState.update(member('bob', 'bob'), { regions: ['us', 'us-TX'] });
+    changeState.update(region('bob', 'us-CA'), { count: increment(-1) });
+    changeState.update(region('bob', 'us-TX'), { count: increment(1) });
+    await assertSucceeds(changeState.commit());
+
+    const leave = writeBatch(firestoreAs('bob'));
+    leave.delete(member('bob', 'bob'));
+    leave.update(region('bob', 'us'), { count: increment(-1) });
+    leave.update(region('bob', 'us-TX'), { count: increment(-1) });
+    await assertSucceeds(leave.commit());
+  });
+
+  test('members counted only in their state are added to their country', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'mapMembers', 'carol'), { region: 'us-CA' });
+    });
+
+    const upgrade = writeBatch(firestoreAs('carol'));
+    upgrade.set(member('carol', 'carol'), { regions: ['us', 'us-CA'] });
+    upgrade.update(region('carol', 'us'), { count: increment(1) });
+    await assertSucceeds(upgrade.commit());
+  });
+
+  test('locations cannot be put on the public profile', async () => {
+    await assertFails(updateDoc(doc(firestoreAs('bob'), 'users', 'bob'), { location: { country: 'gb' } }));
+  });
+});
+
+describe('settings', () => {
+  const contentFilter = (userId) => doc(firestoreAs(userId), 'settings', 'contentFilter');
+
+  test('members can read the content filter but not change it', async () => {
+    await assertSucceeds(getDoc(contentFilter('bob')));
+    await assertFails(getDoc(contentFilter(null)));
+    await assertFails(setDoc(contentFilter('bob'), { rules: {} }));
+  });
+
+  test('admins can change the content filter', async () => {
+    await assertSucceeds(setDoc(contentFilter('admin'), { rules: {}, updatedBy: 'admin', updatedAt: serverTimestamp() }));
+  });
+
+  test('members can file reports on their own messages for the filter', async () => {
+    const sent = await addDoc(messages('bob', 'main'), { senderId: 'bob', text: 'Call me on 0412 345 678', timestamp: serverTimestamp() });
+    await assertSucceeds(addDoc(collection(firestoreAs('bob'), 'reports'), {
+      roomId: 'main',
+      messageId: sent.id,
+      messageText: 'Call me on 0412 345 678',
+      senderId: 'bob',
+      reporterId: 'bob',
+      source: 'filter',
+      reason: 'Content filter: Phone numbers and emails',
+      status: 'pending',
+      createdAt: serverTimestamp()
+    }));
+  });
+});
+
+describe('direct messages', () => {
+  const requestRef = (userId, requestId) => doc(firestoreAs(userId), 'directRequests', requestId);
+  const directRequest = (fromId, toId) => ({ fromId, toId, status: 'pending', createdAt: serverTimestamp() });
+  const directRoom = (fromId, toId) => ({
+    name: 'Direct message',
+    type: 'direct',
+    audience: 'members',
+    participants: [fromId, toId],
+    createdBy: toId,
+    createdAt: serverTimestamp()
+  });
+
+  test('members can ask each other for a conversation, as themselves', async () => {
+    await assertSucceeds(setDoc(requestRef('bob', 'bob_alice'), directRequest('bob', 'alice')));
+    await assertFails(setDoc(requestRef('bob', 'alice_bob'), directRequest('alice', 'bob')));
+    await assertFails(setDoc(requestRef('bob', 'bob_admin'), { ...directRequest('bob', 'admin'), status: 'accepted' }));
+  });
+
+  test('nobody can ask someone who blocked them', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'users', 'alice', 'userData', 'blockList'), { blockedUsers: ['bob'] });
+    });
+    await assertFails(setDoc(requestRef('bob', 'bob_alice'), directRequest('bob', 'alice')));
+  });
+
+  test('block lists are private and never stored on the profile', async () => {
+    const blockList = (userId, ownerId) => doc(firestoreAs(userId), 'users', ownerId, 'userData', 'blockList');
+    await assertSucceeds(setDoc(blockList('alice', 'alice'), { blockedUsers: ['bob'], mutedUsers: [] }));
+    await assertSucceeds(getDoc(blockList('alice', 'alice')));
+    await assertFails(getDoc(blockList('bob', 'alice')));
+    await assertFails(setDoc(blockList('bob', 'alice'), { blockedUsers: [] }));
+    await assertFails(updateDoc(doc(firestoreAs('alice'), 'users', 'alice'), { blockedUsers: ['bob'] }));
+    await assertFails(setDoc(requestRef('bob', 'bob_alice'), directRequest('bob', 'alice')));
+  });
+
+  test('only the recipient can accept, and only the sender can withdraw', async () => {
+    await setDoc(requestRef('bob', 'bob_alice'), directRequest('bob', 'alice'));
+    await assertFails(updateDoc(requestRef('bob', 'bob_alice'), { status: 'accepted', respondedAt: serverTimestamp() }));
+    await assertFails(deleteDoc(requestRef('alice', 'bob_alice')));
+    await assertSucceeds(deleteDoc(requestRef('bob', 'bob_alice')));
+
+    await setDoc(requestRef('bob', 'bob_alice'), directRequest('bob', 'alice'));
+    await assertSucceeds(updateDoc(requestRef('alice', 'bob_alice'), { status: 'declined', respondedAt: serverTimestamp() }));
+    await assertFails(deleteDoc(requestRef('bob', 'bob_alice')));
+  });
+
+  test('requests are only visible to the two members involved', async () => {
+    await setDoc(requestRef('bob', 'bob_alice'), directRequest('bob', 'alice'));
+    await assertSucceeds(getDocs(query(collection(firestoreAs('alice'), 'directRequests'), where('toId', '==', 'alice'))));
+    await assertFails(getDoc(requestRef('admin', 'bob_alice')));
+  });
+
+  test('only the recipient of a request can open the conversation', async () => {
+    const roomRef = (userId) => doc(firestoreAs(userId), 'rooms', 'direct_alice_bob');
+    await assertFails(setDoc(roomRef('alice'), directRoom('bob', 'alice')));
+
+    await setDoc(requestRef('bob', 'bob_alice'), directRequest('bob', 'alice'));
+    await assertFails(setDoc(roomRef('bob'), { ...directRoom('alice', 'bob'), createdBy: 'bob' }));
+    await assertFails(setDoc(doc(firestoreAs('alice'), 'rooms', 'direct_other'), directRoom('bob', 'alice')));
+    await assertSucceeds(setDoc(roomRef('alice'), directRoom('bob', 'alice')));
+    await assertSucceeds(addDoc(messages('bob', 'direct_alice_bob'), { senderId: 'bob', text: 'Hi', timestamp: serverTimestamp() }));
+    await assertFails(getDocs(messages('carol', 'direct_alice_bob')));
+  });
+
+  test('a partner who blocked the sender stops receiving messages', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'rooms', 'direct_alice_bob'), directRoom('bob', 'alice'));
+      await setDoc(doc(context.firestore(), 'users', 'alice', 'userData', 'blockList'), { blockedUsers: ['bob'] });
+    });
+    await assertFails(addDoc(messages('bob', 'direct_alice_bob'), { senderId: 'bob', text: 'Hi', timestamp: serverTimestamp() }));
+    await assertSucceeds(addDoc(messages('alice', 'direct_alice_bob'), { senderId: 'alice', text: 'Bye', timestamp: serverTimestamp() }));
+  });
+});
+
+describe('accountability partners', () => {
+  const sharing = { streak: true, checkIns: true, relapses: false, alerts: true };
+  const partnershipRef = (userId) => doc(firestoreAs(userId), 'partnerships', 'alice_bob');
+  const invitation = (fromId, toId) => ({
+    members: [fromId, toId],
+    status: 'pending',
+    sharing: { [fromId]: sharing },
+    createdAt: serverTimestamp()
+  });
+  const accept = (userId) => updateDoc(partnershipRef(userId), {
+    status: 'active',
+    [`sharing.${userId}`]: sharing,
+    acceptedAt: serverTimestamp()
+  });
+  const alert = (fromId, toId) => ({ fromId, toId, type: 'panic', read: false, createdAt: serverTimestamp() });
+
+  test('members can invite each other, as themselves and under the pair id', async () => {
+    await assertFails(setDoc(partnershipRef('bob'), invitation('alice', 'bob')));
+    await assertFails(setDoc(doc(firestoreAs('bob'), 'partnerships', 'bob_alice'), invitation('bob', 'alice')));
+    await assertFails(setDoc(partnershipRef('bob'), { ...invitation('bob', 'alice'), status: 'active' }));
+    await assertSucceeds(setDoc(partnershipRef('bob'), invitation('bob', 'alice')));
+  });
+
+  test('nobody can invite someone who blocked them', async () => {
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      await setDoc(doc(context.firestore(), 'users', 'alice', 'userData', 'blockList'), { blockedUsers: ['bob'] });
+    });
+    await assertFails(setDoc(partnershipRef('bob'), invitation('bob', 'alice')));
+  });
+
+  test('only the invited member can accept', async () => {
+    await setDoc(partnershipRef('bob'), invitation('bob', 'alice'));
+    await assertFails(accept('bob'));
+    await assertSucceeds(accept('alice'));
+  });
+
+  test('partners only change what they share themselves', async () => {
+    await setDoc(partnershipRef('bob'), invitation('bob', 'alice'));
+    await assertFails(updateDoc(partnershipRef('bob'), { 'progress.bob': { currentStreak: 3 } }));
+    await accept('alice');
+
+    await assertSucceeds(updateDoc(partnershipRef('bob'), { 'progress.bob': { currentStreak: 3 } }));
+    await assertSucceeds(updateDoc(partnershipRef('alice'), { 'sharing.alice': { ...sharing, streak: false } }));
+    await assertFails(updateDoc(partnershipRef('bob'), { 'sharing.alice': sharing }));
+    await assertFails(updateDoc(partnershipRef('bob'), { 'progress.alice': { currentStreak: 100 } }));
+    await assertFails(updateDoc(partnershipRef('bob'), { status: 'pending' }));
+  });
+
+  test('the partnership is private to its members, and either may end it', async () => {
+    await setDoc(partnershipRef('bob'), invitation('bob', 'alice'));
+    await assertSucceeds(getDocs(query(collection(firestoreAs('alice'), 'partnerships'), where('members', 'array-contains', 'alice'))));
+    await assertFails(getDoc(partnershipRef('admin')));
+    await assertFails(deleteDoc(partnershipRef('admin')));
+    await assertSucceeds(deleteDoc(partnershipRef('alice')));
+  });
+
+  test('alerts need an active partnership that shares them', async () => {
+    const alerts = (userId) => collection(firestoreAs(userId), 'partnerAlerts');
+    await assertFails(addDoc(alerts('bob'), alert('bob', 'alice')));
+
+    await setDoc(partnershipRef('bob'), invitation('bob', 'alice'));
+    await assertFails(addDoc(alerts('bob'), alert('bob', 'alice')));
+
+    await accept('alice');
+    const alertRef = await assertSucceeds(addDoc(alerts('bob'), alert('bob', 'alice')));
+    await assertFails(addDoc(alerts('bob'), { ...alert('bob', 'alice'), fromId: 'alice' }));
+    await assertFails(getDoc(doc(firestoreAs('bob'), 'partnerAlerts', alertRef.id)));
+    await assertSucceeds(updateDoc(doc(firestoreAs('alice'), 'partnerAlerts', alertRef.id), { read: true }));
+
+    await updateDoc(partnershipRef('bob'), { 'sharing.bob': { ...sharing, alerts: false } });
+    await assertFails(addDoc(alerts('bob'), alert('bob', 'alice')));
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Streak engine tests. Pure functions only, so they run without Firebase:
+ * `npm test`.
+ */
+import { describe, expect, test } from 'vitest';
+import { buildStreakTimeline, StreakEvents, summarizeStreaks } from '../src/utils/streaks';
+import { DayBoundary, toDayKey } from '../src/utils/dayBoundary';
+
+const UTC: DayBoundary = { timeZone: 'UTC', rolloverHour: 0 };
+
+// Noon UTC on a day in March 2026, well away from any day boundary
+const march = (day: number) => new Date(Date.UTC(2026, 2, day, 12));
+const marchDays = (from: number, to: number) =>
+  Array.from({ length: to - from + 1 }, (_, i) => march(from + i));
+
+const events = (overrides: Partial<StreakEvents> = {}): StreakEvents => ({
+  startDate: new Date(2026, 2, 1),
+  trackingSince: march(1),
+  checkIns: [],
+  relapses: [],
+  ...overrides
+});
+
+describe('relapses and the start date', () => {
+  test('a relapse resets the streak to zero on its day', () => {
+    const summary = summarizeStreaks(events({ checkIns: marchDays(1, 10), relapses: [march(5)] }), march(10), UTC);
+    const timeline = buildStreakTimeline(events({ checkIns: marchDays(1, 10), relapses: [march(5)] }), march(10), UTC);
+
+    expect(timeline.find(day => day.key === '2026-03-05')).toMatchObject({ streak: 0, hadRelapse: true });
+    expect(summary.currentStreak).toBe(5);
+    expect(summary.longestStreak).toBe(5);
+    expect(summary.relapseDays).toBe(1);
+  });
+
+  test('the streak counts from the declared start, trusting days before the first check-in', () => {
+    const summary = summarizeStreaks(events({ startDate: new Date(2026, 2, 5) }), march(10), UTC);
+    expect(summary.currentStreak).toBe(5);
+    expect(summary.pendingDays).toEqual([]);
+  });
+
+  test('relapses before tracking began still start the history', () => {
+    const timeline = buildStreakTimeline(events({ relapses: [new Date(Date.UTC(2026, 1, 20, 12))] }), march(3), UTC);
+    expect(timeline[0].key).toBe('2026-02-20');
+  });
+});
+
+describe('grace window', () => {
+  test('a recently missed day is pending and keeps the streak alive', () => {
+    const summary = summarizeStreaks(events({ checkIns: marchDays(1, 10) }), march(12), UTC);
+    expect(summary.currentStreak).toBe(11);
+    expect(summary.pendingDays.map(day => day.key)).toEqual(['2026-03-11']);
+  });
+
+  test('confirming a missed day clears it', () => {
+    const summary = summarizeStreaks(events({ checkIns: marchDays(1, 10), confirmedDays: ['2026-03-11'] }), march(12), UTC);
+    expect(summary.currentStreak).toBe(11);
+    expect(summary.pendingDays).toEqual([]);
+  });
+
+  test('a miss outside the window resets the streak', () => {
+    const timeline = buildStreakTimeline(events({ checkIns: marchDays(1, 4) }), march(10), UTC);
+    expect(timeline.find(day => day.key === '2026-03-05')).toMatchObject({ streak: 0, pending: false });
+  });
+
+  test('pending days do not restart a streak that has already been reset', () => {
+    const timeline = buildStreakTimeline(events({ checkIns: marchDays(1, 10) }), march(20), UTC);
+    const summary = summarizeStreaks(events({ checkIns: marchDays(1, 10) }), march(20), UTC);
+
+    expect(timeline.filter(day => day.key > '2026-03-14').map(day => day.streak)).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(summary.currentStreak).toBe(0);
+    expect(summary.pendingDays.map(day => day.key)).toEqual(['2026-03-17', '2026-03-18', '2026-03-19']);
+  });
+
+  test('checking in again after a reset starts a new streak', () => {
+    const summary = summarizeStreaks(events({ checkIns: [...marchDays(1, 10), march(20)] }), march(20), UTC);
+    expect(summary.currentStreak).toBe(1);
+    expect(summary.checkedInToday).toBe(true);
+  });
+});
+
+describe('freeze tokens', () => {
+  test('one is earned every seven streak days, up to the maximum', () => {
+    const timeline = buildStreakTimeline(events({ checkIns: marchDays(1, 31) }), march(31), UTC);
+    expect(timeline.find(day => day.streak === 6).freezeTokens).toBe(0);
+    expect(timeline.find(day => day.streak === 7).freezeTokens).toBe(1);
+    expect(timeline[timeline.length - 1].freezeTokens).toBe(3);
+  });
+
+  test('a held token covers a missed day outside the grace window', () => {
+    const checkIns = [...marchDays(1, 8), ...marchDays(10, 15)];
+    const timeline = buildStreakTimeline(events({ checkIns }), march(15), UTC);
+
+    expect(timeline.find(day => day.key === '2026-03-09')).toMatchObject({ frozen: true, streak: 8, freezeTokens: 0 });
+    expect(timeline[timeline.length - 1]).toMatchObject({ streak: 14, freezeTokens: 1 });
+  });
+
+  test('without a token the missed day resets the streak', () => {
+    const checkIns = [...marchDays(1, 4), ...marchDays(6, 15)];
+    const timeline = buildStreakTimeline(events({ checkIns }), march(15), UTC);
+    expect(timeline.find(day => day.key === '2026-03-05')).toMatchObject({ frozen: false, streak: 0 });
+    expect(timeline[timeline.length - 1].streak).toBe(10);
+  });
+});
+
+describe('day boundaries', () => {
+  const newYork: DayBoundary = { timeZone: 'America/New_York', rolloverHour: 4 };
+
+  test('days are keyed in the user\'s time zone', () => {
+    expect(toDayKey(new Date('2026-03-10T16:00:00Z'), { timeZone: 'Asia/Tokyo', rolloverHour: 0 })).toBe('2026-03-11');
+    expect(toDayKey(new Date('2026-03-10T16:00:00Z'), UTC)).toBe('2026-03-10');
+  });
+
+  test('a check-in before the rollover hour counts for the previous day', () => {
+    const lateNight = new Date('2026-03-11T06:30:00Z'); // 02:30 in New York
+    expect(toDayKey(lateNight, newYork)).toBe('2026-03-10');
+
+    const summary = summarizeStreaks(
+      events({ startDate: new Date(2026, 2, 9), trackingSince: march(9), checkIns: [lateNight] }),
+      new Date('2026-03-11T07:00:00Z'),
+      newYork
+    );
+    expect(summary.checkedInToday).toBe(true);
+  });
+
+  test('the rollover follows the wall clock across daylight saving changes', () => {
+    expect(toDayKey(new Date('2026-03-08T08:30:00Z'), newYork)).toBe('2026-03-08'); // 04:30 EDT
+    expect(toDayKey(new Date('2026-03-08T07:30:00Z'), newYork)).toBe('2026-03-07'); // 03:30 EDT
+    expect(toDayKey(new Date('2026-11-01T08:30:00Z'), newYork)).toBe('2026-10-31'); // 03:30 EST
+    expect(toDayKey(new Date('2026-11-01T09:30:00Z'), newYork)).toBe('2026-11-01'); // 04:30 EST
+  });
+});